@@ -8,6 +8,10 @@ export type VocabRow = {
   pronunciation?: string
   pos?: string
   example?: string
+  // Alternative answers accepted in production mode, separated by "|"
+  accepted?: string
+  // Space-separated tags
+  tags?: string
 }
 
 export type PdfMeta = {
@@ -42,9 +46,11 @@ export type PdfHighlight = {
   wordKey: string
   meaning?: string
   pronunciation?: string
+  contextSentenceEn?: string
 }
 
-export type AutoMeaningCandidate = { vi: string; pos?: string; back?: string[] }
+// source: translation provider that produced the candidate (see TranslationProviderId)
+export type AutoMeaningCandidate = { vi: string; pos?: string; back?: string[]; source?: TranslationProviderId; dictionary?: string }
 
 export type AutoMeaningResponse = {
   requestId: string
@@ -55,6 +61,10 @@ export type AutoMeaningResponse = {
   meaningNoteVie: string
   contextSentenceVi: string
   candidates: AutoMeaningCandidate[]
+  // Provider used for the candidates and the context translation ('' = none)
+  sources?: { candidates: TranslationProviderId | ''; contextSentenceVi: TranslationProviderId | '' }
+  // Every AI/dictionary response came from the persistent cache (no quota used)
+  cached?: boolean
 }
 
 export type EnrichWordResponse = AutoMeaningResponse & {
@@ -91,6 +101,252 @@ export type TranslateExplainResponse = {
   explanation: string
 }
 
+export type VocabDbOp =
+  | { op: 'put'; id: string; record: Record<string, any> }
+  | { op: 'del'; id: string }
+  | { op: 'clear' }
+
+export type VocabDbLoadResult = {
+  records: Record<string, any>
+  // false on first run (nothing on disk yet)
+  exists: boolean
+  // true when the legacy localStorage payload was imported
+  migrated: boolean
+  error?: string
+}
+
+export type ReviewLogEntry = {
+  ts: number
+  recordId: string
+  word?: string
+  source?: string
+  // 'quality' = answered in a session with an SM-2 quality (rating 0..5), 'review' = answered in a session
+  // with a difficulty (rating 1..4), 'difficulty' = Smart Review rating, 'initial' = first rating from Custom Study
+  kind: 'quality' | 'review' | 'difficulty' | 'initial'
+  rating: number | null
+  correct: boolean | null
+  // Time since the previous review of this record
+  elapsedMs: number | null
+  prevInterval: number | null
+  newInterval: number | null
+  scheduler?: string
+}
+
+export type ReviewLogQuery = {
+  from?: number
+  to?: number
+  recordId?: string
+  recordIds?: string[]
+  limit?: number
+}
+
+export type AnkiExportResult = { filePath: string; count: number }
+
+// Anki schedule for one imported word (first card of the note)
+export type AnkiScheduling = {
+  word: string
+  meaning: string
+  interval: number
+  easeFactor: number
+  repetitions: number // correct answers in a row since the last lapse
+  timesReviewed?: number // every answer Anki recorded for the card
+  lapses: number
+  nextReviewDate: number
+  lastReviewDate?: number
+  state: 'learning' | 'reviewing'
+}
+
+export type AnkiImportResult = {
+  relPath: string
+  deckName: string
+  added: number
+  skipped: number
+  scheduling: AnkiScheduling[]
+}
+
+export type SyncSideInfo = {
+  exists: boolean
+  updatedAt?: number
+  // files
+  size?: number
+  rows?: number
+  // records
+  state?: string
+  interval?: number
+  nextReviewDate?: number
+  timesReviewed?: number
+}
+
+export type SyncConflict = {
+  id: string
+  kind: 'file' | 'record'
+  key: string
+  label: string
+  local: SyncSideInfo
+  remote: SyncSideInfo
+  canMerge: boolean
+}
+
+export type SyncResult = {
+  pushed: number
+  pulled: number
+  deletedLocal: number
+  deletedRemote: number
+  conflicts: number
+}
+
+export type SyncStatus = {
+  folder: string | null
+  deviceId: string
+  lastSyncAt: number | null
+  lastResult: SyncResult | null
+  conflicts: SyncConflict[]
+}
+
+export type SyncResolveChoice = 'local' | 'remote' | 'newer' | 'merge'
+
+export type BackupInfo = {
+  id: string
+  kind: 'daily' | 'pre-op' | 'manual'
+  reason: string
+  createdAt: number
+  files: number
+  records: number
+}
+
+export type BackupFileDiff = {
+  key: string
+  // restored: only in the snapshot; removed: only in current data
+  status: 'changed' | 'restored' | 'removed'
+  restoredCount?: number
+  droppedCount?: number
+  restored?: string[]
+  dropped?: string[]
+}
+
+export type BackupDiff = {
+  id: string
+  files: BackupFileDiff[]
+  records: {
+    restored: string[]
+    removed: string[]
+    changed: string[]
+    restoredCount: number
+    removedCount: number
+    changedCount: number
+  }
+}
+
+export type SearchHitKind = 'csv' | 'pdfDeck' | 'highlight' | 'srs'
+
+export type SearchHit = {
+  kind: SearchHitKind
+  word: string
+  meaning: string
+  meaningEn?: string
+  meaningVi?: string
+  example?: string
+  // csv: path relative to vocab-data; pdfDeck: absolute deck CSV path; srs: record source
+  file?: string
+  index?: number // row index inside the CSV
+  pdfId?: string
+  pdfName?: string
+  page?: number // highlights only
+  recordId?: string // srs only
+  state?: string
+  score: number
+}
+
+// Google AI quota dashboard. Limits are requests per minute/day tracked locally (null = no limit).
+export type QuotaStatus = 'ok' | 'cooldown' | 'exhausted'
+
+export type QuotaKeyModelUsage = {
+  model: string
+  rpmUsed: number
+  rpdUsed: number
+  rpm: number | null
+  rpd: number | null
+  remaining: number | null // requests left today
+  status: QuotaStatus
+  blockedUntilMs: number // 0 = not blocked
+}
+
+export type QuotaUsage = {
+  dayKey: string // YYYY-MM-DD (local)
+  resetAtMs: number
+  keys: Array<{ keyId: string; name: string; masked: string; active: boolean; models: QuotaKeyModelUsage[] }>
+  limits: Array<{ model: string; rpm: number | null; rpd: number | null; isDefault: boolean; fromEnv: boolean }>
+  history: Array<{ day: string; requests: number; limited: number; byModel: Record<string, number> }>
+}
+
+export type LlmProviderId = 'google' | 'openai' | 'local'
+
+export type LlmProviderSettings = {
+  provider: LlmProviderId
+  openai: { baseUrl: string; model: string; hasApiKey: boolean; maskedApiKey: string }
+  local: { baseUrl: string; model: string }
+}
+
+export type LlmProviderPatch = {
+  provider?: LlmProviderId
+  // apiKey: omit to keep the saved key, '' to remove it
+  openai?: { baseUrl?: string; model?: string; apiKey?: string }
+  local?: { baseUrl?: string; model?: string }
+}
+
+export type LlmProviderTestResult =
+  | { ok: true; provider: LlmProviderId; model: string; text: string; ms: number }
+  | { ok: false; error: string; ms: number }
+
+export type TranslationProviderId = 'llm' | 'azure' | 'offline' | 'libretranslate'
+
+export type TranslationProviderInfo = {
+  id: TranslationProviderId
+  label: string
+  enabled: boolean
+  capabilities: { dictionary: boolean; translate: boolean }
+  available: boolean
+  reason: string // why it is unavailable
+}
+
+export type TranslationProvidersInfo = {
+  chain: TranslationProviderInfo[] // priority order
+  libretranslate: { baseUrl: string; hasApiKey: boolean }
+  dictionariesPath: string
+  dictionaries: Array<{ file: string; name: string; entries: number }>
+}
+
+// Persistent response cache (userData/response-cache.jsonl)
+// Renderer lookups may only use the dictionaryapi.dev provider (the main process pins it).
+export type ResponseCacheKeyParts = {
+  provider: 'dictionaryapi'
+  kind: string // lookup kind, e.g. definition
+  input: string
+}
+
+export type ResponseCacheStats = {
+  entries: number
+  bytes: number
+  maxEntries: number
+  maxBytes: number
+  sessionHits: number // since the app started
+  sessionMisses: number
+  byKind: Record<string, number>
+}
+
+// Result of importing a dictionary pack into userData/dictionaries
+export type DictionaryImportResult = {
+  file: string
+  name: string
+  format: 'stardict' | 'dictd' | 'json' | 'tsv'
+  entries: number
+}
+
+export type TranslationProvidersPatch = {
+  chain?: Array<{ id: TranslationProviderId; enabled: boolean }>
+  libretranslate?: { baseUrl?: string; apiKey?: string }
+}
+
 export interface WindowApi {
   listTree: () => Promise<TreeNode[]>
   createFolder: (parentRelPath: string, name: string) => Promise<boolean>
@@ -132,6 +388,8 @@ export interface WindowApi {
 
   suggestExampleSentence: (payload: { word: string; meaningVi?: string; pos?: string; contextSentenceEn?: string }) => Promise<string>
 
+  suggestMnemonic: (payload: { word: string; meaningVi?: string; pos?: string }) => Promise<string>
+
   suggestIpa: (payload: { word: string; dialect?: 'US' | 'UK' }) => Promise<string>
 
   getWordFamily: (payload: { word: string }) => Promise<WordFamilyResponse>
@@ -146,8 +404,36 @@ export interface WindowApi {
 
   translateExplain: (payload: { text: string; from?: string; to?: string; region?: string }) => Promise<TranslateExplainResponse>
 
-  // Export Smart Review (VocabularyStore localStorage: vocab_store_v2)
+  // Export Smart Review (VocabularyStore snapshot)
   exportSmartReview: (rawJson: string) => Promise<string | null>
+  importSmartReview: () => Promise<{ filePath: string; data: unknown } | null>
+
+  vocabDbLoadSync: (legacyJson?: string) => VocabDbLoadResult
+  vocabDbWrite: (ops: VocabDbOp[]) => Promise<{ written: number }>
+  vocabDbGetAll: () => Promise<Record<string, any>>
+  vocabDbGet: (id: string) => Promise<Record<string, any> | null>
+
+  reviewLogAppend: (entries: ReviewLogEntry | ReviewLogEntry[]) => Promise<{ appended: number }>
+  reviewLogQuery: (query?: ReviewLogQuery) => Promise<ReviewLogEntry[]>
+  reviewLogCount: () => Promise<number>
+
+  ankiExportCsv: (fileRelOrAbsPath: string) => Promise<AnkiExportResult | null>
+  ankiExportRecords: (deckName: string, records: Array<Record<string, any>>) => Promise<AnkiExportResult | null>
+  ankiImport: () => Promise<AnkiImportResult | null>
+
+  syncGetStatus: () => Promise<SyncStatus>
+  syncChooseFolder: () => Promise<SyncStatus | null>
+  syncClearFolder: () => Promise<SyncStatus>
+  syncRun: () => Promise<SyncStatus>
+  syncResolve: (conflictIds: string | string[], choice: SyncResolveChoice) => Promise<SyncStatus>
+
+  backupList: () => Promise<BackupInfo[]>
+  backupCreate: (reason?: string) => Promise<BackupInfo | null>
+  backupDelete: (id: string) => Promise<boolean>
+  backupDiff: (id: string) => Promise<BackupDiff>
+  backupRestore: (id: string, parts?: { files?: boolean; records?: boolean }) => Promise<boolean>
+
+  searchQuery: (query: string, opts?: { limit?: number }) => Promise<SearchHit[]>
 
   getGoogleAiStudioStatus: () => Promise<{ hasKey: boolean }>
   getGoogleAiStudioConcurrency: () => Promise<{ concurrency: number }>
@@ -161,11 +447,33 @@ export interface WindowApi {
   setActiveGoogleAiStudioApiKey: (keyId: string) => Promise<boolean>
   toggleGoogleAiStudioApiKey: (keyId: string, enabled: boolean) => Promise<boolean>
 
+  getQuotaUsage: (days?: number) => Promise<QuotaUsage>
+  setModelQuotaLimits: (payload: { model: string; rpm?: number | null; rpd?: number | null; reset?: boolean }) => Promise<boolean>
+
+  getLlmProvider: () => Promise<LlmProviderSettings>
+  setLlmProvider: (patch: LlmProviderPatch) => Promise<LlmProviderSettings>
+  testLlmProvider: () => Promise<LlmProviderTestResult>
+  listLlmModels: (providerId: LlmProviderId) => Promise<string[]>
+
+  getTranslationProviders: () => Promise<TranslationProvidersInfo>
+  setTranslationProviders: (patch: TranslationProvidersPatch) => Promise<TranslationProvidersInfo>
+  openDictionariesFolder: () => Promise<boolean>
+  importDictionary: () => Promise<DictionaryImportResult | null>
+  deleteDictionary: (file: string) => Promise<boolean>
+
+  getResponseCacheStats: () => Promise<ResponseCacheStats>
+  clearResponseCache: () => Promise<ResponseCacheStats>
+  responseCacheGet: (parts: ResponseCacheKeyParts) => Promise<string | null>
+  responseCacheSet: (parts: ResponseCacheKeyParts & { value: string }) => Promise<boolean>
+
   onDeckUpdated: (cb: (data: { pdfId?: string; deckCsvPath?: string }) => void) => void
   offDeckUpdated: (cb: (data: { pdfId?: string; deckCsvPath?: string }) => void) => void
 
   onGoogleAiStudioKeyInvalid: (cb: (data: { id: string; name?: string; masked: string; reason?: string }) => void) => void
   offGoogleAiStudioKeyInvalid: (cb: (data: { id: string; name?: string; masked: string; reason?: string }) => void) => void
+
+  onVocabDbChanged: (cb: () => void) => void
+  offVocabDbChanged: (cb: () => void) => void
 }
 
 declare global {
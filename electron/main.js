@@ -1,12 +1,16 @@
-const { app, BrowserWindow, ipcMain, dialog } = require('electron')
+const { app, BrowserWindow, ipcMain, dialog, shell } = require('electron')
 const path = require('path')
 const http = require('http')
 const https = require('https')
 const { spawn } = require('child_process')
+const { AsyncLocalStorage } = require('async_hooks')
 const fs = require('fs').promises
 const fsSync = require('fs')
 const Papa = require('papaparse')
 const crypto = require('crypto')
+const zlib = require('zlib')
+const JSZip = require('jszip')
+const initSqlJs = require('sql.js/dist/sql-asm-memory-growth.js')
 
 // Chromium disk cache can occasionally fail to migrate/create on Windows (Access denied).
 // Common causes: multiple app instances fighting over the same cache dir, or localhost resolving
@@ -171,7 +175,10 @@ function safeJsonParse(s) {
 // If RPD is unknown, you can set it via env:
 //   GOOGLE_AI_STUDIO_QUOTA_LIMITS_JSON='{"models":{"gemini-2.5-flash-lite-preview":{"rpm":10,"rpd":200}}}'
 // Quota state is stored under userData/google-ai-studio-quota.json so app restart keeps state.
+// history keeps per-day request / rate-limited counts per key+model for the usage dashboard.
+// Limits edited from the UI are saved there too; the env var still wins on the next start.
 const GOOGLE_AI_QUOTA_VERSION = 1
+const GOOGLE_AI_QUOTA_HISTORY_DAYS = 30
 let googleAiQuotaState = null
 let googleAiQuotaFlushTimer = null
 
@@ -225,7 +232,8 @@ async function loadGoogleAiQuotaState() {
         ...((fromEnv && fromEnv.models) ? fromEnv.models : {})
       }
     },
-    perKey: (existing && existing.perKey && typeof existing.perKey === 'object') ? existing.perKey : {}
+    perKey: (existing && existing.perKey && typeof existing.perKey === 'object') ? existing.perKey : {},
+    history: (existing && existing.history && typeof existing.history === 'object') ? existing.history : {}
   }
 
   return googleAiQuotaState
@@ -347,6 +355,7 @@ function quotaReserveRequest({ key, model }) {
   if (lim.rpd && entry.rpdUsed >= lim.rpd) return { ok: false, reason: 'rpd' }
   entry.rpmUsed += 1
   entry.rpdUsed += 1
+  recordQuotaHistory(state, keyIdForQuota(key), m, 'requests')
   scheduleGoogleAiQuotaFlush()
   return { ok: true }
 }
@@ -371,9 +380,121 @@ function quotaMarkModelKeyExhausted({ key, model, kind }) {
     // Model unavailable / not found: block for a while to avoid spamming
     entry.blockedUntilMs = Math.max(entry.blockedUntilMs || 0, nowMs + 30 * 60 * 1000)
   }
+  if (kind === 'rpm' || kind === 'rpd') recordQuotaHistory(state, keyIdForQuota(key), m, 'limited')
   scheduleGoogleAiQuotaFlush()
 }
 
+// history[day][keyId][model] = { requests, limited }; days older than the retention window are dropped.
+function recordQuotaHistory(state, keyId, model, field) {
+  if (!keyId) return
+  if (!state.history || typeof state.history !== 'object') state.history = {}
+  const byKey = state.history[state.dayKey] || (state.history[state.dayKey] = {})
+  const byModel = byKey[keyId] || (byKey[keyId] = {})
+  const counts = byModel[model] || (byModel[model] = { requests: 0, limited: 0 })
+  counts[field] = (Number(counts[field]) || 0) + 1
+  const days = Object.keys(state.history).sort()
+  for (const day of days.slice(0, Math.max(0, days.length - GOOGLE_AI_QUOTA_HISTORY_DAYS))) delete state.history[day]
+}
+
+function quotaEntryStatus(state, entry, lim, nowMs) {
+  if (entry.blockedDayKey && entry.blockedDayKey === state.dayKey) return 'exhausted'
+  if (lim.rpd && entry.rpdUsed >= lim.rpd) return 'exhausted'
+  if (entry.blockedUntilMs && nowMs < entry.blockedUntilMs) return 'cooldown'
+  if (lim.rpm && entry.rpmUsed >= lim.rpm) return 'cooldown'
+  return 'ok'
+}
+
+// Snapshot for the usage dashboard: today's usage per key+model, the limits table and daily history.
+async function getGoogleAiQuotaUsage(days) {
+  const state = await loadGoogleAiQuotaState()
+  const store = await ensureGoogleAiStudioKeysStore()
+  const nowMs = Date.now()
+  state.dayKey = getLocalDayKey(new Date(nowMs))
+
+  const keyInfo = new Map()
+  for (const it of store.items) {
+    keyInfo.set(keyIdForQuota(it.key), { name: it.name, masked: maskApiKey(it.key), active: (store.activeIds || []).includes(it.id) })
+  }
+  const envKey = String(process.env.GOOGLE_AI_STUDIO_API_KEY || process.env.GOOGLE_API_KEY || '').trim()
+  if (envKey && !keyInfo.has(keyIdForQuota(envKey))) {
+    keyInfo.set(keyIdForQuota(envKey), { name: 'Env key', masked: maskApiKey(envKey), active: store.items.length === 0 })
+  }
+
+  const keys = []
+  for (const keyId of new Set([...keyInfo.keys(), ...Object.keys(state.perKey || {})])) {
+    const models = []
+    for (const [model, entry] of Object.entries((state.perKey[keyId] && state.perKey[keyId].models) || {})) {
+      normalizeQuotaEntryForNow(state, entry, nowMs)
+      const lim = getModelQuotaLimits(model)
+      models.push({
+        model,
+        rpmUsed: entry.rpmUsed,
+        rpdUsed: entry.rpdUsed,
+        rpm: lim.rpm,
+        rpd: lim.rpd,
+        remaining: lim.rpd ? Math.max(0, lim.rpd - entry.rpdUsed) : null,
+        status: quotaEntryStatus(state, entry, lim, nowMs),
+        blockedUntilMs: entry.blockedUntilMs && entry.blockedUntilMs > nowMs ? entry.blockedUntilMs : 0
+      })
+    }
+    const info = keyInfo.get(keyId)
+    // Keys deleted from the store only show up while they still have usage today.
+    if (!info && !models.some((m) => m.rpdUsed > 0)) continue
+    models.sort((a, b) => b.rpdUsed - a.rpdUsed || a.model.localeCompare(b.model))
+    keys.push({ keyId, name: info ? info.name : 'Removed key', masked: info ? info.masked : '', active: !!(info && info.active), models })
+  }
+
+  const defaults = getDefaultGoogleAiQuotaLimits().models
+  const fromEnv = (readQuotaLimitsFromEnv() || {}).models || {}
+  const limits = Array.from(new Set([...GOOGLE_AI_MODEL_PRIORITY, ...Object.keys(state.limits.models || {})])).map((model) => {
+    const lim = getModelQuotaLimits(model)
+    const def = defaults[model] || { rpm: null, rpd: null }
+    return {
+      model,
+      rpm: lim.rpm,
+      rpd: lim.rpd,
+      isDefault: lim.rpm === coerceLimitNumber(def.rpm) && lim.rpd === coerceLimitNumber(def.rpd),
+      fromEnv: !!fromEnv[model]
+    }
+  })
+
+  const span = Math.min(GOOGLE_AI_QUOTA_HISTORY_DAYS, Math.max(1, Math.floor(Number(days) || 14)))
+  const history = []
+  for (let i = span - 1; i >= 0; i--) {
+    const d = new Date(nowMs)
+    d.setDate(d.getDate() - i)
+    const day = getLocalDayKey(d)
+    const point = { day, requests: 0, limited: 0, byModel: {} }
+    for (const byModel of Object.values((state.history && state.history[day]) || {})) {
+      for (const [model, counts] of Object.entries(byModel || {})) {
+        const n = Number(counts && counts.requests) || 0
+        point.requests += n
+        point.limited += Number(counts && counts.limited) || 0
+        point.byModel[model] = (point.byModel[model] || 0) + n
+      }
+    }
+    history.push(point)
+  }
+
+  return { dayKey: state.dayKey, resetAtMs: endOfLocalDayMs(new Date(nowMs)), keys, limits, history }
+}
+
+// limits: { rpm, rpd } - empty/0 means "no local limit". reset restores the built-in default.
+async function setGoogleAiModelQuotaLimits(model, limits, reset) {
+  const m = String(model || '').trim()
+  if (!m) throw new Error('Model name is required')
+  const state = await loadGoogleAiQuotaState()
+  const def = getDefaultGoogleAiQuotaLimits().models[m]
+  if (reset && !def) {
+    delete state.limits.models[m]
+  } else {
+    const src = reset ? def : limits || {}
+    state.limits.models[m] = { rpm: coerceLimitNumber(src.rpm), rpd: coerceLimitNumber(src.rpd) }
+  }
+  flushGoogleAiQuotaStateSync()
+  return true
+}
+
 function maskApiKey(key) {
   const k = String(key || '').trim()
   if (!k) return ''
@@ -552,6 +673,199 @@ function googleAiCacheSet(key, value) {
   googleAiCache.set(key, { t: Date.now(), v: String(value || '') })
 }
 
+// --- Persistent response cache ---
+// AI, dictionary and translation responses survive restarts in userData/response-cache.jsonl,
+// a JSON-lines journal like vocab-store.jsonl:
+//   {"op":"put","k":"...","v":"...","t":1700000000000} | {"op":"hit","k":"..."} | {"op":"del","k":"..."} | {"op":"clear"}
+// Keys are provider|model|kind|input, with the input whitespace-normalized and hashed when long
+// (prompts). The Map is kept in least-recently-used order - "hit" moves an entry to the end - and
+// the oldest entries are evicted once the entry or byte limit is exceeded. The in-memory
+// googleAiCache above still absorbs bursts of identical uncached calls.
+const RESPONSE_CACHE_MAX_ENTRIES = Math.max(100, Number(process.env.RESPONSE_CACHE_MAX_ENTRIES || 20000) || 20000)
+const RESPONSE_CACHE_MAX_BYTES = Math.max(1024 * 1024, Number(process.env.RESPONSE_CACHE_MAX_BYTES || 32 * 1024 * 1024) || 0)
+const RESPONSE_CACHE_COMPACT_MIN_LINES = 1000
+let responseCacheEntries = null // Map<key, { v, t, size }>
+let responseCacheBytes = 0
+let responseCacheLineCount = 0
+let responseCacheWriteQueue = Promise.resolve()
+const responseCacheSession = { hits: 0, misses: 0 }
+// Per-request hit/miss counters, see trackResponseCache()
+const responseCacheScope = new AsyncLocalStorage()
+
+function getUserResponseCachePath() {
+  return path.join(app.getPath('userData'), 'response-cache.jsonl')
+}
+
+function responseCacheKey({ provider, model, kind, input }) {
+  const text = String(input || '').trim().replace(/\s+/g, ' ')
+  const norm = text.length > 160 ? crypto.createHash('sha256').update(text).digest('hex') : text
+  return [provider || '', model || '', kind || '', norm].join('|')
+}
+
+function setResponseCacheEntry(map, k, v, t) {
+  deleteResponseCacheEntry(map, k)
+  const size = k.length + v.length
+  map.set(k, { v, t, size })
+  responseCacheBytes += size
+}
+
+function deleteResponseCacheEntry(map, k) {
+  const e = map.get(k)
+  if (!e) return false
+  map.delete(k)
+  responseCacheBytes -= e.size
+  return true
+}
+
+function applyResponseCacheOp(map, op) {
+  if (!op || typeof op !== 'object') return false
+  if (op.op === 'clear') {
+    map.clear()
+    responseCacheBytes = 0
+    return true
+  }
+  const k = typeof op.k === 'string' ? op.k : ''
+  if (!k) return false
+  if (op.op === 'put' && typeof op.v === 'string') {
+    setResponseCacheEntry(map, k, op.v, Number(op.t) || Date.now())
+    return true
+  }
+  if (op.op === 'hit') {
+    const e = map.get(k)
+    if (!e) return false
+    map.delete(k)
+    map.set(k, e)
+    return true
+  }
+  if (op.op === 'del') return deleteResponseCacheEntry(map, k)
+  return false
+}
+
+// Drops least-recently-used entries until both limits hold; returns the evicted keys.
+function evictResponseCache(map) {
+  const evicted = []
+  for (const k of map.keys()) {
+    if (map.size <= RESPONSE_CACHE_MAX_ENTRIES && responseCacheBytes <= RESPONSE_CACHE_MAX_BYTES) break
+    deleteResponseCacheEntry(map, k)
+    evicted.push(k)
+  }
+  return evicted
+}
+
+function loadResponseCacheSync() {
+  if (responseCacheEntries) return responseCacheEntries
+  const map = new Map()
+  responseCacheBytes = 0
+  let lines = 0
+  const p = getUserResponseCachePath()
+  if (fsSync.existsSync(p)) {
+    const txt = fsSync.readFileSync(p, 'utf8')
+    for (const line of txt.split(/\r?\n/)) {
+      if (!line.trim()) continue
+      if (applyResponseCacheOp(map, safeJsonParse(line))) lines++
+    }
+  }
+  evictResponseCache(map)
+  responseCacheEntries = map
+  responseCacheLineCount = lines
+  return map
+}
+
+function compactResponseCacheSync() {
+  if (!responseCacheEntries) return
+  const p = getUserResponseCachePath()
+  const tmp = `${p}.tmp`
+  const lines = Array.from(responseCacheEntries, ([k, e]) => JSON.stringify({ op: 'put', k, v: e.v, t: e.t }))
+  fsSync.writeFileSync(tmp, lines.length ? lines.join('\n') + '\n' : '', 'utf8')
+  fsSync.renameSync(tmp, p)
+  responseCacheLineCount = lines.length
+}
+
+// The Map is updated synchronously by the callers; only the journal append is queued.
+function appendResponseCacheOps(ops) {
+  const run = async () => {
+    await fs.appendFile(getUserResponseCachePath(), ops.map((op) => JSON.stringify(op)).join('\n') + '\n', 'utf8')
+    responseCacheLineCount += ops.length
+    if (responseCacheLineCount > Math.max(RESPONSE_CACHE_COMPACT_MIN_LINES, responseCacheEntries.size * 2)) compactResponseCacheSync()
+  }
+  const next = responseCacheWriteQueue.then(run, run)
+  responseCacheWriteQueue = next.catch((e) => console.warn('Response cache write failed:', e && e.message ? e.message : e))
+  return next
+}
+
+function responseCacheGet(key) {
+  const map = loadResponseCacheSync()
+  const e = map.get(key)
+  const scope = responseCacheScope.getStore()
+  if (!e) {
+    responseCacheSession.misses++
+    if (scope) scope.misses++
+    return null
+  }
+  map.delete(key)
+  map.set(key, e)
+  responseCacheSession.hits++
+  if (scope) scope.hits++
+  appendResponseCacheOps([{ op: 'hit', k: key }]).catch(() => {})
+  return e.v
+}
+
+function responseCacheSet(key, value) {
+  const v = String(value || '')
+  if (!v) return
+  const map = loadResponseCacheSync()
+  const t = Date.now()
+  setResponseCacheEntry(map, key, v, t)
+  const evicted = evictResponseCache(map)
+  appendResponseCacheOps([{ op: 'put', k: key, v, t }, ...evicted.map((k) => ({ op: 'del', k }))]).catch(() => {})
+}
+
+// Cached string response for { provider, model, kind, input }, computed by fn() on a miss.
+// Empty results are not stored so a failed lookup is retried next time.
+async function cachedResponse(parts, fn) {
+  const key = responseCacheKey(parts)
+  const hit = responseCacheGet(key)
+  if (hit != null) return hit
+  const out = await fn()
+  if (out) responseCacheSet(key, out)
+  return out
+}
+
+// Runs fn with its own hit/miss counters; cached is true when every cache lookup it made was a hit.
+async function trackResponseCache(fn) {
+  const stats = { hits: 0, misses: 0 }
+  const result = await responseCacheScope.run(stats, fn)
+  return { result, cached: stats.hits > 0 && stats.misses === 0 }
+}
+
+function responseCacheStats() {
+  const map = loadResponseCacheSync()
+  const byKind = {}
+  for (const k of map.keys()) {
+    const kind = k.split('|')[2] || 'other'
+    byKind[kind] = (byKind[kind] || 0) + 1
+  }
+  return {
+    entries: map.size,
+    bytes: responseCacheBytes,
+    maxEntries: RESPONSE_CACHE_MAX_ENTRIES,
+    maxBytes: RESPONSE_CACHE_MAX_BYTES,
+    sessionHits: responseCacheSession.hits,
+    sessionMisses: responseCacheSession.misses,
+    byKind
+  }
+}
+
+async function clearResponseCache() {
+  const map = loadResponseCacheSync()
+  map.clear()
+  responseCacheBytes = 0
+  googleAiCache.clear()
+  definitionCache.clear()
+  await appendResponseCacheOps([{ op: 'clear' }])
+  return responseCacheStats()
+}
+
 // Run a task with per-key concurrency limiting
 // taskFn receives the apiKey to use
 function runGoogleAiTaskWithKey(apiKey, taskFn) {
@@ -1015,6 +1329,200 @@ async function googleAiStudioGenerateContent({ key, endpoint, model, prompt, sig
   return googleAiStudioGenerateContentPrimaryThenFallback({ endpoint, prompt, signal, requestedModel: model })
 }
 
+// --- LLM providers ---
+// Every enrichment helper (gemma*, googleTranslate*) builds a prompt and calls llmGenerateContent.
+// The active provider decides where it goes:
+//   google - Google AI Studio with multi-key rotation, local quota and model fallback (above)
+//   openai - any OpenAI-compatible /chat/completions endpoint (OpenAI, OpenRouter, Groq, ...)
+//   local  - an OpenAI-compatible server on this machine (Ollama, llama.cpp server, LM Studio)
+// Settings live in userData/llm-provider.json. getLlmConfig() returns the { key, endpoint, model }
+// triple the helpers already pass around, so they don't need to know which provider is active.
+const LLM_PROVIDER_IDS = ['google', 'openai', 'local']
+const LLM_REQUEST_TIMEOUT_MS = { openai: 60 * 1000, local: 180 * 1000 }
+let llmProviderSettings = null
+
+function getUserLlmProviderPath() {
+  return path.join(app.getPath('userData'), 'llm-provider.json')
+}
+
+function defaultLlmProviderSettings() {
+  return {
+    provider: 'google',
+    openai: { baseUrl: 'https://api.openai.com/v1', apiKey: '', model: 'gpt-4o-mini' },
+    local: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' }
+  }
+}
+
+function normalizeLlmProviderSettings(raw) {
+  const def = defaultLlmProviderSettings()
+  const obj = raw && typeof raw === 'object' ? raw : {}
+  const pick = (section, field) => {
+    const v = obj[section] && typeof obj[section][field] === 'string' ? obj[section][field].trim() : ''
+    return v || def[section][field]
+  }
+  return {
+    provider: LLM_PROVIDER_IDS.includes(obj.provider) ? obj.provider : def.provider,
+    openai: {
+      baseUrl: pick('openai', 'baseUrl').replace(/\/+$/, ''),
+      apiKey: obj.openai && typeof obj.openai.apiKey === 'string' ? obj.openai.apiKey.trim() : '',
+      model: pick('openai', 'model')
+    },
+    local: {
+      baseUrl: pick('local', 'baseUrl').replace(/\/+$/, ''),
+      model: pick('local', 'model')
+    }
+  }
+}
+
+async function loadLlmProviderSettings() {
+  if (llmProviderSettings) return llmProviderSettings
+  let raw = null
+  try {
+    raw = safeJsonParse(await fs.readFile(getUserLlmProviderPath(), 'utf8'))
+  } catch (e) {
+    raw = null
+  }
+  llmProviderSettings = normalizeLlmProviderSettings(raw)
+  return llmProviderSettings
+}
+
+async function saveLlmProviderSettings(next) {
+  llmProviderSettings = normalizeLlmProviderSettings(next)
+  await fs.writeFile(getUserLlmProviderPath(), JSON.stringify(llmProviderSettings, null, 2), 'utf8')
+  return llmProviderSettings
+}
+
+// The renderer never gets the raw OpenAI key back, only whether one is saved.
+function publicLlmProviderSettings(s) {
+  return {
+    provider: s.provider,
+    openai: { baseUrl: s.openai.baseUrl, model: s.openai.model, hasApiKey: !!s.openai.apiKey, maskedApiKey: s.openai.apiKey ? maskApiKey(s.openai.apiKey) : '' },
+    local: { ...s.local }
+  }
+}
+
+async function openAiCompatibleChat({ key, endpoint, model, prompt, signal, timeoutMs }) {
+  if (typeof fetch !== 'function') throw new Error('Global fetch is not available in Electron main process')
+  const base = String(endpoint || '').replace(/\/+$/, '')
+  if (!base) throw new Error('Missing LLM endpoint URL')
+  if (!model) throw new Error('Missing LLM model name')
+  const promptText = String(prompt || '')
+  const cacheKey = `${base}|${model}|${crypto.createHash('sha256').update(promptText).digest('hex')}`
+  const cached = googleAiCacheGet(cacheKey)
+  if (cached != null) return cached
+
+  // Same per-key queue as Google: a local server usually handles only a few requests at a time.
+  return await runGoogleAiTaskWithKey(`${base}|${model}`, async () => {
+    const body = JSON.stringify({
+      model,
+      messages: [{ role: 'user', content: promptText }],
+      temperature: 0.2,
+      top_p: 0.95,
+      stream: false
+    })
+    const headers = { 'Content-Type': 'application/json' }
+    if (key) headers.Authorization = `Bearer ${key}`
+
+    const maxRetries = 2
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      const controller = new AbortController()
+      const onAbort = () => controller.abort()
+      if (signal) {
+        if (signal.aborted) throw Object.assign(new Error('Aborted'), { name: 'AbortError' })
+        signal.addEventListener('abort', onAbort)
+      }
+      const timer = setTimeout(() => controller.abort(), timeoutMs || LLM_REQUEST_TIMEOUT_MS.openai)
+      let resp
+      try {
+        resp = await fetch(`${base}/chat/completions`, { method: 'POST', headers, body, signal: controller.signal })
+      } catch (err) {
+        if (signal && signal.aborted) throw err
+        if (controller.signal.aborted) throw new Error(`LLM request timed out after ${Math.round((timeoutMs || 0) / 1000)}s (${base})`)
+        throw new Error(`Cannot reach LLM endpoint ${base}: ${err && err.message ? err.message : err}`)
+      } finally {
+        clearTimeout(timer)
+        if (signal) signal.removeEventListener('abort', onAbort)
+      }
+
+      if (resp.ok) {
+        const data = await resp.json()
+        const choice = data && Array.isArray(data.choices) ? data.choices[0] : null
+        const out = String((choice && choice.message && choice.message.content) || '')
+        googleAiCacheSet(cacheKey, out)
+        return out
+      }
+
+      const status = resp.status
+      const t = await resp.text().catch(() => '')
+      const isRetryable = status === 429 || status === 500 || status === 502 || status === 503
+      if (!isRetryable || attempt === maxRetries) {
+        const e = new Error(`LLM chat/completions failed: ${status} ${t}`)
+        e.status = status
+        e.bodyText = t
+        throw e
+      }
+      const retryAfter = Number(resp.headers.get('retry-after'))
+      const delay = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : 500 * Math.pow(2, attempt) + Math.floor(Math.random() * 250)
+      await sleepMs(delay, signal)
+    }
+    throw new Error('LLM chat/completions failed after retries')
+  })
+}
+
+const LLM_PROVIDERS = {
+  google: {
+    label: 'Google AI Studio',
+    config: (s, payload) => getGoogleAiStudioConfig(payload),
+    generate: (opts) => googleAiStudioGenerateContent(opts)
+  },
+  openai: {
+    label: 'OpenAI-compatible',
+    config: (s) => {
+      if (!s.openai.apiKey) throw new Error('Missing API key for the OpenAI-compatible provider')
+      return { key: s.openai.apiKey, endpoint: s.openai.baseUrl, model: s.openai.model }
+    },
+    generate: (opts) => openAiCompatibleChat({ ...opts, timeoutMs: LLM_REQUEST_TIMEOUT_MS.openai })
+  },
+  local: {
+    label: 'Local model',
+    config: (s) => ({ key: '', endpoint: s.local.baseUrl, model: s.local.model }),
+    generate: (opts) => openAiCompatibleChat({ ...opts, timeoutMs: LLM_REQUEST_TIMEOUT_MS.local })
+  }
+}
+
+// Throws when the active provider is not usable (e.g. no key); callers treat that as "no LLM".
+async function getLlmConfig(payload) {
+  const s = await loadLlmProviderSettings()
+  const cfg = await LLM_PROVIDERS[s.provider].config(s, payload)
+  return { ...cfg, provider: s.provider }
+}
+
+// kind names the prompt (ipa, synonyms...) for the persistent response cache; calls without a
+// kind, like the provider connection test, always reach the model.
+async function llmGenerateContent({ key, endpoint, model, prompt, signal, kind }) {
+  const s = await loadLlmProviderSettings()
+  const generate = () => LLM_PROVIDERS[s.provider].generate({ key, endpoint, model, prompt, signal })
+  if (!kind) return generate()
+  const provider = s.provider === 'google' ? 'google' : `${s.provider}:${String(endpoint || '').replace(/\/+$/, '')}`
+  return cachedResponse({ provider, model, kind, input: prompt }, generate)
+}
+
+// GET {baseUrl}/models - Ollama, llama.cpp and most OpenAI-compatible servers support it
+async function listOpenAiCompatibleModels({ key, endpoint }) {
+  const base = String(endpoint || '').replace(/\/+$/, '')
+  const headers = key ? { Authorization: `Bearer ${key}` } : {}
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), 10000)
+  try {
+    const resp = await fetch(`${base}/models`, { headers, signal: controller.signal })
+    if (!resp.ok) throw new Error(`GET /models failed: ${resp.status} ${await resp.text().catch(() => '')}`)
+    const data = await resp.json()
+    return (data && Array.isArray(data.data) ? data.data : []).map((m) => String(m && m.id ? m.id : '')).filter(Boolean).sort()
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
 function stripCodeFences(s) {
   const t = String(s || '').trim()
   if (!t) return ''
@@ -1065,7 +1573,7 @@ async function gemmaSuggestIpa({ key, endpoint, model, word, dialect, signal })
     `- One line only. No extra text.\n` +
     `- If multiple variants exist, choose the most common one.\n`
 
-  const raw = await googleAiStudioGenerateContent({ key, endpoint, model, prompt, signal })
+  const raw = await llmGenerateContent({ key, endpoint, model, prompt, signal, kind: 'ipa' })
   return sanitizeIpaOutput(raw)
 }
 
@@ -1146,7 +1654,7 @@ async function gemmaGetWordFamily({ key, endpoint, model, word, signal }) {
     `- If a family member is a NOUN: output the SINGULAR form only (e.g., "address", not "addresses").\n` +
     `- relation should be short (e.g., "noun form", "verb form", "adjective form", "adverb form").\n`
 
-  const raw = await googleAiStudioGenerateContent({ key, endpoint, model, prompt, signal })
+  const raw = await llmGenerateContent({ key, endpoint, model, prompt, signal, kind: 'wordFamily' })
   const obj = safeJsonParseObject(raw)
   const list = Array.isArray(obj && obj.family) ? obj.family : []
 
@@ -1217,7 +1725,7 @@ async function gemmaGetSynonyms({ key, endpoint, model, word, signal }) {
     `- For nouns: use singular form unless the word is typically plural.\n` +
     `- relation should be short (e.g., "synonym").\n`
 
-  const raw = await googleAiStudioGenerateContent({ key, endpoint, model, prompt, signal })
+  const raw = await llmGenerateContent({ key, endpoint, model, prompt, signal, kind: 'synonyms' })
   const obj = safeJsonParseObject(raw)
   const list = Array.isArray(obj && obj.synonyms) ? obj.synonyms : []
 
@@ -1317,7 +1825,7 @@ async function gemmaEnrichWord({ key, endpoint, model, word, contextSentenceEn,
     `- example: ONE short English sentence (<= 25 words) using the term in the SAME meaning as meaningSuggested.\n` +
     `- contextSentenceVi: translate the context sentence from ${src} to ${dst} if context is provided, else empty string.\n`
 
-  const raw = await googleAiStudioGenerateContent({ key, endpoint, model, prompt, signal })
+  const raw = await llmGenerateContent({ key, endpoint, model, prompt, signal, kind: 'enrich' })
   const obj = safeJsonParseObject(raw) || {}
 
   const candidates = dedupeCandidates(obj.candidates)
@@ -1458,7 +1966,7 @@ async function gemmaEnrichWordsBulk({ key, endpoint, model, words, contextSenten
     `- example: ONE short English sentence (<= 25 words) using the term in the SAME meaning as meaningSuggested.\n` +
     `- contextSentenceVi: translate the shared context sentence from ${src} to ${dst} if context is provided, else empty string.\n`
 
-  const raw = await googleAiStudioGenerateContent({ key, endpoint, model, prompt, signal })
+  const raw = await llmGenerateContent({ key, endpoint, model, prompt, signal, kind: 'enrichBulk' })
   const obj = safeJsonParseObject(raw) || {}
   const items = Array.isArray(obj && obj.items) ? obj.items : (Array.isArray(obj && obj.results) ? obj.results : [])
 
@@ -1688,7 +2196,7 @@ async function gemmaSuggestMeaningCandidates({ key, endpoint, model, word, conte
       : `- If NO context sentence is provided: meaningSuggested should be a semicolon-separated list of 1 to 3 DISTINCT senses, and each sense must exactly equal one of candidates[i].vi.\n`) +
     `- If the selected term is a multi-word expression, use pos="Phrase".\n`
 
-  const raw = await googleAiStudioGenerateContent({ key, endpoint, model, prompt, signal })
+  const raw = await llmGenerateContent({ key, endpoint, model, prompt, signal, kind: 'meaningCandidates' })
   const obj = safeJsonParseObject(raw)
   const candidates = dedupeCandidates(obj && obj.candidates)
   const hasContext = !!ctx
@@ -1746,7 +2254,7 @@ async function gemmaGenerateMeaningNoteVi({ key, endpoint, model, word, meaningS
     `Chosen Vietnamese meaning: "${m}"\n` +
     (ctx ? `Context sentence (English): "${ctx}"\n` : '')
 
-  const out = await googleAiStudioGenerateContent({ key, endpoint, model, prompt, signal })
+  const out = await llmGenerateContent({ key, endpoint, model, prompt, signal, kind: 'meaningNoteVi' })
   return String(out || '')
     .replace(/\r\n/g, '\n')
     .replace(/\r/g, '\n')
@@ -1780,7 +2288,7 @@ async function googleTranslatePlain({ key, endpoint, model, from, to, text, sign
     `- Keep names, numbers, and symbols unchanged unless they must be localized.\n` +
     `\nTEXT:\n<<<\n${body}\n>>>`
 
-  const out = await googleAiStudioGenerateContent({ key, endpoint, model, prompt, signal })
+  const out = await llmGenerateContent({ key, endpoint, model, prompt, signal, kind: 'translate' })
   return String(out || '').trim()
 }
 
@@ -2214,16 +2722,23 @@ async function fetchEnglishDefinition(word) {
 
   const pending = (async () => {
     try {
-      const candidates = buildLookupCandidates(cleanWord)
-
-      for (const candidate of candidates) {
-        try {
-          const bingDefinition = await fetchBingDefinitionViaPython(candidate)
-          if (bingDefinition) return normalizeBingDefinition(bingDefinition)
-        } catch {
-          // try next candidate
+      const offline = await lookupOfflineDictionaryEntry(cleanWord)
+      if (offline && offline.definitions.length > 0) return formatOfflineDefinitions(offline.definitions)
+    } catch {
+      // fall through to the network
+    }
+    try {
+      return await cachedResponse({ provider: 'bing', kind: 'definition', input: cacheKey }, async () => {
+        for (const candidate of buildLookupCandidates(cleanWord)) {
+          try {
+            const bingDefinition = await fetchBingDefinitionViaPython(candidate)
+            if (bingDefinition) return normalizeBingDefinition(bingDefinition)
+          } catch {
+            // try next candidate
+          }
         }
-      }
+        return ''
+      })
     } catch {
       // ignore network and parsing errors
     }
@@ -2259,7 +2774,7 @@ async function gemmaTranslateMeaningNoteVie({ key, endpoint, model, word, englis
     (ctx ? `- Context sentence: "${ctx}"\n` : '') +
     `\nENGLISH DEFINITION:\n<<<\n${source}\n>>>`
 
-  const out = await googleAiStudioGenerateContent({ key, endpoint, model, prompt, signal })
+  const out = await llmGenerateContent({ key, endpoint, model, prompt, signal, kind: 'meaningNoteVie' })
   return String(out || '').replace(/\r/g, '').trim()
 }
 
@@ -2286,7 +2801,7 @@ async function googleTranslateExplain({ key, endpoint, model, from, to, text, si
     `- Do NOT repeat the entire translation inside explanation.\n` +
     `\nTEXT:\n<<<\n${body}\n>>>`
 
-  const raw = await googleAiStudioGenerateContent({ key, endpoint, model, prompt, signal })
+  const raw = await llmGenerateContent({ key, endpoint, model, prompt, signal, kind: 'translateExplain' })
   const obj = safeJsonParseObject(raw) || {}
   const translation = String(obj.translation || '').trim()
   let explanation = String(obj.explanation || '').trim()
@@ -2467,141 +2982,743 @@ async function azureTranslateWordCandidates({ key, region, from, to, word, signa
   return parts.map((vi) => ({ vi, pos: '', back: [word] }))
 }
 
-async function autoMeaningCore(payload) {
-  const req = payload || {}
-  const requestId = String(req.requestId || generateUUID())
-  const word = String(req.word || '').trim()
-  const contextSentenceEn = String(req.contextSentenceEn || '').trim()
-  const from = String(req.from || 'en')
-  const to = String(req.to || 'vi')
+// --- Translation / dictionary providers ---
+// autoMeaning asks a priority chain of providers for dictionary candidates (word -> Vietnamese
+// senses with POS) and plain translations (context sentence, free text). Each provider declares
+// which of the two it can do; prepare() returns its config or throws when it is not usable
+// (missing key, nothing installed...), in which case the chain skips to the next one.
+//   llm            - the active AI provider (Google AI Studio / OpenAI-compatible / local)
+//   azure          - Azure Translator dictionary lookup + translate (AZURE_TRANSLATOR_KEY/REGION)
+//   offline        - dictionary files in userData/dictionaries (JSON/TSV, or packs imported from
+//                    StarDict/dictd); also consulted first for IPA, POS and English definitions
+//   libretranslate - a LibreTranslate-style HTTP server (POST /translate)
+// Settings (order, enabled flags, LibreTranslate URL/key) live in userData/translation-providers.json.
+const TRANSLATION_PROVIDER_IDS = ['offline', 'llm', 'azure', 'libretranslate']
+let translationProviderSettings = null
+
+function getUserTranslationProvidersPath() {
+  return path.join(app.getPath('userData'), 'translation-providers.json')
+}
 
-  if (!word) {
-    return {
-      requestId,
-      word: '',
-      meaningSuggested: '',
-      meaningNoteEn: '',
-      meaningNoteVi: '',
-      meaningNoteVie: '',
-      contextSentenceVi: '',
-      candidates: []
-    }
-  }
+function getUserDictionariesPath() {
+  const root = path.join(app.getPath('userData'), 'dictionaries')
+  if (!fsSync.existsSync(root)) fsSync.mkdirSync(root, { recursive: true })
+  return root
+}
 
-  if (typeof fetch !== 'function') {
-    throw new Error('Global fetch is not available in Electron main process')
+function normalizeTranslationProviderSettings(raw) {
+  const obj = raw && typeof raw === 'object' ? raw : {}
+  const chain = []
+  for (const item of Array.isArray(obj.chain) ? obj.chain : []) {
+    const id = item && String(item.id || '')
+    if (!TRANSLATION_PROVIDER_IDS.includes(id) || chain.some((c) => c.id === id)) continue
+    chain.push({ id, enabled: item.enabled !== false })
   }
+  // Providers missing from the saved chain (new ones, or first run) go last; LibreTranslate is opt-in.
+  for (const id of TRANSLATION_PROVIDER_IDS) {
+    if (!chain.some((c) => c.id === id)) chain.push({ id, enabled: id !== 'libretranslate' })
+  }
+  const lt = obj.libretranslate && typeof obj.libretranslate === 'object' ? obj.libretranslate : {}
+  return {
+    chain,
+    libretranslate: {
+      baseUrl: String(lt.baseUrl || '').trim().replace(/\/+$/, ''),
+      apiKey: String(lt.apiKey || '').trim()
+    }
+  }
+}
 
-  const controller = new AbortController()
-  pendingAutoMeaning.set(requestId, controller)
-
+async function loadTranslationProviderSettings() {
+  if (translationProviderSettings) return translationProviderSettings
+  let raw = null
   try {
-    let candidates = []
-    let contextSentenceVi = ''
-    let meaningSuggested = ''
-    let meaningNoteVi = ''
-    let meaningNoteEn = ''
+    raw = safeJsonParse(await fs.readFile(getUserTranslationProvidersPath(), 'utf8'))
+  } catch (e) {
+    raw = null
+  }
+  translationProviderSettings = normalizeTranslationProviderSettings(raw)
+  return translationProviderSettings
+}
 
-    // 1) Primary: Gemma suggests meanings + POS using context (LLM sense disambiguation).
-    // If Google AI Studio key is missing, skip Gemma and rely on Azure dictionary fallback (or return empty).
-    let g = null
-    try {
-      g = await getGoogleAiStudioConfig(req)
-    } catch (e) {
-      g = null
-    }
+async function saveTranslationProviderSettings(next) {
+  translationProviderSettings = normalizeTranslationProviderSettings(next)
+  await fs.writeFile(getUserTranslationProvidersPath(), JSON.stringify(translationProviderSettings, null, 2), 'utf8')
+  return translationProviderSettings
+}
 
-    if (g) {
-      // Run meaning-candidates + optional context translation concurrently to reduce single-word latency.
-      const jobs = []
-      jobs.push(
-        gemmaSuggestMeaningCandidates({
-          key: g.key,
-          endpoint: g.endpoint,
-          model: g.model,
-          word,
-          contextSentenceEn,
-          from,
-          to,
-          signal: controller.signal
-        })
-      )
-      jobs.push(
-        contextSentenceEn
-          ? googleTranslatePlain({
-              key: g.key,
-              endpoint: g.endpoint,
-              model: g.model,
-              from,
-              to,
-              text: contextSentenceEn,
-              signal: controller.signal
-            })
-          : Promise.resolve('')
-      )
+// Offline dictionaries: every *.json / *.tsv file in userData/dictionaries, re-read when its mtime changes.
+//   JSON: { "bank": ["ngân hàng", "bờ (sông)"], "run": [{ "vi": "chạy", "pos": "Verb" }] }
+//         (or { "name": "...", "entries": { ... } })
+//         A value may also be a full entry: { "senses": [{ "vi", "pos" }], "ipa": "/bæŋk/",
+//         "definitions": [{ "pos": "Noun", "text": "..." }] } - imported packs are written this way.
+//   TSV:  word<TAB>meaning 1; meaning 2[<TAB>pos[<TAB>ipa]]
+const offlineDictionaryCache = new Map() // fullPath -> { mtimeMs, name, entries: Map<word, { senses, ipa, definitions }> }
 
-      const [meaningRes, ctxRes] = await Promise.allSettled(jobs)
+function normalizeOfflineIpa(ipa) {
+  const core = String(ipa || '').trim().replace(/^[\/\[]+|[\/\]]+$/g, '').trim()
+  return core ? `/${core}/` : ''
+}
 
-      if (meaningRes.status === 'fulfilled') {
-        const gemma = meaningRes.value
-        candidates = Array.isArray(gemma.candidates) ? gemma.candidates : []
-        meaningSuggested = String(gemma.meaningSuggested || '').trim()
-        meaningNoteVi = String(gemma.meaningNoteVi || '').trim()
-      }
+function addOfflineDictionaryEntry(entries, word, { senses = [], ipa = '', definitions = [] }) {
+  const key = String(word || '').trim().toLowerCase()
+  if (!key) return
+  const entry = entries.get(key) || { senses: [], ipa: '', definitions: [] }
+  for (const s of senses) {
+    const vi = String(s && s.vi ? s.vi : '').trim()
+    if (vi && !entry.senses.some((x) => x.vi === vi)) entry.senses.push({ vi, pos: String(s.pos || '').trim() })
+  }
+  if (!entry.ipa) entry.ipa = normalizeOfflineIpa(ipa)
+  for (const d of definitions) {
+    const text = String(typeof d === 'string' ? d : (d && d.text) || '').trim()
+    if (text && !entry.definitions.some((x) => x.text === text)) entry.definitions.push({ pos: String((d && d.pos) || '').trim(), text })
+  }
+  if (entry.senses.length > 0 || entry.ipa || entry.definitions.length > 0) entries.set(key, entry)
+}
 
-      if (ctxRes.status === 'fulfilled') {
-        contextSentenceVi = String(ctxRes.value || '').trim()
+function parseOfflineDictionary(text, ext) {
+  const entries = new Map()
+  let name = ''
+  if (ext === '.json') {
+    const obj = JSON.parse(text)
+    const map = obj && typeof obj.entries === 'object' && !Array.isArray(obj.entries) ? obj.entries : obj
+    if (map !== obj && typeof obj.name === 'string') name = obj.name
+    const toSenses = (values) =>
+      values.flatMap((v) =>
+        typeof v === 'string' ? splitVietnameseCandidates(v).map((vi) => ({ vi, pos: '' })) : v && typeof v === 'object' ? [{ vi: v.vi || v.meaning, pos: v.pos }] : []
+      )
+    for (const [word, value] of Object.entries(map || {})) {
+      const full = value && typeof value === 'object' && !Array.isArray(value) && ('senses' in value || 'ipa' in value || 'definitions' in value)
+      if (full) {
+        addOfflineDictionaryEntry(entries, word, {
+          senses: toSenses(Array.isArray(value.senses) ? value.senses : []),
+          ipa: value.ipa,
+          definitions: Array.isArray(value.definitions) ? value.definitions : []
+        })
+      } else {
+        addOfflineDictionaryEntry(entries, word, { senses: toSenses(Array.isArray(value) ? value : [value]) })
       }
     }
+  } else {
+    for (const line of text.split(/\r?\n/)) {
+      if (!line.trim() || line.startsWith('#')) continue
+      const [word, meanings, pos, ipa] = line.split('\t')
+      addOfflineDictionaryEntry(entries, word, { senses: splitVietnameseCandidates(meanings).map((vi) => ({ vi, pos: pos || '' })), ipa })
+    }
+  }
+  return { name, entries }
+}
 
+async function loadOfflineDictionaries() {
+  const root = getUserDictionariesPath()
+  const out = []
+  for (const it of await fs.readdir(root, { withFileTypes: true })) {
+    const ext = path.extname(it.name).toLowerCase()
+    if (!it.isFile() || (ext !== '.json' && ext !== '.tsv')) continue
+    const full = path.join(root, it.name)
     try {
-      meaningNoteEn = await fetchEnglishDefinition(word)
+      const stat = await fs.stat(full)
+      let hit = offlineDictionaryCache.get(full)
+      if (!hit || hit.mtimeMs !== stat.mtimeMs) {
+        const parsed = parseOfflineDictionary(await fs.readFile(full, 'utf8'), ext)
+        hit = { mtimeMs: stat.mtimeMs, file: it.name, name: parsed.name || path.basename(it.name, ext), entries: parsed.entries }
+        offlineDictionaryCache.set(full, hit)
+      }
+      out.push(hit)
     } catch (e) {
-      meaningNoteEn = ''
+      console.warn('Skipping offline dictionary', it.name, e && e.message ? e.message : e)
     }
+  }
+  return out
+}
 
-    if (meaningNoteEn && g) {
-      try {
-        const translatedNote = await gemmaTranslateMeaningNoteVie({
-          key: g.key,
-          endpoint: g.endpoint,
-          model: g.model,
-          word,
-          englishMeaning: meaningNoteEn,
-          contextSentenceEn,
-          signal: controller.signal
-        })
-        if (translatedNote) meaningNoteVi = translatedNote
-      } catch (e) {
-        // keep fallback note below
+// Everything the enabled offline dictionaries know about a word, merged across files, for the first
+// lemma form (see buildLookupCandidates) that any of them has. Null when the offline provider is
+// disabled in the chain or nothing matches - callers then fall back to the network.
+async function lookupOfflineDictionaryEntry(word) {
+  const s = await loadTranslationProviderSettings()
+  if (!s.chain.some((c) => c.id === 'offline' && c.enabled)) return null
+  const dicts = await loadOfflineDictionaries()
+  if (dicts.length === 0) return null
+  for (const form of buildLookupCandidates(word)) {
+    const merged = { word: form, dictionary: '', senses: [], ipa: '', definitions: [] }
+    for (const d of dicts) {
+      const entry = d.entries.get(form.toLowerCase())
+      if (!entry) continue
+      if (!merged.dictionary) merged.dictionary = d.name
+      if (!merged.ipa) merged.ipa = entry.ipa
+      for (const sense of entry.senses) {
+        if (!merged.senses.some((x) => x.vi === sense.vi)) merged.senses.push({ ...sense, dictionary: d.name })
       }
+      merged.definitions.push(...entry.definitions)
     }
+    if (!merged.dictionary) continue
+    const withPos = merged.senses.find((x) => x.pos) || merged.definitions.find((x) => x.pos)
+    return { ...merged, pos: withPos ? withPos.pos : '' }
+  }
+  return null
+}
 
-    // 3) Optional fallback: Azure Dictionary Lookup if Gemma returns nothing.
-    if (candidates.length === 0) {
-      try {
-        const { key, region } = getTranslatorConfig(req)
-        const dict = await azureDictionaryLookup({ key, region, from, to, word, signal: controller.signal })
-        const translations = (Array.isArray(dict) && dict[0] && Array.isArray(dict[0].translations)) ? dict[0].translations : []
-        candidates = translations
-          .map((t) => {
-            const vi = String(t.displayTarget || t.normalizedTarget || '').trim()
-            const pos = String(t.posTag || '').trim()
-            const back = Array.isArray(t.backTranslations)
-              ? t.backTranslations.map((b) => String(b.displayText || b.normalizedText || '').trim()).filter(Boolean).slice(0, 8)
-              : []
-            return { vi, pos, back }
-          })
-          .filter((c) => c.vi)
+// English definitions from an offline entry, in the "[POS]\n1. ..." layout used for Bing definitions.
+function formatOfflineDefinitions(definitions) {
+  const groups = new Map()
+  for (const d of definitions) {
+    const key = d.pos ? d.pos.toUpperCase() : ''
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key).push(d.text)
+  }
+  const lines = []
+  for (const [pos, texts] of groups) {
+    if (pos) lines.push(`[${pos}]`)
+    texts.forEach((t, i) => lines.push(`${i + 1}. ${t}`))
+  }
+  return lines.slice(0, 16).join('\n').trim()
+}
+
+// --- Offline dictionary packs ---
+// Imports a dictionary pack into userData/dictionaries as one normalized JSON file (see the entry
+// format above), so the offline provider can answer without parsing the pack on every start.
+//   StarDict: name.ifo + name.idx[.gz] + name.dict[.dz]
+//   dictd:    name.index + name.dict[.dz]
+//   JSON/TSV: validated and copied as-is
+// Articles are free text (StarDict 'h'/'x' fields are HTML/XDXF and get stripped). The layout most
+// English-Vietnamese packs use is understood line by line:
+//   @bank /bæŋk/        headword + IPA
+//   * danh từ           part of speech
+//   - ngân hàng         one sense ('=' examples and '!' idioms are skipped)
+// A pack whose articles are mostly Vietnamese is stored as senses; an English-only pack (EN-EN,
+// e.g. WordNet) as English definitions.
+const OFFLINE_PACK_MAX_SENSES = 12
+const OFFLINE_PACK_MAX_DEFINITIONS = 8
+const VIETNAMESE_LETTER_RE = /[ăâđêôơưàáảãạằắẳẵặầấẩẫậèéẻẽẹềếểễệìíỉĩịòóỏõọồốổỗộờớởỡợùúủũụừứửữựỳýỷỹỵ]/i
+const DICTIONARY_POS_PATTERNS = [
+  ['Verb', /^((ngoại |nội )?động từ|verb|vt|vi|v)(?!\p{L})/iu],
+  ['Noun', /^(danh từ|noun|n)(?!\p{L})/iu],
+  ['Adjective', /^(tính từ|adjective|adj|a)(?!\p{L})/iu],
+  ['Adverb', /^(phó từ|trạng từ|adverb|adv)(?!\p{L})/iu],
+  ['Pronoun', /^(đại từ|pronoun|pron)(?!\p{L})/iu],
+  ['Preposition', /^(giới từ|preposition|prep)(?!\p{L})/iu],
+  ['Conjunction', /^(liên từ|conjunction|conj)(?!\p{L})/iu],
+  ['Interjection', /^(thán từ|interjection|interj|int)(?!\p{L})/iu],
+  ['Determiner', /^(mạo từ|từ hạn định|determiner|det)(?!\p{L})/iu]
+]
+
+// exact: the whole text must be the POS name (a bare "n." line), not just start with it.
+function dictionaryPosLabel(text, exact) {
+  const t = String(text || '').trim().replace(/[.:]+$/, '')
+  for (const [label, re] of DICTIONARY_POS_PATTERNS) {
+    const m = t.match(re)
+    if (m && (!exact || m[0].length === t.length)) return label
+  }
+  return ''
+}
+
+function dictionaryMarkupToText(s) {
+  return String(s || '')
+    .replace(/<k>[\s\S]*?<\/k>/gi, '')
+    .replace(/<br\s*\/?>|<\/(p|div|li|def)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+// One article -> { ipa, items: [{ pos, text }] }
+function parseDictionaryArticle(word, body, ipa) {
+  const out = { ipa: normalizeOfflineIpa(ipa), items: [] }
+  const headword = String(word || '').trim().toLowerCase()
+  let pos = ''
+  const lines = String(body || '').split(/\r?\n/).map((l) => l.trim()).filter(Boolean)
+  lines.forEach((line, i) => {
+    if (line.startsWith('@') || (i === 0 && line.toLowerCase().startsWith(headword))) {
+      const m = line.match(/\/([^\/]{1,64})\/|\[([^\]]{1,64})\]/)
+      if (m && !out.ipa) out.ipa = normalizeOfflineIpa(m[1] || m[2])
+      const tag = line.match(/<([a-z.]+)>/i)
+      if (tag) pos = dictionaryPosLabel(tag[1], true) || pos
+      return
+    }
+    if (line.startsWith('*')) {
+      pos = dictionaryPosLabel(line.slice(1)) || pos
+      return
+    }
+    if (/^[=!+#]/.test(line)) return
+    const text = line.replace(/^[-•]\s*/, '').replace(/^\d+[.)]\s+/, '').trim()
+    if (!text) return
+    const barePos = !line.startsWith('-') && dictionaryPosLabel(text, true)
+    if (barePos) {
+      pos = barePos
+      return
+    }
+    out.items.push({ pos, text })
+  })
+  return out
+}
+
+async function readDictionaryPackFile(full) {
+  const buf = await fs.readFile(full)
+  // .gz and dictzip (.dz) files are both plain gzip streams.
+  return buf[0] === 0x1f && buf[1] === 0x8b ? zlib.gunzipSync(buf) : buf
+}
+
+function findDictionaryPackFile(base, exts) {
+  for (const ext of exts) {
+    if (fsSync.existsSync(base + ext)) return base + ext
+  }
+  return ''
+}
+
+// StarDict article fields are typed by one letter: lower-case types are UTF-8 text ended by NUL,
+// upper-case types are binary with a 32-bit size prefix (skipped). With sametypesequence the letters
+// come from the .ifo and the last field has neither terminator nor size.
+function decodeStarDictArticle(buf, types) {
+  const fields = []
+  let p = 0
+  const readField = (type, last) => {
+    if (type >= 'a' && type <= 'z') {
+      let end = last ? buf.length : buf.indexOf(0, p)
+      if (end < 0) end = buf.length
+      fields.push({ type, text: buf.toString('utf8', p, end) })
+      p = end + 1
+    } else {
+      p = last ? buf.length : p + 4 + buf.readUInt32BE(p)
+    }
+  }
+  if (types) {
+    for (let i = 0; i < types.length && p < buf.length; i++) readField(types[i], i === types.length - 1)
+  } else {
+    while (p < buf.length) {
+      const type = String.fromCharCode(buf[p])
+      p += 1
+      readField(type, false)
+    }
+  }
+  let ipa = ''
+  const body = []
+  for (const f of fields) {
+    if (f.type === 't') {
+      if (!ipa) ipa = f.text
+    } else if (f.type === 'h' || f.type === 'g' || f.type === 'x') {
+      const tr = f.text.match(/<tr>([\s\S]*?)<\/tr>/i)
+      if (tr && !ipa) ipa = tr[1]
+      body.push(dictionaryMarkupToText(f.text.replace(/<tr>[\s\S]*?<\/tr>/gi, '')))
+    } else if (f.type === 'm' || f.type === 'l' || f.type === 'y') {
+      body.push(f.text)
+    }
+  }
+  return { ipa, body: body.join('\n') }
+}
+
+async function readStarDictPack(ifoPath) {
+  const base = ifoPath.slice(0, -'.ifo'.length)
+  const info = {}
+  for (const line of (await fs.readFile(ifoPath, 'utf8')).split(/\r?\n/)) {
+    const i = line.indexOf('=')
+    if (i > 0) info[line.slice(0, i).trim()] = line.slice(i + 1).trim()
+  }
+  const idxPath = findDictionaryPackFile(base, ['.idx', '.idx.gz'])
+  const dictPath = findDictionaryPackFile(base, ['.dict', '.dict.dz'])
+  if (!idxPath || !dictPath) throw new Error('StarDict pack needs the .idx and .dict(.dz) files next to the .ifo')
+  const idx = await readDictionaryPackFile(idxPath)
+  const dict = await readDictionaryPackFile(dictPath)
+  const offsetBytes = info.idxoffsetbits === '64' ? 8 : 4
+  const articles = []
+  let p = 0
+  while (p < idx.length) {
+    const end = idx.indexOf(0, p)
+    if (end < 0 || end + offsetBytes + 4 > idx.length) break
+    const word = idx.toString('utf8', p, end)
+    p = end + 1
+    const offset = offsetBytes === 8 ? Number(idx.readBigUInt64BE(p)) : idx.readUInt32BE(p)
+    p += offsetBytes
+    const size = idx.readUInt32BE(p)
+    p += 4
+    try {
+      articles.push({ word, ...decodeStarDictArticle(dict.subarray(offset, offset + size), info.sametypesequence || '') })
+    } catch (e) {
+      // malformed article - skip it
+    }
+  }
+  return { name: info.bookname || path.basename(base), format: 'stardict', articles }
+}
+
+// dictd .index lines are "headword<TAB>offset<TAB>length" with numbers in base64 digits.
+const DICTD_BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+function decodeDictdNumber(s) {
+  let n = 0
+  for (const ch of String(s || '')) {
+    const v = DICTD_BASE64.indexOf(ch)
+    if (v < 0) return NaN
+    n = n * 64 + v
+  }
+  return n
+}
+
+async function readDictdPack(indexPath) {
+  const base = indexPath.slice(0, -'.index'.length)
+  const dictPath = findDictionaryPackFile(base, ['.dict', '.dict.dz'])
+  if (!dictPath) throw new Error('dictd pack needs the .dict(.dz) file next to the .index')
+  const dict = await readDictionaryPackFile(dictPath)
+  let name = path.basename(base)
+  const articles = []
+  for (const line of (await fs.readFile(indexPath, 'utf8')).split(/\r?\n/)) {
+    const [word, off, len] = line.split('\t')
+    const offset = decodeDictdNumber(off)
+    const size = decodeDictdNumber(len)
+    if (!word || !Number.isFinite(offset) || !Number.isFinite(size)) continue
+    const body = dict.toString('utf8', offset, offset + size)
+    if (word.startsWith('00-database-') || word.startsWith('00database')) {
+      if (/short$/.test(word)) name = body.split(/\r?\n/).map((l) => l.trim()).filter((l) => l && !l.startsWith('00-database'))[0] || name
+      continue
+    }
+    articles.push({ word, ipa: '', body })
+  }
+  return { name, format: 'dictd', articles }
+}
+
+function buildOfflineDictionaryPack({ name, format, articles }) {
+  const parsed = articles.map((a) => ({ word: a.word, ...parseDictionaryArticle(a.word, a.body, a.ipa) }))
+  const withItems = parsed.filter((a) => a.items.length > 0)
+  const vietnamese = withItems.filter((a) => a.items.some((it) => VIETNAMESE_LETTER_RE.test(it.text))).length
+  const bilingual = withItems.length > 0 && vietnamese >= withItems.length * 0.2
+  const entries = new Map()
+  for (const a of parsed) {
+    addOfflineDictionaryEntry(entries, a.word, {
+      ipa: a.ipa,
+      senses: bilingual
+        ? a.items.flatMap((it) => it.text.split(/\s*;\s*/).map((vi) => ({ vi, pos: it.pos }))).slice(0, OFFLINE_PACK_MAX_SENSES)
+        : [],
+      definitions: bilingual ? [] : a.items.slice(0, OFFLINE_PACK_MAX_DEFINITIONS)
+    })
+  }
+  const out = {}
+  for (const [word, e] of entries) {
+    out[word] = {
+      ...(e.senses.length > 0 ? { senses: e.senses } : {}),
+      ...(e.ipa ? { ipa: e.ipa } : {}),
+      ...(e.definitions.length > 0 ? { definitions: e.definitions } : {})
+    }
+  }
+  return { name, format, importedAt: new Date().toISOString(), entries: out, count: entries.size }
+}
+
+async function importOfflineDictionaryPack(filePath) {
+  const lower = filePath.toLowerCase()
+  const root = getUserDictionariesPath()
+  const uniqueName = (base, ext) => {
+    const safe = String(base || '').replace(/[\\/:*?"<>|]+/g, '_').trim() || 'dictionary'
+    let name = `${safe}${ext}`
+    for (let i = 2; fsSync.existsSync(path.join(root, name)); i++) name = `${safe} (${i})${ext}`
+    return name
+  }
+
+  if (lower.endsWith('.json') || lower.endsWith('.tsv')) {
+    const ext = path.extname(lower)
+    const text = await fs.readFile(filePath, 'utf8')
+    const parsed = parseOfflineDictionary(text, ext)
+    if (parsed.entries.size === 0) throw new Error('No dictionary entries found in this file')
+    const file = uniqueName(path.basename(filePath, path.extname(filePath)), ext)
+    await fs.writeFile(path.join(root, file), text, 'utf8')
+    return { file, name: parsed.name || path.basename(file, ext), format: ext.slice(1), entries: parsed.entries.size }
+  }
+
+  let pack = null
+  if (lower.endsWith('.ifo')) pack = await readStarDictPack(filePath)
+  else if (lower.endsWith('.index')) pack = await readDictdPack(filePath)
+  else throw new Error('Unsupported dictionary file. Choose a StarDict .ifo, a dictd .index, or a .json/.tsv file')
+
+  const { count, ...data } = buildOfflineDictionaryPack(pack)
+  if (count === 0) throw new Error('No dictionary entries found in this pack')
+  const file = uniqueName(pack.name, '.json')
+  await fs.writeFile(path.join(root, file), JSON.stringify(data), 'utf8')
+  return { file, name: pack.name, format: pack.format, entries: count }
+}
+
+async function deleteOfflineDictionary(file) {
+  const root = getUserDictionariesPath()
+  const full = path.join(root, path.basename(String(file || '')))
+  if (path.dirname(full) !== root || !fsSync.existsSync(full)) return false
+  await fs.unlink(full)
+  offlineDictionaryCache.delete(full)
+  return true
+}
+
+async function libreTranslatePlain({ baseUrl, apiKey, from, to, text, signal }) {
+  const resp = await fetch(`${baseUrl}/translate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ q: text, source: from, target: to, format: 'text', ...(apiKey ? { api_key: apiKey } : {}) }),
+    signal
+  })
+  if (!resp.ok) {
+    const t = await resp.text().catch(() => '')
+    throw new Error(`LibreTranslate failed: ${resp.status} ${t}`)
+  }
+  const data = await resp.json()
+  return String((data && data.translatedText) || '')
+}
 
-        if (!meaningSuggested && contextSentenceVi) {
-          meaningSuggested = chooseMeaningByContext(candidates, contextSentenceVi)
+const TRANSLATION_PROVIDERS = {
+  llm: {
+    label: 'AI provider (LLM)',
+    capabilities: { dictionary: true, translate: true },
+    prepare: (s, req) => getLlmConfig(req),
+    lookup: (g, { word, contextSentenceEn, from, to, signal }) =>
+      gemmaSuggestMeaningCandidates({ key: g.key, endpoint: g.endpoint, model: g.model, word, contextSentenceEn, from, to, signal }),
+    translate: (g, { from, to, text, signal }) => googleTranslatePlain({ key: g.key, endpoint: g.endpoint, model: g.model, from, to, text, signal })
+  },
+  azure: {
+    label: 'Azure Translator',
+    capabilities: { dictionary: true, translate: true },
+    prepare: (s, req) => getTranslatorConfig(req),
+    lookup: async (cfg, { word, from, to, signal }) => {
+      const dict = safeJsonParse(
+        await cachedResponse({ provider: 'azure', kind: 'dictionary', input: `${from}>${to} ${word.toLowerCase()}` }, async () =>
+          JSON.stringify(await azureDictionaryLookup({ key: cfg.key, region: cfg.region, from, to, word, signal }))
+        )
+      )
+      const translations = (Array.isArray(dict) && dict[0] && Array.isArray(dict[0].translations)) ? dict[0].translations : []
+      const candidates = translations.map((t) => ({
+        vi: String(t.displayTarget || t.normalizedTarget || '').trim(),
+        pos: String(t.posTag || '').trim(),
+        back: Array.isArray(t.backTranslations)
+          ? t.backTranslations.map((b) => String(b.displayText || b.normalizedText || '').trim()).filter(Boolean).slice(0, 8)
+          : []
+      }))
+      return { candidates }
+    },
+    translate: (cfg, { from, to, text, signal }) =>
+      cachedResponse({ provider: 'azure', kind: 'translate', input: `${from}>${to} ${text}` }, () =>
+        azureTranslatePlain({ key: cfg.key, region: cfg.region, from, to, text, signal })
+      )
+  },
+  offline: {
+    label: 'Offline dictionary',
+    capabilities: { dictionary: true, translate: false },
+    prepare: async () => {
+      const dicts = await loadOfflineDictionaries()
+      if (dicts.length === 0) throw new Error('No offline dictionary installed')
+      return dicts
+    },
+    lookup: async (dicts, { word, from, to }) => {
+      if (from !== 'en' || to !== 'vi') return { candidates: [] }
+      for (const form of buildLookupCandidates(word)) {
+        const candidates = []
+        for (const d of dicts) {
+          for (const sense of (d.entries.get(form.toLowerCase()) || { senses: [] }).senses) {
+            if (!candidates.some((c) => c.vi === sense.vi)) candidates.push({ ...sense, back: [form], dictionary: d.name })
+          }
         }
+        if (candidates.length > 0) return { candidates }
+      }
+      return { candidates: [] }
+    }
+  },
+  libretranslate: {
+    label: 'LibreTranslate',
+    capabilities: { dictionary: false, translate: true },
+    prepare: (s) => {
+      if (!s.libretranslate.baseUrl) throw new Error('Missing LibreTranslate URL')
+      return s.libretranslate
+    },
+    translate: (cfg, { from, to, text, signal }) =>
+      cachedResponse({ provider: `libretranslate:${cfg.baseUrl}`, kind: 'translate', input: `${from}>${to} ${text}` }, () =>
+        libreTranslatePlain({ ...cfg, from, to, text, signal })
+      )
+  }
+}
+
+// Enabled providers with the given capability, in priority order, each with its prepared config.
+async function prepareTranslationProviders(capability, req) {
+  const s = await loadTranslationProviderSettings()
+  const out = []
+  for (const { id, enabled } of s.chain) {
+    const provider = TRANSLATION_PROVIDERS[id]
+    if (!enabled || !provider.capabilities[capability]) continue
+    try {
+      out.push({ id, provider, cfg: await provider.prepare(s, req) })
+    } catch (e) {
+      // not configured - skip
+    }
+  }
+  return out
+}
+
+function isAbortError(e) {
+  return !!(e && e.name === 'AbortError')
+}
+
+// First translate-capable provider that succeeds wins. Returns { text, source }.
+async function translateWithChain(req, { from, to, text, signal }) {
+  let lastErr = null
+  for (const { id, provider, cfg } of await prepareTranslationProviders('translate', req)) {
+    try {
+      const out = String(await provider.translate(cfg, { from, to, text, signal }) || '').trim()
+      if (out) return { text: out, source: id }
+    } catch (e) {
+      if (isAbortError(e)) throw e
+      lastErr = e
+    }
+  }
+  if (lastErr) throw lastErr
+  return { text: '', source: '' }
+}
+
+// Dictionary candidates for one word. Walks dictionary providers first; if none knows the word,
+// falls back to translating the bare word. Every candidate carries the provider id in `source`.
+// An LLM lookup may also propose meaningSuggested/meaningNoteVi; those are kept even when it
+// returned no candidates and a later provider supplies them.
+async function lookupWithChain(req, { word, contextSentenceEn, from, to, signal }) {
+  const extra = { meaningSuggested: '', meaningNoteVi: '' }
+  for (const { id, provider, cfg } of await prepareTranslationProviders('dictionary', req)) {
+    try {
+      const res = await provider.lookup(cfg, { word, contextSentenceEn, from, to, signal })
+      if (!extra.meaningSuggested) extra.meaningSuggested = String((res && res.meaningSuggested) || '').trim()
+      if (!extra.meaningNoteVi) extra.meaningNoteVi = String((res && res.meaningNoteVi) || '').trim()
+      const candidates = (res && Array.isArray(res.candidates) ? res.candidates : [])
+        .filter((c) => c && String(c.vi || '').trim())
+        .map((c) => ({ ...c, source: id }))
+      if (candidates.length > 0) return { ...extra, candidates, source: id }
+    } catch (e) {
+      if (isAbortError(e)) throw e
+    }
+  }
+
+  for (const { id, provider, cfg } of await prepareTranslationProviders('translate', req)) {
+    try {
+      const translated = await provider.translate(cfg, { from, to, text: word, signal })
+      const candidates = splitVietnameseCandidates(translated).map((vi) => ({ vi, pos: '', back: [word], source: id }))
+      if (!candidatesLookUntranslated(word, candidates)) return { ...extra, candidates, source: id }
+    } catch (e) {
+      if (isAbortError(e)) throw e
+    }
+  }
+  return { ...extra, candidates: [], source: '' }
+}
+
+async function describeTranslationProviders() {
+  const s = await loadTranslationProviderSettings()
+  const chain = []
+  for (const { id, enabled } of s.chain) {
+    const provider = TRANSLATION_PROVIDERS[id]
+    let available = true
+    let reason = ''
+    try {
+      await provider.prepare(s, {})
+    } catch (e) {
+      available = false
+      reason = e && e.message ? e.message : String(e)
+    }
+    chain.push({ id, label: provider.label, enabled, capabilities: provider.capabilities, available, reason })
+  }
+  const dictionaries = (await loadOfflineDictionaries()).map((d) => ({ file: d.file, name: d.name, entries: d.entries.size }))
+  return {
+    chain,
+    libretranslate: { baseUrl: s.libretranslate.baseUrl, hasApiKey: !!s.libretranslate.apiKey },
+    dictionariesPath: getUserDictionariesPath(),
+    dictionaries
+  }
+}
+
+async function autoMeaningCore(payload) {
+  const req = payload || {}
+  const requestId = String(req.requestId || generateUUID())
+  const word = String(req.word || '').trim()
+  const contextSentenceEn = String(req.contextSentenceEn || '').trim()
+  const from = String(req.from || 'en')
+  const to = String(req.to || 'vi')
+
+  if (!word) {
+    return {
+      requestId,
+      word: '',
+      meaningSuggested: '',
+      meaningNoteEn: '',
+      meaningNoteVi: '',
+      meaningNoteVie: '',
+      contextSentenceVi: '',
+      candidates: []
+    }
+  }
+
+  if (typeof fetch !== 'function') {
+    throw new Error('Global fetch is not available in Electron main process')
+  }
+
+  const controller = new AbortController()
+  pendingAutoMeaning.set(requestId, controller)
+
+  try {
+    let candidates = []
+    let contextSentenceVi = ''
+    let meaningSuggested = ''
+    let meaningNoteVi = ''
+    let meaningNoteEn = ''
+
+    let candidateSource = ''
+    let contextSource = ''
+
+    // LLM config is still used directly for the explanatory notes below (not a translation task).
+    let g = null
+    try {
+      g = await getLlmConfig(req)
+    } catch (e) {
+      g = null
+    }
+
+    // 1) Dictionary candidates from the provider chain (LLM sense disambiguation first by default),
+    // concurrently with the context sentence translation to reduce single-word latency.
+    const [lookupRes, ctxRes] = await Promise.allSettled([
+      lookupWithChain(req, { word, contextSentenceEn, from, to, signal: controller.signal }),
+      contextSentenceEn
+        ? translateWithChain(req, { from, to, text: contextSentenceEn, signal: controller.signal })
+        : Promise.resolve({ text: '', source: '' })
+    ])
+
+    if (lookupRes.status === 'fulfilled') {
+      candidates = lookupRes.value.candidates
+      candidateSource = lookupRes.value.source
+      meaningSuggested = lookupRes.value.meaningSuggested
+      meaningNoteVi = lookupRes.value.meaningNoteVi
+    } else if (isAbortError(lookupRes.reason)) {
+      throw lookupRes.reason
+    }
+
+    if (ctxRes.status === 'fulfilled') {
+      contextSentenceVi = ctxRes.value.text
+      contextSource = ctxRes.value.source
+    }
+
+    try {
+      meaningNoteEn = await fetchEnglishDefinition(word)
+    } catch (e) {
+      meaningNoteEn = ''
+    }
+
+    if (meaningNoteEn && g) {
+      try {
+        const translatedNote = await gemmaTranslateMeaningNoteVie({
+          key: g.key,
+          endpoint: g.endpoint,
+          model: g.model,
+          word,
+          englishMeaning: meaningNoteEn,
+          contextSentenceEn,
+          signal: controller.signal
+        })
+        if (translatedNote) meaningNoteVi = translatedNote
       } catch (e) {
-        // ignore fallback errors (missing Azure config, request errors, etc.)
+        // keep fallback note below
       }
     }
 
+    // 2) Candidates without an LLM pick (dictionary providers): choose the sense matching the context.
+    if (!meaningSuggested && contextSentenceVi && candidates.length > 0) {
+      meaningSuggested = chooseMeaningByContext(candidates, contextSentenceVi)
+    }
+
     if (!meaningSuggested && candidates.length > 0) {
       if (!contextSentenceEn) {
         const picked = selectDistinctMeaningsFromCandidates(candidates, 3)
@@ -2644,7 +3761,8 @@ async function autoMeaningCore(payload) {
       meaningNoteVi: meaningNoteVi || '',
       meaningNoteVie: meaningNoteVi || '',
       contextSentenceVi: contextSentenceVi || '',
-      candidates
+      candidates,
+      sources: { candidates: candidateSource, contextSentenceVi: contextSource }
     }
   } catch (e) {
     if (e && e.name === 'AbortError') {
@@ -2698,7 +3816,7 @@ async function enrichWordCore(payload) {
   try {
     let g = null
     try {
-      g = await getGoogleAiStudioConfig(req)
+      g = await getLlmConfig(req)
     } catch (e) {
       g = null
     }
@@ -2711,6 +3829,13 @@ async function enrichWordCore(payload) {
       to
     })
 
+    // Offline dictionary data wins over the LLM's guesses; the LLM only fills what it lacks.
+    const offline = await lookupOfflineDictionaryEntry(word).catch(() => null)
+    const offlineCandidates = base.sources && base.sources.candidates === 'offline' ? base.candidates : []
+    const chosenOffline = offlineCandidates.find((c) => c.vi === base.meaningSuggested && c.pos)
+    const offlinePos = normalizeGemmaPos((chosenOffline && chosenOffline.pos) || (offline && offline.pos) || '')
+    const offlineIpa = offline && offline.ipa ? offline.ipa : ''
+
     if (g) {
       const enriched = await gemmaEnrichWord({
         key: g.key,
@@ -2732,14 +3857,20 @@ async function enrichWordCore(payload) {
         meaningNoteVi: String(base.meaningNoteVi || enriched.meaningNoteVi || '').trim(),
         meaningNoteVie: String(base.meaningNoteVie || base.meaningNoteVi || enriched.meaningNoteVi || '').trim(),
         contextSentenceVi: String(base.contextSentenceVi || enriched.contextSentenceVi || '').trim(),
-        candidates: Array.isArray(enriched.candidates) ? enriched.candidates : [],
-        posSuggested: enriched.posSuggested || '',
-        ipa: enriched.ipa || '',
+        candidates: offlineCandidates.length > 0
+          ? offlineCandidates
+          : (Array.isArray(enriched.candidates) ? enriched.candidates : []).map((c) => ({ ...c, source: 'llm' })),
+        sources: {
+          candidates: offlineCandidates.length > 0 ? 'offline' : 'llm',
+          contextSentenceVi: base.contextSentenceVi ? base.sources.contextSentenceVi : 'llm'
+        },
+        posSuggested: offlinePos || enriched.posSuggested || '',
+        ipa: offlineIpa || enriched.ipa || '',
         example: enriched.example || ''
       }
     }
 
-    // Fallback: reuse autoMeaningCore results and leave ipa/example empty.
+    // Fallback: reuse autoMeaningCore results; ipa/pos only from the offline dictionary, no example.
     return {
       requestId,
       word,
@@ -2749,8 +3880,9 @@ async function enrichWordCore(payload) {
       meaningNoteVie: String(base && (base.meaningNoteVie || base.meaningNoteVi) ? (base.meaningNoteVie || base.meaningNoteVi) : '').trim(),
       contextSentenceVi: String(base && base.contextSentenceVi ? base.contextSentenceVi : '').trim(),
       candidates: Array.isArray(base && base.candidates) ? base.candidates : [],
-      posSuggested: '',
-      ipa: '',
+      sources: base && base.sources ? base.sources : { candidates: '', contextSentenceVi: '' },
+      posSuggested: offlinePos,
+      ipa: offlineIpa,
       example: ''
     }
   } catch (e) {
@@ -2799,7 +3931,7 @@ async function enrichWordBulkCore(payload) {
   try {
     let g = null
     try {
-      g = await getGoogleAiStudioConfig(req)
+      g = await getLlmConfig(req)
     } catch (e) {
       g = null
     }
@@ -2825,7 +3957,7 @@ async function enrichWordBulkCore(payload) {
 
         const meaningSuggested = String(x.meaningSuggested || '').trim()
         const posSuggested = String(x.posSuggested || '').trim()
-        const candidates = Array.isArray(x.candidates) ? x.candidates : []
+        const candidates = (Array.isArray(x.candidates) ? x.candidates : []).map((c) => ({ ...c, source: 'llm' }))
 
         // Treat empty meaning/POS as an error so the UI doesn't show "done" for unusable rows.
         if (!meaningSuggested || !posSuggested) {
@@ -2949,152 +4081,1789 @@ async function enrichWordBulkCore(payload) {
     if (e && e.name === 'AbortError') {
       return { requestId, items: words.map((w) => ({ word: w, error: 'aborted' })) }
     }
-    console.error('enrichWordBulk error:', e && e.message ? e.message : e)
-    throw e
-  } finally {
-    pendingAutoMeaning.delete(requestId)
+    console.error('enrichWordBulk error:', e && e.message ? e.message : e)
+    throw e
+  } finally {
+    pendingAutoMeaning.delete(requestId)
+  }
+}
+
+async function azureDictionaryLookup({ key, region, from, to, word, signal }) {
+  const url = `${AZURE_TRANSLATOR_ENDPOINT}/dictionary/lookup?api-version=3.0&from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+  const resp = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Ocp-Apim-Subscription-Key': key,
+      'Ocp-Apim-Subscription-Region': region,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify([{ Text: word }]),
+    signal
+  })
+  if (!resp.ok) {
+    const t = await resp.text().catch(() => '')
+    throw new Error(`Azure dictionary lookup failed: ${resp.status} ${t}`)
+  }
+  return await resp.json()
+}
+
+// Simple UUID v4 implementation
+function generateUUID() {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
+    const r = Math.random() * 16 | 0
+    const v = c === 'x' ? r : (r & 0x3 | 0x8)
+    return v.toString(16)
+  })
+}
+
+// (data dir, getDataRoot and listTree are declared once below)
+
+async function ensureCsvHasHeader(filePath) {
+  const text = await fs.readFile(filePath, 'utf8')
+  if (!text.trim()) {
+    const header = Papa.unparse([], { header: true, columns: ['word', 'meaning', 'meaningNoteVi', 'pronunciation', 'pos', 'example'] })
+    await fs.writeFile(filePath, 'word,meaning,meaningNoteVi,pronunciation,pos,example\n', 'utf8')
+  }
+}
+
+async function gemmaSuggestExampleSentence({ key, endpoint, model, word, meaningVi, pos, contextSentenceEn, signal }) {
+  const w = String(word || '').trim()
+  const m = String(meaningVi || '').trim()
+  const p = String(pos || '').trim()
+  const ctx = String(contextSentenceEn || '').trim()
+  if (!w) return ''
+
+  const prompt =
+    `You are an English teacher writing a memorable example sentence for a vocabulary flashcard.\n` +
+    `Task: Write exactly ONE natural English sentence that uses the word "${w}" correctly.\n` +
+    (m ? `Meaning (Vietnamese gloss): "${m}"\n` : '') +
+    (p ? `Part of speech: "${p}"\n` : '') +
+    (ctx ? `Optional context (English): "${ctx}"\n` : '') +
+    `Rules:\n` +
+    `- Output ONLY the single sentence (no quotes, no numbering, no explanation).\n` +
+    `- Keep it short, vivid, and easy to remember.\n` +
+    `- It MUST contain the exact word "${w}" (case-insensitive is ok).\n`
+
+  const raw = await llmGenerateContent({ key, endpoint, model, prompt, signal, kind: 'example' })
+  let out = String(raw || '').trim()
+  out = out.replace(/^"+|"+$/g, '').trim()
+  // Remove accidental bullet/numbering.
+  out = out.replace(/^\s*[-*]\s+/, '').replace(/^\s*\d+\s*[\).]\s+/, '').trim()
+  // If model returned multiple lines, keep the first non-empty.
+  if (out.includes('\n')) {
+    out = out
+      .split(/\r?\n/)
+      .map((x) => x.trim())
+      .filter(Boolean)[0] || ''
+  }
+  return out
+}
+
+async function gemmaSuggestMnemonic({ key, endpoint, model, word, meaningVi, pos, signal }) {
+  const w = String(word || '').trim()
+  const m = String(meaningVi || '').trim()
+  const p = String(pos || '').trim()
+  if (!w) return ''
+
+  const prompt =
+    `You are a Vietnamese-speaking English teacher helping a learner who keeps forgetting a word.\n` +
+    `Task: Write ONE short mnemonic (memory trick) in Vietnamese for the English word "${w}".\n` +
+    (m ? `Meaning (Vietnamese gloss): "${m}"\n` : '') +
+    (p ? `Part of speech: "${p}"\n` : '') +
+    `Rules:\n` +
+    `- Link the sound or spelling of "${w}" to its meaning (sound-alike, story, or word parts).\n` +
+    `- Output ONLY the mnemonic, at most 2 sentences, no quotes, no explanation.\n`
+
+  const raw = await llmGenerateContent({ key, endpoint, model, prompt, signal, kind: 'mnemonic' })
+  let out = String(raw || '').trim()
+  out = out.replace(/^"+|"+$/g, '').replace(/^\s*[-*]\s+/, '').trim()
+  return out
+}
+
+const DATA_DIR_NAME = 'vocab-data'
+
+function getDataRoot() {
+  const root = path.join(app.getPath('userData'), DATA_DIR_NAME)
+  if (!fsSync.existsSync(root)) fsSync.mkdirSync(root, { recursive: true })
+  return root
+}
+
+function getDataPdfRoot() {
+  const root = path.join(app.getPath('userData'), 'Data', 'pdf')
+  if (!fsSync.existsSync(root)) fsSync.mkdirSync(root, { recursive: true })
+  return root
+}
+
+function normalizeRel(p) {
+  if (!p) return ''
+  // use forward slashes
+  return p.replace(/\\/g, '/').replace(/^\//, '')
+}
+
+function listTree(dir, root) {
+  const items = fsSync.readdirSync(dir, { withFileTypes: true })
+  return items.map((it) => {
+    const full = path.join(dir, it.name)
+    const rel = normalizeRel(path.relative(root, full))
+    if (it.isDirectory()) return { name: it.name, path: rel, type: 'folder', children: listTree(full, root) }
+    return { name: it.name, path: rel, type: 'file' }
+  })
+}
+
+function listTreeWithPdf() {
+  const root = getDataRoot()
+  const tree = listTree(root, root)
+  // Note: Previously we added a virtual "PDF" folder into the tree. That
+  // behaviour was removed — PDFs are managed separately under Data/pdf.
+
+  return tree
+}
+
+// Export Smart Review (VocabularyStore snapshot) to a JSON file
+ipcMain.handle('exportSmartReview', async (ev, rawJson) => {
+  try {
+    const win = BrowserWindow.fromWebContents(ev.sender)
+    const ymd = new Date().toISOString().slice(0, 10)
+    const defaultName = `smart-review-${ymd}.json`
+    const defaultPath = path.join(app.getPath('downloads'), defaultName)
+
+    const { canceled, filePath } = await dialog.showSaveDialog(win, {
+      title: 'Export Smart Review',
+      defaultPath,
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+    })
+
+    if (canceled || !filePath) return null
+
+    let out = String(rawJson ?? '')
+    // Pretty print if possible
+    try {
+      const parsed = JSON.parse(out || '{}')
+      out = JSON.stringify(parsed, null, 2)
+    } catch {
+      // keep raw
+    }
+
+    await fs.writeFile(filePath, out, 'utf8')
+    return filePath
+  } catch (err) {
+    console.error('Error exporting Smart Review:', err)
+    throw err
+  }
+})
+
+// Import a Smart Review JSON file (as written by exportSmartReview). Only reads and parses the
+// file; merging into the store happens in the renderer after the user picks a mode.
+ipcMain.handle('importSmartReview', async (ev) => {
+  try {
+    const win = BrowserWindow.fromWebContents(ev.sender)
+    const { canceled, filePaths } = await dialog.showOpenDialog(win, {
+      title: 'Import Smart Review',
+      defaultPath: app.getPath('downloads'),
+      properties: ['openFile'],
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+    })
+    if (canceled || !filePaths || !filePaths[0]) return null
+
+    const filePath = filePaths[0]
+    const data = safeJsonParse(await fs.readFile(filePath, 'utf8'))
+    if (!data || typeof data !== 'object') throw new Error('Invalid Smart Review file')
+    return { filePath, data }
+  } catch (err) {
+    console.error('Error importing Smart Review:', err)
+    throw err
+  }
+})
+
+// --- Anki .apkg import/export ---
+// An .apkg is a zip holding a legacy SQLite collection (collection.anki2 / collection.anki21,
+// schema 11) plus a "media" JSON map. sql.js (asm.js build, so no .wasm file to ship) reads and
+// writes the collection. Newer Anki versions may only include collection.anki21b (zstd
+// compressed); those need "Support older Anki versions" ticked when exporting.
+const ANKI_DAY_MS = 24 * 60 * 60 * 1000
+const ANKI_MODEL_NAME = 'VocabMaster'
+const ANKI_FIELDS = ['Word', 'Meaning', 'IPA', 'POS', 'Example', 'Meaning EN', 'Meaning VI']
+const ANKI_SCHEMA_SQL = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`
+
+let sqlJsPromise = null
+function getSqlJs() {
+  if (!sqlJsPromise) sqlJsPromise = initSqlJs()
+  return sqlJsPromise
+}
+
+function escapeAnkiHtml(s) {
+  return String(s || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r?\n/g, '<br>')
+}
+
+function stripAnkiHtml(s) {
+  return String(s || '')
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>|<\/div>|<\/p>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Anki's duplicate check: first 8 hex digits of sha1(stripped sort field) as an integer.
+function ankiChecksum(text) {
+  return parseInt(crypto.createHash('sha1').update(stripAnkiHtml(text), 'utf8').digest('hex').slice(0, 8), 16)
+}
+
+function ankiGuid() {
+  return crypto.randomBytes(8).toString('base64').replace(/[^A-Za-z0-9]/g, '').slice(0, 10) || String(Date.now())
+}
+
+function startOfLocalDay(ts) {
+  const d = new Date(ts)
+  d.setHours(0, 0, 0, 0)
+  return d.getTime()
+}
+
+// notes: [{ word, meaning, meaningEn, meaningVi, pronunciation, pos, example, srs? }]
+// srs (optional): { interval, easeFactor, reps, lapses, nextReviewDate } — cards with an
+// interval are exported as review cards so Anki keeps the current schedule.
+async function buildApkg(deckName, notes) {
+  const SQL = await getSqlJs()
+  const db = new SQL.Database()
+  try {
+    db.exec(ANKI_SCHEMA_SQL)
+
+    const nowMs = Date.now()
+    const nowSec = Math.floor(nowMs / 1000)
+    const crtMs = startOfLocalDay(nowMs)
+    const modelId = nowMs
+    const deckId = nowMs + 1
+
+    const model = {
+      id: modelId,
+      name: ANKI_MODEL_NAME,
+      type: 0,
+      mod: nowSec,
+      usn: -1,
+      sortf: 0,
+      did: deckId,
+      tmpls: [{
+        name: 'Card 1',
+        ord: 0,
+        qfmt: '<div class="word">{{Word}}</div>{{#IPA}}<div class="ipa">{{IPA}}</div>{{/IPA}}',
+        afmt: '{{FrontSide}}<hr id=answer><div class="meaning">{{Meaning}}</div>'
+          + '{{#POS}}<div class="pos">{{POS}}</div>{{/POS}}'
+          + '{{#Example}}<div class="example">{{Example}}</div>{{/Example}}',
+        did: null,
+        bqfmt: '',
+        bafmt: '',
+      }],
+      flds: ANKI_FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+      css: '.card { font-family: Arial; font-size: 22px; text-align: center; }\n'
+        + '.ipa, .pos { color: #64748b; font-size: 16px; }\n'
+        + '.example { font-style: italic; font-size: 18px; margin-top: 12px; }',
+      latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+      latexPost: '\\end{document}',
+      req: [[0, 'any', [0]]],
+      tags: [],
+      vers: [],
+    }
+    const makeDeck = (id, name) => ({
+      id,
+      name,
+      mod: nowSec,
+      usn: -1,
+      lrnToday: [0, 0],
+      revToday: [0, 0],
+      newToday: [0, 0],
+      timeToday: [0, 0],
+      collapsed: false,
+      desc: '',
+      dyn: 0,
+      conf: 1,
+      extendNew: 10,
+      extendRev: 50,
+    })
+    const decks = { 1: makeDeck(1, 'Default'), [deckId]: makeDeck(deckId, deckName) }
+    const dconf = {
+      1: {
+        id: 1,
+        name: 'Default',
+        mod: 0,
+        usn: 0,
+        maxTaken: 60,
+        autoplay: true,
+        timer: 0,
+        replayq: true,
+        dyn: false,
+        new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+        rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, maxIvl: 36500, ivlFct: 1, bury: true, minSpace: 1 },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+      },
+    }
+    const conf = {
+      nextPos: notes.length + 1,
+      estTimes: true,
+      activeDecks: [1],
+      sortType: 'noteFld',
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: 1,
+      newBury: true,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: String(modelId),
+      collapseTime: 1200,
+    }
+
+    db.run(
+      'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+      [Math.floor(crtMs / 1000), nowMs, nowMs, JSON.stringify(conf), JSON.stringify({ [modelId]: model }), JSON.stringify(decks), JSON.stringify(dconf), '{}']
+    )
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')')
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, \'\')')
+    try {
+      notes.forEach((n, i) => {
+        const id = nowMs + i
+        const fields = [
+          n.word,
+          n.meaning,
+          n.pronunciation,
+          n.pos,
+          n.example,
+          n.meaningEn,
+          n.meaningVi,
+        ].map(escapeAnkiHtml)
+        insertNote.run([id, ankiGuid(), modelId, nowSec, '', fields.join('\x1f'), fields[0], ankiChecksum(fields[0])])
+
+        const srs = n.srs
+        const ivl = srs ? Math.max(0, Math.round(Number(srs.interval) || 0)) : 0
+        if (ivl > 0) {
+          const dueTs = Number(srs.nextReviewDate) || nowMs
+          const due = Math.round((startOfLocalDay(dueTs) - crtMs) / ANKI_DAY_MS)
+          const factor = Math.round((Number(srs.easeFactor) || 2.5) * 1000)
+          insertCard.run([id, id, deckId, nowSec, 2, 2, due, ivl, factor, Math.max(0, Number(srs.reps) || 0), Math.max(0, Number(srs.lapses) || 0)])
+        } else {
+          insertCard.run([id, id, deckId, nowSec, 0, 0, i + 1, 0, 0, 0, 0])
+        }
+      })
+    } finally {
+      insertNote.free()
+      insertCard.free()
+    }
+
+    const zip = new JSZip()
+    zip.file('collection.anki2', db.export())
+    zip.file('media', '{}')
+    return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+  } finally {
+    db.close()
+  }
+}
+
+async function saveApkgWithDialog(ev, deckName, notes) {
+  const win = BrowserWindow.fromWebContents(ev.sender)
+  const safeName = String(deckName || 'deck').replace(/[\\/:*?"<>|]+/g, '_').trim() || 'deck'
+  const { canceled, filePath } = await dialog.showSaveDialog(win, {
+    title: 'Export to Anki',
+    defaultPath: path.join(app.getPath('downloads'), `${safeName}.apkg`),
+    filters: [{ name: 'Anki Deck Package', extensions: ['apkg'] }],
+  })
+  if (canceled || !filePath) return null
+  const buf = await buildApkg(deckName, notes)
+  await fs.writeFile(filePath, buf)
+  return { filePath, count: notes.length }
+}
+
+// Pick the model field index for each of our columns by field name.
+function mapAnkiFields(fieldNames) {
+  const names = fieldNames.map((n) => String(n || '').toLowerCase().trim())
+  const find = (patterns) => names.findIndex((n) => patterns.some((p) => p.test(n)))
+  const word = find([/^word$/, /^front$/, /^expression$/, /^vocab/, /^term$/, /^english$/])
+  const meaning = find([/^meaning$/, /^back$/, /^definition$/, /^translation$/, /^vietnamese$/, /^answer$/])
+  return {
+    word: word >= 0 ? word : 0,
+    meaning: meaning >= 0 ? meaning : (names.length > 1 ? 1 : -1),
+    pronunciation: find([/^ipa$/, /pronunciation/, /phonetic/, /^reading$/]),
+    pos: find([/^pos$/, /part.?of.?speech/, /^type$/, /^word.?type$/]),
+    example: find([/^example/, /sentence/]),
+    meaningEn: find([/^meaning.?en/, /english.?(meaning|definition)/]),
+    meaningVi: find([/^meaning.?vi/, /vietnamese.?(meaning|definition)/]),
+  }
+}
+
+async function readApkg(filePath) {
+  const zip = await JSZip.loadAsync(await fs.readFile(filePath))
+  const entry = zip.file('collection.anki21') || zip.file('collection.anki2')
+  if (!entry || (zip.file('collection.anki21b') && !zip.file('collection.anki21'))) {
+    throw new Error('Unsupported .apkg format. In Anki, export again with "Support older Anki versions" enabled.')
+  }
+
+  const SQL = await getSqlJs()
+  const db = new SQL.Database(await entry.async('uint8array'))
+  try {
+    const all = (sql) => {
+      const res = db.exec(sql)
+      if (!res.length) return []
+      const { columns, values } = res[0]
+      return values.map((v) => Object.fromEntries(columns.map((c, i) => [c, v[i]])))
+    }
+
+    const col = all('SELECT crt, models, decks FROM col LIMIT 1')[0]
+    if (!col) throw new Error('Invalid Anki collection')
+    const models = safeJsonParse(col.models) || {}
+    const decks = safeJsonParse(col.decks) || {}
+    const crtMs = Number(col.crt) * 1000
+
+    // Only the first card of each note carries the schedule we seed from.
+    const cards = new Map()
+    for (const c of all('SELECT id, nid, did, ord, type, queue, due, ivl, factor, reps, lapses FROM cards ORDER BY ord ASC, id ASC')) {
+      if (!cards.has(c.nid)) cards.set(c.nid, c)
+    }
+    const lastReview = new Map()
+    for (const r of all('SELECT cid, MAX(id) AS last FROM revlog GROUP BY cid')) lastReview.set(r.cid, Number(r.last))
+    // Anki's reps counts every answer; our repetitions is the run of correct answers since the last "Again".
+    const successStreak = new Map()
+    for (const r of all('SELECT cid, ease FROM revlog ORDER BY cid ASC, id ASC')) {
+      successStreak.set(r.cid, Number(r.ease) === 1 ? 0 : (successStreak.get(r.cid) || 0) + 1)
+    }
+
+    const deckCounts = new Map()
+    const rows = []
+    const scheduling = []
+    const seen = new Set()
+    let skipped = 0
+    const today = startOfLocalDay(Date.now())
+
+    for (const n of all('SELECT id, mid, flds FROM notes ORDER BY id ASC')) {
+      const model = models[n.mid] || models[String(n.mid)]
+      const fieldNames = Array.isArray(model?.flds)
+        ? model.flds.slice().sort((a, b) => a.ord - b.ord).map((f) => f.name)
+        : []
+      const map = mapAnkiFields(fieldNames)
+      const values = String(n.flds || '').split('\x1f').map(stripAnkiHtml)
+      const pick = (idx) => (idx >= 0 && idx < values.length ? values[idx] : '')
+
+      const row = {
+        word: pick(map.word),
+        meaning: pick(map.meaning),
+        meaningEn: pick(map.meaningEn),
+        meaningVi: pick(map.meaningVi),
+        pronunciation: pick(map.pronunciation),
+        pos: pick(map.pos),
+        example: pick(map.example),
+      }
+      const key = `${row.word.toLowerCase()}||${row.meaning.toLowerCase()}`
+      if (!row.word || seen.has(key)) {
+        skipped += 1
+        continue
+      }
+      seen.add(key)
+      rows.push(row)
+
+      const card = cards.get(n.id)
+      if (!card) continue
+      deckCounts.set(card.did, (deckCounts.get(card.did) || 0) + 1)
+
+      // type: 0 new, 1 learning, 2 review, 3 relearning; queue < 0 means suspended/buried.
+      const type = Number(card.type)
+      if (type === 0) continue
+      let nextReviewDate = today
+      let interval = Math.max(1, Number(card.ivl) || 0)
+      if (type === 2) {
+        nextReviewDate = crtMs + Number(card.due) * ANKI_DAY_MS
+      } else if (Number(card.queue) === 1) {
+        // Intraday learning: due is a unix timestamp in seconds.
+        nextReviewDate = Number(card.due) * 1000
+        interval = 1
+      } else if (Number(card.queue) === 3) {
+        nextReviewDate = crtMs + Number(card.due) * ANKI_DAY_MS
+      }
+      scheduling.push({
+        word: row.word,
+        meaning: row.meaning,
+        interval,
+        easeFactor: Number(card.factor) > 0 ? Number(card.factor) / 1000 : 2.5,
+        repetitions: successStreak.has(card.id)
+          ? successStreak.get(card.id)
+          : Math.max(0, (Number(card.reps) || 0) - (Number(card.lapses) || 0)),
+        timesReviewed: Math.max(0, Number(card.reps) || 0),
+        lapses: Math.max(0, Number(card.lapses) || 0),
+        nextReviewDate: Number.isFinite(nextReviewDate) ? nextReviewDate : today,
+        lastReviewDate: lastReview.get(card.id) || undefined,
+        state: type === 2 ? 'reviewing' : 'learning',
+      })
+    }
+
+    let deckName = ''
+    let best = -1
+    for (const [did, count] of deckCounts) {
+      if (count > best && decks[did]?.name) {
+        best = count
+        deckName = decks[did].name
+      }
+    }
+    return { deckName: deckName || path.basename(filePath, path.extname(filePath)), rows, scheduling, skipped }
+  } finally {
+    db.close()
+  }
+}
+
+// Export one CSV deck (relative to vocab-data or absolute, like readCsv) as an .apkg
+ipcMain.handle('anki:exportCsv', async (ev, fileRelOrAbsPath) => {
+  try {
+    const root = getDataRoot()
+    const full = path.isAbsolute(fileRelOrAbsPath) ? fileRelOrAbsPath : path.join(root, normalizeRel(fileRelOrAbsPath))
+    const text = await fs.readFile(full, 'utf8')
+    const parsed = Papa.parse(text, { header: true, skipEmptyLines: true })
+    const notes = (parsed.data || [])
+      .map((row) => ({
+        word: (row.word || '').replace(/"+/g, ''),
+        meaning: (row.meaning || '').replace(/"+/g, ''),
+        meaningEn: (row.meaningEn || row.meaningNoteEn || '').replace(/"+/g, ''),
+        meaningVi: (row.meaningVi || row.meaningNoteVi || row.meaningNoteVie || '').replace(/"+/g, ''),
+        pronunciation: (row.pronunciation || '').replace(/"+/g, ''),
+        pos: (row.pos || '').replace(/"+/g, ''),
+        example: (row.example || '').replace(/"+/g, ''),
+      }))
+      .filter((n) => n.word)
+    return await saveApkgWithDialog(ev, path.basename(full, path.extname(full)), notes)
+  } catch (err) {
+    console.error('Error exporting Anki deck:', err)
+    throw err
+  }
+})
+
+// Export Smart Review records (with their current schedule) as an .apkg
+ipcMain.handle('anki:exportRecords', async (ev, deckName, records) => {
+  try {
+    const notes = (Array.isArray(records) ? records : [])
+      .filter((r) => r && r.word)
+      .map((r) => ({
+        word: String(r.word || ''),
+        meaning: String(r.meaning || ''),
+        meaningEn: String(r.meaningEn || ''),
+        meaningVi: String(r.meaningVi || ''),
+        pronunciation: String(r.pronunciation || ''),
+        pos: String(r.pos || ''),
+        example: String(r.example || ''),
+        srs: r.state === 'new' ? null : {
+          interval: r.interval,
+          easeFactor: r.easeFactor,
+          // Anki's reps is the total answer count, not the success streak
+          reps: Math.max(Number(r.timesReviewed) || 0, Number(r.repetitions) || 0),
+          lapses: Math.max(0, Number(r.lapses) || 0),
+          nextReviewDate: r.nextReviewDate,
+        },
+      }))
+    return await saveApkgWithDialog(ev, deckName || 'Smart Review', notes)
+  } catch (err) {
+    console.error('Error exporting Smart Review to Anki:', err)
+    throw err
+  }
+})
+
+// Import an .apkg into a new CSV under vocab-data. Returns the new file and, per word, the
+// Anki schedule so the renderer can seed Smart Review if the user wants to.
+ipcMain.handle('anki:import', async (ev) => {
+  try {
+    const win = BrowserWindow.fromWebContents(ev.sender)
+    const { canceled, filePaths } = await dialog.showOpenDialog(win, {
+      title: 'Import Anki deck',
+      properties: ['openFile'],
+      filters: [{ name: 'Anki Deck Package', extensions: ['apkg', 'colpkg'] }],
+    })
+    if (canceled || !filePaths || !filePaths[0]) return null
+
+    const { deckName, rows, scheduling, skipped } = await readApkg(filePaths[0])
+    if (!rows.length) throw new Error('No notes found in this Anki deck')
+
+    const root = getDataRoot()
+    const base = deckName.replace(/::/g, ' - ').replace(/[\\/:*?"<>|]+/g, '_').trim() || 'Anki deck'
+    let name = `${base}.csv`
+    for (let i = 2; fsSync.existsSync(path.join(root, name)); i++) name = `${base} (${i}).csv`
+    await writeCsv(name, rows)
+
+    return { relPath: normalizeRel(name), deckName, added: rows.length, skipped, scheduling }
+  } catch (err) {
+    console.error('Error importing Anki deck:', err)
+    throw err
+  }
+})
+
+// --- Vocabulary store database (JSON-lines journal) ---
+// userData/vocab-store.jsonl holds one operation per line:
+//   {"op":"put","id":"...","record":{...}} | {"op":"del","id":"..."} | {"op":"clear"}
+// Replaying the journal yields the current Smart Review records. The renderer only sends the
+// records it changed; the file is compacted to one "put" per record once it grows well past
+// the live record count.
+const VOCAB_DB_COMPACT_MIN_LINES = 1000
+let vocabDbRecords = null
+let vocabDbLineCount = 0
+let vocabDbWriteQueue = Promise.resolve()
+
+function getUserVocabDbPath() {
+  return path.join(app.getPath('userData'), 'vocab-store.jsonl')
+}
+
+function applyVocabDbOp(map, op) {
+  if (!op || typeof op !== 'object') return false
+  if (op.op === 'clear') {
+    map.clear()
+    return true
+  }
+  const id = String(op.id || '')
+  if (!id) return false
+  if (op.op === 'put' && op.record && typeof op.record === 'object') {
+    map.set(id, op.record)
+    return true
+  }
+  if (op.op === 'del') {
+    map.delete(id)
+    return true
+  }
+  return false
+}
+
+function loadVocabDbSync() {
+  if (vocabDbRecords) return vocabDbRecords
+  const map = new Map()
+  let lines = 0
+  const p = getUserVocabDbPath()
+  if (fsSync.existsSync(p)) {
+    const txt = fsSync.readFileSync(p, 'utf8')
+    for (const line of txt.split(/\r?\n/)) {
+      if (!line.trim()) continue
+      // A torn last line (crash mid-append) is skipped; earlier lines are intact.
+      if (applyVocabDbOp(map, safeJsonParse(line))) lines++
+    }
+  }
+  vocabDbRecords = map
+  vocabDbLineCount = lines
+  return map
+}
+
+function compactVocabDbSync() {
+  if (!vocabDbRecords) return
+  const p = getUserVocabDbPath()
+  const tmp = `${p}.tmp`
+  const lines = Array.from(vocabDbRecords, ([id, record]) => JSON.stringify({ op: 'put', id, record }))
+  fsSync.writeFileSync(tmp, lines.length ? lines.join('\n') + '\n' : '', 'utf8')
+  fsSync.renameSync(tmp, p)
+  vocabDbLineCount = lines.length
+}
+
+function writeVocabDbOps(ops) {
+  const run = async () => {
+    const map = loadVocabDbSync()
+    const lines = []
+    for (const op of Array.isArray(ops) ? ops : []) {
+      if (applyVocabDbOp(map, op)) lines.push(JSON.stringify(op))
+    }
+    if (lines.length === 0) return 0
+    await fs.appendFile(getUserVocabDbPath(), lines.join('\n') + '\n', 'utf8')
+    vocabDbLineCount += lines.length
+    if (vocabDbLineCount > Math.max(VOCAB_DB_COMPACT_MIN_LINES, map.size * 2)) compactVocabDbSync()
+    return lines.length
+  }
+  const next = vocabDbWriteQueue.then(run, run)
+  vocabDbWriteQueue = next.catch(() => {})
+  return next
+}
+
+// Synchronous on purpose: VocabularyStore is a singleton created at module load and every view
+// reads it during its first render. legacyJson is the old localStorage payload (first run only).
+ipcMain.on('vocabDb:loadSync', (ev, legacyJson) => {
+  try {
+    const exists = fsSync.existsSync(getUserVocabDbPath())
+    const map = loadVocabDbSync()
+    let migrated = false
+    if (!exists && legacyJson) {
+      const legacy = safeJsonParse(legacyJson)
+      if (legacy && typeof legacy === 'object') {
+        for (const [id, record] of Object.entries(legacy)) {
+          if (record && typeof record === 'object') map.set(String(id), record)
+        }
+        compactVocabDbSync()
+        migrated = true
+      }
+    }
+    ev.returnValue = { records: Object.fromEntries(map), exists, migrated }
+  } catch (err) {
+    console.error('Error loading vocab database:', err)
+    ev.returnValue = { records: {}, exists: false, migrated: false, error: String(err && err.message ? err.message : err) }
+  }
+})
+
+ipcMain.handle('vocabDb:write', async (ev, ops) => {
+  try {
+    const written = await writeVocabDbOps(ops)
+    return { written }
+  } catch (err) {
+    console.error('Error writing vocab database:', err)
+    throw err
+  }
+})
+
+ipcMain.handle('vocabDb:getAll', async () => {
+  await vocabDbWriteQueue
+  return Object.fromEntries(loadVocabDbSync())
+})
+
+ipcMain.handle('vocabDb:get', async (ev, id) => {
+  await vocabDbWriteQueue
+  return loadVocabDbSync().get(String(id || '')) || null
+})
+
+// --- Review log (append-only) ---
+// Every rating is appended as one JSON line to userData/review-log.jsonl.
+// The renderer store only keeps the last history event per record; this log keeps all of them
+// so retention/progress can be computed and scheduler parameters tuned later.
+let reviewLogEntries = null
+let reviewLogWriteQueue = Promise.resolve()
+
+function getUserReviewLogPath() {
+  return path.join(app.getPath('userData'), 'review-log.jsonl')
+}
+
+function normalizeReviewLogEntry(raw) {
+  if (!raw || typeof raw !== 'object') return null
+  const recordId = String(raw.recordId || '').trim()
+  const ts = Number(raw.ts)
+  if (!recordId || !Number.isFinite(ts)) return null
+  const numOrNull = (v) => (v == null || !Number.isFinite(Number(v)) ? null : Number(v))
+  return {
+    ts,
+    recordId,
+    word: String(raw.word || ''),
+    source: String(raw.source || ''),
+    kind: String(raw.kind || 'review'),
+    rating: numOrNull(raw.rating),
+    correct: typeof raw.correct === 'boolean' ? raw.correct : null,
+    elapsedMs: numOrNull(raw.elapsedMs),
+    prevInterval: numOrNull(raw.prevInterval),
+    newInterval: numOrNull(raw.newInterval),
+    scheduler: String(raw.scheduler || ''),
+  }
+}
+
+async function loadReviewLog() {
+  if (reviewLogEntries) return reviewLogEntries
+  const entries = []
+  try {
+    const p = getUserReviewLogPath()
+    if (fsSync.existsSync(p)) {
+      const txt = await fs.readFile(p, 'utf8')
+      for (const line of txt.split(/\r?\n/)) {
+        if (!line.trim()) continue
+        const e = normalizeReviewLogEntry(safeJsonParse(line))
+        if (e) entries.push(e)
+      }
+    }
+  } catch (err) {
+    console.error('Error reading review log:', err)
+  }
+  reviewLogEntries = entries
+  return reviewLogEntries
+}
+
+function appendReviewLog(items) {
+  const run = async () => {
+    const entries = await loadReviewLog()
+    const valid = (Array.isArray(items) ? items : [items]).map(normalizeReviewLogEntry).filter(Boolean)
+    if (valid.length === 0) return 0
+    const text = valid.map((e) => JSON.stringify(e)).join('\n') + '\n'
+    await fs.appendFile(getUserReviewLogPath(), text, 'utf8')
+    entries.push(...valid)
+    return valid.length
+  }
+  const next = reviewLogWriteQueue.then(run, run)
+  reviewLogWriteQueue = next.catch(() => {})
+  return next
+}
+
+ipcMain.handle('reviewLog:append', async (ev, items) => {
+  try {
+    const appended = await appendReviewLog(items)
+    return { appended }
+  } catch (err) {
+    console.error('Error appending review log:', err)
+    throw err
+  }
+})
+
+// query: { from?, to?, recordId?, recordIds?, limit? } -> entries sorted oldest first
+ipcMain.handle('reviewLog:query', async (ev, query) => {
+  const q = query && typeof query === 'object' ? query : {}
+  // Wait for pending appends so a query right after a review sees it.
+  await reviewLogWriteQueue
+  const entries = await loadReviewLog()
+  const from = Number.isFinite(Number(q.from)) ? Number(q.from) : null
+  const to = Number.isFinite(Number(q.to)) ? Number(q.to) : null
+  const ids = new Set(
+    [q.recordId, ...(Array.isArray(q.recordIds) ? q.recordIds : [])].map((x) => String(x || '').trim()).filter(Boolean)
+  )
+  let out = entries.filter((e) => {
+    if (from != null && e.ts < from) return false
+    if (to != null && e.ts >= to) return false
+    if (ids.size > 0 && !ids.has(e.recordId)) return false
+    return true
+  })
+  out.sort((a, b) => a.ts - b.ts)
+  const limit = Math.floor(Number(q.limit))
+  if (Number.isFinite(limit) && limit > 0 && out.length > limit) out = out.slice(-limit)
+  return out
+})
+
+ipcMain.handle('reviewLog:count', async () => {
+  await reviewLogWriteQueue
+  const entries = await loadReviewLog()
+  return entries.length
+})
+
+// --- Folder sync (multi-device) ---
+// Mirrors vocab-data, Data/pdf/<id>/* and the Smart Review records into a user-chosen folder
+// (usually one kept in sync by Dropbox/OneDrive/Syncthing). Each file and each record is
+// compared against its hash at the previous sync: a change on one side is copied to the other,
+// a change on both sides becomes a conflict that stays untouched until the user resolves it.
+const SYNC_RECORDS_FILE = 'smart-review.json'
+let syncQueue = Promise.resolve()
+
+function getUserSyncStatePath() {
+  return path.join(app.getPath('userData'), 'sync-state.json')
+}
+
+function loadSyncState() {
+  const p = getUserSyncStatePath()
+  const raw = fsSync.existsSync(p) ? safeJsonParse(fsSync.readFileSync(p, 'utf8')) : null
+  const s = raw && typeof raw === 'object' ? raw : {}
+  const obj = (v) => (v && typeof v === 'object' && !Array.isArray(v) ? v : {})
+  return {
+    folder: typeof s.folder === 'string' && s.folder ? s.folder : null,
+    deviceId: typeof s.deviceId === 'string' && s.deviceId ? s.deviceId : generateUUID(),
+    lastSyncAt: Number(s.lastSyncAt) || null,
+    lastResult: s.lastResult && typeof s.lastResult === 'object' ? s.lastResult : null,
+    files: obj(s.files), // key -> hash at last sync
+    records: obj(s.records), // record id -> hash at last sync
+    hashCache: obj(s.hashCache), // absolute path -> { size, mtimeMs, hash }
+    conflicts: Array.isArray(s.conflicts) ? s.conflicts : [],
+  }
+}
+
+async function saveSyncState(state) {
+  const p = getUserSyncStatePath()
+  const tmp = `${p}.tmp`
+  await fs.writeFile(tmp, JSON.stringify(state), 'utf8')
+  await fs.rename(tmp, p)
+}
+
+function syncStatus(state) {
+  return {
+    folder: state.folder,
+    deviceId: state.deviceId,
+    lastSyncAt: state.lastSyncAt,
+    lastResult: state.lastResult,
+    conflicts: state.conflicts,
+  }
+}
+
+// Keys look like "vocab-data/<rel>" or "Data/pdf/<pdfId>/<file>" on both sides.
+function syncKeyToPath(key, folder) {
+  if (key.startsWith('vocab-data/')) {
+    const rel = key.slice('vocab-data/'.length)
+    return folder ? path.join(folder, 'vocab-data', rel) : path.join(getDataRoot(), rel)
+  }
+  const rel = key.slice('Data/pdf/'.length)
+  return folder ? path.join(folder, 'Data', 'pdf', rel) : path.join(getDataPdfRoot(), rel)
+}
+
+function listSyncFiles(folder) {
+  const out = new Map()
+  const walk = (dir, prefix, skipTop) => {
+    if (!fsSync.existsSync(dir)) return
+    for (const it of fsSync.readdirSync(dir, { withFileTypes: true })) {
+      if (it.name.startsWith('.') || it.name.endsWith('.tmp') || it.name.endsWith('.sync-tmp')) continue
+      if (skipTop && skipTop.includes(it.name)) continue
+      const full = path.join(dir, it.name)
+      const key = `${prefix}${it.name}`
+      if (it.isDirectory()) walk(full, `${key}/`)
+      else if (it.isFile()) out.set(key, full)
+    }
+  }
+  walk(folder ? path.join(folder, 'vocab-data') : getDataRoot(), 'vocab-data/')
+  walk(folder ? path.join(folder, 'Data', 'pdf') : getDataPdfRoot(), 'Data/pdf/', ['trash'])
+  return out
+}
+
+function isPdfMetaKey(key) {
+  return key.startsWith('Data/pdf/') && path.posix.basename(key) === 'meta.json'
+}
+
+// meta.json stores absolute paths, which differ per device. Compare and mirror it with
+// file names only, and point them back into this device's folder when pulling.
+async function readSyncFile(key, full) {
+  const buf = await fs.readFile(full)
+  if (!isPdfMetaKey(key)) return buf
+  const meta = safeJsonParse(buf.toString('utf8'))
+  if (!meta || typeof meta !== 'object') return buf
+  for (const k of ['sourcePdfPath', 'deckCsvPath']) {
+    if (meta[k]) meta[k] = path.posix.basename(String(meta[k]).replace(/\\/g, '/'))
+  }
+  return Buffer.from(JSON.stringify(meta, null, 2), 'utf8')
+}
+
+async function hashSyncFile(state, key, full) {
+  const st = await fs.stat(full)
+  const cached = state.hashCache[full]
+  if (cached && cached.size === st.size && cached.mtimeMs === st.mtimeMs) return cached.hash
+  const hash = crypto.createHash('sha1').update(await readSyncFile(key, full)).digest('hex')
+  state.hashCache[full] = { size: st.size, mtimeMs: st.mtimeMs, hash }
+  return hash
+}
+
+async function copySyncFile(key, fromFull, toFull, toLocal) {
+  let buf = await readSyncFile(key, fromFull)
+  if (toLocal && isPdfMetaKey(key)) {
+    const meta = safeJsonParse(buf.toString('utf8'))
+    if (meta && typeof meta === 'object') {
+      const dir = path.dirname(toFull)
+      for (const k of ['sourcePdfPath', 'deckCsvPath']) {
+        if (meta[k]) meta[k] = path.join(dir, String(meta[k]))
+      }
+      buf = Buffer.from(JSON.stringify(meta, null, 2), 'utf8')
+    }
+  }
+  await fs.mkdir(path.dirname(toFull), { recursive: true })
+  const tmp = `${toFull}.sync-tmp`
+  await fs.writeFile(tmp, buf)
+  await fs.rename(tmp, toFull)
+}
+
+function notifyPulledFile(key, full) {
+  if (!key.startsWith('Data/pdf/') || !key.toLowerCase().endsWith('.csv')) return
+  const pdfId = key.slice('Data/pdf/'.length).split('/')[0]
+  BrowserWindow.getAllWindows().forEach((w) => {
+    try {
+      w.webContents.send('deck-updated', { pdfId, deckCsvPath: full })
+    } catch (e) {}
+  })
+}
+
+function hashSyncRecord(record) {
+  return crypto.createHash('sha1').update(JSON.stringify(record)).digest('hex')
+}
+
+function readRemoteRecords(folder) {
+  const p = path.join(folder, SYNC_RECORDS_FILE)
+  if (!fsSync.existsSync(p)) return new Map()
+  const data = safeJsonParse(fsSync.readFileSync(p, 'utf8'))
+  const records = data && typeof data === 'object' && data.records && typeof data.records === 'object' ? data.records : {}
+  return new Map(Object.entries(records).filter(([, r]) => r && typeof r === 'object'))
+}
+
+async function writeRemoteRecords(folder, state, map) {
+  const p = path.join(folder, SYNC_RECORDS_FILE)
+  const tmp = `${p}.sync-tmp`
+  const payload = { updatedAt: Date.now(), deviceId: state.deviceId, records: Object.fromEntries(map) }
+  await fs.writeFile(tmp, JSON.stringify(payload), 'utf8')
+  await fs.rename(tmp, p)
+}
+
+function notifyVocabDbChanged() {
+  BrowserWindow.getAllWindows().forEach((w) => {
+    try {
+      w.webContents.send('vocabDb:changed')
+    } catch (e) {}
+  })
+}
+
+async function describeSyncFile(key, full) {
+  if (!full || !fsSync.existsSync(full)) return { exists: false }
+  const st = await fs.stat(full)
+  const info = { exists: true, size: st.size, updatedAt: st.mtimeMs }
+  if (key.toLowerCase().endsWith('.csv')) {
+    const parsed = Papa.parse(await fs.readFile(full, 'utf8'), { header: true, skipEmptyLines: true })
+    info.rows = (parsed.data || []).length
+  }
+  return info
+}
+
+function describeSyncRecord(r) {
+  if (!r) return { exists: false }
+  return {
+    exists: true,
+    updatedAt: Number(r.updatedAt) || 0,
+    state: r.state,
+    interval: Number(r.interval) || 0,
+    nextReviewDate: Number(r.nextReviewDate) || 0,
+    timesReviewed: Number(r.timesReviewed) || 0,
+  }
+}
+
+async function runSync(state) {
+  const folder = state.folder
+  if (!folder) throw new Error('No sync folder selected')
+  await fs.mkdir(folder, { recursive: true })
+  await vocabDbWriteQueue
+
+  const result = { pushed: 0, pulled: 0, deletedLocal: 0, deletedRemote: 0, conflicts: 0 }
+  const conflicts = []
+
+  // Files
+  const localFiles = listSyncFiles(null)
+  const remoteFiles = listSyncFiles(folder)
+  const keys = new Set([...localFiles.keys(), ...remoteFiles.keys(), ...Object.keys(state.files)])
+  for (const key of keys) {
+    const localFull = localFiles.get(key) || null
+    const remoteFull = remoteFiles.get(key) || null
+    const L = localFull ? await hashSyncFile(state, key, localFull) : null
+    const R = remoteFull ? await hashSyncFile(state, key, remoteFull) : null
+    const B = state.files[key] || null
+
+    if (L === R) {
+      if (L) state.files[key] = L
+      else delete state.files[key]
+    } else if (R === B) {
+      if (L) {
+        await copySyncFile(key, localFull, syncKeyToPath(key, folder), false)
+        state.files[key] = L
+        result.pushed++
+      } else {
+        await fs.unlink(remoteFull)
+        delete state.files[key]
+        result.deletedRemote++
+      }
+    } else if (L === B) {
+      if (R) {
+        const target = syncKeyToPath(key, null)
+        await copySyncFile(key, remoteFull, target, true)
+        state.files[key] = R
+        result.pulled++
+        notifyPulledFile(key, target)
+      } else {
+        await fs.unlink(localFull)
+        delete state.files[key]
+        result.deletedLocal++
+      }
+    } else {
+      conflicts.push({
+        id: `file:${key}`,
+        kind: 'file',
+        key,
+        label: key,
+        local: await describeSyncFile(key, localFull),
+        remote: await describeSyncFile(key, remoteFull),
+        canMerge: !!(localFull && remoteFull && key.toLowerCase().endsWith('.csv')),
+      })
+    }
+  }
+
+  // Smart Review records
+  const localRecords = loadVocabDbSync()
+  const remoteRecords = readRemoteRecords(folder)
+  const pullOps = []
+  let remoteDirty = false
+  const ids = new Set([...localRecords.keys(), ...remoteRecords.keys(), ...Object.keys(state.records)])
+  for (const id of ids) {
+    const local = localRecords.get(id) || null
+    const remote = remoteRecords.get(id) || null
+    const L = local ? hashSyncRecord(local) : null
+    const R = remote ? hashSyncRecord(remote) : null
+    const B = state.records[id] || null
+
+    if (L === R) {
+      if (L) state.records[id] = L
+      else delete state.records[id]
+    } else if (R === B) {
+      if (local) remoteRecords.set(id, local)
+      else remoteRecords.delete(id)
+      remoteDirty = true
+      if (L) state.records[id] = L
+      else delete state.records[id]
+      if (local) result.pushed++
+      else result.deletedRemote++
+    } else if (L === B) {
+      pullOps.push(remote ? { op: 'put', id, record: remote } : { op: 'del', id })
+      if (R) state.records[id] = R
+      else delete state.records[id]
+      if (remote) result.pulled++
+      else result.deletedLocal++
+    } else {
+      const r = local || remote
+      conflicts.push({
+        id: `record:${id}`,
+        kind: 'record',
+        key: id,
+        label: `${r.word || ''} — ${r.meaning || ''}`,
+        local: describeSyncRecord(local),
+        remote: describeSyncRecord(remote),
+        canMerge: false,
+      })
+    }
+  }
+  if (remoteDirty || !fsSync.existsSync(path.join(folder, SYNC_RECORDS_FILE))) {
+    await writeRemoteRecords(folder, state, remoteRecords)
+  }
+  if (pullOps.length) {
+    await writeVocabDbOps(pullOps)
+    notifyVocabDbChanged()
+  }
+
+  // Drop cache entries for files that no longer exist
+  for (const p of Object.keys(state.hashCache)) {
+    if (!fsSync.existsSync(p)) delete state.hashCache[p]
+  }
+
+  result.conflicts = conflicts.length
+  state.conflicts = conflicts
+  state.lastSyncAt = Date.now()
+  state.lastResult = result
+  await saveSyncState(state)
+  return result
+}
+
+// Two-way union of CSV rows by word+meaning (this device's rows first)
+async function mergeSyncCsv(localFull, remoteFull) {
+  const read = async (full) => Papa.parse(await fs.readFile(full, 'utf8'), { header: true, skipEmptyLines: true }).data || []
+  const rows = []
+  const seen = new Set()
+  for (const row of [...(await read(localFull)), ...(await read(remoteFull))]) {
+    const k = `${String(row.word || '').trim().toLowerCase()}||${String(row.meaning || '').trim().toLowerCase()}`
+    if (!row.word || seen.has(k)) continue
+    seen.add(k)
+    rows.push(row)
+  }
+  await writeCsv(localFull, rows)
+}
+
+async function resolveSyncConflict(state, conflict, choice) {
+  const folder = state.folder
+  if (conflict.kind === 'file') {
+    const key = conflict.key
+    const localFull = syncKeyToPath(key, null)
+    const remoteFull = syncKeyToPath(key, folder)
+    const hasLocal = fsSync.existsSync(localFull)
+    const hasRemote = fsSync.existsSync(remoteFull)
+    let side = choice
+    if (choice === 'newer') {
+      const mtime = async (p, ok) => (ok ? (await fs.stat(p)).mtimeMs : 0)
+      side = (await mtime(localFull, hasLocal)) >= (await mtime(remoteFull, hasRemote)) ? 'local' : 'remote'
+    }
+    if (side === 'merge' && hasLocal && hasRemote) {
+      await mergeSyncCsv(localFull, remoteFull)
+      side = 'local'
+    }
+    if (side === 'local') {
+      if (hasLocal) {
+        await copySyncFile(key, localFull, remoteFull, false)
+        state.files[key] = await hashSyncFile(state, key, localFull)
+      } else {
+        if (hasRemote) await fs.unlink(remoteFull)
+        delete state.files[key]
+      }
+    } else {
+      if (hasRemote) {
+        await copySyncFile(key, remoteFull, localFull, true)
+        state.files[key] = await hashSyncFile(state, key, remoteFull)
+        notifyPulledFile(key, localFull)
+      } else {
+        if (hasLocal) await fs.unlink(localFull)
+        delete state.files[key]
+      }
+    }
+    return
+  }
+
+  const id = conflict.key
+  const local = loadVocabDbSync().get(id) || null
+  const remoteRecords = readRemoteRecords(folder)
+  const remote = remoteRecords.get(id) || null
+  let side = choice
+  if (choice === 'newer' || choice === 'merge') {
+    side = (Number(local?.updatedAt) || 0) >= (Number(remote?.updatedAt) || 0) ? 'local' : 'remote'
+  }
+  if (side === 'local') {
+    if (local) remoteRecords.set(id, local)
+    else remoteRecords.delete(id)
+    await writeRemoteRecords(folder, state, remoteRecords)
+    if (local) state.records[id] = hashSyncRecord(local)
+    else delete state.records[id]
+  } else {
+    await writeVocabDbOps([remote ? { op: 'put', id, record: remote } : { op: 'del', id }])
+    notifyVocabDbChanged()
+    if (remote) state.records[id] = hashSyncRecord(remote)
+    else delete state.records[id]
+  }
+}
+
+function enqueueSync(fn) {
+  const next = syncQueue.then(fn, fn)
+  syncQueue = next.catch(() => {})
+  return next
+}
+
+ipcMain.handle('sync:getStatus', async () => syncStatus(loadSyncState()))
+
+ipcMain.handle('sync:chooseFolder', async (ev) => {
+  try {
+    const win = BrowserWindow.fromWebContents(ev.sender)
+    const { canceled, filePaths } = await dialog.showOpenDialog(win, {
+      title: 'Choose sync folder',
+      properties: ['openDirectory', 'createDirectory'],
+    })
+    if (canceled || !filePaths || !filePaths[0]) return null
+    return await enqueueSync(async () => {
+      const state = loadSyncState()
+      if (state.folder !== filePaths[0]) {
+        // Hashes from another folder say nothing about this one.
+        state.folder = filePaths[0]
+        state.files = {}
+        state.records = {}
+        state.conflicts = []
+        state.lastResult = null
+        state.lastSyncAt = null
+      }
+      await saveSyncState(state)
+      return syncStatus(state)
+    })
+  } catch (err) {
+    console.error('Error choosing sync folder:', err)
+    throw err
+  }
+})
+
+ipcMain.handle('sync:clearFolder', async () => {
+  return enqueueSync(async () => {
+    const state = loadSyncState()
+    state.folder = null
+    state.files = {}
+    state.records = {}
+    state.conflicts = []
+    state.lastResult = null
+    state.lastSyncAt = null
+    await saveSyncState(state)
+    return syncStatus(state)
+  })
+})
+
+ipcMain.handle('sync:run', async () => {
+  try {
+    return await enqueueSync(async () => {
+      const state = loadSyncState()
+      await runSync(state)
+      return syncStatus(state)
+    })
+  } catch (err) {
+    console.error('Error syncing:', err)
+    throw err
+  }
+})
+
+// choice: 'local' | 'remote' | 'newer' | 'merge' (CSV files only; records fall back to 'newer')
+ipcMain.handle('sync:resolve', async (ev, conflictIds, choice) => {
+  try {
+    return await enqueueSync(async () => {
+      const state = loadSyncState()
+      if (!state.folder) throw new Error('No sync folder selected')
+      const ids = new Set(Array.isArray(conflictIds) ? conflictIds : [conflictIds])
+      const remaining = []
+      for (const c of state.conflicts) {
+        if (ids.has(c.id)) await resolveSyncConflict(state, c, String(choice || 'newer'))
+        else remaining.push(c)
+      }
+      state.conflicts = remaining
+      await saveSyncState(state)
+      return syncStatus(state)
+    })
+  } catch (err) {
+    console.error('Error resolving sync conflict:', err)
+    throw err
+  }
+})
+
+// --- Snapshot backups ---
+// userData/backups/<id>/ holds a copy of vocab-data, Data/pdf (same layout as the sync folder,
+// PDFs are hard-linked when possible) plus smart-review.json with the Smart Review records.
+// A "daily" snapshot is taken once per day; "pre-op" snapshots are taken before destructive
+// operations, at most one per BACKUP_PRE_OP_MIN_GAP_MS for the same reason and target so a bulk
+// delete that calls deleteWord row by row produces a single snapshot of the state before the first
+// call. Deleting a folder or a PDF for good is never throttled.
+const BACKUP_KEEP_DAILY = 7
+const BACKUP_KEEP_PRE_OP = 20
+const BACKUP_PRE_OP_MIN_GAP_MS = 60 * 1000
+const BACKUP_DIFF_SAMPLE = 50
+let backupQueue = Promise.resolve()
+const BACKUP_PRE_OP_UNTHROTTLED = new Set(['deleteFolder', 'pdfDeletePermanent'])
+const lastPreOpBackupAt = new Map() // `${reason}|${target}` -> ms
+
+function getUserBackupsPath() {
+  const root = path.join(app.getPath('userData'), 'backups')
+  if (!fsSync.existsSync(root)) fsSync.mkdirSync(root, { recursive: true })
+  return root
+}
+
+function listBackupsSync() {
+  const root = getUserBackupsPath()
+  const out = []
+  for (const it of fsSync.readdirSync(root, { withFileTypes: true })) {
+    if (!it.isDirectory()) continue
+    const manifest = safeJsonParse(fsSync.existsSync(path.join(root, it.name, 'manifest.json'))
+      ? fsSync.readFileSync(path.join(root, it.name, 'manifest.json'), 'utf8')
+      : '')
+    // Snapshots without a manifest were interrupted mid-copy.
+    if (!manifest || manifest.id !== it.name) continue
+    out.push(manifest)
+  }
+  return out.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+function pruneBackups() {
+  const root = getUserBackupsPath()
+  const all = listBackupsSync()
+  const daily = all.filter((b) => b.kind === 'daily')
+  const preOp = all.filter((b) => b.kind === 'pre-op')
+  for (const b of [...daily.slice(BACKUP_KEEP_DAILY), ...preOp.slice(BACKUP_KEEP_PRE_OP)]) {
+    fsSync.rmSync(path.join(root, b.id), { recursive: true, force: true })
+  }
+}
+
+// kind: 'daily' | 'pre-op' | 'manual'; reason is a short label such as "dedupeWords"
+function createBackupSnapshot(kind, reason) {
+  const run = async () => {
+    await vocabDbWriteQueue
+    const now = new Date()
+    const stamp = `${getLocalDayKey(now).replace(/-/g, '')}-${String(now.getHours()).padStart(2, '0')}${String(now.getMinutes()).padStart(2, '0')}${String(now.getSeconds()).padStart(2, '0')}`
+    const slug = String(reason || kind).replace(/[^A-Za-z0-9_-]+/g, '-').slice(0, 40)
+    let id = `${stamp}-${slug}`
+    for (let i = 2; fsSync.existsSync(path.join(getUserBackupsPath(), id)); i++) id = `${stamp}-${slug}-${i}`
+    const dir = path.join(getUserBackupsPath(), id)
+
+    const files = listSyncFiles(null)
+    for (const [key, full] of files) {
+      const target = syncKeyToPath(key, dir)
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      if (full.toLowerCase().endsWith('.pdf')) {
+        // Source PDFs never change in place; a hard link costs no space.
+        try {
+          await fs.link(full, target)
+          continue
+        } catch (e) {}
+      }
+      await fs.copyFile(full, target)
+    }
+
+    const records = loadVocabDbSync()
+    await fs.writeFile(path.join(dir, 'smart-review.json'), JSON.stringify({ records: Object.fromEntries(records) }), 'utf8')
+
+    const manifest = { id, kind, reason: String(reason || ''), createdAt: now.getTime(), files: files.size, records: records.size }
+    await fs.writeFile(path.join(dir, 'manifest.json'), JSON.stringify(manifest, null, 2), 'utf8')
+    pruneBackups()
+    return manifest
+  }
+  const next = backupQueue.then(run, run)
+  backupQueue = next.catch(() => {})
+  return next
+}
+
+// Called at the top of destructive handlers; never blocks the operation on a backup failure.
+async function backupBeforeDestructive(reason, target = '') {
+  const now = Date.now()
+  if (!BACKUP_PRE_OP_UNTHROTTLED.has(reason)) {
+    const key = `${reason}|${target}`
+    if (now - (lastPreOpBackupAt.get(key) || 0) < BACKUP_PRE_OP_MIN_GAP_MS) return
+    for (const [k, at] of lastPreOpBackupAt) {
+      if (now - at >= BACKUP_PRE_OP_MIN_GAP_MS) lastPreOpBackupAt.delete(k)
+    }
+    lastPreOpBackupAt.set(key, now)
+  }
+  try {
+    await createBackupSnapshot('pre-op', reason)
+  } catch (err) {
+    console.error('Error creating backup:', err)
+  }
+}
+
+async function ensureDailyBackup() {
+  try {
+    const today = getLocalDayKey(new Date())
+    if (listBackupsSync().some((b) => b.kind === 'daily' && getLocalDayKey(new Date(b.createdAt)) === today)) return
+    await createBackupSnapshot('daily', 'daily')
+  } catch (err) {
+    console.error('Error creating daily backup:', err)
+  }
+}
+
+function csvRowKeys(text) {
+  const rows = Papa.parse(text, { header: true, skipEmptyLines: true }).data || []
+  return rows
+    .filter((r) => r && r.word)
+    .map((r) => `${String(r.word).trim()} — ${String(r.meaning || '').trim()}`)
+}
+
+// What restoring a snapshot would change, relative to the current data
+async function diffBackup(id) {
+  const dir = path.join(getUserBackupsPath(), path.basename(String(id || '')))
+  if (!fsSync.existsSync(path.join(dir, 'manifest.json'))) throw new Error('Backup not found')
+  await vocabDbWriteQueue
+
+  const snapFiles = listSyncFiles(dir)
+  const curFiles = listSyncFiles(null)
+  const files = []
+  for (const key of new Set([...snapFiles.keys(), ...curFiles.keys()])) {
+    const snap = snapFiles.get(key)
+    const cur = curFiles.get(key)
+    if (snap && cur) {
+      const [a, b] = await Promise.all([fs.readFile(snap), fs.readFile(cur)])
+      if (a.equals(b)) continue
+      const entry = { key, status: 'changed' }
+      if (key.toLowerCase().endsWith('.csv')) {
+        const snapRows = csvRowKeys(a.toString('utf8'))
+        const curRows = csvRowKeys(b.toString('utf8'))
+        const curSet = new Set(curRows)
+        const snapSet = new Set(snapRows)
+        const restored = snapRows.filter((k) => !curSet.has(k))
+        const dropped = curRows.filter((k) => !snapSet.has(k))
+        Object.assign(entry, {
+          restoredCount: restored.length,
+          droppedCount: dropped.length,
+          restored: restored.slice(0, BACKUP_DIFF_SAMPLE),
+          dropped: dropped.slice(0, BACKUP_DIFF_SAMPLE),
+        })
+      }
+      files.push(entry)
+    } else if (snap) {
+      const entry = { key, status: 'restored' }
+      if (key.toLowerCase().endsWith('.csv')) entry.restoredCount = csvRowKeys(await fs.readFile(snap, 'utf8')).length
+      files.push(entry)
+    } else {
+      const entry = { key, status: 'removed' }
+      if (key.toLowerCase().endsWith('.csv')) entry.droppedCount = csvRowKeys(await fs.readFile(cur, 'utf8')).length
+      files.push(entry)
+    }
+  }
+  files.sort((a, b) => a.key.localeCompare(b.key))
+
+  const snapData = safeJsonParse(await fs.readFile(path.join(dir, 'smart-review.json'), 'utf8'))
+  const snapRecords = new Map(Object.entries((snapData && snapData.records) || {}))
+  const curRecords = loadVocabDbSync()
+  const label = (r) => `${r.word || ''} — ${r.meaning || ''}`
+  const records = { restored: [], removed: [], changed: [], restoredCount: 0, removedCount: 0, changedCount: 0 }
+  for (const [rid, r] of snapRecords) {
+    const cur = curRecords.get(rid)
+    if (!cur) {
+      records.restoredCount++
+      if (records.restored.length < BACKUP_DIFF_SAMPLE) records.restored.push(label(r))
+    } else if (JSON.stringify(cur) !== JSON.stringify(r)) {
+      records.changedCount++
+      if (records.changed.length < BACKUP_DIFF_SAMPLE) records.changed.push(label(r))
+    }
+  }
+  for (const [rid, r] of curRecords) {
+    if (snapRecords.has(rid)) continue
+    records.removedCount++
+    if (records.removed.length < BACKUP_DIFF_SAMPLE) records.removed.push(label(r))
   }
+
+  return { id: path.basename(dir), files, records }
 }
 
-async function azureDictionaryLookup({ key, region, from, to, word, signal }) {
-  const url = `${AZURE_TRANSLATOR_ENDPOINT}/dictionary/lookup?api-version=3.0&from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
-  const resp = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Ocp-Apim-Subscription-Key': key,
-      'Ocp-Apim-Subscription-Region': region,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify([{ Text: word }]),
-    signal
-  })
-  if (!resp.ok) {
-    const t = await resp.text().catch(() => '')
-    throw new Error(`Azure dictionary lookup failed: ${resp.status} ${t}`)
+async function restoreBackup(id, parts) {
+  const dir = path.join(getUserBackupsPath(), path.basename(String(id || '')))
+  if (!fsSync.existsSync(path.join(dir, 'manifest.json'))) throw new Error('Backup not found')
+  const restoreFiles = !parts || parts.files !== false
+  const restoreRecords = !parts || parts.records !== false
+
+  // The restore itself is undoable.
+  await createBackupSnapshot('pre-op', 'restore')
+
+  if (restoreFiles) {
+    const snapFiles = listSyncFiles(dir)
+    for (const [key, full] of listSyncFiles(null)) {
+      if (!snapFiles.has(key)) await fs.rm(full, { force: true })
+    }
+    for (const [key, full] of snapFiles) {
+      const target = syncKeyToPath(key, null)
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      await fs.rm(target, { force: true })
+      await fs.copyFile(full, target)
+      notifyPulledFile(key, target)
+    }
   }
-  return await resp.json()
-}
 
-// Simple UUID v4 implementation
-function generateUUID() {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0
-    const v = c === 'x' ? r : (r & 0x3 | 0x8)
-    return v.toString(16)
-  })
+  if (restoreRecords) {
+    const snapData = safeJsonParse(await fs.readFile(path.join(dir, 'smart-review.json'), 'utf8'))
+    const records = (snapData && snapData.records) || {}
+    await writeVocabDbOps([{ op: 'clear' }, ...Object.entries(records).map(([rid, record]) => ({ op: 'put', id: rid, record }))])
+    compactVocabDbSync()
+    notifyVocabDbChanged()
+  }
+  return true
 }
 
-// (data dir, getDataRoot and listTree are declared once below)
+ipcMain.handle('backup:list', async () => {
+  try {
+    return listBackupsSync()
+  } catch (err) {
+    console.error('Error listing backups:', err)
+    throw err
+  }
+})
 
-async function ensureCsvHasHeader(filePath) {
-  const text = await fs.readFile(filePath, 'utf8')
-  if (!text.trim()) {
-    const header = Papa.unparse([], { header: true, columns: ['word', 'meaning', 'meaningNoteVi', 'pronunciation', 'pos', 'example'] })
-    await fs.writeFile(filePath, 'word,meaning,meaningNoteVi,pronunciation,pos,example\n', 'utf8')
+ipcMain.handle('backup:create', async (ev, reason) => {
+  try {
+    // Renderer-side destructive actions (Smart Review bulk delete/dedupe) pass a reason and are
+    // throttled like the main-process ones; without a reason it's a manual snapshot.
+    if (reason) {
+      await backupBeforeDestructive(reason)
+      return null
+    }
+    return await createBackupSnapshot('manual', 'manual')
+  } catch (err) {
+    console.error('Error creating backup:', err)
+    throw err
   }
-}
+})
 
-async function gemmaSuggestExampleSentence({ key, endpoint, model, word, meaningVi, pos, contextSentenceEn, signal }) {
-  const w = String(word || '').trim()
-  const m = String(meaningVi || '').trim()
-  const p = String(pos || '').trim()
-  const ctx = String(contextSentenceEn || '').trim()
-  if (!w) return ''
+ipcMain.handle('backup:delete', async (ev, id) => {
+  try {
+    const dir = path.join(getUserBackupsPath(), path.basename(String(id || '')))
+    await fs.rm(dir, { recursive: true, force: true })
+    return true
+  } catch (err) {
+    console.error('Error deleting backup:', err)
+    throw err
+  }
+})
 
-  const prompt =
-    `You are an English teacher writing a memorable example sentence for a vocabulary flashcard.\n` +
-    `Task: Write exactly ONE natural English sentence that uses the word "${w}" correctly.\n` +
-    (m ? `Meaning (Vietnamese gloss): "${m}"\n` : '') +
-    (p ? `Part of speech: "${p}"\n` : '') +
-    (ctx ? `Optional context (English): "${ctx}"\n` : '') +
-    `Rules:\n` +
-    `- Output ONLY the single sentence (no quotes, no numbering, no explanation).\n` +
-    `- Keep it short, vivid, and easy to remember.\n` +
-    `- It MUST contain the exact word "${w}" (case-insensitive is ok).\n`
+ipcMain.handle('backup:diff', async (ev, id) => {
+  try {
+    return await diffBackup(id)
+  } catch (err) {
+    console.error('Error comparing backup:', err)
+    throw err
+  }
+})
 
-  const raw = await googleAiStudioGenerateContent({ key, endpoint, model, prompt, signal })
-  let out = String(raw || '').trim()
-  out = out.replace(/^"+|"+$/g, '').trim()
-  // Remove accidental bullet/numbering.
-  out = out.replace(/^\s*[-*]\s+/, '').replace(/^\s*\d+\s*[\).]\s+/, '').trim()
-  // If model returned multiple lines, keep the first non-empty.
-  if (out.includes('\n')) {
-    out = out
-      .split(/\r?\n/)
-      .map((x) => x.trim())
-      .filter(Boolean)[0] || ''
+ipcMain.handle('backup:restore', async (ev, id, parts) => {
+  try {
+    return await restoreBackup(id, parts)
+  } catch (err) {
+    console.error('Error restoring backup:', err)
+    throw err
   }
-  return out
-}
+})
 
-const DATA_DIR_NAME = 'vocab-data'
+// --- Global search (command palette) ---
+// One index over every vocab-data CSV, every PDF deck CSV, PDF highlight texts and the Smart
+// Review records. Parsed files are cached per path and re-read only when their mtime changes,
+// so the palette can query on every keystroke without re-parsing the whole library.
+const SEARCH_DEFAULT_LIMIT = 50
+const searchFileCache = new Map()
 
-function getDataRoot() {
-  const root = path.join(app.getPath('userData'), DATA_DIR_NAME)
-  if (!fsSync.existsSync(root)) fsSync.mkdirSync(root, { recursive: true })
-  return root
+// Lowercase and drop Vietnamese diacritics so "ngan hang" finds "ngân hàng"
+function foldSearchText(s) {
+  return String(s || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .toLowerCase()
+    .trim()
 }
 
-function getDataPdfRoot() {
-  const root = path.join(app.getPath('userData'), 'Data', 'pdf')
-  if (!fsSync.existsSync(root)) fsSync.mkdirSync(root, { recursive: true })
-  return root
+function makeSearchEntry(fields) {
+  return {
+    ...fields,
+    wordKey: foldSearchText(fields.word),
+    meaningKey: foldSearchText([fields.meaning, fields.meaningEn, fields.meaningVi].filter(Boolean).join(' | ')),
+    exampleKey: foldSearchText(fields.example)
+  }
 }
 
-function normalizeRel(p) {
-  if (!p) return ''
-  // use forward slashes
-  return p.replace(/\\/g, '/').replace(/^\//, '')
+async function cachedSearchEntries(full, parse) {
+  let stat
+  try {
+    stat = await fs.stat(full)
+  } catch (e) {
+    searchFileCache.delete(full)
+    return []
+  }
+  const hit = searchFileCache.get(full)
+  if (hit && hit.mtimeMs === stat.mtimeMs) return hit.entries
+  let entries = []
+  try {
+    entries = parse(await fs.readFile(full, 'utf8'))
+  } catch (e) {
+    console.warn('Search index: failed to read', full, e)
+  }
+  searchFileCache.set(full, { mtimeMs: stat.mtimeMs, entries })
+  return entries
 }
 
-function listTree(dir, root) {
-  const items = fsSync.readdirSync(dir, { withFileTypes: true })
-  return items.map((it) => {
+function csvSearchEntries(text, base) {
+  const parsed = Papa.parse(text, { header: true, skipEmptyLines: true })
+  return (parsed.data || [])
+    .filter((row) => row && row.word)
+    .map((row, index) => makeSearchEntry({
+      ...base,
+      index,
+      word: String(row.word || '').replace(/"+/g, ''),
+      meaning: String(row.meaning || '').replace(/"+/g, ''),
+      meaningEn: String(row.meaningEn || row.meaningNoteEn || '').replace(/"+/g, ''),
+      meaningVi: String(row.meaningVi || row.meaningNoteVi || row.meaningNoteVie || '').replace(/"+/g, ''),
+      example: String(row.example || '').replace(/"+/g, '')
+    }))
+}
+
+function listCsvFilesSync(dir) {
+  const out = []
+  for (const it of fsSync.readdirSync(dir, { withFileTypes: true })) {
     const full = path.join(dir, it.name)
-    const rel = normalizeRel(path.relative(root, full))
-    if (it.isDirectory()) return { name: it.name, path: rel, type: 'folder', children: listTree(full, root) }
-    return { name: it.name, path: rel, type: 'file' }
-  })
+    if (it.isDirectory()) out.push(...listCsvFilesSync(full))
+    else if (it.name.toLowerCase().endsWith('.csv')) out.push(full)
+  }
+  return out
 }
 
-function listTreeWithPdf() {
+async function collectSearchEntries() {
+  const out = []
   const root = getDataRoot()
-  const tree = listTree(root, root)
-  // Note: Previously we added a virtual "PDF" folder into the tree. That
-  // behaviour was removed — PDFs are managed separately under Data/pdf.
+  for (const full of listCsvFilesSync(root)) {
+    const file = normalizeRel(path.relative(root, full))
+    out.push(...await cachedSearchEntries(full, (text) => csvSearchEntries(text, { kind: 'csv', file })))
+  }
 
-  return tree
+  const pdfRoot = getDataPdfRoot()
+  for (const it of await fs.readdir(pdfRoot, { withFileTypes: true })) {
+    if (!it.isDirectory() || it.name === 'trash') continue
+    const dir = path.join(pdfRoot, it.name)
+    const [meta] = await cachedSearchEntries(path.join(dir, 'meta.json'), (text) => [JSON.parse(text)])
+    if (!meta || meta.trashed) continue
+    const base = { pdfId: meta.pdfId || it.name, pdfName: meta.baseName || it.name }
+    if (meta.deckCsvPath) {
+      const file = meta.deckCsvPath
+      out.push(...await cachedSearchEntries(file, (text) => csvSearchEntries(text, { ...base, kind: 'pdfDeck', file })))
+    }
+    out.push(...await cachedSearchEntries(path.join(dir, 'highlights.json'), (text) => {
+      let list = JSON.parse(text)
+      if (list && typeof list === 'object' && Array.isArray(list.highlights)) list = list.highlights
+      return (Array.isArray(list) ? list : [])
+        .filter((h) => h && (h.text || h.wordKey))
+        .map((h) => makeSearchEntry({
+          ...base,
+          kind: 'highlight',
+          word: String(h.text || h.wordKey || ''),
+          meaning: String(h.meaning || ''),
+          example: String(h.contextSentenceEn || ''),
+          page: Number(h.pageNumber) || undefined
+        }))
+    }))
+  }
+
+  await vocabDbWriteQueue
+  for (const [id, r] of loadVocabDbSync()) {
+    if (!r || !r.word) continue
+    out.push(makeSearchEntry({
+      kind: 'srs',
+      recordId: id,
+      file: r.source || '',
+      word: String(r.word),
+      meaning: String(r.meaning || ''),
+      meaningEn: String(r.meaningEn || ''),
+      meaningVi: String(r.meaningVi || ''),
+      example: String(r.example || ''),
+      state: r.state
+    }))
+  }
+  return out
 }
 
-// Export Smart Review (VocabularyStore localStorage payload) to a JSON file
-ipcMain.handle('exportSmartReview', async (ev, rawJson) => {
-  try {
-    const win = BrowserWindow.fromWebContents(ev.sender)
-    const ymd = new Date().toISOString().slice(0, 10)
-    const defaultName = `smart-review-${ymd}.json`
-    const defaultPath = path.join(app.getPath('downloads'), defaultName)
+// Edit distance capped at 1: true when a and b differ by one insert, delete or substitution
+function withinOneEdit(a, b) {
+  if (Math.abs(a.length - b.length) > 1) return false
+  let i = 0
+  let j = 0
+  let edits = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++
+      j++
+      continue
+    }
+    if (++edits > 1) return false
+    if (a.length > b.length) i++
+    else if (b.length > a.length) j++
+    else {
+      i++
+      j++
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1
+}
 
-    const { canceled, filePath } = await dialog.showSaveDialog(win, {
-      title: 'Export Smart Review',
-      defaultPath,
-      filters: [{ name: 'JSON', extensions: ['json'] }],
-    })
+function isSubsequence(q, s) {
+  let i = 0
+  for (let j = 0; j < s.length && i < q.length; j++) if (s[j] === q[i]) i++
+  return i === q.length
+}
 
-    if (canceled || !filePath) return null
+// Higher is better; 0 means no match
+function searchScore(entry, q, tokens) {
+  const w = entry.wordKey
+  if (w === q) return 100
+  if (w.startsWith(q)) return 90 - Math.min(20, w.length - q.length)
+  if (w.includes(q)) return 70
+  if (q.length >= 4 && withinOneEdit(q, w)) return 60
+  if (entry.meaningKey.includes(q)) return 50
+  if (entry.exampleKey.includes(q)) return 35
+  const all = `${w} ${entry.meaningKey} ${entry.exampleKey}`
+  if (tokens.length > 1 && tokens.every((t) => all.includes(t))) return 30
+  if (q.length >= 3 && isSubsequence(q, w)) return 20
+  return 0
+}
 
-    let out = String(rawJson ?? '')
-    // Pretty print if possible
-    try {
-      const parsed = JSON.parse(out || '{}')
-      out = JSON.stringify(parsed, null, 2)
-    } catch {
-      // keep raw
-    }
+async function searchAll(query, opts) {
+  const q = foldSearchText(query)
+  if (!q) return []
+  const tokens = q.split(/\s+/).filter(Boolean)
+  const limit = Math.max(1, Math.min(500, Number(opts && opts.limit) || SEARCH_DEFAULT_LIMIT))
+  const hits = []
+  for (const entry of await collectSearchEntries()) {
+    const score = searchScore(entry, q, tokens)
+    if (score <= 0) continue
+    const { wordKey, meaningKey, exampleKey, ...hit } = entry
+    hits.push({ ...hit, score })
+  }
+  const kindOrder = { csv: 0, pdfDeck: 1, srs: 2, highlight: 3 }
+  hits.sort((a, b) => b.score - a.score || a.word.length - b.word.length || kindOrder[a.kind] - kindOrder[b.kind])
+  return hits.slice(0, limit)
+}
 
-    await fs.writeFile(filePath, out, 'utf8')
-    return filePath
+ipcMain.handle('search:query', async (ev, query, opts) => {
+  try {
+    return await searchAll(query, opts)
   } catch (err) {
-    console.error('Error exporting Smart Review:', err)
+    console.error('Error searching:', err)
     throw err
   }
 })
@@ -3249,6 +6018,7 @@ ipcMain.handle('createFile', async (ev, parentRel, name) => {
 
 ipcMain.handle('deleteFile', async (ev, relPath) => {
   try {
+    await backupBeforeDestructive('deleteFile', normalizeRel(relPath))
     const root = getDataRoot()
     const full = path.join(root, normalizeRel(relPath))
     await fs.unlink(full)
@@ -3261,6 +6031,7 @@ ipcMain.handle('deleteFile', async (ev, relPath) => {
 
 ipcMain.handle('deleteFolder', async (ev, relPath) => {
   try {
+    await backupBeforeDestructive('deleteFolder')
     const root = getDataRoot()
     const full = path.join(root, normalizeRel(relPath))
     // recursive remove
@@ -3286,7 +6057,9 @@ ipcMain.handle('readCsv', async (ev, filePath) => {
     meaningVi: (row.meaningVi || row.meaningNoteVi || row.meaningNoteVie || '').replace(/"+/g, ''),
     pronunciation: (row.pronunciation || '').replace(/"+/g, ''),
     pos: (row.pos || '').replace(/"+/g, ''),
-    example: (row.example || '').replace(/"+/g, '')
+    example: (row.example || '').replace(/"+/g, ''),
+    accepted: (row.accepted || '').replace(/"+/g, ''),
+    tags: (row.tags || '').replace(/"+/g, '')
   }))
 })
 
@@ -3300,10 +6073,14 @@ async function writeCsv(fileRelOrAbsPath, rows) {
     meaningVi: (r.meaningVi || r.meaningNoteVi || r.meaningNoteVie || '').replace(/"+/g, ''),
     pronunciation: (r.pronunciation || '').replace(/"+/g, ''),
     pos: (r.pos || '').replace(/"+/g, ''),
-    example: (r.example || '').replace(/"+/g, '')
+    example: (r.example || '').replace(/"+/g, ''),
+    // Other answers accepted in production mode, separated by "|"
+    accepted: (r.accepted || '').replace(/"+/g, ''),
+    // Space-separated tags (e.g. "toeic business")
+    tags: (r.tags || '').replace(/"+/g, '')
   }))
   const csv = Papa.unparse(cleanRows, { 
-    columns: ['word', 'meaning', 'meaningEn', 'meaningVi', 'pronunciation', 'pos', 'example'],
+    columns: ['word', 'meaning', 'meaningEn', 'meaningVi', 'pronunciation', 'pos', 'example', 'accepted', 'tags'],
     quotes: false  // Prevent auto-quoting
   })
   // Support both relative paths and absolute paths
@@ -3350,7 +6127,9 @@ ipcMain.handle('addWord', async (ev, fileRelOrAbsPath, row) => {
     meaningVi: row && row.meaningVi ? row.meaningVi : row && row.meaningNoteVi ? row.meaningNoteVi : row && row.meaningNoteVie ? row.meaningNoteVie : '',
     pronunciation: row && row.pronunciation ? row.pronunciation : '',
     pos: row && row.pos ? row.pos : '',
-    example: row && row.example ? row.example : ''
+    example: row && row.example ? row.example : '',
+    accepted: row && row.accepted ? row.accepted : '',
+    tags: row && row.tags ? row.tags : ''
   });
 
   await writeCsv(fileRelOrAbsPath, rows);
@@ -3430,14 +6209,24 @@ ipcMain.handle('enhanceWordInBackground', async (ev, fileRelOrAbsPath, word, mea
     // Reuse one config read per background enhancement.
     let g = null
     try {
-      g = await getGoogleAiStudioConfig()
+      g = await getLlmConfig()
     } catch (e) {
       g = null
     }
 
-    const shouldIpa = !pronunciation || !pronunciation.trim() || pronunciation === '//'
+    let shouldIpa = !pronunciation || !pronunciation.trim() || pronunciation === '//'
     const shouldExample = !example || !example.trim()
 
+    // An installed offline dictionary answers IPA without a network call.
+    if (shouldIpa) {
+      const offline = await lookupOfflineDictionaryEntry(word.trim()).catch(() => null)
+      if (offline && offline.ipa) {
+        updatedRow.pronunciation = offline.ipa
+        needsUpdate = true
+        shouldIpa = false
+      }
+    }
+
     // If we have an LLM key and multiple fields are missing, run them concurrently.
     if (g && (shouldIpa || shouldExample)) {
       const jobs = []
@@ -3530,6 +6319,7 @@ ipcMain.handle('enhanceWordInBackground', async (ev, fileRelOrAbsPath, word, mea
 
 
 ipcMain.handle('deleteWord', async (ev, relPath, index) => {
+  await backupBeforeDestructive('deleteWord', String(relPath || ''))
   const root = getDataRoot()
   const full = path.isAbsolute(relPath) ? relPath : path.join(root, normalizeRel(relPath))
   const text = await fs.readFile(full, 'utf8')
@@ -3555,7 +6345,9 @@ ipcMain.handle('editWord', async (ev, relPath, index, newData) => {
       meaningVi: (typeof newData.meaningVi !== 'undefined') ? newData.meaningVi : (rows[index].meaningVi || rows[index].meaningNoteVi || rows[index].meaningNoteVie || ''),
       pronunciation: newData.pronunciation || rows[index].pronunciation,
       pos: newData.pos || rows[index].pos || '',
-      example: (typeof newData.example !== 'undefined') ? newData.example : (rows[index].example || '')
+      example: (typeof newData.example !== 'undefined') ? newData.example : (rows[index].example || ''),
+      accepted: (typeof newData.accepted !== 'undefined') ? newData.accepted : (rows[index].accepted || ''),
+      tags: (typeof newData.tags !== 'undefined') ? newData.tags : (rows[index].tags || '')
     }
   }
   await writeCsv(relPath, rows)
@@ -3563,6 +6355,7 @@ ipcMain.handle('editWord', async (ev, relPath, index, newData) => {
 })
 
 ipcMain.handle('dedupeWords', async (ev, relPathOrAbsPath) => {
+  await backupBeforeDestructive('dedupeWords', String(relPathOrAbsPath || ''))
   const root = getDataRoot()
   const full = path.isAbsolute(relPathOrAbsPath) ? relPathOrAbsPath : path.join(root, normalizeRel(relPathOrAbsPath))
   const text = await fs.readFile(full, 'utf8')
@@ -3623,6 +6416,7 @@ ipcMain.handle('dedupeWords', async (ev, relPathOrAbsPath) => {
 })
 
 ipcMain.handle('moveWords', async (ev, srcRel, dstRel, indices) => {
+  await backupBeforeDestructive('moveWords', `${srcRel || ''}>${dstRel || ''}`)
   const root = getDataRoot()
   // support both absolute and relative paths
   const srcFull = path.isAbsolute(srcRel) ? srcRel : path.join(root, normalizeRel(srcRel))
@@ -3681,7 +6475,7 @@ ipcMain.handle('copyWords', async (ev, srcRel, dstRel, indices) => {
 ipcMain.handle('translator:suggestExampleSentence', async (ev, payload) => {
   const ctrl = new AbortController()
   try {
-    const { key, model, endpoint } = await getGoogleAiStudioConfig(payload)
+    const { key, model, endpoint } = await getLlmConfig(payload)
     const word = payload && payload.word ? payload.word : ''
     const meaningVi = payload && payload.meaningVi ? payload.meaningVi : ''
     const pos = payload && payload.pos ? payload.pos : ''
@@ -3692,12 +6486,27 @@ ipcMain.handle('translator:suggestExampleSentence', async (ev, payload) => {
   }
 })
 
+ipcMain.handle('translator:suggestMnemonic', async (ev, payload) => {
+  const ctrl = new AbortController()
+  try {
+    const { key, model, endpoint } = await getLlmConfig(payload)
+    const word = payload && payload.word ? payload.word : ''
+    const meaningVi = payload && payload.meaningVi ? payload.meaningVi : ''
+    const pos = payload && payload.pos ? payload.pos : ''
+    return await gemmaSuggestMnemonic({ key, endpoint, model, word, meaningVi, pos, signal: ctrl.signal })
+  } finally {
+    try { ctrl.abort() } catch {}
+  }
+})
+
 ipcMain.handle('translator:suggestIpa', async (ev, payload) => {
   const ctrl = new AbortController()
   try {
-    const { key, model, endpoint } = await getGoogleAiStudioConfig(payload)
     const word = payload && payload.word ? payload.word : ''
     const dialect = payload && payload.dialect ? payload.dialect : 'US'
+    const offline = await lookupOfflineDictionaryEntry(word)
+    if (offline && offline.ipa) return offline.ipa
+    const { key, model, endpoint } = await getLlmConfig(payload)
     return await gemmaSuggestIpa({ key, endpoint, model, word, dialect, signal: ctrl.signal })
   } finally {
     try { ctrl.abort() } catch {}
@@ -3707,7 +6516,7 @@ ipcMain.handle('translator:suggestIpa', async (ev, payload) => {
 ipcMain.handle('translator:getWordFamily', async (ev, payload) => {
   const ctrl = new AbortController()
   try {
-    const { key, model, endpoint } = await getGoogleAiStudioConfig(payload)
+    const { key, model, endpoint } = await getLlmConfig(payload)
     const word = payload && payload.word ? payload.word : ''
     return await gemmaGetWordFamily({ key, endpoint, model, word, signal: ctrl.signal })
   } finally {
@@ -3718,7 +6527,7 @@ ipcMain.handle('translator:getWordFamily', async (ev, payload) => {
 ipcMain.handle('translator:getSynonyms', async (ev, payload) => {
   const ctrl = new AbortController()
   try {
-    const { key, model, endpoint } = await getGoogleAiStudioConfig(payload)
+    const { key, model, endpoint } = await getLlmConfig(payload)
     const word = payload && payload.word ? payload.word : ''
     return await gemmaGetSynonyms({ key, endpoint, model, word, signal: ctrl.signal })
   } finally {
@@ -3983,11 +6792,13 @@ ipcMain.handle('enrichWord', async (ev, payload) => {
 })
 
 ipcMain.handle('translator:autoMeaning', async (ev, payload) => {
-  return autoMeaningCore(payload)
+  const { result, cached } = await trackResponseCache(() => autoMeaningCore(payload))
+  return { ...result, cached }
 })
 
 ipcMain.handle('translator:enrichWord', async (ev, payload) => {
-  return enrichWordCore(payload)
+  const { result, cached } = await trackResponseCache(() => enrichWordCore(payload))
+  return { ...result, cached }
 })
 
 ipcMain.handle('translator:enrichWordBulk', async (ev, payload) => {
@@ -4001,8 +6812,9 @@ ipcMain.handle('translator:translatePlain', async (ev, payload) => {
   const to = String(req.to || 'vi')
   if (!text) return ''
 
-  const g = await getGoogleAiStudioConfig(req)
-  return await googleTranslatePlain({ key: g.key, endpoint: g.endpoint, model: g.model, from, to, text })
+  const out = await translateWithChain(req, { from, to, text })
+  if (!out.source) throw new Error('No translation provider is configured')
+  return out.text
 })
 
 ipcMain.handle('translator:translateMeaningNoteVie', async (ev, payload) => {
@@ -4010,9 +6822,15 @@ ipcMain.handle('translator:translateMeaningNoteVie', async (ev, payload) => {
   const englishMeaning = String(req.englishMeaning || '').trim()
   if (!englishMeaning) return ''
 
-  const g = await getGoogleAiStudioConfig(req)
+  let g = null
+  try {
+    g = await getLlmConfig(req)
+  } catch {
+    g = null
+  }
 
   try {
+    if (!g) throw new Error('No LLM provider')
     const translated = await gemmaTranslateMeaningNoteVie({
       key: g.key,
       endpoint: g.endpoint,
@@ -4026,14 +6844,8 @@ ipcMain.handle('translator:translateMeaningNoteVie', async (ev, payload) => {
     // fallback below
   }
 
-  return await googleTranslatePlain({
-    key: g.key,
-    endpoint: g.endpoint,
-    model: g.model,
-    from: 'en',
-    to: 'vi',
-    text: englishMeaning,
-  })
+  const out = await translateWithChain(req, { from: 'en', to: 'vi', text: englishMeaning })
+  return out.text
 })
 
 ipcMain.handle('translator:fetchEnglishMeaning', async (ev, word) => {
@@ -4073,16 +6885,131 @@ ipcMain.handle('translator:translateExplain', async (ev, payload) => {
   const to = String(req.to || 'vi')
   if (!text) return { translation: '', explanation: '' }
 
-  const g = await getGoogleAiStudioConfig(req)
+  const g = await getLlmConfig(req)
   return await googleTranslateExplain({ key: g.key, endpoint: g.endpoint, model: g.model, from, to, text })
 })
 
+ipcMain.handle('settings:getLlmProvider', async () => {
+  return publicLlmProviderSettings(await loadLlmProviderSettings())
+})
+
+// patch: { provider?, openai?: { baseUrl?, model?, apiKey? }, local?: { baseUrl?, model? } }
+// openai.apiKey: undefined keeps the saved key, '' removes it.
+ipcMain.handle('settings:setLlmProvider', async (ev, patch) => {
+  const cur = await loadLlmProviderSettings()
+  const p = patch && typeof patch === 'object' ? patch : {}
+  const next = {
+    provider: p.provider || cur.provider,
+    openai: { ...cur.openai, ...(p.openai || {}) },
+    local: { ...cur.local, ...(p.local || {}) }
+  }
+  if (!p.openai || p.openai.apiKey === undefined) next.openai.apiKey = cur.openai.apiKey
+  return publicLlmProviderSettings(await saveLlmProviderSettings(next))
+})
+
+// Sends a tiny prompt through the active provider so the settings can be checked from the UI.
+ipcMain.handle('settings:testLlmProvider', async () => {
+  const startedAt = Date.now()
+  try {
+    const g = await getLlmConfig()
+    const prompt = `Reply with the single word OK. (test ${startedAt})`
+    const text = await llmGenerateContent({ key: g.key, endpoint: g.endpoint, model: g.model, prompt })
+    return { ok: true, provider: g.provider, model: g.model, text: String(text || '').trim().slice(0, 200), ms: Date.now() - startedAt }
+  } catch (err) {
+    return { ok: false, error: err && err.message ? err.message : String(err), ms: Date.now() - startedAt }
+  }
+})
+
+ipcMain.handle('settings:listLlmModels', async (ev, providerId) => {
+  const s = await loadLlmProviderSettings()
+  if (providerId === 'openai') return await listOpenAiCompatibleModels({ key: s.openai.apiKey, endpoint: s.openai.baseUrl })
+  if (providerId === 'local') return await listOpenAiCompatibleModels({ key: '', endpoint: s.local.baseUrl })
+  return [...GOOGLE_AI_MODEL_PRIORITY]
+})
+
+ipcMain.handle('settings:getTranslationProviders', async () => {
+  return await describeTranslationProviders()
+})
+
+// patch: { chain?: [{ id, enabled }], libretranslate?: { baseUrl?, apiKey? } } - apiKey omitted keeps the saved one
+ipcMain.handle('settings:setTranslationProviders', async (ev, patch) => {
+  const cur = await loadTranslationProviderSettings()
+  const p = patch && typeof patch === 'object' ? patch : {}
+  const lt = { ...cur.libretranslate, ...(p.libretranslate || {}) }
+  if (!p.libretranslate || p.libretranslate.apiKey === undefined) lt.apiKey = cur.libretranslate.apiKey
+  await saveTranslationProviderSettings({ chain: Array.isArray(p.chain) ? p.chain : cur.chain, libretranslate: lt })
+  return await describeTranslationProviders()
+})
+
+ipcMain.handle('settings:openDictionariesFolder', async () => {
+  const err = await shell.openPath(getUserDictionariesPath())
+  if (err) throw new Error(err)
+  return true
+})
+
+ipcMain.handle('settings:importDictionary', async (ev) => {
+  try {
+    const win = BrowserWindow.fromWebContents(ev.sender)
+    const { canceled, filePaths } = await dialog.showOpenDialog(win, {
+      title: 'Import dictionary pack',
+      properties: ['openFile'],
+      filters: [
+        { name: 'Dictionary packs', extensions: ['ifo', 'index', 'json', 'tsv'] },
+        { name: 'StarDict (.ifo)', extensions: ['ifo'] },
+        { name: 'dictd (.index)', extensions: ['index'] },
+        { name: 'JSON / TSV', extensions: ['json', 'tsv'] }
+      ]
+    })
+    if (canceled || !filePaths || !filePaths[0]) return null
+    return await importOfflineDictionaryPack(filePaths[0])
+  } catch (err) {
+    console.error('Error importing dictionary pack:', err)
+    throw err
+  }
+})
+
+ipcMain.handle('settings:deleteDictionary', async (ev, file) => {
+  return deleteOfflineDictionary(file)
+})
+
+ipcMain.handle('cache:getStats', async () => {
+  return responseCacheStats()
+})
+
+ipcMain.handle('cache:clear', async () => {
+  return clearResponseCache()
+})
+
+// Renderer-side dictionaryapi.dev lookups share the same store. The provider is pinned so the
+// renderer can never read or overwrite entries written by the main process (Google, Azure, ...).
+const RENDERER_CACHE_PROVIDER = 'dictionaryapi'
+
+ipcMain.handle('cache:get', async (ev, parts) => {
+  const p = parts || {}
+  return responseCacheGet(responseCacheKey({ kind: p.kind, input: p.input, provider: RENDERER_CACHE_PROVIDER }))
+})
+
+ipcMain.handle('cache:set', async (ev, parts) => {
+  const p = parts || {}
+  responseCacheSet(responseCacheKey({ kind: p.kind, input: p.input, provider: RENDERER_CACHE_PROVIDER }), p.value)
+  return true
+})
+
 ipcMain.handle('settings:getGoogleAiStudioStatus', async () => {
   const store = await readGoogleAiStudioKeysStore()
   const hasKey = (store && store.activeIds && store.activeIds.length > 0) || !!(process.env.GOOGLE_AI_STUDIO_API_KEY || process.env.GOOGLE_API_KEY)
   return { hasKey }
 })
 
+ipcMain.handle('quota:getUsage', async (ev, days) => {
+  return getGoogleAiQuotaUsage(days)
+})
+
+ipcMain.handle('quota:setModelLimits', async (ev, payload) => {
+  const req = payload || {}
+  return setGoogleAiModelQuotaLimits(req.model, { rpm: req.rpm, rpd: req.rpd }, !!req.reset)
+})
+
 ipcMain.handle('settings:getGoogleAiStudioConcurrency', async () => {
   return { concurrency: refreshGoogleAiConcurrencyFromEnv() }
 })
@@ -4234,6 +7161,7 @@ ipcMain.handle('pdfRestore', async (ev, pdfId) => {
 // Permanently delete a PDF folder
 ipcMain.handle('pdfDeletePermanent', async (ev, pdfId) => {
   try {
+    await backupBeforeDestructive('pdfDeletePermanent')
     const pdfRoot = getDataPdfRoot()
     const pdfDir = path.join(pdfRoot, pdfId)
     if (!fsSync.existsSync(pdfDir)) return false
@@ -4248,6 +7176,7 @@ ipcMain.handle('pdfDeletePermanent', async (ev, pdfId) => {
 // Delete a PDF (remove pdf folder but preserve/move the deck CSV into data root)
 ipcMain.handle('pdfDelete', async (ev, pdfId) => {
   try {
+    await backupBeforeDestructive('pdfDelete', String(pdfId || ''))
     const pdfRoot = getDataPdfRoot()
     const pdfDir = path.join(pdfRoot, pdfId)
     const metaPath = path.join(pdfDir, 'meta.json')
@@ -4291,6 +7220,9 @@ ipcMain.handle('pdfDelete', async (ev, pdfId) => {
 
 app.whenReady().then(() => {
   createWindow()
+  // Daily snapshot on startup, re-checked hourly for sessions that run past midnight.
+  ensureDailyBackup()
+  setInterval(ensureDailyBackup, 60 * 60 * 1000)
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) createWindow()
   })
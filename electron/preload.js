@@ -3,6 +3,7 @@ const { contextBridge, ipcRenderer } = require('electron')
 // Keep track of wrappers so removeListener can remove the correct function
 const deckUpdatedWrappers = new Map();
 const googleAiKeyInvalidWrappers = new Map();
+const vocabDbChangedWrappers = new Map();
 
 contextBridge.exposeInMainWorld('api', {
   listTree: () => ipcRenderer.invoke('listTree'),
@@ -51,6 +52,8 @@ contextBridge.exposeInMainWorld('api', {
   ,
   suggestExampleSentence: (payload) => ipcRenderer.invoke('translator:suggestExampleSentence', payload)
   ,
+  suggestMnemonic: (payload) => ipcRenderer.invoke('translator:suggestMnemonic', payload)
+  ,
   suggestIpa: (payload) => ipcRenderer.invoke('translator:suggestIpa', payload)
   ,
   getWordFamily: (payload) => ipcRenderer.invoke('translator:getWordFamily', payload)
@@ -65,9 +68,45 @@ contextBridge.exposeInMainWorld('api', {
   ,
   translateExplain: (payload) => ipcRenderer.invoke('translator:translateExplain', payload)
   ,
-  // Export Smart Review (VocabularyStore localStorage) to a JSON file via main process
+  // Export Smart Review (VocabularyStore snapshot) to a JSON file via main process
   exportSmartReview: (rawJson) => ipcRenderer.invoke('exportSmartReview', rawJson)
   ,
+  // Pick a Smart Review JSON file and return its parsed contents
+  importSmartReview: () => ipcRenderer.invoke('importSmartReview')
+  ,
+  // Smart Review records (main-process journal in userData/vocab-store.jsonl)
+  vocabDbLoadSync: (legacyJson) => ipcRenderer.sendSync('vocabDb:loadSync', legacyJson),
+  vocabDbWrite: (ops) => ipcRenderer.invoke('vocabDb:write', ops),
+  vocabDbGetAll: () => ipcRenderer.invoke('vocabDb:getAll'),
+  vocabDbGet: (id) => ipcRenderer.invoke('vocabDb:get', id),
+
+  // Append-only review log (stored in userData/review-log.jsonl)
+  reviewLogAppend: (entries) => ipcRenderer.invoke('reviewLog:append', entries),
+  reviewLogQuery: (query) => ipcRenderer.invoke('reviewLog:query', query),
+  reviewLogCount: () => ipcRenderer.invoke('reviewLog:count'),
+
+  // Anki .apkg import/export
+  ankiExportCsv: (fileRelOrAbsPath) => ipcRenderer.invoke('anki:exportCsv', fileRelOrAbsPath),
+  ankiExportRecords: (deckName, records) => ipcRenderer.invoke('anki:exportRecords', deckName, records),
+  ankiImport: () => ipcRenderer.invoke('anki:import'),
+
+  // Folder sync (state in userData/sync-state.json)
+  syncGetStatus: () => ipcRenderer.invoke('sync:getStatus'),
+  syncChooseFolder: () => ipcRenderer.invoke('sync:chooseFolder'),
+  syncClearFolder: () => ipcRenderer.invoke('sync:clearFolder'),
+  syncRun: () => ipcRenderer.invoke('sync:run'),
+  syncResolve: (conflictIds, choice) => ipcRenderer.invoke('sync:resolve', conflictIds, choice),
+
+  // Snapshot backups (userData/backups)
+  backupList: () => ipcRenderer.invoke('backup:list'),
+  backupCreate: (reason) => ipcRenderer.invoke('backup:create', reason),
+  backupDelete: (id) => ipcRenderer.invoke('backup:delete', id),
+  backupDiff: (id) => ipcRenderer.invoke('backup:diff', id),
+  backupRestore: (id, parts) => ipcRenderer.invoke('backup:restore', id, parts),
+
+  // Global search over CSVs, PDF decks, highlights and Smart Review
+  searchQuery: (query, opts) => ipcRenderer.invoke('search:query', query, opts),
+
   // Per-user settings (stored in userData/.env)
   getGoogleAiStudioStatus: () => ipcRenderer.invoke('settings:getGoogleAiStudioStatus'),
   setGoogleAiStudioApiKey: (apiKey) => ipcRenderer.invoke('settings:setGoogleAiStudioApiKey', apiKey),
@@ -82,6 +121,29 @@ contextBridge.exposeInMainWorld('api', {
   setActiveGoogleAiStudioApiKey: (keyId) => ipcRenderer.invoke('settings:setActiveGoogleAiStudioApiKey', keyId),
   toggleGoogleAiStudioApiKey: (keyId, enabled) => ipcRenderer.invoke('settings:toggleGoogleAiStudioApiKey', keyId, enabled),
 
+  // Google AI quota usage (userData/google-ai-studio-quota.json)
+  getQuotaUsage: (days) => ipcRenderer.invoke('quota:getUsage', days),
+  setModelQuotaLimits: (payload) => ipcRenderer.invoke('quota:setModelLimits', payload),
+
+  // LLM provider selection (stored in userData/llm-provider.json)
+  getLlmProvider: () => ipcRenderer.invoke('settings:getLlmProvider'),
+  setLlmProvider: (patch) => ipcRenderer.invoke('settings:setLlmProvider', patch),
+  testLlmProvider: () => ipcRenderer.invoke('settings:testLlmProvider'),
+  listLlmModels: (providerId) => ipcRenderer.invoke('settings:listLlmModels', providerId),
+
+  // Translation / dictionary provider chain (stored in userData/translation-providers.json)
+  getTranslationProviders: () => ipcRenderer.invoke('settings:getTranslationProviders'),
+  setTranslationProviders: (patch) => ipcRenderer.invoke('settings:setTranslationProviders', patch),
+  openDictionariesFolder: () => ipcRenderer.invoke('settings:openDictionariesFolder'),
+  importDictionary: () => ipcRenderer.invoke('settings:importDictionary'),
+  deleteDictionary: (file) => ipcRenderer.invoke('settings:deleteDictionary', file),
+
+  // Persistent AI/dictionary response cache (userData/response-cache.jsonl)
+  getResponseCacheStats: () => ipcRenderer.invoke('cache:getStats'),
+  clearResponseCache: () => ipcRenderer.invoke('cache:clear'),
+  responseCacheGet: (parts) => ipcRenderer.invoke('cache:get', parts),
+  responseCacheSet: (parts) => ipcRenderer.invoke('cache:set', parts),
+
   // listen for deck updates (emitted when a CSV inside a PDF folder is written)
   onDeckUpdated: (cb) => {
     const wrapper = (ev, data) => cb && cb(data);
@@ -108,4 +170,18 @@ contextBridge.exposeInMainWorld('api', {
       googleAiKeyInvalidWrappers.delete(cb);
     }
   }
+  ,
+  // Smart Review records changed in the main process (e.g. pulled by sync)
+  onVocabDbChanged: (cb) => {
+    const wrapper = () => cb && cb();
+    vocabDbChangedWrappers.set(cb, wrapper);
+    ipcRenderer.on('vocabDb:changed', wrapper);
+  },
+  offVocabDbChanged: (cb) => {
+    const wrapper = vocabDbChangedWrappers.get(cb);
+    if (wrapper) {
+      ipcRenderer.removeListener('vocabDb:changed', wrapper);
+      vocabDbChangedWrappers.delete(cb);
+    }
+  }
 })
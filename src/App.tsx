@@ -3,12 +3,16 @@ import { BrowserRouter, HashRouter, Link, Route, Routes, useLocation, useNavigat
 
 import {
   ApiKeyView,
+  BackupView,
+  CommandPalette,
   ErrorBoundary,
   ManagerPdfView,
   ManagerView,
   PdfReaderView,
   SRSManagerView,
+  StatsView,
   StudyView,
+  SyncView,
 } from './components'
 import TypingGameView from './components/TypingGameView'
 import { BackgroundTasksProvider } from './contexts/BackgroundTasksContext'
@@ -121,7 +125,15 @@ function RouteStateSync() {
   return null
 }
 
-function AppSidebar({ collapsed, setCollapsed }: { collapsed: boolean; setCollapsed: (v: boolean) => void }) {
+function AppSidebar({
+  collapsed,
+  setCollapsed,
+  onSearch,
+}: {
+  collapsed: boolean
+  setCollapsed: (v: boolean) => void
+  onSearch: () => void
+}) {
   const { theme, toggleTheme } = useTheme()
 
   return (
@@ -208,6 +220,17 @@ function AppSidebar({ collapsed, setCollapsed }: { collapsed: boolean; setCollap
           }
         />
 
+        <NavLink
+          to="/stats"
+          collapsed={collapsed}
+          label="Statistics"
+          icon={
+            <svg className="w-[18px] h-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+          }
+        />
+
         {!collapsed && (
           <div className="px-2 py-2 mt-4 text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-wider">
             Documents
@@ -252,10 +275,55 @@ function AppSidebar({ collapsed, setCollapsed }: { collapsed: boolean; setCollap
             </svg>
           }
         />
+
+        <NavLink
+          to="/sync"
+          collapsed={collapsed}
+          label="Sync"
+          icon={
+            <svg className="w-[18px] h-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+          }
+        />
+
+        <NavLink
+          to="/backups"
+          collapsed={collapsed}
+          label="Backups"
+          icon={
+            <svg className="w-[18px] h-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" />
+            </svg>
+          }
+        />
       </nav>
 
       {/* Bottom actions */}
       <div className={`p-3 border-t border-slate-200/50 dark:border-slate-700/50 space-y-2`}>
+        {/* Global search */}
+        <button
+          onClick={onSearch}
+          className={`
+            w-full flex items-center gap-3 px-3 py-2.5 rounded-xl font-medium transition-all duration-200
+            text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800/60 hover:text-slate-900 dark:hover:text-white
+            ${collapsed ? 'justify-center' : ''}
+          `}
+          title={collapsed ? 'Search (Ctrl+K)' : undefined}
+        >
+          <div className="w-8 h-8 flex items-center justify-center rounded-lg bg-slate-100 dark:bg-slate-800 flex-shrink-0">
+            <svg className="w-[18px] h-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+          </div>
+          {!collapsed && (
+            <>
+              <span className="flex-1 text-left text-sm font-semibold">Search</span>
+              <kbd className="px-1.5 py-0.5 text-[10px] font-semibold rounded border border-slate-300 dark:border-slate-600">Ctrl K</kbd>
+            </>
+          )}
+        </button>
+
         {/* Theme toggle */}
         <button
           onClick={toggleTheme}
@@ -331,6 +399,8 @@ export default function App() {
     return 'light'
   })
 
+  const [searchOpen, setSearchOpen] = useState(false)
+
   // Sidebar collapsed state
   const [sidebarCollapsed, setSidebarCollapsed] = useState(() => {
     try {
@@ -397,8 +467,9 @@ export default function App() {
           <Router>
             <ErrorBoundary>
               <RouteStateSync />
+              <CommandPalette open={searchOpen} onOpenChange={setSearchOpen} />
               <div className="flex h-screen bg-slate-50 dark:bg-slate-950 transition-colors duration-300">
-                <AppSidebar collapsed={sidebarCollapsed} setCollapsed={setSidebarCollapsed} />
+                <AppSidebar collapsed={sidebarCollapsed} setCollapsed={setSidebarCollapsed} onSearch={() => setSearchOpen(true)} />
 
                 <main className="flex-1 overflow-hidden flex flex-col">
                   {apiKeyInvalidNotice && (
@@ -443,8 +514,11 @@ export default function App() {
                       <Route path="/study" element={<StudyView />} />
                       <Route path="/typing-game" element={<TypingGameView />} />
                       <Route path="/srs-manager" element={<SRSManagerView />} />
+                      <Route path="/stats" element={<StatsView />} />
                       <Route path="/pdf" element={<PdfReaderView />} />
                       <Route path="/api-key" element={<ApiKeyView />} />
+                      <Route path="/sync" element={<SyncView />} />
+                      <Route path="/backups" element={<BackupView />} />
                       <Route path="/" element={<ManagerView />} />
                     </Routes>
                   </ErrorBoundary>
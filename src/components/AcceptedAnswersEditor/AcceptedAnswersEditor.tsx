@@ -0,0 +1,146 @@
+import React, { useState } from 'react'
+import { suggestAcceptedAnswers } from '../../utils/acceptedAnswers'
+import type { AcceptedSuggestion } from '../../utils/acceptedAnswers'
+
+type Props = {
+  word: string
+  accepted: string[]
+  onSave: (next: string[]) => Promise<void> | void
+}
+
+function errorText(e: unknown): string {
+  return e && typeof e === 'object' && 'message' in e ? String((e as any).message) : String(e)
+}
+
+export default function AcceptedAnswersEditor({ word, accepted, onSave }: Props) {
+  const [suggestions, setSuggestions] = useState<AcceptedSuggestion[] | null>(null)
+  const [checked, setChecked] = useState<Record<string, boolean>>({})
+  const [manual, setManual] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const acceptedKeys = new Set(accepted.map((a) => a.toLowerCase()))
+
+  const save = async (next: string[]) => {
+    setSaving(true)
+    setError('')
+    try {
+      await onSave(next)
+    } catch (e) {
+      setError(errorText(e))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const loadSuggestions = async () => {
+    setLoading(true)
+    setError('')
+    try {
+      const list = await suggestAcceptedAnswers(word)
+      setSuggestions(list.filter((s) => !acceptedKeys.has(s.word.toLowerCase())))
+      setChecked({})
+    } catch (e) {
+      setError(errorText(e))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const confirmSuggestions = async () => {
+    const picked = (suggestions || []).filter((s) => checked[s.word]).map((s) => s.word)
+    if (picked.length === 0) return
+    await save([...accepted, ...picked])
+    setSuggestions((prev) => (prev || []).filter((s) => !checked[s.word]))
+    setChecked({})
+  }
+
+  const addManual = async () => {
+    const w = manual.trim()
+    if (!w || acceptedKeys.has(w.toLowerCase()) || w.toLowerCase() === word.toLowerCase()) return
+    await save([...accepted, w])
+    setManual('')
+  }
+
+  return (
+    <div className="p-3 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white/70 dark:bg-slate-800/70 space-y-3">
+      <div className="text-sm font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide">Đáp án được chấp nhận</div>
+
+      <div className="flex flex-wrap gap-2">
+        {accepted.length === 0 && <span className="text-xs text-slate-400 italic">Chỉ chấp nhận “{word}”</span>}
+        {accepted.map((a) => (
+          <span key={a} className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200 text-sm">
+            {a}
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => save(accepted.filter((x) => x !== a))}
+              className="text-amber-600 hover:text-rose-600 dark:text-amber-300"
+              title="Bỏ"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          className="input-field flex-1 !py-1.5 text-sm"
+          value={manual}
+          onChange={(e) => setManual(e.target.value)}
+          onKeyDown={(e) => {
+            // Keep Enter / number keys from reaching the study shortcuts
+            e.stopPropagation()
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              void addManual()
+            }
+          }}
+          placeholder="Thêm đáp án…"
+        />
+        <button type="button" className="btn-secondary px-3 py-1.5 text-xs" disabled={saving || !manual.trim()} onClick={addManual}>
+          Thêm
+        </button>
+        <button type="button" className="btn-secondary px-3 py-1.5 text-xs" disabled={loading} onClick={loadSuggestions}>
+          {loading ? 'Đang tìm…' : 'Gợi ý đồng nghĩa / họ từ'}
+        </button>
+      </div>
+
+      {suggestions && (
+        suggestions.length === 0 ? (
+          <div className="text-xs text-slate-400">Không có gợi ý mới.</div>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {suggestions.map((s) => (
+                <label key={s.word} className="inline-flex items-center gap-1.5 px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-600 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!checked[s.word]}
+                    onChange={(e) => setChecked((prev) => ({ ...prev, [s.word]: e.target.checked }))}
+                  />
+                  <span className="text-slate-800 dark:text-slate-200">{s.word}</span>
+                  <span className="text-[10px] text-slate-400">
+                    {s.origin === 'synonym' ? 'đồng nghĩa' : 'họ từ'}{s.pos ? ` • ${s.pos}` : ''}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <button
+              type="button"
+              className="btn-primary px-3 py-1.5 text-xs"
+              disabled={saving || !Object.values(checked).some(Boolean)}
+              onClick={confirmSuggestions}
+            >
+              Chấp nhận các từ đã chọn
+            </button>
+          </div>
+        )
+      )}
+
+      {error && <div className="text-xs text-red-600 dark:text-red-400">{error}</div>}
+    </div>
+  )
+}
@@ -2,15 +2,17 @@ import React, { useEffect, useMemo, useRef, useState } from 'react'
 import { POS_OPTIONS, normalizePos } from '../posOptions/posOptions'
 import { countSaveableFamilyMembers, enrichWordFamilyMembers, getWordFamily, type EnrichedWordFamilyMember } from '../../utils/wordFamily'
 import { enrichSynonyms, getSynonymFamilies, getSynonyms } from '../../utils/synonyms'
+import { candidateTitle } from '../../utils/translationSources'
+import { formatTags, parseTags } from '../../utils/tags'
 
 interface Props {
   selectedText: string
   contextSentenceEn: string
-  onSave: (word: string, meaning: string, meaningNoteVi: string, pronunciation: string, pos: string, example: string) => void
+  onSave: (word: string, meaning: string, meaningNoteVi: string, pronunciation: string, pos: string, example: string, tags?: string) => void
   onCancel: () => void
 }
 
-type AutoMeaningCandidate = { vi: string; pos?: string; back?: string[] }
+type AutoMeaningCandidate = { vi: string; pos?: string; back?: string[]; source?: string; dictionary?: string }
 
 type AutoMeaningResponse = {
   requestId: string
@@ -31,12 +33,14 @@ export default function AddWordModal({ selectedText, contextSentenceEn, onSave,
   const [example, setExample] = useState('')
   const [pronunciation, setPronunciation] = useState('')
   const [pos, setPos] = useState<string>('')
+  const [tags, setTags] = useState('')
   const [errorMessage, setErrorMessage] = useState<string>('')
   const [ipaLoading, setIpaLoading] = useState(false)
 
   const [meaningLoading, setMeaningLoading] = useState(false)
   const [meaningError, setMeaningError] = useState<string>('')
   const [meaningCandidates, setMeaningCandidates] = useState<AutoMeaningCandidate[]>([])
+  const [meaningFromCache, setMeaningFromCache] = useState(false)
   const [contextVi, setContextVi] = useState('')
   const isMeaningDirtyRef = useRef(false)
   const isPosDirtyRef = useRef(false)
@@ -116,6 +120,7 @@ export default function AddWordModal({ selectedText, contextSentenceEn, onSave,
       setIpaLoading(true)
       setMeaningLoading(true)
       setMeaningError('')
+      setMeaningFromCache(false)
 
       await cancelPendingAutoMeaning()
       const requestId = `${Date.now()}_${Math.random().toString(16).slice(2)}`
@@ -209,6 +214,7 @@ export default function AddWordModal({ selectedText, contextSentenceEn, onSave,
               }
             }
             setMeaningCandidates(Array.isArray(resp.candidates) ? resp.candidates : [])
+            setMeaningFromCache(!!resp.cached)
             setContextVi((resp.contextSentenceVi || '').trim())
 
             // Auto-select POS
@@ -389,11 +395,13 @@ export default function AddWordModal({ selectedText, contextSentenceEn, onSave,
     const basePos = pos.trim()
     const basePron = ensureIpaSlashes(pronunciation)
     const baseExample = example.trim()
+    // Tags apply to the word and to every related word saved with it
+    const baseTags = formatTags(parseTags(tags))
 
     const saved = new Set<string>()
     saved.add(baseWord.toLowerCase())
 
-    onSave(baseWord, baseMeaning, baseMeaningNote, basePron, basePos, baseExample)
+    onSave(baseWord, baseMeaning, baseMeaningNote, basePron, basePos, baseExample, baseTags)
 
     if (wordFamilyEnabled && wordFamilySelected.size > 0) {
       for (const m of wordFamilyMembers) {
@@ -407,7 +415,7 @@ export default function AddWordModal({ selectedText, contextSentenceEn, onSave,
         const mn = String((m as any)?.meaningNoteVi || '').trim()
         const pr = ensureIpaSlashes(String(m?.pronunciation || ''))
         const ex = String(m?.example || '').trim()
-        onSave(mw, mm, mn, pr, mp, ex)
+        onSave(mw, mm, mn, pr, mp, ex, baseTags)
         saved.add(key)
       }
     }
@@ -424,7 +432,7 @@ export default function AddWordModal({ selectedText, contextSentenceEn, onSave,
         const mn = String((m as any)?.meaningNoteVi || '').trim()
         const pr = ensureIpaSlashes(String(m?.pronunciation || ''))
         const ex = String(m?.example || '').trim()
-        onSave(mw, mm, mn, pr, mp, ex)
+        onSave(mw, mm, mn, pr, mp, ex, baseTags)
         saved.add(key)
       }
     }
@@ -441,7 +449,7 @@ export default function AddWordModal({ selectedText, contextSentenceEn, onSave,
         const mn = String((m as any)?.meaningNoteVi || '').trim()
         const pr = ensureIpaSlashes(String(m?.pronunciation || ''))
         const ex = String(m?.example || '').trim()
-        onSave(mw, mm, mn, pr, mp, ex)
+        onSave(mw, mm, mn, pr, mp, ex, baseTags)
         saved.add(key)
       }
     }
@@ -932,7 +940,14 @@ export default function AddWordModal({ selectedText, contextSentenceEn, onSave,
 
             {meaningCandidates.length > 0 && (
               <div className="mt-3">
-                <div className="text-xs font-semibold text-slate-600 dark:text-slate-300 mb-2">Other suggestions</div>
+                <div className="text-xs font-semibold text-slate-600 dark:text-slate-300 mb-2 flex items-center gap-2">
+                  Other suggestions
+                  {meaningFromCache && (
+                    <span className="badge bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 px-1.5 py-0.5 text-[10px]" title="Lấy từ cache, không tốn quota">
+                      ⚡ cache
+                    </span>
+                  )}
+                </div>
                 <div className="flex flex-wrap gap-2">
                   {meaningCandidates.slice(0, 8).map((c, idx) => (
                     <button
@@ -974,7 +989,7 @@ export default function AddWordModal({ selectedText, contextSentenceEn, onSave,
                         })()
                       }}
                       className="px-3 py-1 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-xs text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-600 transition-colors"
-                      title={(c.back && c.back.length > 0) ? c.back.join(', ') : ''}
+                      title={candidateTitle(c)}
                     >
                       {c.vi}{c.pos ? ` (${c.pos})` : ''}
                     </button>
@@ -1023,6 +1038,23 @@ export default function AddWordModal({ selectedText, contextSentenceEn, onSave,
               placeholder="/prəˌnʌnsiˈeɪʃən/"
             />
           </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2 flex items-center gap-2">
+              <svg className="w-4 h-4 text-sky-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+              </svg>
+              Tags
+              <span className="text-xs text-slate-400 dark:text-slate-500">(optional, separated by spaces)</span>
+            </label>
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              className="input-field"
+              placeholder="e.g. toeic business"
+            />
+          </div>
         </div>
 
         {/* Action Buttons */}
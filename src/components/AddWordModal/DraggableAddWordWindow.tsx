@@ -2,6 +2,7 @@ import React, { useEffect, useMemo, useRef, useState } from 'react'
 import { POS_OPTIONS, normalizePos } from '../posOptions/posOptions'
 import { countSaveableFamilyMembers, enrichWordFamilyMembers, getWordFamily, type EnrichedWordFamilyMember } from '../../utils/wordFamily'
 import { enrichSynonyms, getSynonymFamilies, getSynonyms } from '../../utils/synonyms'
+import { candidateTitle } from '../../utils/translationSources'
 
 interface Props {
   windowId: string
@@ -13,7 +14,7 @@ interface Props {
   onDragStateChange?: (dragging: boolean) => void
 }
 
-type AutoMeaningCandidate = { vi: string; pos?: string; back?: string[] }
+type AutoMeaningCandidate = { vi: string; pos?: string; back?: string[]; source?: string; dictionary?: string }
 
 type AutoMeaningResponse = {
   requestId: string
@@ -49,6 +50,7 @@ export default function DraggableAddWordWindow({
   const [meaningLoading, setMeaningLoading] = useState(false)
   const [meaningError, setMeaningError] = useState<string>('')
   const [meaningCandidates, setMeaningCandidates] = useState<AutoMeaningCandidate[]>([])
+  const [meaningFromCache, setMeaningFromCache] = useState(false)
   const [contextVi, setContextVi] = useState('')
   const isMeaningDirtyRef = useRef(false)
   const isPosDirtyRef = useRef(false)
@@ -139,6 +141,7 @@ export default function DraggableAddWordWindow({
       setIpaLoading(true)
       setMeaningLoading(true)
       setMeaningError('')
+      setMeaningFromCache(false)
 
       await cancelPendingAutoMeaning()
       const requestId = `${Date.now()}_${Math.random().toString(16).slice(2)}`
@@ -226,6 +229,7 @@ export default function DraggableAddWordWindow({
               }
             }
             setMeaningCandidates(Array.isArray(resp.candidates) ? resp.candidates : [])
+            setMeaningFromCache(!!resp.cached)
             setContextVi((resp.contextSentenceVi || '').trim())
 
             if (!isPosDirtyRef.current) {
@@ -633,7 +637,14 @@ export default function DraggableAddWordWindow({
 
           {meaningCandidates.length > 0 && (
             <div className="mt-2">
-              <div className="text-[10px] font-semibold text-slate-600 dark:text-slate-400 mb-1">Suggestions</div>
+              <div className="text-[10px] font-semibold text-slate-600 dark:text-slate-400 mb-1 flex items-center gap-1">
+                Suggestions
+                {meaningFromCache && (
+                  <span className="text-emerald-600 dark:text-emerald-400" title="Lấy từ cache, không tốn quota">
+                    ⚡ cache
+                  </span>
+                )}
+              </div>
               <div className="flex flex-wrap gap-1">
                 {meaningCandidates.slice(0, 6).map((c, idx) => (
                   <button
@@ -674,7 +685,7 @@ export default function DraggableAddWordWindow({
                       })()
                     }}
                     className="px-2 py-0.5 rounded border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-[10px] text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-600"
-                    title={(c.back && c.back.length > 0) ? c.back.join(', ') : ''}
+                    title={candidateTitle(c)}
                   >
                     {c.vi}{c.pos ? ` (${c.pos})` : ''}
                   </button>
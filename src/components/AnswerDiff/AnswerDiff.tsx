@@ -0,0 +1,32 @@
+import React, { useMemo } from 'react'
+import { diffChars } from '../../utils/grading'
+
+type Props = {
+  expected: string
+  typed: string
+  className?: string
+}
+
+// Character diff of what was typed against the expected answer:
+// red strike-through = typed but not expected, green underline = missing.
+export default function AnswerDiff({ expected, typed, className = '' }: Props) {
+  const parts = useMemo(() => diffChars(expected, typed), [expected, typed])
+
+  return (
+    <span className={`font-mono tracking-wide ${className}`}>
+      {parts.map((p, i) =>
+        p.type === 'same' ? (
+          <span key={i}>{p.text}</span>
+        ) : p.type === 'extra' ? (
+          <span key={i} className="line-through text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/40 rounded-sm">
+            {p.text}
+          </span>
+        ) : (
+          <span key={i} className="underline decoration-2 text-emerald-700 dark:text-emerald-400 bg-emerald-100 dark:bg-emerald-900/40 rounded-sm">
+            {p.text}
+          </span>
+        )
+      )}
+    </span>
+  )
+}
@@ -1,6 +1,10 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react'
 import './ApiKeyView.css'
 import ConfirmModal from '../ConfirmModal/ConfirmModal'
+import LlmProviderPanel from '../LlmProviderPanel/LlmProviderPanel'
+import QuotaUsagePanel from '../QuotaUsagePanel/QuotaUsagePanel'
+import ResponseCachePanel from '../ResponseCachePanel/ResponseCachePanel'
+import TranslationProvidersPanel from '../TranslationProvidersPanel/TranslationProvidersPanel'
 
 export default function ApiKey() {
   const api = window.api
@@ -283,12 +287,16 @@ export default function ApiKey() {
               API Key Management
             </h1>
             <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
-              Configure auto-translation with Gemini API keys
+              Choose the AI provider and configure Gemini API keys
             </p>
           </div>
         </div>
       </div>
 
+      <LlmProviderPanel />
+      <TranslationProvidersPanel />
+      <ResponseCachePanel />
+
       {/* Status Card */}
       <div className="card hover:shadow-xl transition-shadow mb-6">
         <div className="flex items-center gap-4">
@@ -573,6 +581,8 @@ export default function ApiKey() {
           </div>
         )}
       </div>
+
+      <QuotaUsagePanel />
       </div>
     </div>
   )
@@ -0,0 +1,310 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import ConfirmModal from '../ConfirmModal/ConfirmModal'
+import type { BackupDiff, BackupInfo } from '../../../electron'
+
+const KIND_LABELS: Record<BackupInfo['kind'], string> = {
+  daily: 'Hằng ngày',
+  'pre-op': 'Trước thao tác',
+  manual: 'Thủ công',
+}
+
+const REASON_LABELS: Record<string, string> = {
+  deleteFile: 'Xóa file',
+  deleteFolder: 'Xóa thư mục',
+  deleteWord: 'Xóa từ',
+  dedupeWords: 'Xóa trùng lặp',
+  moveWords: 'Di chuyển từ',
+  pdfDeletePermanent: 'Xóa PDF vĩnh viễn',
+  pdfDelete: 'Xóa PDF',
+  restore: 'Khôi phục',
+  'srs-bulk-delete': 'Xóa nhiều từ Smart Review',
+  'srs-dedupe': 'Xóa trùng Smart Review',
+}
+
+function formatDateTime(ts: number): string {
+  return new Date(ts).toLocaleString('vi-VN')
+}
+
+function errorText(e: unknown): string {
+  return e && typeof e === 'object' && 'message' in e ? String((e as any).message) : String(e)
+}
+
+function SampleList({ title, items, total, tone }: { title: string; items: string[]; total: number; tone: 'add' | 'remove' | 'change' }) {
+  if (total === 0) return null
+  const color =
+    tone === 'add'
+      ? 'text-emerald-700 dark:text-emerald-400'
+      : tone === 'remove'
+        ? 'text-rose-700 dark:text-rose-400'
+        : 'text-amber-700 dark:text-amber-400'
+  return (
+    <div className="mt-2">
+      <div className={`text-xs font-semibold ${color}`}>
+        {title} ({total})
+      </div>
+      <div className="text-xs text-slate-600 dark:text-slate-400 mt-1 flex flex-wrap gap-1">
+        {items.map((w, i) => (
+          <span key={`${w}-${i}`} className="px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-800">
+            {w}
+          </span>
+        ))}
+        {total > items.length && <span className="px-1.5 py-0.5">… +{total - items.length}</span>}
+      </div>
+    </div>
+  )
+}
+
+export default function BackupView() {
+  const [backups, setBackups] = useState<BackupInfo[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [diff, setDiff] = useState<BackupDiff | null>(null)
+  const [loadingDiff, setLoadingDiff] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [restoreFiles, setRestoreFiles] = useState(true)
+  const [restoreRecords, setRestoreRecords] = useState(true)
+  const [confirmRestore, setConfirmRestore] = useState(false)
+
+  const loadList = useCallback(async () => {
+    try {
+      setBackups(await window.api.backupList())
+    } catch (e) {
+      setError(errorText(e))
+    }
+  }, [])
+
+  useEffect(() => {
+    void loadList()
+  }, [loadList])
+
+  useEffect(() => {
+    if (!selectedId) {
+      setDiff(null)
+      return
+    }
+    let cancelled = false
+    setLoadingDiff(true)
+    setError('')
+    window.api
+      .backupDiff(selectedId)
+      .then((d) => {
+        if (!cancelled) setDiff(d)
+      })
+      .catch((e) => {
+        if (!cancelled) setError(errorText(e))
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingDiff(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [selectedId])
+
+  const createNow = useCallback(async () => {
+    setBusy(true)
+    setError('')
+    try {
+      const created = await window.api.backupCreate()
+      await loadList()
+      if (created) setSelectedId(created.id)
+    } catch (e) {
+      setError(errorText(e))
+    } finally {
+      setBusy(false)
+    }
+  }, [loadList])
+
+  const deleteSelected = useCallback(async () => {
+    if (!selectedId) return
+    if (!window.confirm('Xóa bản sao lưu này?')) return
+    try {
+      await window.api.backupDelete(selectedId)
+      setSelectedId(null)
+      await loadList()
+    } catch (e) {
+      setError(errorText(e))
+    }
+  }, [selectedId, loadList])
+
+  const doRestore = useCallback(async () => {
+    if (!selectedId) return
+    setConfirmRestore(false)
+    setBusy(true)
+    setError('')
+    try {
+      await window.api.backupRestore(selectedId, { files: restoreFiles, records: restoreRecords })
+      setMessage('Đã khôi phục. Trạng thái trước khi khôi phục đã được sao lưu.')
+      setTimeout(() => setMessage(''), 5000)
+      await loadList()
+      setSelectedId(null)
+    } catch (e) {
+      setError(errorText(e))
+    } finally {
+      setBusy(false)
+    }
+  }, [selectedId, restoreFiles, restoreRecords, loadList])
+
+  const selected = backups.find((b) => b.id === selectedId) || null
+  const noFileChanges = !!diff && diff.files.length === 0
+  const noRecordChanges = !!diff && diff.records.restoredCount + diff.records.removedCount + diff.records.changedCount === 0
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden bg-slate-50 dark:bg-slate-900">
+      {/* Header */}
+      <div className="flex-shrink-0 p-6 border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-gradient-to-br from-amber-500 to-orange-600 rounded-xl flex items-center justify-center shadow-lg shadow-amber-500/30">
+              <svg className="w-7 h-7 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" />
+              </svg>
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-slate-900 dark:text-white">Sao lưu & khôi phục</h1>
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                Tự động sao lưu mỗi ngày và trước các thao tác xóa, gộp trùng, di chuyển từ
+              </p>
+            </div>
+          </div>
+          <button type="button" className="btn-primary" onClick={createNow} disabled={busy}>
+            Sao lưu ngay
+          </button>
+        </div>
+        {error && <div className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</div>}
+        {message && <div className="mt-3 text-sm font-medium text-emerald-600 dark:text-emerald-400 animate-fade-in">{message}</div>}
+      </div>
+
+      <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+        {/* Snapshot list */}
+        <div className="md:w-80 flex-shrink-0 overflow-y-auto border-r border-slate-200 dark:border-slate-700 bg-white/70 dark:bg-slate-800/40">
+          {backups.length === 0 ? (
+            <div className="p-6 text-sm text-slate-500 dark:text-slate-400">Chưa có bản sao lưu nào.</div>
+          ) : (
+            backups.map((b) => (
+              <button
+                key={b.id}
+                type="button"
+                onClick={() => setSelectedId(b.id)}
+                className={`w-full text-left px-4 py-3 border-b border-slate-100 dark:border-slate-800 transition-colors ${
+                  selectedId === b.id ? 'bg-amber-50 dark:bg-amber-900/20' : 'hover:bg-slate-50 dark:hover:bg-slate-800'
+                }`}
+              >
+                <div className="text-sm font-medium text-slate-800 dark:text-slate-200">{formatDateTime(b.createdAt)}</div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">
+                  {KIND_LABELS[b.kind] || b.kind}
+                  {b.kind === 'pre-op' && b.reason ? ` • ${REASON_LABELS[b.reason] || b.reason}` : ''}
+                </div>
+                <div className="text-xs text-slate-400">
+                  {b.files} file • {b.records} từ Smart Review
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+
+        {/* Diff */}
+        <div className="flex-1 min-w-0 overflow-y-auto p-6">
+          {!selected ? (
+            <div className="text-sm text-slate-500 dark:text-slate-400">Chọn một bản sao lưu để xem những gì sẽ thay đổi khi khôi phục.</div>
+          ) : loadingDiff || !diff ? (
+            <div className="text-sm text-slate-500 dark:text-slate-400">Đang so sánh…</div>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between gap-3 flex-wrap">
+                <div>
+                  <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-200">{formatDateTime(selected.createdAt)}</h2>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">So với dữ liệu hiện tại</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center gap-1.5 text-sm text-slate-600 dark:text-slate-400">
+                    <input type="checkbox" checked={restoreFiles} onChange={(e) => setRestoreFiles(e.target.checked)} />
+                    File từ vựng & PDF
+                  </label>
+                  <label className="flex items-center gap-1.5 text-sm text-slate-600 dark:text-slate-400">
+                    <input type="checkbox" checked={restoreRecords} onChange={(e) => setRestoreRecords(e.target.checked)} />
+                    Smart Review
+                  </label>
+                  <button type="button" className="btn-secondary" onClick={deleteSelected} disabled={busy}>
+                    Xóa
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-danger disabled:opacity-60"
+                    onClick={() => setConfirmRestore(true)}
+                    disabled={busy || (!restoreFiles && !restoreRecords)}
+                  >
+                    Khôi phục
+                  </button>
+                </div>
+              </div>
+
+              <section>
+                <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">File ({diff.files.length} thay đổi)</h3>
+                {noFileChanges ? (
+                  <div className="text-sm text-slate-500 dark:text-slate-400">Giống dữ liệu hiện tại.</div>
+                ) : (
+                  <div className="space-y-2">
+                    {diff.files.map((f) => (
+                      <div key={f.key} className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2">
+                        <div className="flex items-center gap-2">
+                          <span
+                            className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${
+                              f.status === 'restored'
+                                ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300'
+                                : f.status === 'removed'
+                                  ? 'bg-rose-100 text-rose-700 dark:bg-rose-900/40 dark:text-rose-300'
+                                  : 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300'
+                            }`}
+                          >
+                            {f.status === 'restored' ? 'Khôi phục' : f.status === 'removed' ? 'Bị xóa' : 'Thay đổi'}
+                          </span>
+                          <span className="text-sm text-slate-700 dark:text-slate-300 break-all">{f.key}</span>
+                        </div>
+                        {f.status !== 'changed' && (f.restoredCount || f.droppedCount) ? (
+                          <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">{f.restoredCount || f.droppedCount} từ</div>
+                        ) : null}
+                        {f.status === 'changed' && (
+                          <>
+                            <SampleList title="Từ được khôi phục" items={f.restored || []} total={f.restoredCount || 0} tone="add" />
+                            <SampleList title="Từ sẽ mất" items={f.dropped || []} total={f.droppedCount || 0} tone="remove" />
+                          </>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+
+              <section>
+                <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Smart Review</h3>
+                {noRecordChanges ? (
+                  <div className="text-sm text-slate-500 dark:text-slate-400">Giống dữ liệu hiện tại.</div>
+                ) : (
+                  <div className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2">
+                    <SampleList title="Từ được khôi phục" items={diff.records.restored} total={diff.records.restoredCount} tone="add" />
+                    <SampleList title="Từ sẽ mất" items={diff.records.removed} total={diff.records.removedCount} tone="remove" />
+                    <SampleList title="Lịch ôn quay về bản cũ" items={diff.records.changed} total={diff.records.changedCount} tone="change" />
+                  </div>
+                )}
+              </section>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {confirmRestore && selected && (
+        <ConfirmModal
+          title="Khôi phục bản sao lưu"
+          message={`Dữ liệu ${[restoreFiles ? 'file' : '', restoreRecords ? 'Smart Review' : ''].filter(Boolean).join(' và ')} sẽ được đưa về thời điểm ${formatDateTime(selected.createdAt)}. Trạng thái hiện tại sẽ được sao lưu trước.`}
+          confirmText="Khôi phục"
+          cancelText="Hủy"
+          danger
+          onCancel={() => setConfirmRestore(false)}
+          onConfirm={doRestore}
+        />
+      )}
+    </div>
+  )
+}
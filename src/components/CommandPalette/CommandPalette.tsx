@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Command } from 'cmdk'
+import { useNavigate } from 'react-router-dom'
+import type { SearchHit, SearchHitKind } from '../../../electron'
+
+type Props = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const SEARCH_DEBOUNCE_MS = 150
+
+const KIND_LABEL: Record<SearchHitKind, string> = {
+  csv: 'File từ vựng',
+  pdfDeck: 'Bộ từ PDF',
+  srs: 'Smart Review',
+  highlight: 'Highlight PDF',
+}
+
+const KIND_ORDER: SearchHitKind[] = ['csv', 'pdfDeck', 'srs', 'highlight']
+
+function errorText(e: unknown): string {
+  return e && typeof e === 'object' && 'message' in e ? String((e as any).message) : String(e)
+}
+
+function fileLabel(file?: string): string {
+  if (!file) return ''
+  return file.replace(/\\/g, '/').split('/').pop() || file
+}
+
+function hitLocation(hit: SearchHit): string {
+  if (hit.kind === 'highlight') return `${hit.pdfName || hit.pdfId}${hit.page ? ` · trang ${hit.page}` : ''}`
+  if (hit.kind === 'pdfDeck') return hit.pdfName || fileLabel(hit.file)
+  if (hit.kind === 'srs') return hit.state ? `${fileLabel(hit.file)} · ${hit.state}` : fileLabel(hit.file)
+  return hit.file || ''
+}
+
+// Ctrl/Cmd+K search across every deck, PDF and Smart Review word; selecting a hit jumps to it.
+export default function CommandPalette({ open, onOpenChange }: Props) {
+  const navigate = useNavigate()
+  const [query, setQuery] = useState('')
+  const [hits, setHits] = useState<SearchHit[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const requestRef = useRef(0)
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        onOpenChange(!open)
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [open, onOpenChange])
+
+  useEffect(() => {
+    const q = query.trim()
+    const requestId = ++requestRef.current
+    if (!open || !q) {
+      setHits([])
+      setLoading(false)
+      return
+    }
+    setLoading(true)
+    const timer = window.setTimeout(async () => {
+      try {
+        const res = await window.api.searchQuery(q, { limit: 60 })
+        if (requestRef.current !== requestId) return
+        setHits(res || [])
+        setError('')
+      } catch (e) {
+        if (requestRef.current !== requestId) return
+        setHits([])
+        setError(errorText(e))
+      } finally {
+        if (requestRef.current === requestId) setLoading(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+    return () => window.clearTimeout(timer)
+  }, [query, open])
+
+  const jumpTo = (hit: SearchHit) => {
+    onOpenChange(false)
+    switch (hit.kind) {
+      case 'csv':
+        navigate('/manager', { state: { selectFile: hit.file, word: hit.word } })
+        break
+      case 'pdfDeck':
+        navigate('/manager-pdf', { state: { pdfId: hit.pdfId, word: hit.word } })
+        break
+      case 'highlight':
+        navigate('/pdf', { state: { openPdfId: hit.pdfId } })
+        break
+      case 'srs':
+        navigate('/srs-manager', { state: { word: hit.word } })
+        break
+    }
+  }
+
+  return (
+    <Command.Dialog
+      open={open}
+      onOpenChange={onOpenChange}
+      label="Tìm kiếm toàn bộ"
+      shouldFilter={false}
+      overlayClassName="fixed inset-0 z-[90] bg-slate-900/40 backdrop-blur-sm"
+      contentClassName="fixed left-1/2 top-[12vh] z-[100] w-[min(680px,92vw)] -translate-x-1/2 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-2xl overflow-hidden"
+    >
+      <div className="flex items-center gap-2 px-4 border-b border-slate-200 dark:border-slate-700">
+        <svg className="w-5 h-5 text-slate-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+        </svg>
+        <Command.Input
+          value={query}
+          onValueChange={setQuery}
+          placeholder="Tìm từ, nghĩa hoặc ví dụ trong mọi file, PDF và Smart Review..."
+          className="flex-1 py-4 bg-transparent outline-none text-slate-900 dark:text-white placeholder:text-slate-400"
+        />
+        <kbd className="px-1.5 py-0.5 text-[10px] font-semibold rounded border border-slate-300 dark:border-slate-600 text-slate-500">Esc</kbd>
+      </div>
+
+      <Command.List className="max-h-[60vh] overflow-y-auto p-2">
+        {loading && hits.length === 0 && (
+          <Command.Loading>
+            <div className="px-3 py-6 text-center text-sm text-slate-500">Đang tìm...</div>
+          </Command.Loading>
+        )}
+        {error && <div className="px-3 py-2 text-sm text-rose-600 dark:text-rose-400">Lỗi tìm kiếm: {error}</div>}
+        {!loading && query.trim() && (
+          <Command.Empty className="px-3 py-6 text-center text-sm text-slate-500">Không tìm thấy kết quả.</Command.Empty>
+        )}
+        {!query.trim() && (
+          <div className="px-3 py-6 text-center text-sm text-slate-500">Gõ để tìm. Không cần dấu: "ngan hang" sẽ khớp "ngân hàng".</div>
+        )}
+
+        {KIND_ORDER.map((kind) => {
+          const group = hits.filter((h) => h.kind === kind)
+          if (group.length === 0) return null
+          return (
+            <Command.Group
+              key={kind}
+              heading={`${KIND_LABEL[kind]} (${group.length})`}
+              className="mb-1 [&_[cmdk-group-heading]]:px-3 [&_[cmdk-group-heading]]:py-1.5 [&_[cmdk-group-heading]]:text-[10px] [&_[cmdk-group-heading]]:font-bold [&_[cmdk-group-heading]]:uppercase [&_[cmdk-group-heading]]:tracking-wider [&_[cmdk-group-heading]]:text-slate-400"
+            >
+              {group.map((hit, i) => (
+                <Command.Item
+                  key={`${kind}-${hit.recordId || hit.file || hit.pdfId}-${hit.index ?? hit.page ?? ''}-${i}`}
+                  value={`${kind}-${i}-${hit.word}`}
+                  onSelect={() => jumpTo(hit)}
+                  className="flex items-start gap-3 px-3 py-2 rounded-xl cursor-pointer data-[selected=true]:bg-violet-50 dark:data-[selected=true]:bg-violet-900/30"
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-baseline gap-2">
+                      <span className="font-semibold text-slate-900 dark:text-white truncate">{hit.word}</span>
+                      {hit.meaning && <span className="text-sm text-slate-600 dark:text-slate-300 truncate">{hit.meaning}</span>}
+                    </div>
+                    {hit.example && <div className="text-xs italic text-slate-500 dark:text-slate-400 truncate">{hit.example}</div>}
+                  </div>
+                  <span className="text-[11px] text-slate-400 truncate max-w-[40%] flex-shrink-0 pt-0.5">{hitLocation(hit)}</span>
+                </Command.Item>
+              ))}
+            </Command.Group>
+          )
+        })}
+      </Command.List>
+    </Command.Dialog>
+  )
+}
@@ -18,9 +18,12 @@ interface DifficultySelectorProps {
     pronunciation?: string
     pos?: string
     example?: string
+    tags?: string[]
     source?: string
     wasCorrect?: boolean
     wrongCount?: number
+    // Dictation: answers given and how often the audio was replayed for them
+    listenStats?: { answers: number; replays: number; slowReplays: number }
   }>
   
   // Mode: 'custom' for Custom Study (add to SRS), 'smart' for Smart Review (adjust difficulty)
@@ -39,10 +42,10 @@ interface WordRating {
 }
 
 const DIFFICULTY_OPTIONS = [
-  { value: 1, label: 'Rất dễ', emoji: '😎', color: 'from-green-400 to-emerald-500', days: '7 ngày' },
-  { value: 2, label: 'Dễ', emoji: '🙂', color: 'from-teal-400 to-cyan-500', days: '4 ngày' },
-  { value: 3, label: 'Vừa', emoji: '😐', color: 'from-amber-400 to-orange-500', days: '2 ngày' },
-  { value: 4, label: 'Khó', emoji: '😓', color: 'from-orange-400 to-red-500', days: '1 ngày' },
+  { value: 1, label: 'Rất dễ', emoji: '😎', color: 'from-green-400 to-emerald-500' },
+  { value: 2, label: 'Dễ', emoji: '🙂', color: 'from-teal-400 to-cyan-500' },
+  { value: 3, label: 'Vừa', emoji: '😐', color: 'from-amber-400 to-orange-500' },
+  { value: 4, label: 'Khó', emoji: '😓', color: 'from-orange-400 to-red-500' },
 ]
 
 function getTodayStartMs(nowMs: number): number {
@@ -65,77 +68,16 @@ function getTodayDateInputValue(): string {
   return formatDateInputValue(d.getTime())
 }
 
-function predictSmartIntervalDays(recordId: string, difficulty: 1 | 2 | 3 | 4): number | null {
-  const record = VocabularyStore.get(recordId)
-  if (!record) return null
-
-  const baseIntervalDays: Record<1 | 2 | 3 | 4, number> = {
-    1: 7,
-    2: 4,
-    3: 2,
-    4: 1,
-  }
-  const multiplier: Record<1 | 2 | 3 | 4, number> = {
-    1: 2.0,
-    2: 1.6,
-    3: 1.25,
-    4: 0.8,
-  }
+type Difficulty = 1 | 2 | 3 | 4
 
-  const prevInterval = Math.max(0, record.interval || 0)
-  if (prevInterval <= 0) return baseIntervalDays[difficulty]
-  const raw = prevInterval * multiplier[difficulty]
-  return Math.max(1, difficulty === 4 ? Math.floor(raw) : Math.ceil(raw))
+function predictSmartIntervalDays(recordId: string, difficulty: Difficulty): number | null {
+  return predictSmartIntervalDaysDistinct(recordId)[difficulty]
 }
 
-type Difficulty = 1 | 2 | 3 | 4
-
-// Predict smart-mode intervals for all difficulties, ensuring they don't collide after rounding.
-// Strategy (per user request): compute from hardest -> easiest, and if a later (easier) level
-// would land on the same day (or earlier), bump it by +1 day until it's strictly later.
+// Predict smart-mode intervals for all difficulties using the active scheduler
+// (SM-2 bumps easier levels so they never land on the same day as harder ones).
 function predictSmartIntervalDaysDistinct(recordId: string): Record<Difficulty, number | null> {
-  const record = VocabularyStore.get(recordId)
-  if (!record) return { 1: null, 2: null, 3: null, 4: null }
-
-  const baseIntervalDays: Record<Difficulty, number> = {
-    1: 7,
-    2: 4,
-    3: 2,
-    4: 1,
-  }
-  const multiplier: Record<Difficulty, number> = {
-    1: 2.0,
-    2: 1.6,
-    3: 1.25,
-    4: 0.8,
-  }
-
-  const prevInterval = Math.max(0, record.interval || 0)
-  const basePredict = (d: Difficulty) => {
-    if (prevInterval <= 0) return baseIntervalDays[d]
-    const raw = prevInterval * multiplier[d]
-    return Math.max(1, d === 4 ? Math.floor(raw) : Math.ceil(raw))
-  }
-
-  const out: Record<Difficulty, number> = {
-    1: basePredict(1),
-    2: basePredict(2),
-    3: basePredict(3),
-    4: basePredict(4),
-  }
-
-  const ordered: Difficulty[] = [4, 3, 2, 1] // hard -> easy
-  let lastDay: number | null = null
-  for (const d of ordered) {
-    let days = out[d]
-    if (lastDay != null && days <= lastDay) {
-      days = lastDay + 1
-      out[d] = days
-    }
-    lastDay = out[d]
-  }
-
-  return { 1: out[1], 2: out[2], 3: out[3], 4: out[4] }
+  return VocabularyStore.previewDifficultyIntervals(recordId) || { 1: null, 2: null, 3: null, 4: null }
 }
 
 function formatReviewDateFromDays(days: number): string {
@@ -197,6 +139,8 @@ export default function DifficultySelector({ words, mode, onComplete, onSkip }:
     return distinct[selected as Difficulty]
   })()
 
+  const initialDays = VocabularyStore.previewInitialIntervals()
+
   const smartDistinctDays = (() => {
     if (mode !== 'smart' || !currentWord) return null
     return predictSmartIntervalDaysDistinct(currentWord.id)
@@ -237,6 +181,10 @@ export default function DifficultySelector({ words, mode, onComplete, onSkip }:
       for (const word of words) {
         const difficulty = ratings.get(word.id)
         const manualDate = customDates.get(word.id)
+        // Session outcome for the review log: any wrong answer in the session counts as incorrect.
+        const outcome = typeof word.wrongCount === 'number'
+          ? { correct: word.wrongCount === 0 }
+          : (typeof word.wasCorrect === 'boolean' ? { correct: word.wasCorrect } : undefined)
         
         if (mode === 'custom') {
           // Add to SRS with difficulty rating
@@ -249,11 +197,12 @@ export default function DifficultySelector({ words, mode, onComplete, onSkip }:
             pronunciation: word.pronunciation,
             pos: word.pos,
             example: word.example,
+            tags: word.tags,
             source: word.source,
           })
           
           if (difficulty) {
-            VocabularyStore.setDifficulty(record.id, difficulty)
+            VocabularyStore.setDifficulty(record.id, difficulty, outcome)
           } else {
             // Unrated -> must be relearned today
             VocabularyStore.scheduleForToday(record.id, 'unrated_custom')
@@ -274,12 +223,13 @@ export default function DifficultySelector({ words, mode, onComplete, onSkip }:
               pronunciation: word.pronunciation,
               pos: word.pos,
               example: word.example,
+              tags: word.tags,
               source: word.source,
             })
           } catch {}
 
           if (difficulty) {
-            VocabularyStore.applyDifficultyAndRecomputeSchedule(existingId, difficulty)
+            VocabularyStore.applyDifficultyAndRecomputeSchedule(existingId, difficulty, outcome)
           } else if (!manualDate) {
             // Unrated -> must be relearned today
             VocabularyStore.scheduleForToday(existingId, 'unrated_smart')
@@ -453,6 +403,12 @@ export default function DifficultySelector({ words, mode, onComplete, onSkip }:
               <div className="inline-flex items-center gap-2 mt-3 px-3 py-1.5 rounded-full bg-rose-100 dark:bg-rose-900/40 text-rose-700 dark:text-rose-300 text-sm font-semibold">
                 Sai {Number(currentWord.wrongCount || 0)} lần
               </div>
+              {currentWord.listenStats && (
+                <div className="inline-flex items-center gap-2 mt-3 ml-2 px-3 py-1.5 rounded-full bg-sky-100 dark:bg-sky-900/40 text-sky-700 dark:text-sky-300 text-sm font-semibold">
+                  Nghe lại {currentWord.listenStats.replays} lần
+                  {currentWord.listenStats.slowReplays > 0 ? ` (${currentWord.listenStats.slowReplays} chậm)` : ''}
+                </div>
+              )}
 
               {mode === 'smart' && smartSelectedDays != null && (
                 <div className="inline-flex items-center gap-2 mt-4 px-4 py-2 rounded-full bg-violet-100 dark:bg-violet-900/40 text-violet-800 dark:text-violet-300">
@@ -552,7 +508,7 @@ export default function DifficultySelector({ words, mode, onComplete, onSkip }:
                       <div className={`text-sm ${isSelected ? 'text-white/80' : 'text-slate-500 dark:text-slate-400'}`}>
                         {mode === 'smart' && predictedDays != null
                           ? `Ôn lại sau ~${predictedDays} ngày (ngày ${formatReviewDateFromDays(predictedDays)})`
-                          : `Ôn lại sau ${opt.days}`}
+                          : `Ôn lại sau ${initialDays[opt.value as Difficulty]} ngày`}
                       </div>
                     </div>
                     <div className={`
@@ -647,6 +603,7 @@ export default function DifficultySelector({ words, mode, onComplete, onSkip }:
                         )}
                         <div className={`text-xs mt-1 font-semibold ${rating ? 'text-white/85' : 'text-rose-600 dark:text-rose-400'}`}>
                           Sai {Number(word.wrongCount || 0)} lần
+                          {word.listenStats ? ` • nghe lại ${word.listenStats.replays} lần` : ''}
                         </div>
                         {mode === 'smart' && rating && predictedDays != null && (
                           <div className={`text-xs mt-1 ${rating ? 'text-white/80' : 'text-slate-500 dark:text-slate-400'}`}>
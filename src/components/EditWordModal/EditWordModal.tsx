@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { POS_OPTIONS } from '../posOptions/posOptions'
+import { formatTags, parseTags } from '../../utils/tags'
 
 type Props = {
   word: string;
@@ -10,10 +11,11 @@ type Props = {
   pos: string;
   onClose: () => void;
   example?: string;
-  onSave: (word: string, meaning: string, meaningEn: string, meaningVi: string, pronunciation: string, pos: string, example: string) => void;
+  tags?: string;
+  onSave: (word: string, meaning: string, meaningEn: string, meaningVi: string, pronunciation: string, pos: string, example: string, tags: string) => void;
 };
 
-export default function EditWordModal({ word, meaning, meaningEn, meaningVi, pronunciation, pos, example, onClose, onSave }: Props) {
+export default function EditWordModal({ word, meaning, meaningEn, meaningVi, pronunciation, pos, example, tags, onClose, onSave }: Props) {
   const [editWord, setEditWord] = useState(word);
   const [editMeaning, setEditMeaning] = useState(meaning);
   const [editMeaningEn, setEditMeaningEn] = useState(meaningEn || '');
@@ -21,6 +23,7 @@ export default function EditWordModal({ word, meaning, meaningEn, meaningVi, pro
   const [editExample, setEditExample] = useState(example || '');
   const [editPronunciation, setEditPronunciation] = useState(pronunciation);
   const [editPos, setEditPos] = useState(pos || '');
+  const [editTags, setEditTags] = useState(tags || '');
   const [errorMessage, setErrorMessage] = useState('');
   const [fillingEnMeaning, setFillingEnMeaning] = useState(false);
   const [fillingVieMeaning, setFillingVieMeaning] = useState(false);
@@ -33,8 +36,9 @@ export default function EditWordModal({ word, meaning, meaningEn, meaningVi, pro
     setEditExample(example || '');
     setEditPronunciation(pronunciation);
     setEditPos(pos || '');
+    setEditTags(tags || '');
     setErrorMessage('');
-  }, [word, meaning, meaningEn, meaningVi, pronunciation, pos, example]);
+  }, [word, meaning, meaningEn, meaningVi, pronunciation, pos, example, tags]);
 
   function handleSave() {
     if (!editWord.trim()) {
@@ -45,7 +49,7 @@ export default function EditWordModal({ word, meaning, meaningEn, meaningVi, pro
       setErrorMessage('Part of speech is required');
       return;
     }
-    onSave(editWord.trim(), editMeaning.trim(), editMeaningEn.trim(), editMeaningVi.trim(), editPronunciation.trim(), editPos.trim(), editExample.trim());
+    onSave(editWord.trim(), editMeaning.trim(), editMeaningEn.trim(), editMeaningVi.trim(), editPronunciation.trim(), editPos.trim(), editExample.trim(), formatTags(parseTags(editTags)));
   }
 
   async function handleFillEnMeaning() {
@@ -297,6 +301,24 @@ export default function EditWordModal({ word, meaning, meaningEn, meaningVi, pro
             />
           </div>
 
+          {/* Tags */}
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2 flex items-center gap-2">
+              <svg className="w-4 h-4 text-sky-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+              </svg>
+              Tags
+              <span className="text-xs text-slate-400 dark:text-slate-500">(optional, separated by spaces)</span>
+            </label>
+            <input
+              type="text"
+              value={editTags}
+              onChange={(e) => setEditTags(e.target.value)}
+              className="input-field w-full"
+              placeholder="e.g. toeic business"
+            />
+          </div>
+
           <div className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
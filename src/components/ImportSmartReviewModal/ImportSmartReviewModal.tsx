@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { VocabularyStore } from '../../store/VocabularyStore'
+import type { ImportMode, ImportResult, VocabRecord } from '../../store/VocabularyStore'
+
+type Props = {
+  fileName: string
+  records: VocabRecord[]
+  onDone: (result: ImportResult) => void
+  onCancel: () => void
+}
+
+const MODES: Array<{ id: ImportMode; label: string; description: string }> = [
+  {
+    id: 'merge-newer',
+    label: 'Gộp, giữ bản mới hơn',
+    description: 'Thêm từ mới; với từ trùng, lấy bản có thời gian cập nhật (updatedAt) mới hơn.',
+  },
+  {
+    id: 'merge-both',
+    label: 'Gộp, giữ cả hai',
+    description: 'Thêm từ mới; với từ trùng nhưng khác nội dung, giữ bản hiện tại và thêm bản nhập thành một thẻ riêng.',
+  },
+  {
+    id: 'replace',
+    label: 'Thay thế toàn bộ',
+    description: 'Xóa dữ liệu Smart Review hiện tại và dùng nguyên nội dung file.',
+  },
+]
+
+const PREVIEW_LIMIT = 50
+
+function formatDate(ts?: number) {
+  if (!ts) return '—'
+  return new Date(ts).toLocaleString('vi-VN')
+}
+
+function describe(r: VocabRecord) {
+  return `${r.interval} ngày • ôn ${new Date(r.nextReviewDate).toLocaleDateString('vi-VN')}`
+}
+
+export default function ImportSmartReviewModal({ fileName, records, onDone, onCancel }: Props) {
+  const [mode, setMode] = useState<ImportMode>('merge-newer')
+  const [tab, setTab] = useState<'added' | 'changed' | 'conflicting' | 'missing'>('added')
+
+  const preview = useMemo(() => VocabularyStore.previewImport(records), [records])
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel()
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [onCancel])
+
+  // What the selected mode will do with each group
+  const outcome = useMemo(() => {
+    const differing = preview.changed.length + preview.conflicting.length
+    if (mode === 'replace') {
+      return `Thêm ${preview.added.length}, ghi đè ${differing}, xóa ${preview.missing.length} từ.`
+    }
+    if (mode === 'merge-newer') {
+      return `Thêm ${preview.added.length}, cập nhật ${preview.changed.length}, giữ nguyên ${preview.conflicting.length} từ xung đột.`
+    }
+    return `Thêm ${preview.added.length}, thêm ${differing} bản sao cho từ khác nội dung.`
+  }, [mode, preview])
+
+  const tabs = [
+    { id: 'added' as const, label: 'Mới', count: preview.added.length },
+    { id: 'changed' as const, label: 'Thay đổi', count: preview.changed.length },
+    { id: 'conflicting' as const, label: 'Xung đột', count: preview.conflicting.length },
+    { id: 'missing' as const, label: 'Không có trong file', count: preview.missing.length },
+  ]
+
+  const rows: Array<{ key: string; word: string; meaning: string; local?: VocabRecord; incoming?: VocabRecord }> =
+    tab === 'added'
+      ? preview.added.map((r) => ({ key: r.id, word: r.word, meaning: r.meaning, incoming: r }))
+      : tab === 'missing'
+        ? preview.missing.map((r) => ({ key: r.id, word: r.word, meaning: r.meaning, local: r }))
+        : preview[tab].map(({ local, incoming }) => ({ key: local.id, word: local.word, meaning: local.meaning, local, incoming }))
+
+  const nothingToDo = mode !== 'replace' && preview.added.length + preview.changed.length + (mode === 'merge-both' ? preview.conflicting.length : 0) === 0
+
+  return (
+    <div className="fixed inset-0 z-[1200] flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-2xl">
+        <div className="px-5 py-4 border-b border-slate-200 dark:border-slate-700">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">Nhập dữ liệu Smart Review</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1 truncate" title={fileName}>
+            {fileName} • {preview.total} từ ({preview.unchanged} không đổi)
+          </p>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto">
+          <div className="space-y-2">
+            {MODES.map((m) => (
+              <label
+                key={m.id}
+                className={`flex items-start gap-3 rounded-xl border px-4 py-3 cursor-pointer transition-colors ${
+                  mode === m.id
+                    ? 'border-emerald-400 bg-emerald-50 dark:border-emerald-600 dark:bg-emerald-900/20'
+                    : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="import-mode"
+                  className="mt-1"
+                  checked={mode === m.id}
+                  onChange={() => setMode(m.id)}
+                />
+                <div>
+                  <div className="font-medium text-slate-800 dark:text-slate-200">{m.label}</div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">{m.description}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <div className="text-sm font-medium text-slate-700 dark:text-slate-300">{outcome}</div>
+
+          <div>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {tabs.map((t) => (
+                <button
+                  key={t.id}
+                  type="button"
+                  onClick={() => setTab(t.id)}
+                  className={tab === t.id ? 'btn-primary px-3 py-1.5 text-xs' : 'btn-secondary px-3 py-1.5 text-xs'}
+                >
+                  {t.label} ({t.count})
+                </button>
+              ))}
+            </div>
+
+            <div className="rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-400">
+                  <tr>
+                    <th className="text-left px-3 py-2">Từ</th>
+                    <th className="text-left px-3 py-2">Nghĩa</th>
+                    <th className="text-left px-3 py-2">Hiện tại</th>
+                    <th className="text-left px-3 py-2">Trong file</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, PREVIEW_LIMIT).map((r) => (
+                    <tr key={r.key} className="border-t border-slate-100 dark:border-slate-800 text-slate-700 dark:text-slate-300">
+                      <td className="px-3 py-1.5 font-medium">{r.word}</td>
+                      <td className="px-3 py-1.5">{r.meaning}</td>
+                      <td className="px-3 py-1.5">
+                        {r.local ? (
+                          <>
+                            <div>{describe(r.local)}</div>
+                            <div className="text-slate-400">{formatDate(r.local.updatedAt)}</div>
+                          </>
+                        ) : '—'}
+                      </td>
+                      <td className="px-3 py-1.5">
+                        {r.incoming ? (
+                          <>
+                            <div>{describe(r.incoming)}</div>
+                            <div className="text-slate-400">{formatDate(r.incoming.updatedAt)}</div>
+                          </>
+                        ) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                  {rows.length === 0 && (
+                    <tr>
+                      <td colSpan={4} className="px-3 py-4 text-center text-slate-400">Không có từ nào</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+              {rows.length > PREVIEW_LIMIT && (
+                <div className="px-3 py-2 text-xs text-slate-400 border-t border-slate-100 dark:border-slate-800">
+                  … và {rows.length - PREVIEW_LIMIT} từ khác
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-5 py-4 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2">
+          <button type="button" onClick={onCancel} className="btn-secondary">
+            Hủy
+          </button>
+          <button
+            type="button"
+            disabled={nothingToDo}
+            onClick={() => onDone(VocabularyStore.applyImport(records, mode))}
+            className={mode === 'replace' ? 'btn-danger disabled:opacity-60' : 'btn-primary disabled:opacity-60'}
+          >
+            Nhập
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
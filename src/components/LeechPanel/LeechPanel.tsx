@@ -0,0 +1,153 @@
+import React, { useState } from 'react'
+import { VocabularyStore, useVocabularyStore, splitMeaningParts } from '../../store/VocabularyStore'
+import type { VocabRecord } from '../../store/VocabularyStore'
+
+function errorText(e: unknown): string {
+  return e && typeof e === 'object' && 'message' in e ? String((e as any).message) : String(e)
+}
+
+// Words the user keeps failing (tagged `leech`), with ways to make them stick.
+export default function LeechPanel() {
+  useVocabularyStore()
+
+  const [open, setOpen] = useState(false)
+  const [busy, setBusy] = useState<Record<string, string>>({})
+  const [error, setError] = useState('')
+
+  const leeches = VocabularyStore.getLeeches().sort((a, b) => (b.lapses || 0) - (a.lapses || 0))
+  const settings = VocabularyStore.getLeechSettings()
+
+  const run = async (record: VocabRecord, label: string, fn: () => Promise<void>) => {
+    setBusy((prev) => ({ ...prev, [record.id]: label }))
+    setError('')
+    try {
+      await fn()
+    } catch (e) {
+      setError(`${record.word}: ${errorText(e)}`)
+    } finally {
+      setBusy((prev) => {
+        const next = { ...prev }
+        delete next[record.id]
+        return next
+      })
+    }
+  }
+
+  const regenerateMnemonic = (r: VocabRecord) =>
+    run(r, 'Đang tạo mẹo…', async () => {
+      const out = String((await window.api.suggestMnemonic({ word: r.word, meaningVi: r.meaningVi || r.meaning, pos: r.pos })) || '').trim()
+      if (!out) throw new Error('Không tạo được mẹo nhớ')
+      VocabularyStore.update(r.id, { mnemonic: out })
+    })
+
+  const regenerateExample = (r: VocabRecord) =>
+    run(r, 'Đang tạo ví dụ…', async () => {
+      const out = String((await window.api.suggestExampleSentence({ word: r.word, meaningVi: r.meaningVi || r.meaning, pos: r.pos })) || '').trim()
+      if (!out) throw new Error('Không tạo được câu ví dụ')
+      VocabularyStore.update(r.id, { example: out })
+    })
+
+  return (
+    <div className="mb-4 rounded-xl border border-rose-200 dark:border-rose-900 bg-rose-50/60 dark:bg-rose-900/10">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="w-full flex items-center justify-between px-3 py-2 text-sm font-semibold text-rose-700 dark:text-rose-300"
+      >
+        <span>🩹 Từ hay quên (leech): {leeches.length}</span>
+        <span>{open ? '▲' : '▼'}</span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="flex items-center gap-4 flex-wrap text-sm text-slate-600 dark:text-slate-400">
+            <label className="flex items-center gap-2" title="Số lần quên (trả lời sai khi ôn) để đánh dấu leech">
+              Ngưỡng
+              <input
+                type="number"
+                min={1}
+                value={settings.threshold}
+                onChange={(e) => VocabularyStore.setLeechSettings({ threshold: Number(e.target.value) })}
+                className="input-field w-20"
+              />
+              lần quên
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.autoSuspend}
+                onChange={(e) => VocabularyStore.setLeechSettings({ autoSuspend: e.target.checked })}
+              />
+              Tự động tạm ngưng ôn từ leech
+            </label>
+          </div>
+
+          {leeches.length === 0 ? (
+            <div className="text-sm text-slate-500 dark:text-slate-400">Chưa có từ nào bị đánh dấu leech.</div>
+          ) : (
+            <div className="max-h-72 overflow-y-auto divide-y divide-rose-100 dark:divide-rose-900/50">
+              {leeches.map((r) => {
+                const parts = splitMeaningParts(r.meaning)
+                const working = busy[r.id]
+                return (
+                  <div key={r.id} className="py-2 flex items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-semibold text-slate-800 dark:text-slate-200">
+                        {r.word}
+                        <span className="ml-2 text-xs font-normal text-rose-600 dark:text-rose-400">{r.lapses || 0} lần quên</span>
+                        {r.suspended && <span className="ml-2 text-xs font-normal text-slate-500">(tạm ngưng)</span>}
+                      </div>
+                      <div className="text-sm text-slate-600 dark:text-slate-400 truncate">{r.meaning}</div>
+                      {r.mnemonic && <div className="text-xs text-amber-700 dark:text-amber-300 mt-0.5">💡 {r.mnemonic}</div>}
+                      {r.example && <div className="text-xs text-slate-500 dark:text-slate-400 italic mt-0.5">{r.example}</div>}
+                    </div>
+                    <div className="flex flex-wrap gap-1.5 justify-end max-w-[55%]">
+                      {working ? (
+                        <span className="text-xs text-slate-500">{working}</span>
+                      ) : (
+                        <>
+                          <button type="button" className="btn-secondary px-2 py-1 text-xs" onClick={() => regenerateMnemonic(r)}>
+                            Mẹo nhớ mới
+                          </button>
+                          <button type="button" className="btn-secondary px-2 py-1 text-xs" onClick={() => regenerateExample(r)}>
+                            Ví dụ mới
+                          </button>
+                          <button
+                            type="button"
+                            className="btn-secondary px-2 py-1 text-xs"
+                            disabled={parts.length < 2}
+                            title={parts.length < 2 ? 'Nghĩa chỉ có một ý' : `Tách thành: ${parts.join(' | ')}`}
+                            onClick={() => VocabularyStore.splitMeanings(r.id, parts)}
+                          >
+                            Tách nghĩa
+                          </button>
+                          <button
+                            type="button"
+                            className="btn-secondary px-2 py-1 text-xs"
+                            onClick={() => VocabularyStore.setSuspended([r.id], !r.suspended)}
+                          >
+                            {r.suspended ? 'Ôn lại' : 'Tạm ngưng'}
+                          </button>
+                          <button
+                            type="button"
+                            className="btn-secondary px-2 py-1 text-xs"
+                            title="Học lại từ đầu như từ mới"
+                            onClick={() => VocabularyStore.resetLeech(r.id)}
+                          >
+                            Đặt lại
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          {error && <div className="text-xs text-red-600 dark:text-red-400">{error}</div>}
+        </div>
+      )}
+    </div>
+  )
+}
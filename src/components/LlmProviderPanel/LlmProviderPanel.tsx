@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react'
+import type { LlmProviderId, LlmProviderSettings, LlmProviderTestResult } from '../../../electron'
+
+const PROVIDERS: Array<{ id: LlmProviderId; label: string; hint: string }> = [
+  { id: 'google', label: 'Google AI Studio', hint: 'Gemini/Gemma với các API key bên dưới (xoay vòng key, giới hạn quota)' },
+  { id: 'openai', label: 'OpenAI-compatible', hint: 'OpenAI, OpenRouter, Groq... - bất kỳ endpoint /v1/chat/completions nào' },
+  { id: 'local', label: 'Local (offline)', hint: 'Ollama, llama.cpp server, LM Studio chạy trên máy này' },
+]
+
+const LOCAL_PRESETS = [
+  { label: 'Ollama', baseUrl: 'http://localhost:11434/v1' },
+  { label: 'llama.cpp', baseUrl: 'http://localhost:8080/v1' },
+  { label: 'LM Studio', baseUrl: 'http://localhost:1234/v1' },
+]
+
+function errorText(e: unknown): string {
+  return e && typeof e === 'object' && 'message' in e ? String((e as any).message) : String(e)
+}
+
+// Picks which LLM backend the enrichment features (meanings, IPA, examples, synonyms...) use.
+export default function LlmProviderPanel() {
+  const api = window.api
+
+  const [settings, setSettings] = useState<LlmProviderSettings | null>(null)
+  const [provider, setProvider] = useState<LlmProviderId>('google')
+  const [openaiBaseUrl, setOpenaiBaseUrl] = useState('')
+  const [openaiModel, setOpenaiModel] = useState('')
+  const [openaiKey, setOpenaiKey] = useState('')
+  const [localBaseUrl, setLocalBaseUrl] = useState('')
+  const [localModel, setLocalModel] = useState('')
+  const [models, setModels] = useState<string[]>([])
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+  const [testResult, setTestResult] = useState<LlmProviderTestResult | null>(null)
+
+  const apply = (s: LlmProviderSettings) => {
+    setSettings(s)
+    setProvider(s.provider)
+    setOpenaiBaseUrl(s.openai.baseUrl)
+    setOpenaiModel(s.openai.model)
+    setLocalBaseUrl(s.local.baseUrl)
+    setLocalModel(s.local.model)
+  }
+
+  useEffect(() => {
+    if (!api?.getLlmProvider) return
+    api
+      .getLlmProvider()
+      .then(apply)
+      .catch((e) => setError(errorText(e)))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const save = async (): Promise<LlmProviderSettings | null> => {
+    setError('')
+    setMessage('')
+    setTestResult(null)
+    try {
+      const next = await api.setLlmProvider({
+        provider,
+        openai: { baseUrl: openaiBaseUrl, model: openaiModel, ...(openaiKey.trim() ? { apiKey: openaiKey.trim() } : {}) },
+        local: { baseUrl: localBaseUrl, model: localModel },
+      })
+      apply(next)
+      setOpenaiKey('')
+      return next
+    } catch (e) {
+      setError(errorText(e))
+      return null
+    }
+  }
+
+  const handleSave = async () => {
+    setBusy(true)
+    try {
+      const next = await save()
+      if (next) setMessage(`Đã lưu. Các tính năng AI giờ dùng ${PROVIDERS.find((p) => p.id === next.provider)?.label}.`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleTest = async () => {
+    setBusy(true)
+    try {
+      if (!(await save())) return
+      setTestResult(await api.testLlmProvider())
+    } catch (e) {
+      setError(errorText(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleLoadModels = async () => {
+    setBusy(true)
+    try {
+      if (!(await save())) return
+      const list = await api.listLlmModels(provider)
+      setModels(list)
+      setMessage(list.length ? `Tìm thấy ${list.length} model.` : 'Server không trả về model nào.')
+    } catch (e) {
+      setError(errorText(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRemoveKey = async () => {
+    setBusy(true)
+    try {
+      apply(await api.setLlmProvider({ openai: { apiKey: '' } }))
+      setMessage('Đã xóa API key.')
+    } catch (e) {
+      setError(errorText(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const modelInput = (value: string, onChange: (v: string) => void, placeholder: string) => (
+    <div className="flex gap-2">
+      <input
+        className="input-field flex-1 font-mono"
+        list="llm-model-options"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        disabled={busy}
+      />
+      <datalist id="llm-model-options">
+        {models.map((m) => (
+          <option key={m} value={m} />
+        ))}
+      </datalist>
+      <button type="button" className="btn-secondary px-3" onClick={handleLoadModels} disabled={busy}>
+        Tải danh sách
+      </button>
+    </div>
+  )
+
+  return (
+    <div className="card hover:shadow-xl transition-shadow mb-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-indigo-500 to-violet-600 flex items-center justify-center shadow-md">
+          <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" />
+          </svg>
+        </div>
+        <div>
+          <div className="text-lg font-bold text-slate-900 dark:text-white">AI Provider</div>
+          <div className="text-xs text-slate-600 dark:text-slate-400">Nơi gửi các yêu cầu gợi ý nghĩa, IPA, ví dụ, từ đồng nghĩa...</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+        {PROVIDERS.map((p) => (
+          <label
+            key={p.id}
+            className={`p-3 rounded-xl border-2 cursor-pointer transition-all ${
+              provider === p.id
+                ? 'border-violet-500 bg-violet-50 dark:bg-violet-900/20'
+                : 'border-slate-200 dark:border-slate-700 hover:border-violet-300 dark:hover:border-violet-600'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <input type="radio" name="llm-provider" checked={provider === p.id} onChange={() => setProvider(p.id)} disabled={busy} />
+              <span className="text-sm font-semibold text-slate-900 dark:text-white">{p.label}</span>
+              {settings?.provider === p.id && <span className="badge bg-violet-500 text-white px-2 py-0.5 text-[10px]">Đang dùng</span>}
+            </div>
+            <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">{p.hint}</div>
+          </label>
+        ))}
+      </div>
+
+      {provider === 'openai' && (
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">Base URL</label>
+            <input className="input-field w-full font-mono" value={openaiBaseUrl} onChange={(e) => setOpenaiBaseUrl(e.target.value)} placeholder="https://api.openai.com/v1" disabled={busy} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">Model</label>
+            {modelInput(openaiModel, setOpenaiModel, 'gpt-4o-mini')}
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">API Key</label>
+            <div className="flex gap-2">
+              <input
+                className="input-field flex-1 font-mono"
+                type="password"
+                value={openaiKey}
+                onChange={(e) => setOpenaiKey(e.target.value)}
+                placeholder={settings?.openai.hasApiKey ? `Đã lưu: ${settings.openai.maskedApiKey} (để trống để giữ nguyên)` : 'sk-...'}
+                disabled={busy}
+              />
+              {settings?.openai.hasApiKey && (
+                <button type="button" className="btn-danger px-3" onClick={handleRemoveKey} disabled={busy}>
+                  Xóa key
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {provider === 'local' && (
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">Server URL</label>
+            <input className="input-field w-full font-mono" value={localBaseUrl} onChange={(e) => setLocalBaseUrl(e.target.value)} placeholder="http://localhost:11434/v1" disabled={busy} />
+            <div className="flex gap-2 mt-2">
+              {LOCAL_PRESETS.map((p) => (
+                <button key={p.label} type="button" className="btn-secondary px-2 py-1 text-xs" onClick={() => setLocalBaseUrl(p.baseUrl)} disabled={busy}>
+                  {p.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">Model</label>
+            {modelInput(localModel, setLocalModel, 'llama3.1')}
+          </div>
+          <div className="text-xs text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-700 p-2 rounded">
+            💡 Mọi yêu cầu AI được gửi tới server này, không cần Internet. Model nhỏ có thể trả về JSON kém ổn định hơn Gemini.
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2 mt-4">
+        <button type="button" className="btn-secondary px-4 py-2" onClick={handleTest} disabled={busy}>
+          {busy ? <span className="spinner"></span> : 'Lưu & thử'}
+        </button>
+        <button type="button" className="btn-primary px-6 py-2" onClick={handleSave} disabled={busy}>
+          Lưu
+        </button>
+      </div>
+
+      {testResult && (
+        <div className={`mt-3 ${testResult.ok ? 'alert-success' : 'alert-error'}`}>
+          {testResult.ok
+            ? `OK (${testResult.model}, ${testResult.ms} ms): "${testResult.text}"`
+            : `Lỗi sau ${testResult.ms} ms: ${testResult.error}`}
+        </div>
+      )}
+      {message && !testResult && <div className="mt-3 alert-success">{message}</div>}
+      {error && <div className="mt-3 alert-error">{error}</div>}
+    </div>
+  )
+}
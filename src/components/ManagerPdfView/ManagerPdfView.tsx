@@ -5,6 +5,8 @@ import { useNavigate, useLocation } from 'react-router-dom'
 import VocabTable from '../VocabTable/VocabTable'
 import { usePersistedState } from '../../hooks/usePersistedState'
 import { speakWord } from '../../utils/speech'
+import { parseTags } from '../../utils/tags'
+import { VocabularyStore } from '../../store/VocabularyStore'
 
 export default function ManagerPdf() {
   const navigate = useNavigate()
@@ -27,18 +29,26 @@ export default function ManagerPdf() {
 
   useEffect(() => {
     loadPdfs()
-    // open from navigation state
+  }, [])
+
+  // open from navigation state (PDF panel, search palette)
+  useEffect(() => {
     const st: any = (location && (location as any).state) || null
     if (st && st.pdfId) {
-      // will select after list loaded
-      (async () => {
+      // will select after list loaded; skip restoring the last persisted PDF
+      restoredPdfRef.current = true
+      ;(async () => {
         await loadPdfs()
         const p = (await window.api.pdfList()).find((x:any)=>x.pdfId===st.pdfId)
-        if (p) selectPdf(p)
+        if (p) await selectPdf(p)
       })().catch(()=>{})
     }
+    if (st && typeof st.word === 'string') {
+      setWordFilter(st.word)
+      setMeaningFilter('')
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [])
+  }, [location.key])
 
   // Restore last selected pdf after list loads
   useEffect(() => {
@@ -90,10 +100,13 @@ export default function ManagerPdf() {
     return `/${core}/`
   }
 
-  async function handleEditRow(idx:number, word:string, meaning:string, meaningEn:string, meaningVi:string, pronunciation:string, pos:string, example:string) {
+  async function handleEditRow(idx:number, word:string, meaning:string, meaningEn:string, meaningVi:string, pronunciation:string, pos:string, example:string, tags:string) {
     if (!selectedPdf || !selectedPdf.deckCsvPath) return
     try {
-      await window.api.editWord(selectedPdf.deckCsvPath, idx, { word, meaning, meaningEn, meaningVi, pronunciation: ensureIpaSlashes(pronunciation), pos, example })
+      const prev = rows[idx]
+      await window.api.editWord(selectedPdf.deckCsvPath, idx, { word, meaning, meaningEn, meaningVi, pronunciation: ensureIpaSlashes(pronunciation), pos, example, tags })
+      // Keep the Smart Review record's tags in step with the deck row
+      VocabularyStore.setDeckTags(selectedPdf.deckCsvPath, prev?.word ?? word, prev?.meaning ?? meaning, parseTags(tags))
       await selectPdf(selectedPdf)
     } catch (err) {
       console.error('Edit failed', err)
@@ -12,6 +12,9 @@ import ConfirmModal from "../ConfirmModal/ConfirmModal";
 import { speakWord } from '../../utils/speech'
 import { countSaveableFamilyMembers, enrichWordFamilyMembers, getWordFamily, type EnrichedWordFamilyMember } from '../../utils/wordFamily'
 import { enrichSynonyms, getSynonymFamilies, getSynonyms } from '../../utils/synonyms'
+import { candidateTitle } from '../../utils/translationSources'
+import { VocabularyStore } from '../../store/VocabularyStore'
+import { parseTags } from '../../utils/tags'
 
 type TreeNode = {
   name: string;
@@ -20,7 +23,7 @@ type TreeNode = {
   children?: TreeNode[];
 };
 
-type AutoMeaningCandidate = { vi: string; pos?: string; back?: string[] };
+type AutoMeaningCandidate = { vi: string; pos?: string; back?: string[]; source?: string; dictionary?: string };
 
 type AutoMeaningResponse = {
   requestId: string;
@@ -512,15 +515,19 @@ export default function Manager() {
     setTree(t || []);
   }
 
-  // If navigated here with a selected file (e.g. from PDF panel), open it
+  // If navigated here with a selected file (e.g. from PDF panel or the search palette), open it
   const location = useLocation();
   useEffect(() => {
     const sel: any = (location && (location as any).state) || null;
     if (sel && sel.selectFile) {
       openFile(sel.selectFile).catch((e) => console.error(e));
     }
+    if (sel && typeof sel.word === 'string') {
+      setWordFilter(sel.word);
+      setMeaningFilter('');
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [location.key]);
 
   async function openFile(filePath: string) {
     const readCsv = api?.readCsv;
@@ -530,6 +537,52 @@ export default function Manager() {
     setRows(data || []);
   }
 
+  const [ankiBusy, setAnkiBusy] = useState(false);
+
+  async function exportCurrentToAnki() {
+    if (!currentFile || !api?.ankiExportCsv || ankiBusy) return;
+    setAnkiBusy(true);
+    try {
+      const res = await api.ankiExportCsv(currentFile);
+      if (res) window.alert(`Đã xuất ${res.count} từ sang Anki:\n${res.filePath}`);
+    } catch (err) {
+      setErrorMessage(`Anki export failed: ${err instanceof Error ? err.message : String(err)}`);
+      setTimeout(() => setErrorMessage(''), 5000);
+    } finally {
+      setAnkiBusy(false);
+    }
+  }
+
+  async function importFromAnki() {
+    if (!api?.ankiImport || ankiBusy) return;
+    setAnkiBusy(true);
+    try {
+      const res = await api.ankiImport();
+      if (!res) return;
+      await loadTree();
+      await openFile(res.relPath);
+      const skippedNote = res.skipped > 0 ? ` (bỏ qua ${res.skipped} note trùng/trống)` : '';
+      if (res.scheduling.length > 0) {
+        const ok = window.confirm(
+          `Đã nhập ${res.added} từ vào "${res.relPath}"${skippedNote}.\n\n` +
+          `${res.scheduling.length} thẻ đã có lịch ôn trong Anki. Thêm chúng vào Smart Review với lịch ôn đó?`
+        );
+        if (ok) {
+          const data = await api.readCsv(res.relPath);
+          const seeded = VocabularyStore.importFromAnki(res.relPath, res.scheduling, data || []);
+          window.alert(`Đã thêm ${seeded} từ vào Smart Review.`);
+        }
+      } else {
+        window.alert(`Đã nhập ${res.added} từ vào "${res.relPath}"${skippedNote}.`);
+      }
+    } catch (err) {
+      setErrorMessage(`Anki import failed: ${err instanceof Error ? err.message : String(err)}`);
+      setTimeout(() => setErrorMessage(''), 5000);
+    } finally {
+      setAnkiBusy(false);
+    }
+  }
+
   async function handleRowDelete(idx: number): Promise<void> {
     const deleteWord = api?.deleteWord;
     if (!deleteWord) return;
@@ -545,12 +598,15 @@ export default function Manager() {
     }
   }
 
-  async function handleRowEdit(idx: number, word: string, meaning: string, meaningEn: string, meaningVi: string, pronunciation: string, pos: string, example: string) {
+  async function handleRowEdit(idx: number, word: string, meaning: string, meaningEn: string, meaningVi: string, pronunciation: string, pos: string, example: string, tags: string) {
     if (!api?.editWord || !currentFile) return;
     try {
       const ipa = ensureIpaSlashes(pronunciation);
-      await api.editWord(currentFile, idx, { word, meaning, meaningEn, meaningVi, pronunciation: ipa, pos, example });
-      setRows(prev => prev.map((r, i) => i === idx ? { ...r, word, meaning, meaningEn, meaningVi, pronunciation: ipa, pos, example } : r));
+      const prev = rows[idx];
+      await api.editWord(currentFile, idx, { word, meaning, meaningEn, meaningVi, pronunciation: ipa, pos, example, tags });
+      // Keep the Smart Review record's tags in step with the deck row
+      VocabularyStore.setDeckTags(currentFile, prev?.word ?? word, prev?.meaning ?? meaning, parseTags(tags));
+      setRows(prev => prev.map((r, i) => i === idx ? { ...r, word, meaning, meaningEn, meaningVi, pronunciation: ipa, pos, example, tags } : r));
     } catch (err) {
       console.error('Edit failed', err);
       setErrorMessage(`Edit failed: ${err instanceof Error ? err.message : String(err)}`);
@@ -1651,6 +1707,26 @@ export default function Manager() {
                 Manage your vocabulary files and collections
               </p>
             </div>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                className="btn-secondary px-3 py-2 text-xs"
+                onClick={importFromAnki}
+                disabled={ankiBusy}
+                title="Import an Anki .apkg deck as a new CSV file"
+              >
+                Import Anki
+              </button>
+              <button
+                type="button"
+                className="btn-secondary px-3 py-2 text-xs"
+                onClick={exportCurrentToAnki}
+                disabled={!currentFile || ankiBusy}
+                title={currentFile ? 'Export the current deck as an Anki .apkg' : 'Open a deck first'}
+              >
+                Export Anki
+              </button>
+            </div>
           </div>
           
           {/* Add Word Form - Enhanced with better styling */}
@@ -2576,7 +2652,7 @@ export default function Manager() {
                           }
                         }}
                         className="px-4 py-2 rounded-xl border border-amber-200 dark:border-amber-700 bg-white dark:bg-slate-700 text-sm text-slate-700 dark:text-slate-300 hover:bg-amber-50 dark:hover:bg-amber-900/30 hover:border-amber-300 dark:hover:border-amber-600 hover:shadow-md transition-all duration-200 font-medium"
-                        title={(c.back && c.back.length > 0) ? c.back.join(', ') : ''}
+                        title={candidateTitle(c)}
                       >
                         <span className="font-semibold text-amber-700 dark:text-amber-400">{c.vi}</span>
                         {c.pos && <span className="text-slate-500 dark:text-slate-400 ml-1.5">({c.pos})</span>}
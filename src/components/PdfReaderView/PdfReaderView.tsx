@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react'
+import { useLocation } from 'react-router-dom'
 import './PdfReaderView.css'
 import ErrorBoundary from '../ErrorBoundary/ErrorBoundary'
 import PdfLibrary from '../PdfLibrary/PdfLibrary'
@@ -26,6 +27,14 @@ function PdfReaderInner() {
     loadPdfs()
   }, [refreshKey])
 
+  // Open the PDF requested by navigation state (Manager, search palette)
+  const location = useLocation()
+  useEffect(() => {
+    const st = location.state as { openPdfId?: string } | null
+    if (st?.openPdfId) setSelectedPdfId(st.openPdfId)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [location.key])
+
   async function loadPdfs() {
     try {
       const list = await window.api.pdfList()
@@ -25,6 +25,7 @@ interface Highlight {
   wordKey: string;
   meaning?: string;
   pronunciation?: string;
+  contextSentenceEn?: string; // Sentence the word was selected from (used by cloze study)
 }
 
 interface PdfViewerProps {
@@ -809,7 +810,8 @@ const PdfViewer: React.FC<PdfViewerProps> = ({ pdfId }) => {
             rects: Array.isArray(selectionSnapshot.rects) ? selectionSnapshot.rects : [],
             wordKey,
             meaning,
-            pronunciation
+            pronunciation,
+            contextSentenceEn: String(pendingWord.contextSentenceEn || '').trim() || undefined
           };
 
           const currentHighlights = Array.isArray(highlightsRef.current) ? highlightsRef.current : [];
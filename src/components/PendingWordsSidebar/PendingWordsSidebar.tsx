@@ -3,6 +3,7 @@ import { POS_OPTIONS, normalizePos } from '../posOptions/posOptions'
 import './PendingWordsSidebar.css'
 import { enrichWordFamilyMembers, getWordFamily, type EnrichedWordFamilyMember } from '../../utils/wordFamily'
 import { enrichSynonyms, getSynonymFamilies, getSynonyms } from '../../utils/synonyms'
+import { candidateTitle } from '../../utils/translationSources'
 
 interface Rect {
   xPct: number
@@ -42,7 +43,7 @@ export interface PendingWord {
   apiError?: string
 }
 
-type AutoMeaningCandidate = { vi: string; pos?: string; back?: string[] }
+type AutoMeaningCandidate = { vi: string; pos?: string; back?: string[]; source?: string; dictionary?: string }
 
 interface Props {
   pendingWords: PendingWord[]
@@ -472,6 +473,7 @@ function WordEditForm({
                 key={i}
                 className={`candidate-chip ${meaning === c.vi ? 'selected' : ''}`}
                 onClick={() => handleSelectCandidate(c)}
+                title={candidateTitle(c)}
               >
                 {c.vi}
                 {c.pos && <span className="candidate-pos">({c.pos})</span>}
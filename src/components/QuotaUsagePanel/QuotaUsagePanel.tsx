@@ -0,0 +1,279 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, CartesianGrid, Legend } from 'recharts'
+import type { QuotaStatus, QuotaUsage } from '../../../electron'
+
+const REFRESH_MS = 30 * 1000
+
+const RANGE_OPTIONS = [
+  { value: 7, label: '7 ngày' },
+  { value: 14, label: '14 ngày' },
+  { value: 30, label: '30 ngày' },
+]
+
+const MODEL_COLORS = ['#8b5cf6', '#0ea5e9', '#10b981', '#f59e0b', '#ec4899', '#64748b']
+
+const STATUS_STYLE: Record<QuotaStatus, { label: string; className: string }> = {
+  ok: { label: 'OK', className: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400' },
+  cooldown: { label: 'Tạm nghỉ', className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400' },
+  exhausted: { label: 'Hết quota hôm nay', className: 'bg-rose-100 dark:bg-rose-900/30 text-rose-700 dark:text-rose-400' },
+}
+
+type LimitDraft = { rpm: string; rpd: string }
+
+function errorText(e: unknown): string {
+  return e && typeof e === 'object' && 'message' in e ? String((e as any).message) : String(e)
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+function limitText(n: number | null): string {
+  return n == null ? '∞' : String(n)
+}
+
+function parseLimit(s: string): number | null {
+  const n = Math.floor(Number(s))
+  return s.trim() && Number.isFinite(n) && n > 0 ? n : null
+}
+
+// Google AI Studio request quota as tracked locally: usage per key/model today, daily history and editable limits.
+export default function QuotaUsagePanel() {
+  const api = window.api
+
+  const [usage, setUsage] = useState<QuotaUsage | null>(null)
+  const [range, setRange] = useState(14)
+  const [drafts, setDrafts] = useState<Record<string, LimitDraft>>({})
+  const [newModel, setNewModel] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  const load = async () => {
+    try {
+      const next = await api.getQuotaUsage(range)
+      setUsage(next)
+      setDrafts(Object.fromEntries(next.limits.map((l) => [l.model, { rpm: l.rpm == null ? '' : String(l.rpm), rpd: l.rpd == null ? '' : String(l.rpd) }])))
+      setError('')
+    } catch (e) {
+      setError(errorText(e))
+    }
+  }
+
+  useEffect(() => {
+    if (!api?.getQuotaUsage) return
+    void load()
+    const timer = window.setInterval(() => void load(), REFRESH_MS)
+    return () => window.clearInterval(timer)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [range])
+
+  const saveLimits = async (model: string, reset = false) => {
+    const d = drafts[model] || { rpm: '', rpd: '' }
+    setBusy(true)
+    setMessage('')
+    setError('')
+    try {
+      await api.setModelQuotaLimits({ model, rpm: parseLimit(d.rpm), rpd: parseLimit(d.rpd), reset })
+      await load()
+      setMessage(reset ? `Đã khôi phục giới hạn mặc định cho ${model}.` : `Đã lưu giới hạn cho ${model}.`)
+    } catch (e) {
+      setError(errorText(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const addModel = async () => {
+    const model = newModel.trim()
+    if (!model) return
+    setDrafts((prev) => ({ ...prev, [model]: prev[model] || { rpm: '', rpd: '' } }))
+    setNewModel('')
+    setBusy(true)
+    try {
+      await api.setModelQuotaLimits({ model, rpm: null, rpd: null })
+      await load()
+    } catch (e) {
+      setError(errorText(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const setDraft = (model: string, field: keyof LimitDraft, value: string) => {
+    setDrafts((prev) => ({ ...prev, [model]: { ...(prev[model] || { rpm: '', rpd: '' }), [field]: value } }))
+  }
+
+  const { chartData, chartModels } = useMemo(() => {
+    const history = usage?.history || []
+    const models = Array.from(new Set(history.flatMap((h) => Object.keys(h.byModel))))
+    return {
+      chartModels: models,
+      chartData: history.map((h) => ({ label: h.day.slice(5), limited: h.limited, ...h.byModel })),
+    }
+  }, [usage])
+
+  const todayTotal = usage ? usage.keys.reduce((sum, k) => sum + k.models.reduce((s, m) => s + m.rpdUsed, 0), 0) : 0
+
+  return (
+    <div className="card hover:shadow-xl transition-shadow mt-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-amber-500 to-orange-600 flex items-center justify-center shadow-md">
+          <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+          </svg>
+        </div>
+        <div className="flex-1">
+          <div className="text-lg font-bold text-slate-900 dark:text-white">Quota &amp; mức sử dụng</div>
+          <div className="text-xs text-slate-600 dark:text-slate-400">
+            Số request Google AI Studio theo key/model, đếm trên máy này.
+            {usage && ` Hôm nay: ${todayTotal} request, đặt lại lúc ${formatTime(usage.resetAtMs)}.`}
+          </div>
+        </div>
+        <select className="input-field !w-auto py-1 text-sm" value={range} onChange={(e) => setRange(Number(e.target.value))}>
+          {RANGE_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+        <button type="button" className="btn-secondary px-3 py-1 text-xs" onClick={() => void load()} disabled={busy}>
+          Làm mới
+        </button>
+      </div>
+
+      {usage && (
+        <div className="space-y-4">
+          {usage.keys.length === 0 && <div className="text-sm text-slate-500 dark:text-slate-400">Chưa có API key nào.</div>}
+          {usage.keys.map((k) => (
+            <div key={k.keyId} className="rounded-xl border border-slate-200 dark:border-slate-700 p-3">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="font-semibold text-slate-900 dark:text-white">{k.name}</span>
+                {k.masked && <span className="text-xs font-mono text-slate-500">{k.masked}</span>}
+                {k.active && <span className="badge bg-violet-500 text-white px-2 py-0.5 text-[10px]">Đang bật</span>}
+              </div>
+              {k.models.length === 0 ? (
+                <div className="text-xs text-slate-500 dark:text-slate-400">Chưa dùng.</div>
+              ) : (
+                <div className="space-y-2">
+                  {k.models.map((m) => {
+                    const style = STATUS_STYLE[m.status]
+                    const pct = m.rpd ? Math.min(100, Math.round((m.rpdUsed / m.rpd) * 100)) : 0
+                    return (
+                      <div key={m.model} className="text-sm">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-mono text-xs text-slate-700 dark:text-slate-300 flex-1 min-w-0 truncate">{m.model}</span>
+                          <span className="text-xs text-slate-600 dark:text-slate-400" title="Request hôm nay / giới hạn ngày">
+                            {m.rpdUsed}/{limitText(m.rpd)} hôm nay
+                          </span>
+                          <span className="text-xs text-slate-600 dark:text-slate-400" title="Request phút này / giới hạn phút">
+                            {m.rpmUsed}/{limitText(m.rpm)} /phút
+                          </span>
+                          <span className="text-xs text-slate-600 dark:text-slate-400">còn {m.remaining == null ? '∞' : m.remaining}</span>
+                          <span className={`badge px-2 py-0.5 text-[10px] ${style.className}`}>
+                            {style.label}
+                            {m.status === 'cooldown' && m.blockedUntilMs > 0 && ` đến ${formatTime(m.blockedUntilMs)}`}
+                          </span>
+                        </div>
+                        {m.rpd != null && (
+                          <div className="mt-1 h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                            <div
+                              className={`h-full ${m.status === 'exhausted' ? 'bg-rose-500' : pct >= 80 ? 'bg-amber-500' : 'bg-green-500'}`}
+                              style={{ width: `${pct}%` }}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div>
+            <div className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Lịch sử request</div>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#94a3b833" />
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+                  <Tooltip />
+                  <Legend />
+                  {chartModels.map((model, i) => (
+                    <Bar key={model} dataKey={model} name={model} stackId="a" fill={MODEL_COLORS[i % MODEL_COLORS.length]} />
+                  ))}
+                  <Bar dataKey="limited" name="Bị giới hạn (429)" fill="#f43f5e" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">Giới hạn theo model</div>
+            <div className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+              Request mỗi phút (RPM) và mỗi ngày (RPD). Để trống = không giới hạn. Khi một key chạm giới hạn, app chuyển sang key/model khác.
+            </div>
+            <div className="space-y-2">
+              {usage.limits.map((l) => {
+                const d = drafts[l.model] || { rpm: '', rpd: '' }
+                return (
+                  <div key={l.model} className="flex items-center gap-2 flex-wrap">
+                    <span className="font-mono text-xs text-slate-700 dark:text-slate-300 flex-1 min-w-[12rem] truncate">
+                      {l.model}
+                      {l.fromEnv && (
+                        <span className="ml-2 text-[10px] text-amber-600 dark:text-amber-400" title="GOOGLE_AI_STUDIO_QUOTA_LIMITS_JSON sẽ ghi đè khi khởi động lại">
+                          (env)
+                        </span>
+                      )}
+                    </span>
+                    <input
+                      className="input-field !w-20 py-1 text-sm"
+                      type="number"
+                      min={0}
+                      placeholder="RPM"
+                      value={d.rpm}
+                      onChange={(e) => setDraft(l.model, 'rpm', e.target.value)}
+                      disabled={busy}
+                    />
+                    <input
+                      className="input-field !w-20 py-1 text-sm"
+                      type="number"
+                      min={0}
+                      placeholder="RPD"
+                      value={d.rpd}
+                      onChange={(e) => setDraft(l.model, 'rpd', e.target.value)}
+                      disabled={busy}
+                    />
+                    <button type="button" className="btn-primary px-3 py-1 text-xs" onClick={() => void saveLimits(l.model)} disabled={busy}>
+                      Lưu
+                    </button>
+                    <button type="button" className="btn-secondary px-3 py-1 text-xs" onClick={() => void saveLimits(l.model, true)} disabled={busy || l.isDefault}>
+                      Mặc định
+                    </button>
+                  </div>
+                )
+              })}
+              <div className="flex items-center gap-2">
+                <input
+                  className="input-field flex-1 py-1 text-sm font-mono"
+                  value={newModel}
+                  onChange={(e) => setNewModel(e.target.value)}
+                  placeholder="Thêm model khác, vd: gemini-2.0-flash"
+                  disabled={busy}
+                />
+                <button type="button" className="btn-secondary px-3 py-1 text-xs" onClick={() => void addModel()} disabled={busy || !newModel.trim()}>
+                  Thêm
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {message && <div className="mt-3 alert-success">{message}</div>}
+      {error && <div className="mt-3 alert-error">{error}</div>}
+    </div>
+  )
+}
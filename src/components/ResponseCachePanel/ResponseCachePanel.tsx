@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react'
+import type { ResponseCacheStats } from '../../../electron'
+
+const KIND_LABELS: Record<string, string> = {
+  enrich: 'Gợi ý đầy đủ',
+  enrichBulk: 'Gợi ý hàng loạt',
+  meaningCandidates: 'Nghĩa',
+  meaningNoteVi: 'Ghi chú nghĩa',
+  meaningNoteVie: 'Dịch định nghĩa',
+  ipa: 'IPA',
+  example: 'Câu ví dụ',
+  mnemonic: 'Mẹo nhớ',
+  synonyms: 'Từ đồng nghĩa',
+  wordFamily: 'Họ từ',
+  translate: 'Dịch',
+  translateExplain: 'Dịch + giải thích',
+  definition: 'Định nghĩa EN',
+  dictionary: 'Tra từ điển',
+}
+
+function errorText(e: unknown): string {
+  return e && typeof e === 'object' && 'message' in e ? String((e as any).message) : String(e)
+}
+
+function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`
+  return `${(n / 1024 / 1024).toFixed(1)} MB`
+}
+
+// AI/dictionary responses are cached on disk so repeated lookups cost no quota; this shows the cache and clears it.
+export default function ResponseCachePanel() {
+  const api = window.api
+
+  const [stats, setStats] = useState<ResponseCacheStats | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  const refresh = async () => {
+    try {
+      setStats(await api.getResponseCacheStats())
+    } catch (e) {
+      setError(errorText(e))
+    }
+  }
+
+  useEffect(() => {
+    if (!api?.getResponseCacheStats) return
+    void refresh()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const clear = async () => {
+    if (!window.confirm('Xóa toàn bộ cache AI và từ điển? Các lần tra sau sẽ gọi lại API.')) return
+    setBusy(true)
+    setError('')
+    setMessage('')
+    try {
+      setStats(await api.clearResponseCache())
+      setMessage('Đã xóa cache.')
+    } catch (e) {
+      setError(errorText(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const lookups = stats ? stats.sessionHits + stats.sessionMisses : 0
+  const kinds = stats ? Object.entries(stats.byKind).sort((a, b) => b[1] - a[1]) : []
+
+  return (
+    <div className="card hover:shadow-xl transition-shadow mb-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-emerald-500 to-teal-600 flex items-center justify-center shadow-md">
+          <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" />
+          </svg>
+        </div>
+        <div className="flex-1">
+          <div className="text-lg font-bold text-slate-900 dark:text-white">Cache AI &amp; từ điển</div>
+          <div className="text-xs text-slate-600 dark:text-slate-400">Kết quả đã tra được lưu trên máy, tra lại từ cũ không tốn quota.</div>
+        </div>
+        <button type="button" className="btn-secondary px-3 py-1 text-xs" onClick={refresh} disabled={busy}>
+          Làm mới
+        </button>
+      </div>
+
+      {stats && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+            <div className="p-3 rounded-xl bg-slate-50 dark:bg-slate-900/40">
+              <div className="text-xs text-slate-500 dark:text-slate-400">Số mục</div>
+              <div className="font-bold text-slate-900 dark:text-white">
+                {stats.entries.toLocaleString()} <span className="text-xs font-normal text-slate-500">/ {stats.maxEntries.toLocaleString()}</span>
+              </div>
+            </div>
+            <div className="p-3 rounded-xl bg-slate-50 dark:bg-slate-900/40">
+              <div className="text-xs text-slate-500 dark:text-slate-400">Dung lượng</div>
+              <div className="font-bold text-slate-900 dark:text-white">
+                {formatBytes(stats.bytes)} <span className="text-xs font-normal text-slate-500">/ {formatBytes(stats.maxBytes)}</span>
+              </div>
+            </div>
+            <div className="p-3 rounded-xl bg-slate-50 dark:bg-slate-900/40">
+              <div className="text-xs text-slate-500 dark:text-slate-400">Trúng cache (phiên này)</div>
+              <div className="font-bold text-slate-900 dark:text-white">
+                {lookups > 0 ? `${Math.round((stats.sessionHits / lookups) * 100)}%` : '-'}{' '}
+                <span className="text-xs font-normal text-slate-500">
+                  {stats.sessionHits}/{lookups}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          {kinds.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {kinds.map(([kind, count]) => (
+                <span key={kind} className="badge bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 px-2 py-0.5 text-[11px]">
+                  {KIND_LABELS[kind] || kind}: {count.toLocaleString()}
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex items-center justify-between gap-2 mt-4">
+        <div className="text-xs text-slate-500 dark:text-slate-400">Khi đầy, mục lâu không dùng nhất sẽ bị xóa trước.</div>
+        <button type="button" className="btn-danger px-4 py-2" onClick={clear} disabled={busy || !stats || stats.entries === 0}>
+          Xóa cache
+        </button>
+      </div>
+
+      {message && <div className="mt-3 alert-success">{message}</div>}
+      {error && <div className="mt-3 alert-error">{error}</div>}
+    </div>
+  )
+}
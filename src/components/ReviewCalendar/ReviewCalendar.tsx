@@ -2,7 +2,7 @@
 // Supports drag-and-drop rescheduling and word deletion
 
 import React, { useEffect, useState, useMemo, useCallback } from 'react'
-import { VocabularyStore, useVocabularyStore } from '../../store/VocabularyStore'
+import { VocabularyStore, useVocabularyStore, effectiveReviewDate } from '../../store/VocabularyStore'
 import './ReviewCalendar.css'
 
 interface ReviewCalendarProps {
@@ -76,13 +76,13 @@ export default function ReviewCalendar({ view = 'month', items, onReschedule, on
   const effectiveItems: ReviewCalendarItem[] = items
     ? items
     : VocabularyStore.getAll()
-        .filter(r => r.state !== 'new')
+        .filter(r => r.state !== 'new' && !r.suspended)
         .map(r => ({
           id: r.id,
           word: r.word,
           meaning: r.meaning,
           state: r.state,
-          nextReviewDate: r.nextReviewDate,
+          nextReviewDate: effectiveReviewDate(r, nowMs),
         }))
 
   const doReschedule = useCallback((id: string, newDate: number) => {
@@ -1,7 +1,11 @@
 import React, { useState, useMemo, useCallback, useEffect } from 'react'
-import { VocabularyStore, useVocabularyStore } from '../../store/VocabularyStore'
-import type { VocabRecord } from '../../store/VocabularyStore'
+import { useLocation } from 'react-router-dom'
+import { VocabularyStore, useVocabularyStore, SCHEDULERS, cardStatus, formatSteps, isCardActive, parseSteps } from '../../store/VocabularyStore'
+import type { VocabRecord, SchedulerId } from '../../store/VocabularyStore'
+import { collectTags, matchesAnyTag } from '../../utils/tags'
 import ConfirmModal from '../ConfirmModal/ConfirmModal'
+import ImportSmartReviewModal from '../ImportSmartReviewModal/ImportSmartReviewModal'
+import LeechPanel from '../LeechPanel/LeechPanel'
 import { preloadAudio, speakWord } from '../../utils/speech'
 import {
   useReactTable,
@@ -66,6 +70,20 @@ export default function SRSManagerView() {
   const [wordFilter, setWordFilter] = useState('')
   const [meaningFilter, setMeaningFilter] = useState('')
   const [posFilter, setPosFilter] = useState('')
+  const [tagFilter, setTagFilter] = useState('')
+
+  // Jump from the search palette: show just that word
+  const location = useLocation()
+  useEffect(() => {
+    const st = location.state as { word?: string } | null
+    if (!st || typeof st.word !== 'string') return
+    setWordFilter(st.word)
+    setMeaningFilter('')
+    setPosFilter('')
+    setTagFilter('')
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [location.key])
+
   const [sorting, setSorting] = useState<SortingState>([{ id: 'nextReviewDate', desc: false }])
   const [selected, setSelected] = useState<Set<string>>(new Set())
   
@@ -75,6 +93,10 @@ export default function SRSManagerView() {
   const [deleteConfirm, setDeleteConfirm] = useState<VocabRecord | null>(null)
   const [bulkDeleteConfirm, setBulkDeleteConfirm] = useState(false)
 
+  // Learning steps are edited as text ("1m 10m 1h") and saved on blur
+  const [learnStepsText, setLearnStepsText] = useState(() => formatSteps(VocabularyStore.getLearningSteps().learn))
+  const [relearnStepsText, setRelearnStepsText] = useState(() => formatSteps(VocabularyStore.getLearningSteps().relearn))
+
   // Add form state
   const [addWord, setAddWord] = useState('')
   const [addMeaning, setAddMeaning] = useState('')
@@ -200,6 +222,15 @@ export default function SRSManagerView() {
       cell: ({ row }) => (
         <div className="font-semibold text-slate-900 dark:text-white">
           {row.original.word}
+          {(row.original.tags || []).length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-0.5">
+              {(row.original.tags || []).map((t: string) => (
+                <span key={t} className="px-1.5 rounded bg-sky-100 dark:bg-sky-900/40 text-sky-700 dark:text-sky-300 text-[10px] font-normal">
+                  {t}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
       ),
     },
@@ -305,8 +336,15 @@ export default function SRSManagerView() {
         
         let label: string
         let color: string
+        const status = cardStatus(row.original, now)
         
-        if (!reviewDate || reviewDate === 0) {
+        if (status === 'suspended') {
+          label = 'Tạm ngưng'
+          color = 'bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300'
+        } else if (status === 'buried') {
+          label = 'Đã chôn'
+          color = 'bg-stone-200 text-stone-700 dark:bg-stone-700/60 dark:text-stone-300'
+        } else if (!reviewDate || reviewDate === 0) {
           // No review date - show as new
           label = 'Mới'
           color = 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300'
@@ -374,14 +412,17 @@ export default function SRSManagerView() {
     const wf = wordFilter.trim().toLowerCase()
     const mf = meaningFilter.trim().toLowerCase()
     const pf = posFilter.trim().toLowerCase()
-    if (!wf && !mf && !pf) return records
+    if (!wf && !mf && !pf && !tagFilter) return records
     return records.filter(r => {
       if (wf && !String(r.word || '').toLowerCase().includes(wf)) return false
       if (mf && !String(r.meaning || '').toLowerCase().includes(mf)) return false
       if (pf && String(r.pos || '').toLowerCase() !== pf.toLowerCase()) return false
+      if (tagFilter && !matchesAnyTag(r.tags, [tagFilter])) return false
       return true
     })
-  }, [records, wordFilter, meaningFilter, posFilter])
+  }, [records, wordFilter, meaningFilter, posFilter, tagFilter])
+
+  const allTags = useMemo(() => collectTags(records), [records])
 
   const table = useReactTable({
     data: filteredRecords,
@@ -397,7 +438,9 @@ export default function SRSManagerView() {
     setDeleteConfirm(null)
   }, [])
 
-  const handleBulkDelete = useCallback(() => {
+  const handleBulkDelete = useCallback(async () => {
+    VocabularyStore.flush()
+    await window.api.backupCreate('srs-bulk-delete').catch(() => null)
     for (const id of selected) {
       VocabularyStore.delete(id)
     }
@@ -405,7 +448,9 @@ export default function SRSManagerView() {
     setBulkDeleteConfirm(false)
   }, [selected])
 
-  const handleDedupe = useCallback(() => {
+  const handleDedupe = useCallback(async () => {
+    VocabularyStore.flush()
+    await window.api.backupCreate('srs-dedupe').catch(() => null)
     const all = VocabularyStore.getAll()
     const seen = new Map<string, string>() // word lowercase -> first id
     let removed = 0
@@ -758,6 +803,38 @@ export default function SRSManagerView() {
   )
 
   const [dedupeMessage, setDedupeMessage] = useState('')
+  const [importPayload, setImportPayload] = useState<{ fileName: string; records: VocabRecord[] } | null>(null)
+  const [importMessage, setImportMessage] = useState('')
+
+  const handleBulkStatus = useCallback(
+    (action: 'suspend' | 'unsuspend' | 'bury' | 'unbury') => {
+      const ids = Array.from(selected)
+      const changed =
+        action === 'suspend' || action === 'unsuspend'
+          ? VocabularyStore.setSuspended(ids, action === 'suspend')
+          : VocabularyStore.setBuried(ids, action === 'bury')
+      const verb = { suspend: 'Đã tạm ngưng', unsuspend: 'Đã bỏ tạm ngưng', bury: 'Đã chôn đến mai', unbury: 'Đã bỏ chôn' }[action]
+      setImportMessage(`${verb} ${changed} từ`)
+      setTimeout(() => setImportMessage(''), 4000)
+    },
+    [selected]
+  )
+
+  const handleImportClick = useCallback(async () => {
+    try {
+      const res = await window.api.importSmartReview()
+      if (!res) return
+      const records = VocabularyStore.parseImport(res.data)
+      if (records.length === 0) {
+        window.alert('File không có từ Smart Review hợp lệ.')
+        return
+      }
+      setImportPayload({ fileName: res.filePath, records })
+    } catch (e: any) {
+      const msg = e && typeof e === 'object' && 'message' in e ? (e as any).message : String(e)
+      window.alert(`Import thất bại: ${msg}`)
+    }
+  }, [])
 
   // Sync editing record with edit form state
   useEffect(() => {
@@ -847,12 +924,14 @@ export default function SRSManagerView() {
     let total = 0, due = 0, mastered = 0
     for (const r of records) {
       total++
-      if (r.nextReviewDate <= now) due++
+      if (r.nextReviewDate <= now && isCardActive(r, now)) due++
       if (r.state === 'mastered') mastered++
     }
     return { total, due, mastered }
   }, [records])
 
+  const dailyLimits = VocabularyStore.getDailyLimits()
+
   return (
     <div className="h-full flex flex-col overflow-hidden bg-slate-50 dark:bg-slate-900">
       {/* Header */}
@@ -870,15 +949,95 @@ export default function SRSManagerView() {
             </div>
           </div>
 
-          <button
-            onClick={() => setAddModalOpen(true)}
-            className="btn-primary flex items-center gap-2"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            Thêm từ
-          </button>
+          <div className="flex items-center justify-end flex-wrap gap-3">
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400" title="Thuật toán lên lịch ôn tập">
+              Thuật toán
+              <select
+                value={VocabularyStore.getSchedulerId()}
+                onChange={(e) => VocabularyStore.setSchedulerId(e.target.value as SchedulerId)}
+                className="input-field w-28"
+              >
+                {Object.values(SCHEDULERS).map((s) => (
+                  <option key={s.id} value={s.id}>{s.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400" title="Số từ mới tối đa mỗi ngày">
+              Mới/ngày
+              <input
+                type="number"
+                min={0}
+                value={dailyLimits.newPerDay}
+                onChange={(e) => VocabularyStore.setDailyLimits({ newPerDay: Number(e.target.value) })}
+                className="input-field w-20"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400" title="Số lượt ôn tối đa mỗi ngày (từ đang học không bị giới hạn)">
+              Ôn/ngày
+              <input
+                type="number"
+                min={0}
+                value={dailyLimits.reviewsPerDay}
+                onChange={(e) => VocabularyStore.setDailyLimits({ reviewsPerDay: Number(e.target.value) })}
+                className="input-field w-20"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400" title="Dàn đều ngày ôn để các từ không dồn vào cùng một ngày">
+              <input
+                type="checkbox"
+                checked={dailyLimits.fuzz}
+                onChange={(e) => VocabularyStore.setDailyLimits({ fuzz: e.target.checked })}
+              />
+              Dàn đều lịch
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400" title="Bước học cho từ mới, ví dụ: 1m 10m 1h (để trống = không dùng)">
+              Bước học
+              <input
+                type="text"
+                value={learnStepsText}
+                onChange={(e) => setLearnStepsText(e.target.value)}
+                onBlur={() => {
+                  const steps = parseSteps(learnStepsText)
+                  VocabularyStore.setLearningSteps({ learn: steps })
+                  setLearnStepsText(formatSteps(steps))
+                }}
+                className="input-field w-24"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400" title="Bước học lại cho từ ôn bị sai, ví dụ: 10m (để trống = không dùng)">
+              Học lại
+              <input
+                type="text"
+                value={relearnStepsText}
+                onChange={(e) => setRelearnStepsText(e.target.value)}
+                onBlur={() => {
+                  const steps = parseSteps(relearnStepsText)
+                  VocabularyStore.setLearningSteps({ relearn: steps })
+                  setRelearnStepsText(formatSteps(steps))
+                }}
+                className="input-field w-20"
+              />
+            </label>
+            <button
+              onClick={handleImportClick}
+              className="btn-secondary flex items-center gap-2"
+              title="Nhập file JSON đã xuất từ Smart Review"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              Nhập dữ liệu
+            </button>
+            <button
+              onClick={() => setAddModalOpen(true)}
+              className="btn-primary flex items-center gap-2"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Thêm từ
+            </button>
+          </div>
         </div>
 
         {/* Stats */}
@@ -897,6 +1056,8 @@ export default function SRSManagerView() {
           </div>
         </div>
 
+        <LeechPanel />
+
         {/* Search & Actions */}
         <div className="flex items-center gap-3 flex-wrap">
           <div className="flex-1 min-w-[140px] relative">
@@ -943,9 +1104,25 @@ export default function SRSManagerView() {
               <option value="Other">Other</option>
             </select>
           </div>
-          {(wordFilter || meaningFilter || posFilter) && (
+          {allTags.length > 0 && (
+            <div className="w-40">
+              <select
+                value={tagFilter}
+                onChange={(e) => setTagFilter(e.target.value)}
+                className="input-field w-full"
+              >
+                <option value="">Tất cả tag</option>
+                {allTags.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {(wordFilter || meaningFilter || posFilter || tagFilter) && (
             <button
-              onClick={() => { setWordFilter(''); setMeaningFilter(''); setPosFilter(''); }}
+              onClick={() => { setWordFilter(''); setMeaningFilter(''); setPosFilter(''); setTagFilter(''); }}
               className="btn-secondary px-3 py-2 text-sm"
             >
               Xóa bộ lọc
@@ -1014,9 +1191,30 @@ export default function SRSManagerView() {
               Xóa {selected.size} từ
             </button>
           )}
+          {selected.size > 0 && (
+            <div className="flex items-center gap-1">
+              <button onClick={() => handleBulkStatus('suspend')} className="btn-secondary px-3 py-2 text-sm" title="Bỏ khỏi mọi hàng đợi ôn/học cho đến khi bỏ tạm ngưng">
+                Tạm ngưng
+              </button>
+              <button onClick={() => handleBulkStatus('unsuspend')} className="btn-secondary px-3 py-2 text-sm">
+                Bỏ tạm ngưng
+              </button>
+              <button onClick={() => handleBulkStatus('bury')} className="btn-secondary px-3 py-2 text-sm" title="Ẩn đến đầu ngày mai">
+                Chôn đến mai
+              </button>
+              <button onClick={() => handleBulkStatus('unbury')} className="btn-secondary px-3 py-2 text-sm">
+                Bỏ chôn
+              </button>
+            </div>
+          )}
           <div className="text-sm text-slate-500 dark:text-slate-400">
             {table.getRowModel().rows.length} từ
           </div>
+          {importMessage && (
+            <div className="text-sm font-medium text-emerald-600 dark:text-emerald-400 animate-fade-in">
+              {importMessage}
+            </div>
+          )}
           {dedupeMessage && (
             <div className="text-sm font-medium text-emerald-600 dark:text-emerald-400 animate-fade-in">
               {dedupeMessage}
@@ -1060,6 +1258,24 @@ export default function SRSManagerView() {
         </div>
       </div>
 
+      {importPayload && (
+        <ImportSmartReviewModal
+          fileName={importPayload.fileName}
+          records={importPayload.records}
+          onCancel={() => setImportPayload(null)}
+          onDone={(result) => {
+            setImportPayload(null)
+            setSelected(new Set())
+            const parts = [`thêm ${result.added}`]
+            if (result.updated) parts.push(`cập nhật ${result.updated}`)
+            if (result.copied) parts.push(`${result.copied} bản sao`)
+            if (result.removed) parts.push(`xóa ${result.removed}`)
+            setImportMessage(`Đã nhập: ${parts.join(', ')}`)
+            setTimeout(() => setImportMessage(''), 4000)
+          }}
+        />
+      )}
+
       {fillScopeModal && (
         <div className="fixed inset-0 z-[1200] flex items-center justify-center bg-black/50 p-4">
           <div className="w-full max-w-md rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-2xl">
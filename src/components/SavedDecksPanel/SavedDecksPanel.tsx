@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react'
+import { VocabularyStore, useVocabularyStore } from '../../store/VocabularyStore'
+import type { SavedDeck, VocabRecord } from '../../store/VocabularyStore'
+
+type Props = {
+  onStudy: (records: VocabRecord[]) => void
+}
+
+function errorText(e: unknown): string {
+  return e && typeof e === 'object' && 'message' in e ? String((e as any).message) : String(e)
+}
+
+const QUERY_HELP =
+  'Ví dụ: pos:verb tag:ielts state:learning ease<2.0 source:pdf\n' +
+  'Trường chữ: word meaning pos tag source state (new/learning/reviewing/mastered) is (due/overdue/new/suspended/buried/leech)\n' +
+  'Trường số (< <= > >= =): ease interval reps lapses reviews difficulty due (ngày tới hạn) added (ngày từ khi thêm)\n' +
+  '-tag:x để loại trừ, pos:noun,verb để chọn một trong nhiều giá trị, "..." để giữ khoảng trắng'
+
+// Saved virtual decks: a named query over every Smart Review word, across all files and PDFs.
+export default function SavedDecksPanel({ onStudy }: Props) {
+  useVocabularyStore()
+  const version = VocabularyStore.version
+
+  const [editing, setEditing] = useState<SavedDeck | null>(null)
+  const [name, setName] = useState('')
+  const [query, setQuery] = useState('')
+  const [showEditor, setShowEditor] = useState(false)
+  const [message, setMessage] = useState('')
+
+  const decks = VocabularyStore.getSavedDecks()
+  const counts = useMemo(() => {
+    const out: Record<string, number> = {}
+    for (const d of decks) out[d.id] = VocabularyStore.queryRecords(d.query).records.length
+    return out
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [version])
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const preview = useMemo(() => (query.trim() ? VocabularyStore.queryRecords(query) : null), [query, version])
+
+  const openEditor = (deck: SavedDeck | null) => {
+    setEditing(deck)
+    setName(deck?.name || '')
+    setQuery(deck?.query || '')
+    setShowEditor(true)
+  }
+
+  const save = () => {
+    if (!query.trim()) return
+    VocabularyStore.saveDeck(name, query, editing?.id)
+    setShowEditor(false)
+    setEditing(null)
+  }
+
+  const remove = (deck: SavedDeck) => {
+    if (!window.confirm(`Xóa bộ từ "${deck.name}"?`)) return
+    VocabularyStore.deleteSavedDeck(deck.id)
+  }
+
+  const exportDeck = async (deck: SavedDeck) => {
+    try {
+      const { records } = VocabularyStore.queryRecords(deck.query)
+      const res = await window.api.ankiExportRecords(deck.name, records)
+      if (res) setMessage(`Đã xuất ${res.count} thẻ: ${res.filePath}`)
+    } catch (e) {
+      setMessage(`Export thất bại: ${errorText(e)}`)
+    }
+  }
+
+  return (
+    <div className="mb-6 p-4 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+      <div className="flex items-center justify-between mb-3">
+        <div className="font-semibold text-slate-800 dark:text-slate-200">🔎 Bộ từ lọc theo truy vấn</div>
+        {!showEditor && (
+          <button type="button" className="btn-secondary px-3 py-1.5 text-sm" onClick={() => openEditor(null)}>
+            + Tạo bộ từ
+          </button>
+        )}
+      </div>
+
+      {showEditor && (
+        <div className="mb-3 p-3 rounded-xl bg-slate-50 dark:bg-slate-900/40 space-y-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Tên bộ từ (vd: Động từ IELTS khó)"
+            className="input-field w-full"
+          />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') save()
+            }}
+            placeholder="pos:verb tag:ielts ease<2.0"
+            className="input-field w-full font-mono text-sm"
+            title={QUERY_HELP}
+          />
+          <div className="text-xs text-slate-500 dark:text-slate-400 whitespace-pre-line">{QUERY_HELP}</div>
+          {preview && (
+            <div className="text-sm">
+              <span className="font-medium text-slate-700 dark:text-slate-300">{preview.records.length} từ khớp</span>
+              {preview.errors.map((err) => (
+                <div key={err} className="text-xs text-amber-600 dark:text-amber-400">
+                  Bỏ qua: {err}
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2 justify-end">
+            <button type="button" className="btn-secondary px-3 py-1.5 text-sm" onClick={() => setShowEditor(false)}>
+              Hủy
+            </button>
+            <button type="button" className="btn-primary px-3 py-1.5 text-sm" disabled={!query.trim()} onClick={save}>
+              Lưu
+            </button>
+          </div>
+        </div>
+      )}
+
+      {decks.length === 0 ? (
+        !showEditor && <div className="text-sm text-slate-500 dark:text-slate-400">Chưa có bộ từ nào. Tạo một truy vấn để học từ nhiều file cùng lúc.</div>
+      ) : (
+        <div className="divide-y divide-slate-100 dark:divide-slate-700">
+          {decks.map((deck) => (
+            <div key={deck.id} className="py-2 flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-slate-800 dark:text-slate-200 truncate">
+                  {deck.name}
+                  <span className="ml-2 text-xs font-normal text-slate-500">{counts[deck.id] ?? 0} từ</span>
+                </div>
+                <div className="text-xs font-mono text-slate-500 dark:text-slate-400 truncate">{deck.query}</div>
+              </div>
+              <button
+                type="button"
+                className="btn-primary px-3 py-1.5 text-sm"
+                disabled={!counts[deck.id]}
+                onClick={() => onStudy(VocabularyStore.queryRecords(deck.query).records)}
+              >
+                Học
+              </button>
+              <button type="button" className="btn-secondary px-2 py-1.5 text-sm" onClick={() => void exportDeck(deck)} title="Xuất sang Anki (.apkg)">
+                Xuất
+              </button>
+              <button type="button" className="btn-secondary px-2 py-1.5 text-sm" onClick={() => openEditor(deck)}>
+                Sửa
+              </button>
+              <button type="button" className="btn-secondary px-2 py-1.5 text-sm text-rose-600" onClick={() => remove(deck)}>
+                Xóa
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {message && <div className="mt-2 text-xs text-slate-600 dark:text-slate-400 break-all">{message}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,378 @@
+// StatsView.tsx - Learning statistics built on the review log + VocabularyStore
+// Daily reviews, accuracy, retention by interval, due forecast, study streak and per-source breakdown.
+
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  Legend,
+} from 'recharts'
+import { VocabularyStore, useVocabularyStore } from '../../store/VocabularyStore'
+import { ReviewLog } from '../../store/ReviewLog'
+import type { ReviewLogEntry } from '../../../electron'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const RANGE_OPTIONS = [
+  { value: 14, label: '14 ngày' },
+  { value: 30, label: '30 ngày' },
+  { value: 90, label: '90 ngày' },
+]
+
+// Buckets use the interval the card had *before* the review (how long it had to be remembered).
+const INTERVAL_BUCKETS: Array<{ label: string; min: number; max: number }> = [
+  { label: '≤1 ngày', min: 0, max: 1 },
+  { label: '2-3 ngày', min: 2, max: 3 },
+  { label: '4-7 ngày', min: 4, max: 7 },
+  { label: '8-14 ngày', min: 8, max: 14 },
+  { label: '15-30 ngày', min: 15, max: 30 },
+  { label: '31-90 ngày', min: 31, max: 90 },
+  { label: '>90 ngày', min: 91, max: Infinity },
+]
+
+function startOfDay(ms: number): number {
+  const d = new Date(ms)
+  d.setHours(0, 0, 0, 0)
+  return d.getTime()
+}
+
+function formatDayLabel(ms: number): string {
+  const d = new Date(ms)
+  return `${String(d.getDate()).padStart(2, '0')}/${String(d.getMonth() + 1).padStart(2, '0')}`
+}
+
+function percent(n: number, total: number): number | null {
+  if (!total) return null
+  return Math.round((n / total) * 1000) / 10
+}
+
+// Readable name for a record source (CSV path or PDF deck path).
+function describeSource(source: string): { name: string; kind: 'csv' | 'pdf' | 'none' } {
+  const s = String(source || '').trim()
+  if (!s) return { name: '(không có nguồn)', kind: 'none' }
+  const parts = s.split(/[\\/]/).filter(Boolean)
+  const name = parts[parts.length - 1] || s
+  const isPdf = /[\\/]Data[\\/]pdf[\\/]/i.test(s)
+  return { name, kind: isPdf ? 'pdf' : 'csv' }
+}
+
+// Consecutive study days ending today (or yesterday, so the streak isn't "lost" before today's session).
+function computeStreaks(dayKeys: Set<number>, todayStart: number): { current: number; longest: number } {
+  let current = 0
+  let cursor = dayKeys.has(todayStart) ? todayStart : todayStart - DAY_MS
+  while (dayKeys.has(cursor)) {
+    current += 1
+    cursor = startOfDay(cursor - DAY_MS / 2)
+  }
+
+  let longest = 0
+  let run = 0
+  let prev: number | null = null
+  for (const day of Array.from(dayKeys).sort((a, b) => a - b)) {
+    run = prev != null && startOfDay(prev + DAY_MS + DAY_MS / 2) === day ? run + 1 : 1
+    longest = Math.max(longest, run)
+    prev = day
+  }
+  return { current, longest }
+}
+
+export default function StatsView() {
+  useVocabularyStore()
+
+  const [entries, setEntries] = useState<ReviewLogEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [rangeDays, setRangeDays] = useState(30)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    ReviewLog.query()
+      .then((rows) => {
+        if (!cancelled) setEntries(rows)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+    // Re-query after each store mutation (a review just got logged).
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [VocabularyStore.version])
+
+  const todayStart = startOfDay(Date.now())
+
+  const daily = useMemo(() => {
+    const firstDay = todayStart - (rangeDays - 1) * DAY_MS
+    const rows: Array<{ day: number; label: string; correct: number; incorrect: number; rated: number; accuracy: number | null }> = []
+    const byDay = new Map<number, (typeof rows)[number]>()
+    for (let i = 0; i < rangeDays; i++) {
+      const day = startOfDay(firstDay + i * DAY_MS + DAY_MS / 2)
+      const row = { day, label: formatDayLabel(day), correct: 0, incorrect: 0, rated: 0, accuracy: null as number | null }
+      rows.push(row)
+      byDay.set(day, row)
+    }
+    for (const e of entries) {
+      const row = byDay.get(startOfDay(e.ts))
+      if (!row) continue
+      if (e.correct === true) row.correct += 1
+      else if (e.correct === false) row.incorrect += 1
+      else row.rated += 1
+    }
+    for (const row of rows) row.accuracy = percent(row.correct, row.correct + row.incorrect)
+    return rows
+  }, [entries, rangeDays, todayStart])
+
+  const retention = useMemo(() => {
+    const rows = INTERVAL_BUCKETS.map((b) => ({ label: b.label, correct: 0, total: 0, retention: null as number | null }))
+    for (const e of entries) {
+      if (e.kind === 'initial' || e.correct == null || e.prevInterval == null) continue
+      const idx = INTERVAL_BUCKETS.findIndex((b) => e.prevInterval! >= b.min && e.prevInterval! <= b.max)
+      if (idx < 0) continue
+      rows[idx].total += 1
+      if (e.correct) rows[idx].correct += 1
+    }
+    for (const row of rows) row.retention = percent(row.correct, row.total)
+    return rows
+  }, [entries])
+
+  const forecast = useMemo(() => {
+    const calendar = VocabularyStore.getCalendarData(30)
+    const overdue = VocabularyStore.getOverdueCards().length
+    return Array.from(calendar.values()).map((records, i) => ({
+      label: i === 0 ? 'Hôm nay' : formatDayLabel(todayStart + i * DAY_MS + DAY_MS / 2),
+      due: records.length,
+      overdue: i === 0 ? overdue : 0,
+    }))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [VocabularyStore.version, todayStart])
+
+  const streaks = useMemo(() => {
+    const days = new Set<number>()
+    for (const e of entries) days.add(startOfDay(e.ts))
+    return computeStreaks(days, todayStart)
+  }, [entries, todayStart])
+
+  const totals = useMemo(() => {
+    let correct = 0
+    let incorrect = 0
+    let today = 0
+    for (const e of entries) {
+      if (e.correct === true) correct += 1
+      else if (e.correct === false) incorrect += 1
+      if (e.ts >= todayStart) today += 1
+    }
+    return { reviews: entries.length, today, accuracy: percent(correct, correct + incorrect) }
+  }, [entries, todayStart])
+
+  const sources = useMemo(() => {
+    const now = Date.now()
+    type Row = { source: string; name: string; kind: 'csv' | 'pdf' | 'none'; total: number; learning: number; reviewing: number; mastered: number; due: number; reviews: number; correct: number; graded: number }
+    const bySource = new Map<string, Row>()
+    const rowFor = (source: string) => {
+      let row = bySource.get(source)
+      if (!row) {
+        const { name, kind } = describeSource(source)
+        row = { source, name, kind, total: 0, learning: 0, reviewing: 0, mastered: 0, due: 0, reviews: 0, correct: 0, graded: 0 }
+        bySource.set(source, row)
+      }
+      return row
+    }
+    for (const r of VocabularyStore.getAll()) {
+      if (r.state === 'new') continue
+      const row = rowFor(String(r.source || ''))
+      row.total += 1
+      if (r.state === 'learning') row.learning += 1
+      else if (r.state === 'reviewing') row.reviewing += 1
+      else if (r.state === 'mastered') row.mastered += 1
+      if ((r.nextReviewDate || 0) <= now) row.due += 1
+    }
+    for (const e of entries) {
+      const row = rowFor(String(e.source || ''))
+      row.reviews += 1
+      if (e.correct != null) {
+        row.graded += 1
+        if (e.correct) row.correct += 1
+      }
+    }
+    return Array.from(bySource.values()).sort((a, b) => b.total - a.total || b.reviews - a.reviews)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [entries, VocabularyStore.version])
+
+  const storeStats = VocabularyStore.getStats()
+
+  return (
+    <div className="h-full overflow-y-auto bg-slate-50 dark:bg-slate-900">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-gradient-to-br from-sky-500 to-indigo-600 rounded-xl flex items-center justify-center shadow-lg shadow-sky-500/30">
+              <svg className="w-7 h-7 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+              </svg>
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-slate-900 dark:text-white">Thống kê</h1>
+              <p className="text-sm text-slate-500 dark:text-slate-400">Tiến độ học dựa trên lịch sử ôn tập</p>
+            </div>
+          </div>
+          <select value={rangeDays} onChange={(e) => setRangeDays(Number(e.target.value))} className="input-field w-36">
+            {RANGE_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-4">
+          <div className="p-3 bg-gradient-to-br from-violet-50 to-purple-50 dark:from-violet-900/20 dark:to-purple-900/20 rounded-xl border border-violet-200 dark:border-violet-800">
+            <div className="text-2xl font-bold text-violet-600 dark:text-violet-400">{totals.reviews}</div>
+            <div className="text-sm text-slate-600 dark:text-slate-400">Tổng lượt ôn</div>
+          </div>
+          <div className="p-3 bg-gradient-to-br from-sky-50 to-cyan-50 dark:from-sky-900/20 dark:to-cyan-900/20 rounded-xl border border-sky-200 dark:border-sky-800">
+            <div className="text-2xl font-bold text-sky-600 dark:text-sky-400">{totals.today}</div>
+            <div className="text-sm text-slate-600 dark:text-slate-400">Hôm nay</div>
+          </div>
+          <div className="p-3 bg-gradient-to-br from-green-50 to-emerald-50 dark:from-green-900/20 dark:to-emerald-900/20 rounded-xl border border-green-200 dark:border-green-800">
+            <div className="text-2xl font-bold text-green-600 dark:text-green-400">{totals.accuracy != null ? `${totals.accuracy}%` : '—'}</div>
+            <div className="text-sm text-slate-600 dark:text-slate-400">Độ chính xác</div>
+          </div>
+          <div className="p-3 bg-gradient-to-br from-amber-50 to-orange-50 dark:from-amber-900/20 dark:to-orange-900/20 rounded-xl border border-amber-200 dark:border-amber-800">
+            <div className="text-2xl font-bold text-amber-600 dark:text-amber-400">🔥 {streaks.current}</div>
+            <div className="text-sm text-slate-600 dark:text-slate-400">Chuỗi ngày học (dài nhất {streaks.longest})</div>
+          </div>
+          <div className="p-3 bg-gradient-to-br from-red-50 to-orange-50 dark:from-red-900/20 dark:to-orange-900/20 rounded-xl border border-red-200 dark:border-red-800">
+            <div className="text-2xl font-bold text-red-600 dark:text-red-400">{storeStats.dueToday}</div>
+            <div className="text-sm text-slate-600 dark:text-slate-400">Cần ôn ({storeStats.overdue} quá hạn)</div>
+          </div>
+        </div>
+      </div>
+
+      {loading && entries.length === 0 ? (
+        <div className="p-6 text-sm text-slate-500 dark:text-slate-400">Đang tải lịch sử ôn tập...</div>
+      ) : (
+        <div className="p-6 grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div className="card !p-4">
+            <h2 className="font-semibold text-slate-800 dark:text-white mb-3">Lượt ôn mỗi ngày</h2>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={daily}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#94a3b833" />
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="correct" name="Đúng" stackId="a" fill="#10b981" />
+                  <Bar dataKey="incorrect" name="Sai" stackId="a" fill="#f43f5e" />
+                  <Bar dataKey="rated" name="Chỉ đánh giá" stackId="a" fill="#a78bfa" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="card !p-4">
+            <h2 className="font-semibold text-slate-800 dark:text-white mb-3">Độ chính xác theo ngày (%)</h2>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={daily}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#94a3b833" />
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                  <YAxis domain={[0, 100]} tick={{ fontSize: 11 }} />
+                  <Tooltip />
+                  <Line type="monotone" dataKey="accuracy" name="Chính xác" stroke="#8b5cf6" strokeWidth={2} connectNulls dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="card !p-4">
+            <h2 className="font-semibold text-slate-800 dark:text-white mb-1">Tỉ lệ nhớ theo khoảng ôn</h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">Tỉ lệ trả lời đúng, nhóm theo khoảng cách (ngày) kể từ lần ôn trước.</p>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={retention}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#94a3b833" />
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                  <YAxis domain={[0, 100]} tick={{ fontSize: 11 }} />
+                  <Tooltip formatter={(value, _name, item) => [`${value ?? '—'}% (${(item as any)?.payload?.correct ?? 0}/${(item as any)?.payload?.total ?? 0})`, 'Nhớ']} />
+                  <Bar dataKey="retention" name="Nhớ" fill="#0ea5e9" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="card !p-4">
+            <h2 className="font-semibold text-slate-800 dark:text-white mb-3">Dự báo số từ đến hạn (30 ngày)</h2>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={forecast}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#94a3b833" />
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="overdue" name="Quá hạn" stackId="a" fill="#ef4444" />
+                  <Bar dataKey="due" name="Đến hạn" stackId="a" fill="#f59e0b" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="card !p-4 xl:col-span-2">
+            <h2 className="font-semibold text-slate-800 dark:text-white mb-3">Theo nguồn (CSV / PDF)</h2>
+            {sources.length === 0 ? (
+              <div className="text-sm text-slate-500 dark:text-slate-400">Chưa có dữ liệu.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                      <th className="py-2 pr-3">Nguồn</th>
+                      <th className="py-2 pr-3 text-right">Số từ</th>
+                      <th className="py-2 pr-3 text-right">Đang học</th>
+                      <th className="py-2 pr-3 text-right">Đang ôn</th>
+                      <th className="py-2 pr-3 text-right">Đã thuộc</th>
+                      <th className="py-2 pr-3 text-right">Cần ôn</th>
+                      <th className="py-2 pr-3 text-right">Lượt ôn</th>
+                      <th className="py-2 text-right">Chính xác</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sources.map((row) => {
+                      const acc = percent(row.correct, row.graded)
+                      return (
+                        <tr key={row.source} className="border-b border-slate-100 dark:border-slate-700/50 text-slate-700 dark:text-slate-300">
+                          <td className="py-2 pr-3" title={row.source}>
+                            <span className={`mr-2 px-1.5 py-0.5 rounded text-[10px] font-bold ${row.kind === 'pdf' ? 'bg-rose-100 text-rose-700 dark:bg-rose-900/40 dark:text-rose-300' : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300'}`}>
+                              {row.kind === 'pdf' ? 'PDF' : row.kind === 'csv' ? 'CSV' : '—'}
+                            </span>
+                            {row.name}
+                          </td>
+                          <td className="py-2 pr-3 text-right">{row.total}</td>
+                          <td className="py-2 pr-3 text-right">{row.learning}</td>
+                          <td className="py-2 pr-3 text-right">{row.reviewing}</td>
+                          <td className="py-2 pr-3 text-right">{row.mastered}</td>
+                          <td className="py-2 pr-3 text-right">{row.due}</td>
+                          <td className="py-2 pr-3 text-right">{row.reviews}</td>
+                          <td className="py-2 text-right">{acc != null ? `${acc}%` : '—'}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,14 +2,26 @@ import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react'
 import './StudyView.css'
 import ErrorBoundary from '../ErrorBoundary/ErrorBoundary'
 import ConfirmModal from '../ConfirmModal/ConfirmModal'
+import AcceptedAnswersEditor from '../AcceptedAnswersEditor/AcceptedAnswersEditor'
+import AnswerDiff from '../AnswerDiff/AnswerDiff'
 import DifficultySelector from '../DifficultySelector/DifficultySelector'
 import ReviewCalendar from '../ReviewCalendar/ReviewCalendar'
+import SavedDecksPanel from '../SavedDecksPanel/SavedDecksPanel'
 import { useLocation } from 'react-router-dom'
 import { usePersistedState } from '../../hooks/usePersistedState'
-import { VocabularyStore, useVocabularyStore } from '../../store/VocabularyStore'
+import { VocabularyStore, useVocabularyStore, LEARN_AHEAD_MS, isCardActive } from '../../store/VocabularyStore'
 import type { VocabRecord } from '../../store/VocabularyStore'
 import { playSound } from '../../utils/sounds'
-import { preloadAudio, speakWord } from '../../utils/speech'
+import { preloadAudio, speakSentence, speakWord } from '../../utils/speech'
+import { buildCloze, clozeAnswers } from '../../utils/cloze'
+import type { ClozeSentence } from '../../utils/cloze'
+import { buildChoiceOptions, choiceAnswer } from '../../utils/distractors'
+import type { ChoiceDirection } from '../../utils/distractors'
+import { getSynonyms } from '../../utils/synonyms'
+import { formatAccepted, parseAccepted } from '../../utils/acceptedAnswers'
+import { collectTags, matchesAnyTag, parseTags } from '../../utils/tags'
+import { gradeAnswer } from '../../utils/grading'
+import type { GradeResult } from '../../utils/grading'
 
 function shuffle<T>(a:T[]){
   for(let i=a.length-1;i>0;i--){const j=Math.floor(Math.random()*(i+1));[a[i],a[j]]=[a[j],a[i]]}
@@ -27,11 +39,17 @@ type Card = {
   pronunciation?: string;
   pos?: string;
   example?: string;
+  context?: string; // PDF sentence the word was picked from
+  accepted?: string[]; // Other answers accepted in production mode
+  tags?: string[];
   source?: string;
 }
 
-type LearnMode = 'all' | 'random' | 'select' | 'range' | 'unlearned'
-type StudyMode = 'spelling' | 'match'
+// Dictation: how often the audio was replayed before each answer
+type ListenStats = { answers: number; replays: number; slowReplays: number }
+
+type LearnMode = 'all' | 'random' | 'select' | 'range' | 'unlearned' | 'tags'
+type StudyMode = 'spelling' | 'match' | 'cloze' | 'choice' | 'dictation' | 'production'
 type StudyTab = 'custom' | 'smart'
 
 // ==================== SPACED REPETITION SYSTEM (SRS) ====================
@@ -176,6 +194,7 @@ type FileStudyConfig = {
   rangeStart: number | string
   rangeEnd: number | string
   selectedMap: Record<number, boolean>
+  tags?: string[] // 'tags' mode: study words having any of these tags
 }
 
 type CardId = {
@@ -207,6 +226,7 @@ type StudySessionV1 = {
   reviewedWords?: CardId[]
   wrongInCurrentRoundKeys?: string[]
   wrongCountByCardKey?: Record<string, number>
+  listenStatsByCardKey?: Record<string, ListenStats>
   srsQueueIds?: string[]
   srsToReviewIds?: string[]
   srsReviewedIds?: string[]
@@ -237,8 +257,28 @@ export default function Study(){
   const [showViHint, setShowViHint] = useState(false)
   const [showSrsViHint, setShowSrsViHint] = useState(false)
   const [studyMode, setStudyMode] = usePersistedState<StudyMode>('study_mode', 'spelling')
+  // Cloze: generate an example sentence (AI) for cards that have none, and save it to the deck
+  const [clozeAutoExample, setClozeAutoExample] = usePersistedState<boolean>('study_clozeAutoExample', false)
+  const [generatedExamples, setGeneratedExamples] = useState<Record<string, string>>({})
+  const [clozeExampleLoadingKey, setClozeExampleLoadingKey] = useState<string | null>(null)
+  const [clozeExampleError, setClozeExampleError] = useState('')
+  const clozeExampleRequestedRef = useRef<Set<string>>(new Set())
+  // Multiple choice: options for the current card (null while synonyms are loading)
+  const [choiceDirection, setChoiceDirection] = usePersistedState<ChoiceDirection>('study_choiceDirection', 'word-to-meaning')
+  const [choiceOptions, setChoiceOptions] = useState<{ key: string; options: string[] } | null>(null)
+  const synonymsCacheRef = useRef<Map<string, Promise<string[]>>>(new Map())
+  // Dictation: replays of the current attempt, and totals per card for the session
+  const [dictationWithExample, setDictationWithExample] = usePersistedState<boolean>('study_dictationWithExample', false)
+  const [listenAttempt, setListenAttempt] = useState({ replays: 0, slowReplays: 0 })
+  const [listenStatsByCardKey, setListenStatsByCardKey] = useState<Record<string, ListenStats>>({})
   const [studyTab, setStudyTab] = usePersistedState<StudyTab>('study_tab', 'custom')
   const [lastAnswerCorrect, setLastAnswerCorrect] = useState<boolean | null>(null)
+  // Production mode: answer was on the card's accepted list but is not the target word
+  const [answerAcceptedAlt, setAnswerAcceptedAlt] = useState(false)
+  // Grading details of the last typed answer (diff + "I was right" override)
+  const [lastGrade, setLastGrade] = useState<GradeResult | null>(null)
+  // Whether the last wrong answer was the one that put the card on this round's review list
+  const lastWrongMarkRef = useRef<{ key: string; newlyMarked: boolean } | null>(null)
   const [toReview, setToReview] = useState<Card[]>([])
   const toReviewRef = useRef<Card[]>([])
   const [round, setRound] = useState<number>(1)
@@ -273,12 +313,14 @@ export default function Study(){
   // Smart Review round-based learning (like Custom): wrong in this round -> reviewed in next round
   const [srsToReview, setSrsToReview] = useState<VocabRecord[]>([])
   const srsToReviewRef = useRef<VocabRecord[]>([])
+  // Cards in minute-level learning steps, waiting to come back within this session
+  const srsStepPendingRef = useRef<Array<{ card: VocabRecord; dueAt: number }>>([])
 
   const [smartSyncing, setSmartSyncing] = useState(false)
 
   const exportSmartReview = useCallback(async () => {
     try {
-      const raw = localStorage.getItem('vocab_store_v2') || '{}'
+      const raw = JSON.stringify(VocabularyStore.exportData())
       const savedPath = await window.api.exportSmartReview(raw)
       if (savedPath) {
         window.alert(`Đã xuất Smart Review ra file:\n${savedPath}`)
@@ -289,6 +331,18 @@ export default function Study(){
     }
   }, [])
 
+  const exportSmartReviewToAnki = useCallback(async () => {
+    try {
+      const res = await window.api.ankiExportRecords('Smart Review', VocabularyStore.getAll())
+      if (res) {
+        window.alert(`Đã xuất ${res.count} thẻ sang Anki:\n${res.filePath}`)
+      }
+    } catch (e: any) {
+      const msg = e && typeof e === 'object' && 'message' in e ? (e as any).message : String(e)
+      window.alert(`Export thất bại: ${msg}`)
+    }
+  }, [])
+
   const syncSmartReviewMetadata = useCallback(async () => {
     if (smartSyncing) return
     const ok = window.confirm('Đồng bộ pos/example từ các file CSV nguồn vào Smart Review?')
@@ -457,6 +511,7 @@ export default function Study(){
     reviewedWords: (reviewedWords || []).map(toCardId),
     wrongInCurrentRoundKeys: Array.from(wrongInCurrentRound || []),
     wrongCountByCardKey: { ...(wrongCountByCardKey || {}) },
+    listenStatsByCardKey: { ...(listenStatsByCardKey || {}) },
     srsQueueIds: (srsQueue || []).map((x) => String(x?.id || '')).filter(Boolean),
     srsToReviewIds: (srsToReview || []).map((x) => String(x?.id || '')).filter(Boolean),
     srsReviewedIds: (srsReviewedWords || []).map((x) => String(x?.id || '')).filter(Boolean),
@@ -594,6 +649,7 @@ export default function Study(){
         const restoredWrongCounts = session.wrongCountByCardKey || {}
         setWrongCountByCardKey(restoredWrongCounts)
         wrongCountByCardKeyRef.current = restoredWrongCounts
+        setListenStatsByCardKey(session.listenStatsByCardKey || {})
 
         setRound(Number(session.round) || 1)
 
@@ -678,7 +734,7 @@ export default function Study(){
 
     return () => window.clearTimeout(t)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [phase, studyMode, studyTab, round, srsRound, selectedFiles, fileConfigs, index, srsIndex, revealLevel, lastAnswerCorrect, stats, srsStats, queue, deck, toReview, reviewedWords, wrongInCurrentRound, wrongCountByCardKey, difficultySelectMode, smartDifficultyFromCalendar, srsQueue, srsToReview, srsReviewedWords, srsWrongInCurrentRound, srsWrongCountById])
+    }, [phase, studyMode, studyTab, round, srsRound, selectedFiles, fileConfigs, index, srsIndex, revealLevel, lastAnswerCorrect, stats, srsStats, queue, deck, toReview, reviewedWords, wrongInCurrentRound, wrongCountByCardKey, listenStatsByCardKey, difficultySelectMode, smartDifficultyFromCalendar, srsQueue, srsToReview, srsReviewedWords, srsWrongInCurrentRound, srsWrongCountById])
 
   // Persist current input with debounce (so it restores mid-typing without rewriting the whole session).
   useEffect(() => {
@@ -701,6 +757,7 @@ export default function Study(){
     rangeStart: '',
     rangeEnd: '',
     selectedMap: {},
+    tags: [],
   })
 
   useEffect(()=>{ 
@@ -765,9 +822,112 @@ export default function Study(){
     return example.replace(re, mask)
   }
 
+  // Dictation: manual plays count as replays for the current answer
+  function replayDictation(card: Card | undefined, slow: boolean, sentence = false) {
+    if (!card) return
+    setListenAttempt((prev) => ({
+      replays: prev.replays + 1,
+      slowReplays: prev.slowReplays + (slow ? 1 : 0),
+    }))
+    if (sentence) speakSentence(String(card.example || ''), { slow })
+    else void speakWord(card.word, { slow })
+  }
+
+  // Multiple choice: synonyms are fetched once per word; a slow lookup falls back to deck-only distractors
+  function loadSynonymsForChoice(word: string): Promise<string[]> {
+    const key = String(word || '').trim().toLowerCase()
+    const cached = synonymsCacheRef.current.get(key)
+    if (cached) return cached
+    const p = getSynonyms(word)
+      .then((resp) => (resp?.synonyms || []).map((x) => x.word))
+      .catch(() => [] as string[])
+    synonymsCacheRef.current.set(key, p)
+    const timeout = new Promise<string[]>((resolve) => window.setTimeout(() => resolve([]), 2500))
+    return Promise.race([p, timeout])
+  }
+
+  // Cloze: first sentence (example, PDF context, generated) that actually contains the word
+  const clozeForCard = (card: Card | undefined): ClozeSentence | null => {
+    if (!card) return null
+    const key = makeCardKey(card.source, card.word, card.meaning)
+    for (const sentence of [card.example, card.context, generatedExamples[key]]) {
+      const cloze = buildCloze(String(sentence || ''), card.word, card.pos)
+      if (cloze) return cloze
+    }
+    return null
+  }
+
+  async function generateClozeExample(card: Card) {
+    const key = makeCardKey(card.source, card.word, card.meaning)
+    if (clozeExampleRequestedRef.current.has(key)) return
+    if (!window.api?.suggestExampleSentence) return
+    clozeExampleRequestedRef.current.add(key)
+    setClozeExampleLoadingKey(key)
+    setClozeExampleError('')
+    try {
+      const out = await window.api.suggestExampleSentence({
+        word: card.word,
+        meaningVi: card.meaningVi || card.meaning,
+        pos: card.pos || '',
+        contextSentenceEn: card.context || '',
+      })
+      const sentence = String(out || '').trim()
+      if (!sentence) return
+      setGeneratedExamples((prev) => ({ ...prev, [key]: sentence }))
+
+      // Save into the deck so the sentence is reused next time (only fills an empty example).
+      if (card.source && !String(card.example || '').trim()) {
+        const rows = await window.api.readCsv(card.source)
+        const idx = (rows || []).findIndex((r) => r.word === card.word && r.meaning === card.meaning)
+        if (idx >= 0 && !String(rows[idx].example || '').trim()) {
+          await window.api.editWord(card.source, idx, { example: sentence })
+          card.example = sentence
+        }
+      }
+    } catch (err) {
+      console.error('suggestExampleSentence failed', err)
+      setClozeExampleError(`Không tạo được câu ví dụ: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setClozeExampleLoadingKey((k) => (k === key ? null : k))
+    }
+  }
+
+  async function saveAcceptedAnswers(card: Card, next: string[]) {
+    if (!card.source) throw new Error('Từ này không thuộc file nào')
+    const rows = await window.api.readCsv(card.source)
+    const idx = (rows || []).findIndex((r) => r.word === card.word && r.meaning === card.meaning)
+    if (idx < 0) throw new Error('Không tìm thấy từ trong file')
+    await window.api.editWord(card.source, idx, { accepted: formatAccepted(next) })
+    card.accepted = parseAccepted(formatAccepted(next))
+    // Cards are shared between queue/deck; re-render with the updated list
+    setQueue((q) => [...q])
+  }
+
+  // PDF decks: sentence each word was selected from, keyed like highlights.json wordKey (word_meaning)
+  async function loadPdfContextForDeck(filePath: string): Promise<Map<string, string>> {
+    const out = new Map<string, string>()
+    try {
+      let pdfs: any[] = pdfList
+      if (pdfs.length === 0 && window.api.pdfList) pdfs = (await window.api.pdfList()) || []
+      const pdf = pdfs.find((p: any) => p?.deckCsvPath === filePath)
+      if (!pdf?.pdfId) return out
+      const raw: any = await window.api.pdfReadHighlights(pdf.pdfId)
+      const list = Array.isArray(raw) ? raw : Array.isArray(raw?.highlights) ? raw.highlights : []
+      for (const h of list) {
+        const ctx = String(h?.contextSentenceEn || '').trim()
+        const key = String(h?.wordKey || '')
+        if (ctx && key && !out.has(key)) out.set(key, ctx)
+      }
+    } catch (err) {
+      console.error('pdfReadHighlights error', filePath, err)
+    }
+    return out
+  }
+
   async function fetchCsvForFile(filePath: string): Promise<Card[]> {
     try {
       const rows = await window.api.readCsv(filePath)
+      const contextByKey = await loadPdfContextForDeck(filePath)
       const out: Card[] = []
       for (const r of rows || []) {
         if (!r?.word || !r?.meaning) continue
@@ -782,6 +942,9 @@ export default function Study(){
           pronunciation: ipaCore(r.pronunciation || ''),
           pos: String((r as any).pos || ''),
           example: String(r.example || ''),
+          accepted: parseAccepted(r.accepted),
+          tags: parseTags(r.tags),
+          context: contextByKey.get(`${r.word}_${r.meaning}`.toLowerCase()) || '',
           source: filePath,
         })
       }
@@ -800,6 +963,52 @@ export default function Study(){
     setShowSrsViHint(showMeaningByDefault)
   }, [srsQueue, srsIndex, showMeaningByDefault])
 
+  // Dictation: play the word (then the example, if enabled) whenever a card is shown or retried
+  useEffect(() => {
+    if (studyMode !== 'dictation' || phase !== 'studying') return
+    const card = queue[index]
+    if (!card) return
+    setListenAttempt({ replays: 0, slowReplays: 0 })
+    void speakWord(card.word)
+    const example = String(card.example || '').trim()
+    if (!dictationWithExample || !example) return
+    const t = window.setTimeout(() => speakSentence(example), 1500)
+    return () => window.clearTimeout(t)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [studyMode, phase, queue, index])
+
+  // Multiple choice: build options when a card is shown (and warm up synonyms for the next one)
+  useEffect(() => {
+    if (studyMode !== 'choice' || phase !== 'studying') return
+    const card = queue[index]
+    if (!card) return
+    const key = `${makeCardKey(card.source, card.word, card.meaning)}|${choiceDirection}`
+    if (choiceOptions?.key === key) return
+    setChoiceOptions(null)
+    let cancelled = false
+    const pool = [...(fileCardsByPath[card.source || ''] || []), ...deck]
+    loadSynonymsForChoice(card.word).then((synonyms) => {
+      if (cancelled) return
+      setChoiceOptions({ key, options: buildChoiceOptions(card, pool, choiceDirection, synonyms) })
+    })
+    const next = queue[index + 1]
+    if (next) void loadSynonymsForChoice(next.word)
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [studyMode, phase, queue, index, choiceDirection])
+
+  // Cloze: fetch a sentence for the current and next card when they have none
+  useEffect(() => {
+    if (studyMode !== 'cloze' || !clozeAutoExample) return
+    if (phase !== 'studying' && phase !== 'review-result') return
+    for (const card of [queue[index], queue[index + 1]]) {
+      if (card && !clozeForCard(card)) void generateClozeExample(card)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [studyMode, clozeAutoExample, phase, queue, index])
+
   function applyLearnModeForFile(allCards: Card[], cfg: FileStudyConfig): Card[] {
     const mode = cfg?.mode || 'all'
     if (mode === 'all') return allCards
@@ -842,6 +1051,10 @@ export default function Study(){
       return allCards.filter((_, idx) => !!sel[idx])
     }
 
+    if (mode === 'tags') {
+      return allCards.filter(card => matchesAnyTag(card.tags, cfg.tags || []))
+    }
+
     return allCards
   }
 
@@ -865,6 +1078,12 @@ export default function Study(){
         }
       }
 
+      // Validate tags mode: must pick at least 1 tag
+      if (cfg?.mode === 'tags' && (cfg.tags || []).length === 0) {
+        setUiError(`Bạn đang chọn học theo tag nhưng chưa chọn tag nào cho file: ${f}`)
+        return
+      }
+
       // Validate random mode
       if (cfg?.mode === 'random') {
         const val = cfg.randomCount
@@ -940,14 +1159,56 @@ export default function Study(){
       combined.push(...subset)
     }
 
-    const shuffled = shuffle(combined)
+    // Suspended/buried words stay out of Custom Study too
+    const now = Date.now()
+    const studyCards = combined.filter((card) => {
+      const record = VocabularyStore.getByWord(card.source, card.word, card.meaning)
+      return !record || isCardActive(record, now)
+    })
+    if (studyCards.length === 0 && combined.length > 0) {
+      setUiError('Tất cả từ đã chọn đang tạm ngưng hoặc đã chôn đến mai.')
+      return
+    }
+
+    beginCustomSession(studyCards)
+  }
+
+  // Study a saved query deck with the Custom Study flow (ratings feed Smart Review as usual)
+  function startSavedDeck(records: VocabRecord[]) {
+    const now = Date.now()
+    const cards: Card[] = records
+      .filter((r) => isCardActive(r, now))
+      .map((r) => ({
+        word: r.word,
+        meaning: r.meaning,
+        meaningEn: r.meaningEn || r.meaningNoteEn || '',
+        meaningVi: r.meaningVi || r.meaningNoteVi || r.meaningNoteVie || '',
+        meaningNoteEn: r.meaningEn || r.meaningNoteEn || '',
+        meaningNoteVi: r.meaningVi || r.meaningNoteVi || r.meaningNoteVie || '',
+        meaningNoteVie: r.meaningVi || r.meaningNoteVi || r.meaningNoteVie || '',
+        pronunciation: ipaCore(r.pronunciation || ''),
+        pos: r.pos || '',
+        example: r.example || '',
+        tags: r.tags,
+        source: r.source,
+      }))
+    if (cards.length === 0) {
+      setUiError(records.length > 0 ? 'Tất cả từ trong bộ này đang tạm ngưng hoặc đã chôn đến mai.' : 'Bộ từ này không có từ nào.')
+      return
+    }
+    setUiError('')
+    beginCustomSession(cards)
+  }
+
+  function beginCustomSession(studyCards: Card[]) {
+    const shuffled = shuffle(studyCards)
     setDeck(shuffled)
     
     // Check study mode and start appropriate game
     if (studyMode === 'match') {
       startMatchGame(shuffled)
     } else {
-      // Spelling mode (default)
+      // Spelling mode (default) and Cloze mode share the same round-based flow
       // Reset reviewed words for this session (so difficulty rating matches this session only)
       setReviewedWords([])
       reviewedWordsRef.current = []
@@ -963,6 +1224,7 @@ export default function Study(){
       setStats({ correct: 0, incorrect: 0, hard: 0, easy: 0 })
       setWrongCountByCardKey({})
       wrongCountByCardKeyRef.current = {}
+      setListenStatsByCardKey({})
     }
   }
 
@@ -1031,6 +1293,15 @@ export default function Study(){
     })
   }
 
+  function toggleFileTag(filePath: string, tag: string) {
+    setFileConfigs((prev) => {
+      const base = prev?.[filePath] || defaultFileConfig()
+      const current = base.tags || []
+      const tags = current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]
+      return { ...(prev || {}), [filePath]: { ...base, tags } }
+    })
+  }
+
   function toggleSelectedWord(filePath: string, idx: number, checked: boolean) {
     setFileConfigs((prev) => {
       const base = prev?.[filePath] || defaultFileConfig()
@@ -1047,11 +1318,13 @@ export default function Study(){
     })
   }
 
-  // handle submit answer
-  function submitAnswer(){
+  // handle submit answer (multiple choice passes the picked option)
+  function submitAnswer(picked?: string){
     if (phase !== 'studying') return
     if (submittingRef.current) return  // Prevent double-submit
     submittingRef.current = true
+    const answer = typeof picked === 'string' ? picked : input
+    if (typeof picked === 'string') setInput(picked)
     
     const card = queue[index]
     if (!card) {
@@ -1064,10 +1337,28 @@ export default function Study(){
         .replace(/[\u00A0\u2000-\u200B\u202F\u205F\u3000]/g, ' ') // Convert special spaces to regular space
         .replace(/\s+/g, ' ') // Collapse multiple spaces
         .trim()
-    const normalized = normalizeAnswer(input)
-    const correct = normalizeAnswer(card.word)
-    const isCorrect = normalized === correct
+    // Dictation tolerates punctuation as well as case ("don't" = "dont", "well-known" = "well known")
+    const normalizeHeard = (s: string) =>
+      normalizeAnswer(s).replace(/[-\u2010-\u2014_/]+/g, ' ').replace(/[^\p{L}\p{N}\s]+/gu, '').replace(/\s+/g, ' ').trim()
+    const normalized = normalizeAnswer(answer)
+    // Cloze also accepts the inflected form shown in the sentence (e.g. "studied" for "study")
+    const accepted = studyMode === 'cloze'
+      ? clozeAnswers(clozeForCard(card), card.word, card.pos).map(normalizeAnswer)
+      : studyMode === 'choice'
+        ? [normalizeAnswer(choiceAnswer(card, choiceDirection))]
+        : [normalizeAnswer(card.word)]
+    const grade = studyMode === 'dictation'
+      ? gradeAnswer(normalizeHeard(answer), normalizeHeard(card.word))
+      : gradeAnswer(normalized, accepted)
+    const isTarget = grade.verdict === 'correct'
+    const isAcceptedAlt = !isTarget && studyMode === 'production' &&
+      (card.accepted || []).some((a) => normalizeAnswer(a) === normalized)
+    // An accepted alternative passes the card but is reported separately from a plain "correct"
+    const isCorrect = isTarget || isAcceptedAlt
     setLastAnswerCorrect(isCorrect)
+    setAnswerAcceptedAlt(isAcceptedAlt)
+    // Multiple choice has nothing to diff
+    setLastGrade(studyMode === 'choice' || isCorrect ? null : grade)
     
     // IPA lookup in background - don't block UI
     if (!ipaCore(card.pronunciation || '')) {
@@ -1078,6 +1369,19 @@ export default function Study(){
     
     // ✅ Track ALL reviewed words for difficulty selection (not just wrong ones)
     const cardKey = makeCardKey(card.source, card.word, card.meaning)
+    if (studyMode === 'dictation') {
+      setListenStatsByCardKey((prev) => {
+        const cur = prev?.[cardKey] || { answers: 0, replays: 0, slowReplays: 0 }
+        return {
+          ...(prev || {}),
+          [cardKey]: {
+            answers: cur.answers + 1,
+            replays: cur.replays + listenAttempt.replays,
+            slowReplays: cur.slowReplays + listenAttempt.slowReplays,
+          },
+        }
+      })
+    }
     const alreadyTracked = reviewedWordsRef.current.some(
       c => makeCardKey(c.source, c.word, c.meaning) === cardKey
     )
@@ -1097,6 +1401,7 @@ export default function Study(){
         ...(prev || {}),
         [cardKey]: Number(prev?.[cardKey] || 0) + 1,
       }))
+      lastWrongMarkRef.current = { key: cardKey, newlyMarked: !wrongInCurrentRoundRef.current.has(cardKey) }
       // ✅ NEW: Mark as wrong in current round (will be reviewed next round)
       setWrongInCurrentRound(prev => {
         const next = new Set(prev)
@@ -1110,6 +1415,68 @@ export default function Study(){
     setTimeout(() => { submittingRef.current = false }, 50)
   }
 
+  // "I was right": undo the wrong verdict so the card counts as correct,
+  // which is what DifficultySelector uses for the SRS update at the end of the session.
+  function overrideAsCorrect() {
+    if (lastAnswerCorrect) return
+    const smart = phase === 'srs-review-result'
+    if (!smart && phase !== 'review-result') return
+    const card = smart ? srsQueue[srsIndex] : queue[index]
+    if (!card) return
+    const key = smart ? String((card as VocabRecord).id) : makeCardKey(card.source, card.word, card.meaning)
+    const dropOne = (prev: Record<string, number>) => {
+      const next = { ...(prev || {}) }
+      const n = Math.max(0, Number(next[key] || 0) - 1)
+      if (n > 0) next[key] = n
+      else delete next[key]
+      return next
+    }
+    const unmarkRound = lastWrongMarkRef.current?.key === key && lastWrongMarkRef.current.newlyMarked
+    const withoutKey = (prev: Set<string>) => {
+      const next = new Set(prev)
+      next.delete(key)
+      return next
+    }
+
+    if (smart) {
+      setSrsWrongCountById(dropOne)
+      if (unmarkRound) setSrsWrongInCurrentRound(withoutKey)
+    } else {
+      setWrongCountByCardKey(dropOne)
+      if (unmarkRound) setWrongInCurrentRound(withoutKey)
+      setStats((st) => ({ ...st, correct: st.correct + 1, incorrect: Math.max(0, st.incorrect - 1) }))
+    }
+    lastWrongMarkRef.current = null
+    setLastAnswerCorrect(true)
+    setLastGrade(null)
+    playSound('correct')
+  }
+
+  // Diff of the last wrong answer, with the "I was right" override
+  function renderGradeFeedback() {
+    if (lastAnswerCorrect || !lastGrade) return null
+    return (
+      <div className="p-3 rounded-2xl border-2 border-slate-200 dark:border-slate-600 bg-white/70 dark:bg-slate-800/70">
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <div>
+            <div className="text-xs font-bold uppercase tracking-wide mb-1 text-slate-500 dark:text-slate-400">
+              {lastGrade.verdict === 'slip' ? 'Gần đúng — chỉ sai 1 ký tự' : 'So sánh'}
+            </div>
+            <AnswerDiff expected={lastGrade.expected} typed={lastGrade.typed} className="text-lg text-slate-800 dark:text-slate-200" />
+          </div>
+          <button
+            type="button"
+            onClick={overrideAsCorrect}
+            className="btn-secondary px-3 py-1.5 text-xs"
+            title="Tính câu trả lời này là đúng"
+          >
+            Tôi đúng
+          </button>
+        </div>
+      </div>
+    )
+  }
+
   // ==================== NEW ROUND-BASED LEARNING ====================
   // Only 2 choices: "Làm lại" (retry immediately) or "Cho qua" (pass to next word)
   // Words that were wrong ALWAYS go to next round, regardless of retry result
@@ -1221,6 +1588,8 @@ export default function Study(){
     wrongCountByCardKeyRef.current = {}
     setReviewedWords([])
     reviewedWordsRef.current = []
+    setClozeExampleError('')
+    setListenStatsByCardKey({})
     // Reset submitting flags
     submittingRef.current = false
     srsSubmittingRef.current = false
@@ -1249,6 +1618,7 @@ export default function Study(){
     srsReviewedWordsRef.current = []
     setSrsToReview([])
     srsToReviewRef.current = []
+    srsStepPendingRef.current = []
     setSrsWrongInCurrentRound(new Set())
     srsWrongInCurrentRoundRef.current = new Set()
     setSrsWrongCountById({})
@@ -1407,8 +1777,14 @@ export default function Study(){
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const _nowTickForRerender = nowTick
   const vocabStats = VocabularyStore.getStats()
+  // Today's queue respects the per-day new/review limits; rebuilt when the store changes and once a
+  // minute, so learning-step cards (1m/10m) join the queue when they come due
+  const vocabVersion = VocabularyStore.version
+  const minuteBucket = Math.floor(nowTick / 60000)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const dailyQueue = useMemo(() => VocabularyStore.getDailyQueue(), [vocabVersion, minuteBucket])
   const srsStatsComputed = {
-    due: vocabStats.dueToday,
+    due: dailyQueue.queue.length,
     total: Math.max(0, vocabStats.total - vocabStats.new),
     mastered: vocabStats.mastered,
   }
@@ -1432,9 +1808,10 @@ export default function Study(){
     const startMs = start.getTime()
     const endMs = startMs + 24 * 60 * 60 * 1000
 
+    const now = Date.now()
     const wordsOfDay = VocabularyStore.getAll().filter((r) => {
       const nr = Number(r.nextReviewDate || 0)
-      return r.state !== 'new' && nr >= startMs && nr < endMs
+      return r.state !== 'new' && isCardActive(r, now) && nr >= startMs && nr < endMs
     })
 
     if (wordsOfDay.length === 0) {
@@ -1459,6 +1836,7 @@ export default function Study(){
     srsReviewedWordsRef.current = []
     setSrsToReview([])
     srsToReviewRef.current = []
+    srsStepPendingRef.current = []
     setSrsWrongInCurrentRound(new Set())
     srsWrongInCurrentRoundRef.current = new Set()
     setSrsWrongCountById({})
@@ -1478,20 +1856,20 @@ export default function Study(){
 
   // Calculate overdue and today cards for display
   const srsCardBreakdown = (() => {
-    const dueCards = VocabularyStore.getDueCards()
+    const dueCards = dailyQueue.queue
     const todayStart = getTodayStart()
     const tomorrowStart = todayStart + 24 * 60 * 60 * 1000
     
-    const overdueCards = dueCards.filter(c => (c.nextReviewDate || 0) < todayStart)
+    const overdueCards = dueCards.filter(c => c.state !== 'new' && (c.nextReviewDate || 0) < todayStart)
     const todayCards = dueCards.filter(c => {
       const nr = c.nextReviewDate || 0
-      return nr >= todayStart && nr < tomorrowStart
+      return c.state !== 'new' && nr >= todayStart && nr < tomorrowStart
     })
     
     return { overdueCards, todayCards, allDue: dueCards }
   })()
 
-  // Start SRS session with all due cards (overdue + today)
+  // Start SRS session with today's queue (overdue + today + new, within the daily limits)
   async function startSRSSessionAll() {
     const dueCards = srsCardBreakdown.allDue
     
@@ -1500,7 +1878,8 @@ export default function Study(){
       return
     }
 
-    setSrsQueue(shuffle([...dueCards]))
+    // Keep the interleaved order from the daily queue
+    setSrsQueue([...dueCards])
     setSrsIndex(0)
     setSrsRound(1)
     setSrsStats({ reviewed: 0, correct: 0, incorrect: 0 })
@@ -1508,6 +1887,7 @@ export default function Study(){
     srsReviewedWordsRef.current = []
     setSrsToReview([])
     srsToReviewRef.current = []
+    srsStepPendingRef.current = []
     setSrsWrongInCurrentRound(new Set())
     srsWrongInCurrentRoundRef.current = new Set()
     setSrsWrongCountById({})
@@ -1535,6 +1915,7 @@ export default function Study(){
     srsReviewedWordsRef.current = []
     setSrsToReview([])
     srsToReviewRef.current = []
+    srsStepPendingRef.current = []
     setSrsWrongInCurrentRound(new Set())
     srsWrongInCurrentRoundRef.current = new Set()
     setSrsWrongCountById({})
@@ -1547,18 +1928,21 @@ export default function Study(){
 
   // Start SRS session - CHỈ ôn các từ đã học qua Custom Study
   async function startSRSSession() {
-    const dueCards = VocabularyStore.getDueCards()
+    const daily = VocabularyStore.getDailyQueue()
+    const dueCards = daily.queue
     
     if (dueCards.length === 0) {
       if (VocabularyStore.getAll().filter(r => r.state !== 'new').length === 0) {
         setUiError('Chưa có từ nào trong hệ thống ôn tập. Hãy học từ mới qua Custom Study trước!')
+      } else if (daily.deferred.review + daily.deferred.new > 0) {
+        setUiError('Bạn đã đạt giới hạn ôn tập hôm nay. Các từ còn lại sẽ được ôn vào ngày mai.')
       } else {
         setUiError('Tuyệt vời! Bạn đã ôn tập hết tất cả từ hôm nay. Quay lại sau nhé!')
       }
       return
     }
 
-    setSrsQueue(shuffle([...dueCards]))
+    setSrsQueue([...dueCards])
     setSrsIndex(0)
     setSrsRound(1)
     setSrsStats({ reviewed: 0, correct: 0, incorrect: 0 })
@@ -1566,6 +1950,7 @@ export default function Study(){
     srsReviewedWordsRef.current = []
     setSrsToReview([])
     srsToReviewRef.current = []
+    srsStepPendingRef.current = []
     setSrsWrongInCurrentRound(new Set())
     srsWrongInCurrentRoundRef.current = new Set()
     setSrsWrongCountById({})
@@ -1596,11 +1981,11 @@ export default function Study(){
         .replace(/[\u00A0\u2000-\u200B\u202F\u205F\u3000]/g, ' ') // Convert special spaces to regular space
         .replace(/\s+/g, ' ') // Collapse multiple spaces
         .trim()
-    const normalized = normalizeAnswer(input)
-    const correct = normalizeAnswer(card.word)
-    const isCorrect = normalized === correct
+    const grade = gradeAnswer(normalizeAnswer(input), normalizeAnswer(card.word))
+    const isCorrect = grade.verdict === 'correct'
     
     setLastAnswerCorrect(isCorrect)
+    setLastGrade(isCorrect ? null : grade)
     
     // Play sound based on result
     if (isCorrect) {
@@ -1614,6 +1999,7 @@ export default function Study(){
       }))
       // Mark wrong in current round so it must appear again next round (even if user retries later)
       const k = String(card.id)
+      lastWrongMarkRef.current = { key: k, newlyMarked: !srsWrongInCurrentRoundRef.current.has(k) }
       setSrsWrongInCurrentRound(prev => {
         const next = new Set(prev)
         next.add(k)
@@ -1678,9 +2064,17 @@ export default function Study(){
       setSrsReviewedWords(next)
     }
 
-    // Round-based behavior: wrong in this round -> queue for next round
+    // Learning steps: the card comes back after its step delay (1m, 10m, ...) instead of
+    // waiting for the next round. The step is persisted, so it survives an app restart.
     const k = String(card.id)
-    if (srsWrongInCurrentRoundRef.current.has(k)) {
+    const stepped = VocabularyStore.answerLearningStep(card.id, !wasCorrect || srsWrongInCurrentRoundRef.current.has(k))
+    if (stepped && typeof stepped.learningStep === 'number') {
+      srsStepPendingRef.current = [
+        ...srsStepPendingRef.current.filter((p) => p.card.id !== card.id),
+        { card: stepped, dueAt: stepped.nextReviewDate },
+      ]
+    } else if (srsWrongInCurrentRoundRef.current.has(k)) {
+      // Round-based behavior: wrong in this round -> queue for next round
       const prev = srsToReviewRef.current || []
       const exists = prev.some((c) => c.id === card.id)
       if (!exists) {
@@ -1693,22 +2087,45 @@ export default function Study(){
     advanceAfterSRSResult()
   }
 
+  // Remove and return the pending step cards that are due by `until`
+  function takeDueStepCards(until: number): VocabRecord[] {
+    const due = srsStepPendingRef.current.filter((p) => p.dueAt <= until)
+    if (due.length === 0) return []
+    srsStepPendingRef.current = srsStepPendingRef.current.filter((p) => p.dueAt > until)
+    // A fresh attempt: an earlier miss in this round must not reset the step again
+    const nextWrong = new Set(srsWrongInCurrentRoundRef.current)
+    due.forEach((p) => nextWrong.delete(String(p.card.id)))
+    srsWrongInCurrentRoundRef.current = nextWrong
+    setSrsWrongInCurrentRound(nextWrong)
+    return due.sort((a, b) => a.dueAt - b.dueAt).map((p) => p.card)
+  }
+
   function advanceAfterSRSResult() {
     setInput('')
     setRevealLevel(0)
     setLastAnswerCorrect(null)
     
     const nextIndex = srsIndex + 1
+    // Step cards whose delay has passed are shown next
+    const dueSteps = takeDueStepCards(Date.now())
+    if (dueSteps.length > 0) {
+      setSrsQueue((q) => [...q.slice(0, nextIndex), ...dueSteps, ...q.slice(nextIndex)])
+      setSrsIndex(nextIndex)
+      setPhase('srs-studying')
+      return
+    }
     if (nextIndex < srsQueue.length) {
       setSrsIndex(nextIndex)
       setPhase('srs-studying')
       return
     }
 
-    // End of round -> next round is the accumulated review list
+    // End of round -> next round is the accumulated review list,
+    // plus step cards coming due soon (learn ahead rather than ending the session)
     const reviewCards = srsToReviewRef.current || []
-    if (reviewCards.length > 0) {
-      setSrsQueue(shuffle([...reviewCards]))
+    const aheadSteps = takeDueStepCards(Date.now() + LEARN_AHEAD_MS)
+    if (reviewCards.length > 0 || aheadSteps.length > 0) {
+      setSrsQueue([...shuffle([...reviewCards]), ...aheadSteps])
       setSrsToReview([])
       srsToReviewRef.current = []
       setSrsWrongInCurrentRound(new Set())
@@ -1810,6 +2227,22 @@ export default function Study(){
     return () => window.removeEventListener('keydown', onKey)
   }, [phase, autoModeEnabled, lastAnswerCorrect])
 
+  // Multiple choice: number keys pick an option
+  useEffect(() => {
+    if (phase !== 'studying' || studyMode !== 'choice' || !choiceOptions) return
+    const onKey = (e: KeyboardEvent) => {
+      const n = Number(e.key)
+      if (!Number.isInteger(n) || n < 1 || n > choiceOptions.options.length) return
+      e.preventDefault()
+      e.stopPropagation()
+      if (e.repeat) return
+      submitAnswer(choiceOptions.options[n - 1])
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phase, studyMode, choiceOptions])
+
   // Keep typing responsive: focus the input when starting/advancing in studying phase.
   useEffect(() => {
     if (phase !== 'studying' && phase !== 'srs-studying') return
@@ -1885,6 +2318,14 @@ export default function Study(){
   // progress counts
   const totalToLearn = queue.length
   const currentPos = Math.min(index+1, totalToLearn)
+  const currentCard = queue[index] as Card | undefined
+  const currentCardKey = currentCard ? makeCardKey(currentCard.source, currentCard.word, currentCard.meaning) : ''
+  const currentCloze = studyMode === 'cloze' ? clozeForCard(currentCard) : null
+  // Word being asked: in cloze mode the (possibly inflected) form that fills the first blank
+  const studyTarget = currentCloze?.blanks[0] || currentCard?.word || ''
+  const choicePromptIsWord = studyMode === 'choice' && choiceDirection === 'word-to-meaning' && phase === 'studying'
+  // Dictation shows no text until the answer is submitted
+  const hideMeaningPanel = choicePromptIsWord || (studyMode === 'dictation' && phase === 'studying')
   const allFiles = useMemo(() => getAllFiles(tree), [tree])
   const pdfDeckFiles = useMemo(() => getPdfDeckFiles(), [pdfList])
 
@@ -2025,6 +2466,8 @@ export default function Study(){
     Select Files to Study
   </span>
 </div>
+
+              <SavedDecksPanel onStudy={startSavedDeck} />
             
               {allFiles.length === 0 && getPdfDeckFiles().length === 0 ? (
                 <div className="text-center py-16">
@@ -2148,8 +2591,51 @@ export default function Study(){
                                 📏 Range
                               </button>
                             </div>
+
+                            <button
+                              type="button"
+                              onClick={() => updateFileConfig(f.path, { mode: 'tags' })}
+                              className={`p-3 rounded-lg border-2 transition-all ${
+                                cfg.mode === 'tags'
+                                  ? 'border-violet-500 bg-white dark:bg-slate-700 font-semibold text-violet-700 dark:text-violet-300'
+                                  : 'border-slate-200 dark:border-slate-600 hover:border-slate-300 dark:hover:border-slate-500 bg-white dark:bg-slate-800'
+                              }`}
+                            >
+                              🏷️ Tags
+                            </button>
                           </div>
 
+                          {cfg.mode === 'tags' && (
+                            <div className="mt-3 p-3 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-600">
+                              <div className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Học các từ có tag:</div>
+                              {loading ? (
+                                <div className="text-sm text-slate-500 dark:text-slate-400">Loading words…</div>
+                              ) : collectTags(cards).length === 0 ? (
+                                <div className="text-sm text-slate-500 dark:text-slate-400">File này chưa có từ nào được gắn tag.</div>
+                              ) : (
+                                <div className="flex flex-wrap gap-2">
+                                  {collectTags(cards).map((tag) => {
+                                    const on = (cfg.tags || []).includes(tag)
+                                    return (
+                                      <button
+                                        key={tag}
+                                        type="button"
+                                        onClick={() => toggleFileTag(f.path, tag)}
+                                        className={`px-2.5 py-1 rounded-full border text-sm transition-colors ${
+                                          on
+                                            ? 'border-sky-500 bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300'
+                                            : 'border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:border-sky-300'
+                                        }`}
+                                      >
+                                        {tag} ({cards.filter((c) => matchesAnyTag(c.tags, [tag])).length})
+                                      </button>
+                                    )
+                                  })}
+                                </div>
+                              )}
+                            </div>
+                          )}
+
                           {cfg.mode === 'random' && (
                             <div className="mt-3 p-3 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-600">
                               <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Random Count:</label>
@@ -2248,7 +2734,7 @@ export default function Study(){
                 {/* Study Mode Selection */}
                 <div className="mb-6">
                   <div className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-3">Choose Study Mode</div>
-                  <div className="grid grid-cols-2 gap-3">
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
                     <button
                       type="button"
                       onClick={() => setStudyMode('spelling')}
@@ -2300,7 +2786,153 @@ export default function Study(){
                         Match words with meanings
                       </div>
                     </button>
+
+                    <button
+                      type="button"
+                      onClick={() => setStudyMode('cloze')}
+                      className={`p-4 rounded-xl border-2 transition-all flex flex-col items-center gap-2 ${
+                        studyMode === 'cloze'
+                          ? 'border-amber-500 bg-gradient-to-br from-amber-50 to-orange-50 dark:from-amber-900/30 dark:to-orange-900/30 shadow-lg shadow-amber-500/20'
+                          : 'border-slate-200 dark:border-slate-600 hover:border-amber-300 dark:hover:border-amber-600 bg-white dark:bg-slate-800'
+                      }`}
+                    >
+                      <div className={`w-12 h-12 rounded-xl flex items-center justify-center ${
+                        studyMode === 'cloze'
+                          ? 'bg-gradient-to-br from-amber-500 to-orange-600 shadow-lg'
+                          : 'bg-slate-100 dark:bg-slate-700'
+                      }`}>
+                        <svg className={`w-6 h-6 ${studyMode === 'cloze' ? 'text-white' : 'text-slate-600 dark:text-slate-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7h16M4 12h5m6 0h5M4 17h16" />
+                        </svg>
+                      </div>
+                      <div className={`font-bold ${studyMode === 'cloze' ? 'text-amber-700 dark:text-amber-300' : 'text-slate-700 dark:text-slate-300'}`}>
+                        🧩 Cloze
+                      </div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400 text-center">
+                        Fill the blank in the example
+                      </div>
+                    </button>
+
+                    <button
+                      type="button"
+                      onClick={() => setStudyMode('choice')}
+                      className={`p-4 rounded-xl border-2 transition-all flex flex-col items-center gap-2 ${
+                        studyMode === 'choice'
+                          ? 'border-sky-500 bg-gradient-to-br from-sky-50 to-blue-50 dark:from-sky-900/30 dark:to-blue-900/30 shadow-lg shadow-sky-500/20'
+                          : 'border-slate-200 dark:border-slate-600 hover:border-sky-300 dark:hover:border-sky-600 bg-white dark:bg-slate-800'
+                      }`}
+                    >
+                      <div className={`w-12 h-12 rounded-xl flex items-center justify-center ${
+                        studyMode === 'choice'
+                          ? 'bg-gradient-to-br from-sky-500 to-blue-600 shadow-lg'
+                          : 'bg-slate-100 dark:bg-slate-700'
+                      }`}>
+                        <svg className={`w-6 h-6 ${studyMode === 'choice' ? 'text-white' : 'text-slate-600 dark:text-slate-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                        </svg>
+                      </div>
+                      <div className={`font-bold ${studyMode === 'choice' ? 'text-sky-700 dark:text-sky-300' : 'text-slate-700 dark:text-slate-300'}`}>
+                        🔘 Quiz
+                      </div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400 text-center">
+                        Pick 1 of 4 answers
+                      </div>
+                    </button>
+
+                    <button
+                      type="button"
+                      onClick={() => setStudyMode('dictation')}
+                      className={`p-4 rounded-xl border-2 transition-all flex flex-col items-center gap-2 ${
+                        studyMode === 'dictation'
+                          ? 'border-rose-500 bg-gradient-to-br from-rose-50 to-pink-50 dark:from-rose-900/30 dark:to-pink-900/30 shadow-lg shadow-rose-500/20'
+                          : 'border-slate-200 dark:border-slate-600 hover:border-rose-300 dark:hover:border-rose-600 bg-white dark:bg-slate-800'
+                      }`}
+                    >
+                      <div className={`w-12 h-12 rounded-xl flex items-center justify-center ${
+                        studyMode === 'dictation'
+                          ? 'bg-gradient-to-br from-rose-500 to-pink-600 shadow-lg'
+                          : 'bg-slate-100 dark:bg-slate-700'
+                      }`}>
+                        <svg className={`w-6 h-6 ${studyMode === 'dictation' ? 'text-white' : 'text-slate-600 dark:text-slate-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+                        </svg>
+                      </div>
+                      <div className={`font-bold ${studyMode === 'dictation' ? 'text-rose-700 dark:text-rose-300' : 'text-slate-700 dark:text-slate-300'}`}>
+                        🎧 Dictation
+                      </div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400 text-center">
+                        Type what you hear
+                      </div>
+                    </button>
+
+                    <button
+                      type="button"
+                      onClick={() => setStudyMode('production')}
+                      className={`p-4 rounded-xl border-2 transition-all flex flex-col items-center gap-2 ${
+                        studyMode === 'production'
+                          ? 'border-indigo-500 bg-gradient-to-br from-indigo-50 to-blue-50 dark:from-indigo-900/30 dark:to-blue-900/30 shadow-lg shadow-indigo-500/20'
+                          : 'border-slate-200 dark:border-slate-600 hover:border-indigo-300 dark:hover:border-indigo-600 bg-white dark:bg-slate-800'
+                      }`}
+                    >
+                      <div className={`w-12 h-12 rounded-xl flex items-center justify-center ${
+                        studyMode === 'production'
+                          ? 'bg-gradient-to-br from-indigo-500 to-blue-600 shadow-lg'
+                          : 'bg-slate-100 dark:bg-slate-700'
+                      }`}>
+                        <svg className={`w-6 h-6 ${studyMode === 'production' ? 'text-white' : 'text-slate-600 dark:text-slate-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" />
+                        </svg>
+                      </div>
+                      <div className={`font-bold ${studyMode === 'production' ? 'text-indigo-700 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-300'}`}>
+                        🇻🇳→🇬🇧 Production
+                      </div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400 text-center">
+                        Recall the word, synonyms accepted
+                      </div>
+                    </button>
                   </div>
+
+                  {studyMode === 'production' && (
+                    <div className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+                      Đáp án đồng nghĩa đã xác nhận được chấp nhận (hiển thị màu vàng). Quản lý danh sách sau mỗi câu trả lời.
+                    </div>
+                  )}
+
+                  {studyMode === 'dictation' && (
+                    <label className="mt-3 flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={dictationWithExample}
+                        onChange={(e) => setDictationWithExample(e.target.checked)}
+                      />
+                      Đọc cả câu ví dụ sau từ
+                    </label>
+                  )}
+
+                  {studyMode === 'choice' && (
+                    <div className="mt-3 flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+                      <span>Hỏi:</span>
+                      <select
+                        value={choiceDirection}
+                        onChange={(e) => setChoiceDirection(e.target.value as ChoiceDirection)}
+                        className="input-field w-auto !py-1.5"
+                      >
+                        <option value="word-to-meaning">Từ → chọn nghĩa</option>
+                        <option value="meaning-to-word">Nghĩa → chọn từ</option>
+                      </select>
+                    </div>
+                  )}
+
+                  {studyMode === 'cloze' && (
+                    <label className="mt-3 flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={clozeAutoExample}
+                        onChange={(e) => setClozeAutoExample(e.target.checked)}
+                      />
+                      Tự tạo câu ví dụ bằng AI cho từ chưa có (lưu vào file)
+                    </label>
+                  )}
                 </div>
 
                 <button
@@ -2311,7 +2943,7 @@ export default function Study(){
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
-                  Start {studyMode === 'match' ? 'Match Game' : 'Learning'}
+                  Start {studyMode === 'match' ? 'Match Game' : studyMode === 'cloze' ? 'Cloze' : studyMode === 'choice' ? 'Quiz' : studyMode === 'dictation' ? 'Dictation' : studyMode === 'production' ? 'Production' : 'Learning'}
                 </button>
               </div>
             )}
@@ -2337,6 +2969,15 @@ export default function Study(){
                   Xuất dữ liệu
                 </button>
 
+                <button
+                  type="button"
+                  onClick={exportSmartReviewToAnki}
+                  className="btn-secondary px-4 py-2 text-sm"
+                  title="Xuất Smart Review (kèm lịch ôn) thành file .apkg cho Anki"
+                >
+                  Xuất Anki
+                </button>
+
                 <button
                   type="button"
                   onClick={syncSmartReviewMetadata}
@@ -2431,7 +3072,7 @@ export default function Study(){
               )}
 
               {/* Start Button or Empty State */}
-              {srsStatsComputed.total === 0 ? (
+              {srsStatsComputed.total === 0 && srsStatsComputed.due === 0 ? (
                 <div className="text-center py-8">
                   <div className="inline-block p-4 bg-slate-100 dark:bg-slate-700 rounded-2xl mb-4">
                     <svg className="w-12 h-12 text-slate-400 dark:text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -2458,7 +3099,11 @@ export default function Study(){
                     </svg>
                   </div>
                   <p className="text-lg font-semibold text-green-700 dark:text-green-300 mb-2">🎉 Tuyệt vời!</p>
-                  <p className="text-slate-500 dark:text-slate-400 mb-4">Bạn đã ôn tập hết tất cả từ hôm nay. Quay lại sau nhé!</p>
+                  <p className="text-slate-500 dark:text-slate-400 mb-4">
+                    {dailyQueue.deferred.review + dailyQueue.deferred.new > 0
+                      ? `Bạn đã đạt giới hạn hôm nay (còn ${dailyQueue.deferred.review} từ ôn, ${dailyQueue.deferred.new} từ mới cho ngày mai).`
+                      : 'Bạn đã ôn tập hết tất cả từ hôm nay. Quay lại sau nhé!'}
+                  </p>
                   <button
                     onClick={() => setStudyTab('custom')}
                     className="btn-secondary px-6 py-2 flex items-center gap-2 mx-auto"
@@ -2471,6 +3116,14 @@ export default function Study(){
                 </div>
               ) : (
                 <div className="flex flex-col gap-3">
+                  <div className="text-sm text-center text-slate-600 dark:text-slate-400">
+                    Hôm nay: {dailyQueue.counts.review} ôn tập · {dailyQueue.counts.learning} đang học · {dailyQueue.counts.new} từ mới
+                    {dailyQueue.deferred.review + dailyQueue.deferred.new > 0 && (
+                      <span className="text-amber-600 dark:text-amber-400">
+                        {' '}(giới hạn ngày: dời {dailyQueue.deferred.review} từ ôn, {dailyQueue.deferred.new} từ mới sang mai)
+                      </span>
+                    )}
+                  </div>
                   {/* Button 1: All due (overdue + today) */}
                   <button
                     onClick={startSRSSessionAll}
@@ -2601,7 +3254,19 @@ export default function Study(){
 
           {/* Study Card - Enhanced with better design */}
           <div className={phase === 'review-result' ? 'card !p-5 shadow-2xl border-2 border-slate-200 dark:border-slate-700 animate-scale-in' : 'card !p-6 shadow-2xl border-2 border-slate-200 dark:border-slate-700 animate-scale-in'}>
+            {/* Multiple choice (word -> meaning): the word is the prompt, meanings stay hidden until answered */}
+            {choicePromptIsWord && (
+              <div className="mb-6 text-center">
+                <div className="text-xs font-bold text-primary-600 uppercase tracking-wide mb-2">Chọn nghĩa đúng</div>
+                <div className="text-4xl font-bold text-slate-900 dark:text-white">{queue[index].word}</div>
+                {String(queue[index].pos || '').trim() && (
+                  <div className="text-sm text-slate-500 dark:text-slate-400 mt-1">{String(queue[index].pos)}</div>
+                )}
+              </div>
+            )}
+
             {/* Meaning Display */}
+            {!hideMeaningPanel && (
             <div
               className={
                 phase === 'review-result'
@@ -2676,6 +3341,7 @@ export default function Study(){
                 </div>
               )}
 
+              {studyMode !== 'cloze' && (
               <div className={phase === 'review-result' ? 'p-3 bg-gradient-to-br from-violet-50/50 to-purple-50/50 dark:from-violet-900/30 dark:to-purple-900/30 rounded-2xl border border-violet-100 dark:border-violet-800' : 'p-4 bg-gradient-to-br from-violet-50/50 to-purple-50/50 dark:from-violet-900/30 dark:to-purple-900/30 rounded-2xl border border-violet-100 dark:border-violet-800'}>
                 <div className={phase === 'review-result' ? 'flex items-center gap-2 mb-2' : 'flex items-center gap-2 mb-3'}>
                   <svg className="w-5 h-5 text-violet-600 dark:text-violet-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -2689,17 +3355,118 @@ export default function Study(){
                     : <span className="text-slate-400 dark:text-slate-500 italic">No example provided</span>}
                 </div>
               </div>
+              )}
             </div>
+            )}
+
+            {studyMode === 'cloze' && (
+              <div className={phase === 'review-result' ? 'mb-3 p-3 bg-gradient-to-br from-amber-50/60 to-orange-50/60 dark:from-amber-900/20 dark:to-orange-900/20 rounded-2xl border border-amber-200 dark:border-amber-800' : 'mb-5 p-4 bg-gradient-to-br from-amber-50/60 to-orange-50/60 dark:from-amber-900/20 dark:to-orange-900/20 rounded-2xl border border-amber-200 dark:border-amber-800'}>
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="text-sm font-bold text-amber-700 dark:text-amber-300 uppercase tracking-wide">Điền vào chỗ trống</span>
+                </div>
+                {currentCloze ? (
+                  <div className={phase === 'review-result' ? 'text-base text-slate-800 dark:text-slate-200 leading-relaxed font-medium' : 'text-xl text-slate-800 dark:text-slate-200 leading-relaxed font-medium'}>
+                    {currentCloze.parts.map((part, i) => (
+                      <React.Fragment key={i}>
+                        {part}
+                        {i < currentCloze.blanks.length && (
+                          phase === 'review-result' ? (
+                            <span className="px-1 rounded bg-amber-200/70 dark:bg-amber-700/50 font-bold">{currentCloze.blanks[i]}</span>
+                          ) : (
+                            <span className="px-1 font-mono font-bold tracking-[0.12em] text-amber-700 dark:text-amber-300">
+                              {maskWordAllUnderscore(currentCloze.blanks[i], revealLevel)}
+                            </span>
+                          )
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <div className="text-sm text-slate-500 dark:text-slate-400 italic">
+                      Từ này chưa có câu ví dụ chứa từ — hãy nhập từ theo nghĩa.
+                    </div>
+                    {clozeExampleLoadingKey === currentCardKey ? (
+                      <div className="text-xs text-amber-700 dark:text-amber-300">Đang tạo câu ví dụ…</div>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          clozeExampleRequestedRef.current.delete(currentCardKey)
+                          void generateClozeExample(queue[index])
+                        }}
+                        className="btn-secondary px-3 py-1.5 text-xs"
+                      >
+                        Tạo câu ví dụ bằng AI
+                      </button>
+                    )}
+                    {clozeExampleError && <div className="text-xs text-red-600 dark:text-red-400">{clozeExampleError}</div>}
+                  </div>
+                )}
+              </div>
+            )}
 
-            {phase === 'studying' && (
+            {phase === 'studying' && studyMode === 'choice' && (
+              <div className="space-y-3">
+                {choiceOptions ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {choiceOptions.options.map((opt, i) => (
+                      <button
+                        key={`${i}_${opt}`}
+                        type="button"
+                        onClick={() => submitAnswer(opt)}
+                        className="relative text-left p-4 pr-10 rounded-xl border-2 border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 hover:border-violet-400 dark:hover:border-violet-500 hover:bg-violet-50 dark:hover:bg-violet-900/20 transition-all text-base font-semibold text-slate-800 dark:text-slate-200"
+                      >
+                        {opt}
+                        <span className="absolute top-2 right-2 w-6 h-6 rounded-md bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400 text-xs font-bold flex items-center justify-center">
+                          {i + 1}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center text-sm text-slate-500 dark:text-slate-400 py-6">Đang chuẩn bị đáp án…</div>
+                )}
+                {choiceOptions && choiceOptions.options.length < 2 && (
+                  <div className="text-xs text-amber-600 dark:text-amber-400 text-center">
+                    Bộ từ quá ít để tạo đáp án nhiễu — hãy chọn thêm từ.
+                  </div>
+                )}
+              </div>
+            )}
+
+            {phase === 'studying' && studyMode !== 'choice' && (
               <div className="space-y-5">
+                {studyMode === 'dictation' ? (
+                  <div className="p-5 rounded-2xl border-2 border-rose-200 dark:border-rose-800 bg-gradient-to-br from-rose-50 to-pink-50 dark:from-rose-900/20 dark:to-pink-900/20 text-center space-y-4">
+                    <div className="text-xs font-bold text-rose-600 dark:text-rose-300 uppercase tracking-wide">Nghe và gõ lại từ</div>
+                    <div className="flex flex-wrap gap-3 justify-center">
+                      <button onClick={() => replayDictation(queue[index], false)} className="btn-primary px-5 py-2.5">
+                        🔊 Nghe lại
+                      </button>
+                      <button onClick={() => replayDictation(queue[index], true)} className="btn-secondary px-5 py-2.5">
+                        🐢 Nghe chậm
+                      </button>
+                      {dictationWithExample && String(queue[index].example || '').trim() && (
+                        <button onClick={() => replayDictation(queue[index], false, true)} className="btn-secondary px-5 py-2.5">
+                          💬 Nghe câu ví dụ
+                        </button>
+                      )}
+                    </div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400">
+                      Đã nghe lại {listenAttempt.replays} lần{listenAttempt.slowReplays > 0 ? ` (${listenAttempt.slowReplays} lần chậm)` : ''}
+                    </div>
+                  </div>
+                ) : (
+                <>
                 {/* Word Display (masked) - Enhanced with flip card effect */}
                 <div className="relative">
                   <div className="absolute -inset-1 bg-gradient-to-r from-primary-500 via-purple-500 to-accent-500 rounded-2xl opacity-20 blur-xl"></div>
                   <div className="relative p-4 bg-gradient-to-br from-primary-50 via-purple-50 to-accent-50 rounded-2xl border-2 border-primary-200 shadow-lg">
                     <div className="text-xs font-bold text-primary-600 uppercase tracking-wide mb-1 text-center">Your Answer:</div>
                     <div className="text-3xl font-mono font-bold bg-gradient-to-r from-primary-600 via-purple-600 to-accent-600 bg-clip-text text-transparent tracking-[0.16em] text-center py-3">
-                      {maskWordAllUnderscore(queue[index].word, revealLevel)}
+                      {/* Production is free recall: no letter count until a hint is asked for */}
+                      {studyMode === 'production' && revealLevel === 0 ? '?' : maskWordAllUnderscore(studyTarget, revealLevel)}
                     </div>
                   </div>
                 </div>
@@ -2726,7 +3493,7 @@ export default function Study(){
                     Less Hint
                   </button>
                   <button
-                    onClick={() => setRevealLevel(Math.min(queue[index].word.length, revealLevel + 1))}
+                    onClick={() => setRevealLevel(Math.min(studyTarget.length, revealLevel + 1))}
                     className="btn-secondary px-4 py-2.5 flex items-center gap-2"
                   >
                     More Hint
@@ -2735,6 +3502,8 @@ export default function Study(){
                     </svg>
                   </button>
                 </div>
+                </>
+                )}
 
                 {/* Input - Enhanced */}
                 <div className="space-y-4">
@@ -2753,7 +3522,7 @@ export default function Study(){
                     placeholder="Type your answer and press Enter..."
                     autoFocus
                   />
-                  <button onClick={submitAnswer} className="btn-primary w-full py-3 text-lg font-bold">
+                  <button onClick={() => submitAnswer()} className="btn-primary w-full py-3 text-lg font-bold">
                     Submit Answer ✨
                   </button>
                 </div>
@@ -2764,7 +3533,9 @@ export default function Study(){
               <div className="space-y-5 animate-scale-in">
                 {/* Answer Reveal - Enhanced */}
                 <div className={`relative overflow-hidden p-3 rounded-2xl border-2 shadow-xl transition-all ${
-                  lastAnswerCorrect
+                  answerAcceptedAlt
+                    ? 'bg-gradient-to-br from-amber-50 via-yellow-50 to-amber-100 border-amber-300 shadow-amber-500/20'
+                    : lastAnswerCorrect
                     ? 'bg-gradient-to-br from-green-50 via-emerald-50 to-green-100 border-green-300 shadow-green-500/20'
                     : 'bg-gradient-to-br from-red-50 via-pink-50 to-red-100 border-red-300 shadow-red-500/20'
                 }`}>
@@ -2781,18 +3552,23 @@ export default function Study(){
                   </div>
                   <div className="relative">
                     <div className={`inline-flex items-center gap-2 px-2.5 py-1 rounded-xl mb-2 ${
-                      lastAnswerCorrect ? 'bg-green-200 text-green-800' : 'bg-red-200 text-red-800'
+                      answerAcceptedAlt ? 'bg-amber-200 text-amber-800' : lastAnswerCorrect ? 'bg-green-200 text-green-800' : 'bg-red-200 text-red-800'
                     }`}>
-                      <span className="text-lg">{lastAnswerCorrect ? '✅' : '❌'}</span>
+                      <span className="text-lg">{answerAcceptedAlt ? '🟡' : lastAnswerCorrect ? '✅' : '❌'}</span>
                       <span className="text-xs font-bold uppercase tracking-wide">
-                        {lastAnswerCorrect ? 'Correct!' : 'Incorrect'}
+                        {answerAcceptedAlt ? 'Chấp nhận' : lastAnswerCorrect ? 'Correct!' : 'Incorrect'}
                       </span>
                     </div>
                     <div className={`text-3xl font-bold mb-1 ${
-                      lastAnswerCorrect ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'
+                      answerAcceptedAlt ? 'text-amber-700 dark:text-amber-400' : lastAnswerCorrect ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'
                     }`}>
                       {queue[index].word}
                     </div>
+                    {answerAcceptedAlt && (
+                      <div className="text-sm text-amber-800 dark:text-amber-300 mb-1">
+                        “{input}” được chấp nhận, nhưng từ cần học là “{queue[index].word}”.
+                      </div>
+                    )}
                     {String((queue as any)?.[index]?.pos || '').trim() && (
                       <div className="text-sm text-slate-600 dark:text-slate-400 font-medium">
                         {String((queue as any)[index].pos)}
@@ -2822,12 +3598,27 @@ export default function Study(){
                 <div className="p-3 bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-700 dark:to-slate-800 rounded-2xl border-2 border-slate-300 dark:border-slate-600">
                   <div className="text-sm font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wide mb-2">Your Answer:</div>
                   <div className={`text-xl font-bold ${
-                    lastAnswerCorrect ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                    answerAcceptedAlt ? 'text-amber-600 dark:text-amber-400' : lastAnswerCorrect ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
                   }`}>
                     {input || <span className="text-slate-400 dark:text-slate-500 italic">(empty)</span>}
                   </div>
+                  {studyMode === 'dictation' && (
+                    <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                      Nghe lại {listenAttempt.replays} lần{listenAttempt.slowReplays > 0 ? ` (${listenAttempt.slowReplays} lần chậm)` : ''}
+                    </div>
+                  )}
                 </div>
 
+                {renderGradeFeedback()}
+
+                {studyMode === 'production' && (
+                  <AcceptedAnswersEditor
+                    word={queue[index].word}
+                    accepted={queue[index].accepted || []}
+                    onSave={(next) => saveAcceptedAnswers(queue[index], next)}
+                  />
+                )}
+
                 {/* Action Buttons - 2 choices: Làm lại / Cho qua (only show when autoModeEnabled) */}
                 {autoModeEnabled ? (
                   <div>
@@ -2910,11 +3701,16 @@ export default function Study(){
               pronunciation: card.pronunciation,
               pos: card.pos,
               example: card.example,
+              tags: card.tags,
               source: card.source,
               wrongCount:
                 difficultySelectMode === 'custom'
                   ? Number(wrongCountByCardKey[makeCardKey(card.source, card.word, card.meaning)] || 0)
                   : Number(srsWrongCountById[String(card.id || '')] || 0),
+              listenStats:
+                difficultySelectMode === 'custom'
+                  ? listenStatsByCardKey[makeCardKey(card.source, card.word, card.meaning)]
+                  : undefined,
             }))}
             onComplete={() => {
               // DifficultySelector already saved to VocabularyStore
@@ -2954,6 +3750,7 @@ export default function Study(){
                     pronunciation: (w as any).pronunciation,
                     pos: (w as any).pos,
                     example: (w as any).example,
+                    tags: (w as any).tags,
                     source: (w as any).source,
                   })
                   VocabularyStore.scheduleForToday(record.id, 'unrated_custom')
@@ -3527,6 +4324,9 @@ export default function Study(){
                     {srsQueue[srsIndex]?.pronunciation && (
                       <div className="text-lg text-slate-600 dark:text-slate-400 mt-1">/{srsQueue[srsIndex]?.pronunciation}/</div>
                     )}
+                    {srsQueue[srsIndex]?.mnemonic && (
+                      <div className="text-sm text-amber-700 dark:text-amber-300 mt-2 px-4">💡 {srsQueue[srsIndex]?.mnemonic}</div>
+                    )}
                     <div className="mt-3 flex justify-center">
                       <button
                         onClick={() => speakWord(srsQueue[srsIndex]?.word || '')}
@@ -3542,6 +4342,8 @@ export default function Study(){
                   </div>
                 </div>
 
+                {renderGradeFeedback()}
+
                 {/* Action Buttons - 2 choices: Làm lại / Cho qua (only show when autoModeEnabled) */}
                 {autoModeEnabled ? (
                   <div className="pt-4">
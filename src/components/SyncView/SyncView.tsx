@@ -0,0 +1,216 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { VocabularyStore } from '../../store/VocabularyStore'
+import type { SyncConflict, SyncResolveChoice, SyncSideInfo, SyncStatus } from '../../../electron'
+
+function formatDateTime(ts?: number | null): string {
+  if (!ts) return '—'
+  return new Date(ts).toLocaleString('vi-VN')
+}
+
+function formatSize(bytes?: number): string {
+  if (bytes == null) return ''
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+function describeSide(kind: SyncConflict['kind'], side: SyncSideInfo): string {
+  if (!side.exists) return 'Đã xóa'
+  if (kind === 'file') {
+    const rows = typeof side.rows === 'number' ? `${side.rows} từ • ` : ''
+    return `${rows}${formatSize(side.size)}`
+  }
+  const next = side.nextReviewDate ? new Date(side.nextReviewDate).toLocaleDateString('vi-VN') : '—'
+  return `${side.state || ''} • ${side.interval ?? 0} ngày • ôn ${next} • ${side.timesReviewed ?? 0} lượt`
+}
+
+function errorText(e: unknown): string {
+  return e && typeof e === 'object' && 'message' in e ? String((e as any).message) : String(e)
+}
+
+export default function SyncView() {
+  const [status, setStatus] = useState<SyncStatus | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+  const [filter, setFilter] = useState<'all' | 'file' | 'record'>('all')
+
+  useEffect(() => {
+    window.api.syncGetStatus().then(setStatus).catch((e) => setError(errorText(e)))
+  }, [])
+
+  const run = useCallback(async (fn: () => Promise<SyncStatus | null>) => {
+    setBusy(true)
+    setError('')
+    try {
+      const next = await fn()
+      if (next) setStatus(next)
+    } catch (e) {
+      setError(errorText(e))
+    } finally {
+      setBusy(false)
+    }
+  }, [])
+
+  const syncNow = useCallback(() => {
+    // Make sure the latest Smart Review changes are in the database before comparing.
+    VocabularyStore.flush()
+    return run(() => window.api.syncRun())
+  }, [run])
+
+  const resolve = useCallback(
+    (ids: string[], choice: SyncResolveChoice) => {
+      VocabularyStore.flush()
+      return run(() => window.api.syncResolve(ids, choice))
+    },
+    [run]
+  )
+
+  const conflicts = useMemo(
+    () => (status?.conflicts || []).filter((c) => filter === 'all' || c.kind === filter),
+    [status, filter]
+  )
+
+  const last = status?.lastResult
+
+  return (
+    <div className="h-full overflow-y-auto bg-slate-50 dark:bg-slate-900">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 bg-gradient-to-br from-cyan-500 to-blue-600 rounded-xl flex items-center justify-center shadow-lg shadow-cyan-500/30">
+              <svg className="w-7 h-7 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-slate-900 dark:text-white">Đồng bộ</h1>
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                Đồng bộ dữ liệu giữa các máy qua một thư mục chung (Dropbox, OneDrive, Syncthing…)
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button type="button" className="btn-secondary" onClick={() => run(() => window.api.syncChooseFolder())} disabled={busy}>
+              Chọn thư mục
+            </button>
+            <button type="button" className="btn-primary" onClick={syncNow} disabled={busy || !status?.folder}>
+              {busy ? 'Đang đồng bộ…' : 'Đồng bộ ngay'}
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+          <div className="p-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/40 md:col-span-2">
+            <div className="text-xs text-slate-500 dark:text-slate-400">Thư mục đồng bộ</div>
+            <div className="text-sm font-medium text-slate-800 dark:text-slate-200 break-all">
+              {status?.folder || 'Chưa chọn'}
+            </div>
+            {status?.folder && (
+              <button
+                type="button"
+                className="mt-1 text-xs text-rose-600 dark:text-rose-400 hover:underline"
+                onClick={() => {
+                  if (window.confirm('Ngừng đồng bộ với thư mục này? Dữ liệu trong thư mục được giữ nguyên.')) {
+                    void run(() => window.api.syncClearFolder())
+                  }
+                }}
+                disabled={busy}
+              >
+                Ngừng đồng bộ
+              </button>
+            )}
+          </div>
+          <div className="p-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/40">
+            <div className="text-xs text-slate-500 dark:text-slate-400">Lần đồng bộ cuối</div>
+            <div className="text-sm font-medium text-slate-800 dark:text-slate-200">{formatDateTime(status?.lastSyncAt)}</div>
+            {last && (
+              <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                Gửi {last.pushed} • Nhận {last.pulled} • Xóa {last.deletedLocal + last.deletedRemote} • Xung đột {last.conflicts}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {error && <div className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</div>}
+      </div>
+
+      {/* Conflicts */}
+      <div className="p-6">
+        <div className="flex items-center justify-between gap-3 flex-wrap mb-3">
+          <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-200">
+            Xung đột ({status?.conflicts.length ?? 0})
+          </h2>
+          {(status?.conflicts.length ?? 0) > 0 && (
+            <div className="flex items-center gap-2">
+              <select value={filter} onChange={(e) => setFilter(e.target.value as typeof filter)} className="input-field w-36">
+                <option value="all">Tất cả</option>
+                <option value="file">File</option>
+                <option value="record">Smart Review</option>
+              </select>
+              <button
+                type="button"
+                className="btn-secondary px-3 py-2 text-xs"
+                disabled={busy || conflicts.length === 0}
+                onClick={() => resolve(conflicts.map((c) => c.id), 'newer')}
+                title="Giải quyết các xung đột đang hiển thị bằng bản sửa gần nhất"
+              >
+                Giữ bản mới hơn ({conflicts.length})
+              </button>
+            </div>
+          )}
+        </div>
+
+        {(status?.conflicts.length ?? 0) === 0 ? (
+          <div className="rounded-xl border border-dashed border-slate-300 dark:border-slate-700 p-6 text-center text-sm text-slate-500 dark:text-slate-400">
+            Không có xung đột. Thay đổi chỉ có ở một máy được tự động sao chép sang máy còn lại.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {conflicts.map((c) => (
+              <div
+                key={c.id}
+                className="rounded-xl border border-amber-200 dark:border-amber-800 bg-white dark:bg-slate-800 p-4"
+              >
+                <div className="flex items-center gap-2 mb-3">
+                  <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">
+                    {c.kind === 'file' ? 'File' : 'Smart Review'}
+                  </span>
+                  <span className="font-medium text-slate-800 dark:text-slate-200 break-all">{c.label}</span>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                  {([['local', 'Máy này', c.local], ['remote', 'Thư mục đồng bộ', c.remote]] as const).map(([side, title, info]) => (
+                    <div key={side} className="rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+                      <div className="text-xs font-semibold text-slate-500 dark:text-slate-400">{title}</div>
+                      <div className="text-slate-700 dark:text-slate-300">{describeSide(c.kind, info)}</div>
+                      <div className="text-xs text-slate-400">Sửa lúc {formatDateTime(info.updatedAt)}</div>
+                      <button
+                        type="button"
+                        className="btn-secondary px-3 py-1.5 text-xs mt-2"
+                        disabled={busy}
+                        onClick={() => resolve([c.id], side)}
+                      >
+                        Giữ bản này
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                {c.canMerge && (
+                  <button
+                    type="button"
+                    className="btn-primary px-3 py-1.5 text-xs mt-3"
+                    disabled={busy}
+                    onClick={() => resolve([c.id], 'merge')}
+                    title="Gộp các từ của cả hai file (không trùng lặp)"
+                  >
+                    Gộp cả hai
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react'
+import type { TranslationProviderInfo, TranslationProvidersInfo } from '../../../electron'
+
+function errorText(e: unknown): string {
+  return e && typeof e === 'object' && 'message' in e ? String((e as any).message) : String(e)
+}
+
+// Priority chain for auto-meaning: dictionary lookups and plain translations try providers top to bottom.
+export default function TranslationProvidersPanel() {
+  const api = window.api
+
+  const [info, setInfo] = useState<TranslationProvidersInfo | null>(null)
+  const [chain, setChain] = useState<TranslationProviderInfo[]>([])
+  const [ltUrl, setLtUrl] = useState('')
+  const [ltKey, setLtKey] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  const apply = (next: TranslationProvidersInfo) => {
+    setInfo(next)
+    setChain(next.chain)
+    setLtUrl(next.libretranslate.baseUrl)
+    setLtKey('')
+  }
+
+  useEffect(() => {
+    if (!api?.getTranslationProviders) return
+    api
+      .getTranslationProviders()
+      .then(apply)
+      .catch((e) => setError(errorText(e)))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const move = (index: number, delta: number) => {
+    const to = index + delta
+    if (to < 0 || to >= chain.length) return
+    const next = [...chain]
+    ;[next[index], next[to]] = [next[to], next[index]]
+    setChain(next)
+  }
+
+  const toggle = (index: number) => {
+    setChain(chain.map((p, i) => (i === index ? { ...p, enabled: !p.enabled } : p)))
+  }
+
+  const save = async () => {
+    setBusy(true)
+    setError('')
+    setMessage('')
+    try {
+      apply(
+        await api.setTranslationProviders({
+          chain: chain.map((p) => ({ id: p.id, enabled: p.enabled })),
+          libretranslate: { baseUrl: ltUrl, ...(ltKey.trim() ? { apiKey: ltKey.trim() } : {}) },
+        })
+      )
+      setMessage('Đã lưu thứ tự nguồn dịch.')
+    } catch (e) {
+      setError(errorText(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const reload = async () => {
+    const next = await api.getTranslationProviders()
+    setInfo(next)
+    setChain((prev) => next.chain.map((p) => ({ ...p, enabled: prev.find((x) => x.id === p.id)?.enabled ?? p.enabled })))
+  }
+
+  const importDictionary = async () => {
+    setBusy(true)
+    setError('')
+    setMessage('')
+    try {
+      const res = await api.importDictionary()
+      if (!res) return
+      await reload()
+      setMessage(`Đã nhập "${res.name}" (${res.entries.toLocaleString()} từ).`)
+    } catch (e) {
+      setError(errorText(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const deleteDictionary = async (file: string, name: string) => {
+    if (!window.confirm(`Xóa từ điển "${name}"?`)) return
+    setError('')
+    setMessage('')
+    try {
+      await api.deleteDictionary(file)
+      await reload()
+    } catch (e) {
+      setError(errorText(e))
+    }
+  }
+
+  const openFolder = async () => {
+    try {
+      await api.openDictionariesFolder()
+    } catch (e) {
+      setError(errorText(e))
+    }
+  }
+
+  const dictionaries = info?.dictionaries || []
+
+  return (
+    <div className="card hover:shadow-xl transition-shadow mb-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-sky-500 to-cyan-600 flex items-center justify-center shadow-md">
+          <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" />
+          </svg>
+        </div>
+        <div>
+          <div className="text-lg font-bold text-slate-900 dark:text-white">Nguồn dịch &amp; từ điển</div>
+          <div className="text-xs text-slate-600 dark:text-slate-400">
+            Gợi ý nghĩa thử lần lượt từ trên xuống; nguồn đầu tiên có kết quả được dùng.
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {chain.map((p, i) => (
+          <div
+            key={p.id}
+            className={`flex items-center gap-3 p-3 rounded-xl border-2 ${
+              p.enabled ? 'border-sky-300 dark:border-sky-700 bg-sky-50/60 dark:bg-sky-900/10' : 'border-slate-200 dark:border-slate-700 opacity-70'
+            }`}
+          >
+            <span className="w-6 text-center text-sm font-bold text-slate-400">{i + 1}</span>
+            <input type="checkbox" checked={p.enabled} onChange={() => toggle(i)} disabled={busy} className="w-4 h-4" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-sm font-semibold text-slate-900 dark:text-white">{p.label}</span>
+                {p.capabilities.dictionary && <span className="badge bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 px-2 py-0.5 text-[10px]">📖 Tra từ</span>}
+                {p.capabilities.translate && <span className="badge bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 px-2 py-0.5 text-[10px]">🌐 Dịch câu</span>}
+              </div>
+              <div className={`text-xs mt-0.5 ${p.available ? 'text-green-700 dark:text-green-400' : 'text-slate-500 dark:text-slate-400'}`}>
+                {p.available ? 'Sẵn sàng' : `Chưa dùng được: ${p.reason}`}
+              </div>
+            </div>
+            <button type="button" className="btn-secondary px-2 py-1 text-xs" onClick={() => move(i, -1)} disabled={busy || i === 0} title="Ưu tiên cao hơn">
+              ▲
+            </button>
+            <button type="button" className="btn-secondary px-2 py-1 text-xs" onClick={() => move(i, 1)} disabled={busy || i === chain.length - 1} title="Ưu tiên thấp hơn">
+              ▼
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">LibreTranslate URL</label>
+          <input className="input-field w-full font-mono" value={ltUrl} onChange={(e) => setLtUrl(e.target.value)} placeholder="http://localhost:5000" disabled={busy} />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">LibreTranslate API key</label>
+          <input
+            className="input-field w-full font-mono"
+            type="password"
+            value={ltKey}
+            onChange={(e) => setLtKey(e.target.value)}
+            placeholder={info?.libretranslate.hasApiKey ? 'Đã lưu (để trống để giữ nguyên)' : 'Không bắt buộc'}
+            disabled={busy}
+          />
+        </div>
+      </div>
+
+      <div className="mt-4 text-sm text-slate-600 dark:text-slate-400">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-semibold text-slate-700 dark:text-slate-300">Từ điển offline{dictionaries.length === 0 ? ': chưa có' : ''}</span>
+          <div className="flex gap-2">
+            <button type="button" className="btn-secondary px-3 py-1 text-xs" onClick={importDictionary} disabled={busy}>
+              Nhập từ điển...
+            </button>
+            <button type="button" className="btn-secondary px-3 py-1 text-xs" onClick={openFolder}>
+              Mở thư mục
+            </button>
+          </div>
+        </div>
+        {dictionaries.length > 0 && (
+          <div className="mt-2 divide-y divide-slate-100 dark:divide-slate-700">
+            {dictionaries.map((d) => (
+              <div key={d.file} className="py-1.5 flex items-center gap-2">
+                <span className="flex-1 min-w-0 truncate" title={d.file}>
+                  {d.name} <span className="text-xs text-slate-500">({d.entries.toLocaleString()} từ)</span>
+                </span>
+                <button type="button" className="btn-secondary px-2 py-0.5 text-xs text-rose-600" onClick={() => deleteDictionary(d.file, d.name)} disabled={busy}>
+                  Xóa
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+          Nhập gói StarDict (.ifo + .idx + .dict/.dict.dz), dictd (.index + .dict/.dict.dz), hoặc file .json ({'{ "bank": ["ngân hàng"] }'}) / .tsv
+          (từ⇥nghĩa 1; nghĩa 2⇥loại từ⇥IPA). Khi bật, từ điển offline được dùng trước cho nghĩa, IPA, loại từ và định nghĩa tiếng Anh; nguồn mạng chỉ bổ sung phần còn thiếu.
+        </div>
+      </div>
+
+      <div className="flex justify-end mt-4">
+        <button type="button" className="btn-primary px-6 py-2" onClick={save} disabled={busy}>
+          Lưu
+        </button>
+      </div>
+
+      {message && <div className="mt-3 alert-success">{message}</div>}
+      {error && <div className="mt-3 alert-error">{error}</div>}
+    </div>
+  )
+}
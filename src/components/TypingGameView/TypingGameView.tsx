@@ -1,7 +1,11 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react'
 import './TypingGameView.css'
-import { VocabularyStore, useVocabularyStore } from '../../store/VocabularyStore'
+import { VocabularyStore, useVocabularyStore, isCardActive } from '../../store/VocabularyStore'
 import { playSound } from '../../utils/sounds'
+import { gradeAnswer } from '../../utils/grading'
+import type { GradeResult } from '../../utils/grading'
+import AnswerDiff from '../AnswerDiff/AnswerDiff'
+import { usePersistedState } from '../../hooks/usePersistedState'
 
 type GameState = 'menu' | 'playing' | 'paused' | 'gameover'
 type PracticeDuration = '1min' | '5min' | '10min' | 'unlimited'
@@ -23,6 +27,8 @@ export default function TypingGameView() {
   
   const [gameState, setGameState] = useState<GameState>('menu')
   const [practiceDuration, setPracticeDuration] = useState<PracticeDuration>('1min')
+  // Saved query deck to practice ('' = every learned word)
+  const [deckId, setDeckId] = usePersistedState<string>('typing_deckId', '')
   const [score, setScore] = useState(0)
   const [combo, setCombo] = useState(0)
   const [maxCombo, setMaxCombo] = useState(0)
@@ -41,6 +47,8 @@ export default function TypingGameView() {
     meaning: string
     pos?: string
   } | null>(null)
+  // Last wrong word, shown as a diff with an "I was right" override
+  const [lastMistake, setLastMistake] = useState<{ index: number; grade: GradeResult } | null>(null)
 
   const nextGroupIdRef = useRef(1)
 
@@ -50,16 +58,18 @@ export default function TypingGameView() {
 
   // Get words from VocabularyStore
   const availableEntries = useMemo<VocabEntry[]>(() => {
-    const allVocab = VocabularyStore.getAll()
+    const deck = deckId ? VocabularyStore.getSavedDecks().find(d => d.id === deckId) : undefined
+    const allVocab = deck ? VocabularyStore.queryRecords(deck.query).records : VocabularyStore.getAll()
+    const now = Date.now()
     return allVocab
-      .filter(v => v.state !== 'new' && v.word && v.word.trim())
+      .filter(v => v.state !== 'new' && isCardActive(v, now) && v.word && v.word.trim())
       .map(v => ({
         entry: String(v.word || '').trim(),
         meaning: v.meaning || '',
         pos: (v as any).pos,
       }))
       .filter(v => v.entry.length > 0)
-  }, [gameState])
+  }, [gameState, deckId])
 
   const availableTokenCount = useMemo(() => {
     let count = 0
@@ -158,9 +168,12 @@ export default function TypingGameView() {
 
     if (!typed) return
 
-    const isCorrect = typed === targetWord
+    const grade = gradeAnswer(typed, targetWord)
+    const isCorrect = grade.verdict === 'correct'
     setWordsAttempted(a => a + 1)
     setWordResults(prev => ({ ...prev, [currentWordIndex]: isCorrect ? 'correct' : 'wrong' }))
+    // Stays visible until the next mistake so there is time to override it
+    if (!isCorrect) setLastMistake({ index: currentWordIndex, grade })
 
     const nextIndex = currentWordIndex + 1
 
@@ -208,6 +221,19 @@ export default function TypingGameView() {
     }
   }
 
+  // "I was right": count the last wrong word as typed correctly (without restoring the combo)
+  const overrideLastMistake = () => {
+    if (!lastMistake) return
+    const word = practiceWords[lastMistake.index]
+    if (word) {
+      setWordResults(prev => ({ ...prev, [lastMistake.index]: 'correct' }))
+      setScore(s => s + word.word.length * 10)
+      setWordsCompleted(w => w + 1)
+    }
+    setLastMistake(null)
+    inputRef.current?.focus()
+  }
+
   // Handle practice mode input
   const handlePracticeInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     // Disallow whitespace inside the input; space is used to submit.
@@ -307,6 +333,7 @@ export default function TypingGameView() {
     setInputStatus('neutral')
     setWordResults({})
     setLastCompletedMeaning(null)
+    setLastMistake(null)
     
     nextGroupIdRef.current = 1
     const words = generatePracticeTokens(220)
@@ -354,6 +381,25 @@ export default function TypingGameView() {
             <p className="text-xl text-slate-400">Luyện tập với từ vựng của bạn</p>
           </div>
 
+          {/* Word source */}
+          {VocabularyStore.getSavedDecks().length > 0 && (
+            <div className="mb-4 flex items-center gap-3">
+              <span className="text-slate-400">Bộ từ:</span>
+              <select
+                value={deckId}
+                onChange={(e) => setDeckId(e.target.value)}
+                className="px-3 py-2 rounded-xl bg-slate-800/50 text-slate-200 border border-slate-700"
+              >
+                <option value="">Tất cả từ đã học</option>
+                {VocabularyStore.getSavedDecks().map(d => (
+                  <option key={d.id} value={d.id}>
+                    {d.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Word count info */}
           <div className="mb-8 text-center">
             <div className="inline-flex items-center gap-2 px-4 py-2 bg-slate-800/50 rounded-xl border border-slate-700">
@@ -507,6 +553,26 @@ export default function TypingGameView() {
                         </div>
                       </div>
                     )}
+                    {lastMistake && (
+                      <div className="mb-4 mx-auto w-full max-w-5xl text-center">
+                        <div className={`inline-flex items-center gap-4 px-5 py-2 rounded-2xl border ${
+                          lastMistake.grade.verdict === 'slip' ? 'bg-amber-900/30 border-amber-700' : 'bg-red-900/30 border-red-800'
+                        }`}>
+                          <div className="text-sm text-slate-300">
+                            {lastMistake.grade.verdict === 'slip' ? 'Gần đúng — sai 1 ký tự' : 'Gõ sai'}
+                          </div>
+                          <AnswerDiff expected={lastMistake.grade.expected} typed={lastMistake.grade.typed} className="text-xl text-slate-100" />
+                          <button
+                            type="button"
+                            onClick={overrideLastMistake}
+                            className="px-3 py-1 rounded-lg bg-slate-700/70 hover:bg-slate-600/70 text-slate-200 text-sm transition-colors"
+                            title="Tính từ này là gõ đúng"
+                          >
+                            Tôi đúng
+                          </button>
+                        </div>
+                      </div>
+                    )}
                     <div
                       ref={linesBoxRef}
                       className="mx-auto w-full max-w-5xl rounded-2xl border border-slate-700 bg-slate-900/40 p-6"
@@ -3,6 +3,7 @@ import ErrorBoundary from '../ErrorBoundary/ErrorBoundary'
 import ChooseFileModal from '../ChooseFileModal/ChooseFileModal'
 import EditWordModal from '../EditWordModal/EditWordModal'
 import { preloadAudio } from '../../utils/speech'
+import { collectTags, matchesAnyTag, parseTags } from '../../utils/tags'
 import {
   useReactTable,
   getCoreRowModel,
@@ -18,6 +19,7 @@ type VocabRow = {
   pronunciation: string;
   pos?: string;
   example?: string;
+  tags?: string;
 };
 
 type VocabRowWithIndex = VocabRow & { __idx: number };
@@ -25,7 +27,7 @@ type VocabRowWithIndex = VocabRow & { __idx: number };
 type Props = {
   rows: VocabRow[];
   onDelete: (rowIndex: number) => Promise<void>;
-  onEdit: (rowIndex: number, word: string, meaning: string, meaningEn: string, meaningVi: string, pronunciation: string, pos: string, example: string) => void;
+  onEdit: (rowIndex: number, word: string, meaning: string, meaningEn: string, meaningVi: string, pronunciation: string, pos: string, example: string, tags: string) => void;
   onSpeak: (word: string) => void;
   onRefresh: () => void;
   currentFile: string;
@@ -58,6 +60,7 @@ export default function VocabTable({
   const [chooserTree, setChooserTree] = useState<any[]>([]);
   const [errorMessage, setErrorMessage] = useState<string>('')
   const [editingRow, setEditingRow] = useState<{index: number, row: VocabRow} | null>(null)
+  const [tagFilter, setTagFilter] = useState('')
 
   const selectedRef = useRef(selected)
   useEffect(() => {
@@ -86,6 +89,13 @@ export default function VocabTable({
     [rows]
   )
 
+  const allTags = useMemo(() => collectTags(rows || []), [rows])
+
+  // A tag that no longer exists in this file would hide every row
+  useEffect(() => {
+    if (tagFilter && !allTags.includes(tagFilter)) setTagFilter('')
+  }, [allTags, tagFilter])
+
   const filteredRows = useMemo(() => {
     if (!rowsWithIndex || rowsWithIndex.length === 0) return []
     const wf = (wordFilter || '').trim().toLowerCase()
@@ -95,9 +105,10 @@ export default function VocabTable({
       const m = (r.meaning || '').toString().toLowerCase()
       if (wf && !w.includes(wf)) return false
       if (mf && !m.includes(mf)) return false
+      if (tagFilter && !matchesAnyTag(r.tags, [tagFilter])) return false
       return true
     })
-  }, [rowsWithIndex, wordFilter, meaningFilter])
+  }, [rowsWithIndex, wordFilter, meaningFilter, tagFilter])
 
   const cols = useMemo<ColumnDef<VocabRowWithIndex>[]>(
     () => [
@@ -128,6 +139,19 @@ export default function VocabTable({
       { accessorKey: "pronunciation", header: "IPA" },
       { accessorKey: "pos", header: "POS" },
       { accessorKey: "example", header: "Example" },
+      {
+        id: "tags",
+        header: "Tags",
+        cell: ({ row }) => (
+          <div className="flex flex-wrap gap-1">
+            {parseTags(row.original.tags).map((t) => (
+              <span key={t} className="px-1.5 py-0.5 rounded bg-sky-100 dark:bg-sky-900/40 text-sky-700 dark:text-sky-300 text-xs">
+                {t}
+              </span>
+            ))}
+          </div>
+        ),
+      },
       {
         id: "actions",
         header: "Actions",
@@ -371,9 +395,24 @@ export default function VocabTable({
               onChange={(e)=>setMeaningFilter(e.target.value)}
             />
           </div>
+          {allTags.length > 0 && (
+            <select
+              className="input-field sm:!w-44 !py-2.5"
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              title="Filter by tag"
+            >
+              <option value="">All tags</option>
+              {allTags.map((t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ))}
+            </select>
+          )}
           <button 
             className="btn-secondary !px-6 whitespace-nowrap" 
-            onClick={() => { setWordFilter(''); setMeaningFilter('') }}
+            onClick={() => { setWordFilter(''); setMeaningFilter(''); setTagFilter('') }}
           >
             Clear
           </button>
@@ -457,10 +496,11 @@ export default function VocabTable({
           example={editingRow.row.example || ''}
           pronunciation={editingRow.row.pronunciation}
           pos={(editingRow.row.pos || '')}
+          tags={editingRow.row.tags || ''}
           onClose={() => setEditingRow(null)}
-          onSave={(word, meaning, meaningEn, meaningVi, pronunciation, pos, example) => {
+          onSave={(word, meaning, meaningEn, meaningVi, pronunciation, pos, example, tags) => {
             rememberScrollPosition();
-            onEdit(editingRow.index, word, meaning, meaningEn, meaningVi, pronunciation, pos, example);
+            onEdit(editingRow.index, word, meaning, meaningEn, meaningVi, pronunciation, pos, example, tags);
             setEditingRow(null);
           }}
         />
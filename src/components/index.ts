@@ -1,15 +1,25 @@
+export { default as AcceptedAnswersEditor } from './AcceptedAnswersEditor'
 export { default as AddWordModal } from './AddWordModal'
+export { default as AnswerDiff } from './AnswerDiff'
 export { default as ChooseFileModal } from './ChooseFileModal'
+export { default as CommandPalette } from './CommandPalette'
 export { default as ConfirmModal } from './ConfirmModal'
 export { default as EditWordModal } from './EditWordModal'
 export { default as ErrorBoundary } from './ErrorBoundary'
 export { default as FolderNavigator } from './FolderNavigator'
 export { default as FolderTree } from './FolderTree'
+export { default as ImportSmartReviewModal } from './ImportSmartReviewModal'
 export { default as InputModal } from './InputModal'
+export { default as LeechPanel } from './LeechPanel'
+export { default as LlmProviderPanel } from './LlmProviderPanel'
 export { default as PdfLibrary } from './PdfLibrary'
 export { default as PdfViewer } from './PdfViewer'
 export { default as PdfVocabPanel } from './PdfVocabPanel'
+export { default as QuotaUsagePanel } from './QuotaUsagePanel'
+export { default as ResponseCachePanel } from './ResponseCachePanel'
+export { default as SavedDecksPanel } from './SavedDecksPanel'
 export { default as TranslateTextModal } from './TranslateTextModal'
+export { default as TranslationProvidersPanel } from './TranslationProvidersPanel'
 export { default as VocabTable } from './VocabTable'
 export { PendingWordsSidebar } from './PendingWordsSidebar'
 export type { PendingWord } from './PendingWordsSidebar'
@@ -21,6 +31,9 @@ export { default as StudyView } from './StudyView'
 export { default as PdfReaderView } from './PdfReaderView'
 export { default as ApiKeyView } from './ApiKeyView'
 export { default as SRSManagerView } from './SRSManagerView'
+export { default as StatsView } from './StatsView'
+export { default as SyncView } from './SyncView'
+export { default as BackupView } from './BackupView'
 
 // New components for enhanced study experience
 export { ReviewCalendar } from './ReviewCalendar'
@@ -0,0 +1,66 @@
+// ReviewLog.ts - Renderer side of the append-only review log
+// Entries are buffered briefly and sent to the main process (userData/review-log.jsonl).
+
+import type { ReviewLogEntry, ReviewLogQuery } from '../../../electron'
+
+const FLUSH_DELAY_MS = 300
+
+class ReviewLogClass {
+  private pending: ReviewLogEntry[] = []
+  private flushTimer: number | null = null
+
+  constructor() {
+    // Don't lose the last few ratings when the window closes mid-debounce.
+    try {
+      window.addEventListener('beforeunload', () => {
+        void this.flush()
+      })
+    } catch {}
+  }
+
+  append(entry: ReviewLogEntry) {
+    this.pending.push(entry)
+    if (this.flushTimer != null) return
+    this.flushTimer = window.setTimeout(() => {
+      this.flushTimer = null
+      void this.flush()
+    }, FLUSH_DELAY_MS)
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer != null) {
+      window.clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    if (this.pending.length === 0) return
+    const batch = this.pending
+    this.pending = []
+    try {
+      await window.api.reviewLogAppend(batch)
+    } catch (e) {
+      console.error('[ReviewLog] Failed to append:', e)
+    }
+  }
+
+  async query(query?: ReviewLogQuery): Promise<ReviewLogEntry[]> {
+    await this.flush()
+    try {
+      return (await window.api.reviewLogQuery(query)) || []
+    } catch (e) {
+      console.error('[ReviewLog] Failed to query:', e)
+      return []
+    }
+  }
+
+  async count(): Promise<number> {
+    await this.flush()
+    try {
+      return await window.api.reviewLogCount()
+    } catch {
+      return 0
+    }
+  }
+}
+
+// Singleton instance
+export const ReviewLog = new ReviewLogClass()
@@ -0,0 +1 @@
+export { ReviewLog } from './ReviewLog'
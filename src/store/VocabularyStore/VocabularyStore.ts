@@ -1,6 +1,20 @@
 // VocabularyStore.ts - Single Source of Truth for all vocabulary data
 // This store manages vocabulary records with SRS (Spaced Repetition System) data
 
+import { SCHEDULERS, clampDifficulty, isSchedulerId } from './schedulers'
+import type { Difficulty, Scheduler, SchedulerId, SchedulerUpdate } from './schedulers'
+import { buildDailyQueue, dayKey, fuzzInterval, normalizeDailyLimits } from './dailyQueue'
+import type { DailyLimits, DailyProgress, DailyQueue } from './dailyQueue'
+import { nextLearningStep, normalizeLearningSteps } from './learningSteps'
+import type { LearningSteps } from './learningSteps'
+import { LEECH_TAG, isLeech, normalizeLeechSettings, withTag, withoutTag } from './leech'
+import type { LeechSettings } from './leech'
+import { effectiveReviewDate, isCardActive, startOfNextDay } from './cardStatus'
+import { matchesDeckQuery, normalizeSavedDecks, parseDeckQuery } from './deckQuery'
+import type { SavedDeck } from './deckQuery'
+import { ReviewLog } from '../ReviewLog'
+import type { AnkiScheduling, VocabDbOp, VocabRow } from '../../../electron'
+
 export interface VocabRecord {
   // Identity
   id: string // unique: `${source}||${word}||${meaning}`
@@ -24,6 +38,22 @@ export interface VocabRecord {
   interval: number // days
   easeFactor: number // SM-2 ease factor (default 2.5)
   repetitions: number // consecutive correct answers
+
+  // Minute-level learning steps (only set while the card is in them)
+  learningStep?: number // index into the learn/relearn steps
+  stepKind?: 'learn' | 'relearn'
+
+  // Leech tracking: review cards answered wrong
+  lapses?: number
+  mnemonic?: string
+
+  // Hidden from every review/study queue: suspended until undone, buried until the given time
+  suspended?: boolean
+  buriedUntil?: number
+
+  // FSRS memory state (only set once the FSRS scheduler has reviewed the card)
+  stability?: number // days until recall probability drops to 90%
+  fsrsDifficulty?: number // 1 (easy) .. 10 (hard)
   
   // Session tracking
   lastReviewDate?: number
@@ -54,7 +84,15 @@ export interface VocabRecord {
 
 export type VocabState = 'new' | 'learning' | 'reviewing' | 'mastered'
 
+// Legacy localStorage key; migrated once into the main-process vocab database.
 const VOCAB_STORE_KEY = 'vocab_store_v2'
+const SAVE_DEBOUNCE_MS = 200
+const SCHEDULER_KEY = 'vocab_scheduler'
+const DAILY_LIMITS_KEY = 'vocab_daily_limits'
+const DAILY_PROGRESS_KEY = 'vocab_daily_progress'
+const LEARNING_STEPS_KEY = 'vocab_learning_steps'
+const LEECH_SETTINGS_KEY = 'vocab_leech_settings'
+const SAVED_DECKS_KEY = 'vocab_saved_decks'
 
 // Persist only the most recent history event to keep storage small.
 // Increase this if you want to retain a small tail for debugging.
@@ -62,86 +100,47 @@ const MAX_PERSISTED_HISTORY_EVENTS = 1
 
 type HistoryEvent = VocabRecord['history'][number]
 
+// Optional outcome of the session that led to a rating (for the review log).
+export type ReviewOutcome = { correct?: boolean }
+
+// How an imported Smart Review file is combined with the current records:
+// - replace: the file becomes the whole store
+// - merge-newer: per record, whichever side has the later updatedAt wins
+// - merge-both: existing records are kept; differing imported versions are added as copies
+export type ImportMode = 'replace' | 'merge-newer' | 'merge-both'
+
+export type ImportPreview = {
+  total: number
+  added: VocabRecord[] // not in the store yet
+  changed: Array<{ local: VocabRecord; incoming: VocabRecord }> // differs, imported version is newer
+  conflicting: Array<{ local: VocabRecord; incoming: VocabRecord }> // differs, local version is newer or same age
+  unchanged: number
+  missing: VocabRecord[] // in the store but not in the file (removed by replace)
+}
+
+export type ImportResult = { added: number; updated: number; copied: number; removed: number }
+
 function appendHistory(prev: unknown, ...events: HistoryEvent[]): HistoryEvent[] {
   const existing = Array.isArray(prev) ? (prev as HistoryEvent[]) : []
   if (MAX_PERSISTED_HISTORY_EVENTS <= 0) return []
   return [...existing, ...events].slice(-MAX_PERSISTED_HISTORY_EVENTS)
 }
 
-// SM-2 Algorithm implementation
-function calculateSM2(record: VocabRecord, quality: number): Partial<VocabRecord> {
-  // quality: 0-5 (0-2 = incorrect, 3-5 = correct)
-  const q = Math.max(0, Math.min(5, quality))
-  
-  let { interval, easeFactor, repetitions, streak, timesReviewed, timesCorrect } = record
-  const now = Date.now()
-  const todayStart = (() => {
-    const d = new Date(now)
-    d.setHours(0, 0, 0, 0)
-    return d.getTime()
-  })()
-  
-  timesReviewed += 1
-  
-  if (q < 3) {
-    // Incorrect - reset
-    repetitions = 0
-    interval = 1
-    streak = 0
-  } else {
-    // Correct
-    timesCorrect += 1
-    streak += 1
-    
-    if (repetitions === 0) {
-      // First correct based on quality
-      if (q === 3) interval = 1 // Hard
-      else if (q === 4) interval = 3 // Good
-      else if (q === 5) interval = 7 // Easy
-      else interval = 1
-    } else if (repetitions === 1) {
-      interval = 6
-    } else {
-      interval = Math.round(interval * easeFactor)
-    }
-    repetitions += 1
-  }
-  
-  // Update ease factor (minimum 1.3)
-  easeFactor = Math.max(1.3, easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)))
-  
-  // Anchor scheduling to a calendar day (midnight local time) so it stays stable for date-based testing.
-  const nextReviewDate = todayStart + interval * 24 * 60 * 60 * 1000
-  
-  // Determine state
-  let state: VocabState = record.state
-  if (repetitions >= 5 && streak >= 3) {
-    state = 'mastered'
-  } else if (repetitions >= 1) {
-    state = 'reviewing'
-  } else {
-    state = 'learning'
-  }
-  
-  return {
-    interval,
-    easeFactor,
-    repetitions,
-    nextReviewDate,
-    lastReviewDate: now,
-    timesReviewed,
-    timesCorrect,
-    streak,
-    state,
-    updatedAt: now
-  }
-}
-
 class VocabularyStoreClass {
   private records: Map<string, VocabRecord> = new Map()
   private listeners: Set<() => void> = new Set()
   private initialized = false
   private _version = 0
+  private dirty: Set<string> = new Set()
+  private clearPending = false
+  private persistEnabled = false
+  private flushTimer: number | null = null
+  private schedulerId: SchedulerId = 'sm2'
+  private dailyLimits: DailyLimits = normalizeDailyLimits(null)
+  private dailyProgress: DailyProgress = { day: '', newCount: 0, reviewCount: 0, introduced: [] }
+  private learningSteps: LearningSteps = normalizeLearningSteps(null)
+  private leechSettings: LeechSettings = normalizeLeechSettings(null)
+  private savedDecks: SavedDeck[] = []
 
   // Version counter - increments on any mutation, used for useMemo dependencies
   get version(): number {
@@ -149,9 +148,357 @@ class VocabularyStoreClass {
   }
 
   constructor() {
+    this.loadScheduler()
+    this.loadDailySettings()
     this.load()
   }
 
+  private loadScheduler() {
+    try {
+      const raw = localStorage.getItem(SCHEDULER_KEY)
+      if (isSchedulerId(raw)) this.schedulerId = raw
+    } catch {}
+  }
+
+  // Each setting is parsed on its own so one corrupt value does not reset the others
+  private readSetting(key: string, label: string): unknown {
+    try {
+      return JSON.parse(localStorage.getItem(key) || 'null')
+    } catch (e) {
+      console.error(`[VocabStore] Failed to load ${label}:`, e)
+      return null
+    }
+  }
+
+  private loadDailySettings() {
+    this.dailyLimits = normalizeDailyLimits(this.readSetting(DAILY_LIMITS_KEY, 'daily limits'))
+    const raw = this.readSetting(DAILY_PROGRESS_KEY, 'daily progress') as any
+    if (raw && typeof raw.day === 'string') {
+      this.dailyProgress = {
+        day: raw.day,
+        newCount: Number(raw.newCount) || 0,
+        reviewCount: Number(raw.reviewCount) || 0,
+        introduced: Array.isArray(raw.introduced) ? raw.introduced.map(String) : [],
+      }
+    }
+    this.learningSteps = normalizeLearningSteps(this.readSetting(LEARNING_STEPS_KEY, 'learning steps'))
+    this.leechSettings = normalizeLeechSettings(this.readSetting(LEECH_SETTINGS_KEY, 'leech settings'))
+    this.savedDecks = normalizeSavedDecks(this.readSetting(SAVED_DECKS_KEY, 'saved decks'))
+  }
+
+  private get scheduler(): Scheduler {
+    return SCHEDULERS[this.schedulerId]
+  }
+
+  // Active scheduling algorithm (per user, persisted locally)
+  getSchedulerId(): SchedulerId {
+    return this.schedulerId
+  }
+
+  setSchedulerId(id: SchedulerId) {
+    if (!isSchedulerId(id) || id === this.schedulerId) return
+    this.schedulerId = id
+    try {
+      localStorage.setItem(SCHEDULER_KEY, id)
+    } catch (e) {
+      console.error('[VocabStore] Failed to save scheduler:', e)
+    }
+    this.notify()
+  }
+
+  // Per-day limits for Smart Review (persisted locally)
+  getDailyLimits(): DailyLimits {
+    return { ...this.dailyLimits }
+  }
+
+  setDailyLimits(next: Partial<DailyLimits>) {
+    this.dailyLimits = normalizeDailyLimits({ ...this.dailyLimits, ...next })
+    try {
+      localStorage.setItem(DAILY_LIMITS_KEY, JSON.stringify(this.dailyLimits))
+    } catch (e) {
+      console.error('[VocabStore] Failed to save daily limits:', e)
+    }
+    this.notify()
+  }
+
+  // New cards / reviews rated today (a new day starts empty; the stored progress rolls over on the next rating)
+  getDailyProgress(now: number = Date.now()): DailyProgress {
+    const day = dayKey(now)
+    if (this.dailyProgress.day !== day) return { day, newCount: 0, reviewCount: 0, introduced: [] }
+    return { ...this.dailyProgress, introduced: [...this.dailyProgress.introduced] }
+  }
+
+  private countRating(id: string, isNew: boolean, now: number, introduce = false) {
+    const progress = this.getDailyProgress(now)
+    if (progress.introduced.includes(id)) return
+    if (isNew) progress.newCount += 1
+    else progress.reviewCount += 1
+    if (introduce) progress.introduced.push(id)
+    this.dailyProgress = progress
+    try {
+      localStorage.setItem(DAILY_PROGRESS_KEY, JSON.stringify(progress))
+    } catch {}
+  }
+
+  // Today's Smart Review queue within the daily limits (new/learning/review interleaved)
+  getDailyQueue(now: number = Date.now()): DailyQueue {
+    return buildDailyQueue(this.records.values(), this.dailyLimits, this.getDailyProgress(now), now)
+  }
+
+  // Learning/relearning steps in minutes (persisted locally)
+  getLearningSteps(): LearningSteps {
+    return { learn: [...this.learningSteps.learn], relearn: [...this.learningSteps.relearn] }
+  }
+
+  setLearningSteps(next: Partial<LearningSteps>) {
+    this.learningSteps = normalizeLearningSteps({ ...this.learningSteps, ...next })
+    try {
+      localStorage.setItem(LEARNING_STEPS_KEY, JSON.stringify(this.learningSteps))
+    } catch (e) {
+      console.error('[VocabStore] Failed to save learning steps:', e)
+    }
+    this.notify()
+  }
+
+  // Smart Review: move a card through its learning steps after an answer in the session
+  // (a failed review card also counts as a lapse).
+  // Returns the updated record, or undefined when the answer changes nothing.
+  answerLearningStep(id: string, failed: boolean): VocabRecord | undefined {
+    const record = this.records.get(id)
+    if (!record) return undefined
+
+    const now = Date.now()
+    const lapse = failed && this.isReviewCard(record)
+    const step = nextLearningStep(record, failed, this.learningSteps, now)
+    if (!step && !lapse) return undefined
+    if (record.state === 'new') this.countRating(id, true, now, true)
+
+    let updated: VocabRecord = { ...record, ...(step || {}), updatedAt: now }
+    if (lapse) updated = this.withLapse(updated, now)
+    this.setRecord(id, updated)
+    this.save()
+    this.notify()
+    return updated
+  }
+
+  // The end-of-session rating must not replace the minute-level due date of a card still in
+  // its steps, and must not bring a suspended card back.
+  private holdSchedule(record: VocabRecord, updates: SchedulerUpdate): SchedulerUpdate {
+    if (record.suspended) return { ...updates, interval: record.interval, nextReviewDate: record.nextReviewDate }
+    if (typeof record.learningStep !== 'number') return updates
+    return { ...updates, state: 'learning', interval: record.interval, nextReviewDate: record.nextReviewDate }
+  }
+
+  // A lapse is a wrong answer on a card that already left the new/learning-step phase
+  private isReviewCard(record: VocabRecord): boolean {
+    return record.state !== 'new' && typeof record.learningStep !== 'number'
+  }
+
+  // Leech settings (persisted locally)
+  getLeechSettings(): LeechSettings {
+    return { ...this.leechSettings }
+  }
+
+  setLeechSettings(next: Partial<LeechSettings>) {
+    this.leechSettings = normalizeLeechSettings({ ...this.leechSettings, ...next })
+    try {
+      localStorage.setItem(LEECH_SETTINGS_KEY, JSON.stringify(this.leechSettings))
+    } catch (e) {
+      console.error('[VocabStore] Failed to save leech settings:', e)
+    }
+    this.notify()
+  }
+
+  // Count a lapse; at the threshold the word is tagged as a leech (and optionally suspended).
+  private withLapse(record: VocabRecord, now: number): VocabRecord {
+    const lapses = (record.lapses || 0) + 1
+    if (lapses < this.leechSettings.threshold || isLeech(record)) return { ...record, lapses }
+
+    const suspend = this.leechSettings.autoSuspend
+    return {
+      ...record,
+      lapses,
+      tags: withTag(record.tags, LEECH_TAG),
+      suspended: suspend || record.suspended,
+      learningStep: suspend ? undefined : record.learningStep,
+      stepKind: suspend ? undefined : record.stepKind,
+      history: appendHistory(record.history, {
+        timestamp: now,
+        action: 'lapsed',
+        data: { leech: true, lapses, suspended: suspend },
+      }),
+    }
+  }
+
+  getLeeches(): VocabRecord[] {
+    return this.getAll().filter(isLeech)
+  }
+
+  // Take cards out of reviews (or put them back) without touching their schedule.
+  // Returns how many cards changed.
+  setSuspended(ids: string[], suspended: boolean): number {
+    const change = (record: VocabRecord): Partial<VocabRecord> | null => {
+      if (!!record.suspended === suspended) return null
+      // A suspended card leaves its learning steps; it comes back on its day-based schedule
+      return { suspended: suspended || undefined, learningStep: undefined, stepKind: undefined }
+    }
+    return this.setCardStatus(ids, change, { suspended })
+  }
+
+  // Hide cards until tomorrow (or show them again right away). Returns how many cards changed.
+  setBuried(ids: string[], buried: boolean): number {
+    const now = Date.now()
+    const buriedUntil = startOfNextDay(now)
+    const change = (record: VocabRecord): Partial<VocabRecord> | null => {
+      if (buried) return record.buriedUntil === buriedUntil ? null : { buriedUntil }
+      return record.buriedUntil ? { buriedUntil: undefined } : null
+    }
+    return this.setCardStatus(ids, change, { buried, until: buried ? buriedUntil : undefined })
+  }
+
+  // Bulk status change with a single save/notify
+  private setCardStatus(
+    ids: string[],
+    change: (record: VocabRecord) => Partial<VocabRecord> | null,
+    historyData: Record<string, unknown>
+  ): number {
+    const now = Date.now()
+    let changed = 0
+    for (const id of new Set(ids)) {
+      const record = this.records.get(id)
+      if (!record) continue
+      const updates = change(record)
+      if (!updates) continue
+      this.setRecord(id, {
+        ...record,
+        ...updates,
+        updatedAt: now,
+        history: appendHistory(record.history, { timestamp: now, action: 'rescheduled', data: historyData }),
+      })
+      changed += 1
+    }
+    if (changed > 0) {
+      this.save()
+      this.notify()
+    }
+    return changed
+  }
+
+  // Start a leech over as a new card: progress, lapses and the leech tag are cleared.
+  resetLeech(id: string): VocabRecord | undefined {
+    const record = this.records.get(id)
+    if (!record) return undefined
+
+    const now = Date.now()
+    const updated: VocabRecord = {
+      ...record,
+      state: 'new',
+      nextReviewDate: now,
+      interval: 0,
+      easeFactor: 2.5,
+      repetitions: 0,
+      streak: 0,
+      stability: undefined,
+      fsrsDifficulty: undefined,
+      learningStep: undefined,
+      stepKind: undefined,
+      lapses: 0,
+      suspended: undefined,
+      tags: withoutTag(record.tags, LEECH_TAG),
+      updatedAt: now,
+      history: appendHistory(record.history, { timestamp: now, action: 'rescheduled', data: { leechReset: true } }),
+    }
+    this.setRecord(id, updated)
+    this.save()
+    this.notify()
+    return updated
+  }
+
+  // Replace a card with one new card per meaning (e.g. "ngân hàng; bờ sông").
+  splitMeanings(id: string, meanings: string[]): VocabRecord[] {
+    const record = this.records.get(id)
+    const parts = [...new Set(meanings.map((m) => String(m || '').trim()).filter(Boolean))]
+    if (!record || parts.length < 2) return []
+
+    this.delete(id)
+    return parts.map((meaning) =>
+      this.upsert({
+        word: record.word,
+        meaning,
+        pronunciation: record.pronunciation,
+        pos: record.pos,
+        example: record.example,
+        source: record.source,
+        mnemonic: record.mnemonic,
+        tags: withoutTag(record.tags, LEECH_TAG),
+        state: 'new',
+      })
+    )
+  }
+
+  // Saved query decks (persisted locally)
+  getSavedDecks(): SavedDeck[] {
+    return this.savedDecks.map((d) => ({ ...d }))
+  }
+
+  // Create a deck, or update the one with `id`
+  saveDeck(name: string, query: string, id?: string): SavedDeck {
+    const existing = id ? this.savedDecks.find((d) => d.id === id) : undefined
+    const deck: SavedDeck = {
+      id: existing?.id || `deck_${Date.now().toString(36)}`,
+      name: name.trim() || query.trim(),
+      query: query.trim(),
+      createdAt: existing?.createdAt || Date.now(),
+    }
+    this.savedDecks = existing
+      ? this.savedDecks.map((d) => (d.id === deck.id ? deck : d))
+      : [...this.savedDecks, deck]
+    this.persistSavedDecks()
+    return deck
+  }
+
+  deleteSavedDeck(id: string) {
+    this.savedDecks = this.savedDecks.filter((d) => d.id !== id)
+    this.persistSavedDecks()
+  }
+
+  private persistSavedDecks() {
+    try {
+      localStorage.setItem(SAVED_DECKS_KEY, JSON.stringify(this.savedDecks))
+    } catch (e) {
+      console.error('[VocabStore] Failed to save decks:', e)
+    }
+    this.notify()
+  }
+
+  // Records matching a deck query; `errors` lists the parts of the query that were ignored.
+  queryRecords(query: string, now: number = Date.now()): { records: VocabRecord[]; errors: string[] } {
+    const parsed = parseDeckQuery(query)
+    const records: VocabRecord[] = []
+    this.forEachRecord((r) => {
+      if (matchesDeckQuery(r, parsed, now)) records.push(r)
+    })
+    return { records, errors: parsed.errors }
+  }
+
+  // Move a freshly computed due date a little so reviews don't pile up on one calendar day.
+  private withFuzz(id: string, updates: SchedulerUpdate, now: number): SchedulerUpdate {
+    if (!this.dailyLimits.fuzz) return updates
+    const load = new Map<string, number>()
+    this.forEachRecord((r) => {
+      if (r.id === id || r.state === 'new') return
+      const key = dayKey(r.nextReviewDate || 0)
+      load.set(key, (load.get(key) || 0) + 1)
+    })
+    const interval = fuzzInterval(updates.interval, now, load)
+    if (interval === updates.interval) return updates
+    return {
+      ...updates,
+      interval,
+      nextReviewDate: updates.nextReviewDate + (interval - updates.interval) * 24 * 60 * 60 * 1000,
+    }
+  }
+
   private normalizeLoadedRecord(id: string, raw: any): { record: VocabRecord; changed: boolean } {
     const now = Date.now()
 
@@ -199,6 +546,14 @@ class VocabularyStoreClass {
       interval: Number.isFinite(Number(raw?.interval)) ? Number(raw.interval) : 0,
       easeFactor: Number.isFinite(Number(raw?.easeFactor)) ? Number(raw.easeFactor) : 2.5,
       repetitions: Number.isFinite(Number(raw?.repetitions)) ? Number(raw.repetitions) : 0,
+      learningStep: typeof raw?.learningStep === 'number' ? raw.learningStep : undefined,
+      stepKind: raw?.stepKind === 'learn' || raw?.stepKind === 'relearn' ? raw.stepKind : undefined,
+      lapses: Number.isFinite(Number(raw?.lapses)) ? Number(raw.lapses) : undefined,
+      suspended: raw?.suspended === true ? true : undefined,
+      buriedUntil: typeof raw?.buriedUntil === 'number' ? raw.buriedUntil : undefined,
+      mnemonic: typeof raw?.mnemonic === 'string' ? raw.mnemonic : undefined,
+      stability: typeof raw?.stability === 'number' ? raw.stability : undefined,
+      fsrsDifficulty: typeof raw?.fsrsDifficulty === 'number' ? raw.fsrsDifficulty : undefined,
       lastReviewDate: typeof raw?.lastReviewDate === 'number' ? raw.lastReviewDate : undefined,
       lastLapseAt: typeof raw?.lastLapseAt === 'number' ? raw.lastLapseAt : undefined,
       timesReviewed: Number.isFinite(Number(raw?.timesReviewed)) ? Number(raw.timesReviewed) : 0,
@@ -217,80 +572,274 @@ class VocabularyStoreClass {
   }
 
   private load() {
+    // Records live in the main-process journal (userData/vocab-store.jsonl). The initial load is
+    // synchronous so every view sees the full store on first render, like the old localStorage load.
+    // On first run the legacy localStorage blob is handed over once and then removed.
+    let legacyRaw: string | null = null
+    try {
+      legacyRaw = localStorage.getItem(VOCAB_STORE_KEY)
+    } catch {}
+
     try {
-      const raw = localStorage.getItem(VOCAB_STORE_KEY)
-      if (raw) {
-        const data = JSON.parse(raw) as Record<string, any>
-        let migrated = false
-        const entries: Array<[string, VocabRecord]> = []
-        for (const [id, rec] of Object.entries(data)) {
-          const normalized = this.normalizeLoadedRecord(id, rec)
-          migrated ||= normalized.changed
-          entries.push([id, normalized.record])
+      const res = window.api.vocabDbLoadSync(legacyRaw || undefined)
+      if (!res || res.error) throw new Error(res?.error || 'No response from vocab database')
+
+      let changed = false
+      const entries: Array<[string, VocabRecord]> = []
+      for (const [id, rec] of Object.entries(res.records || {})) {
+        const normalized = this.normalizeLoadedRecord(id, rec)
+        if (normalized.changed) {
+          changed = true
+          this.dirty.add(id)
         }
-        this.records = new Map(entries)
-        if (migrated) this.save()
+        entries.push([id, normalized.record])
       }
-      this.initialized = true
+      this.records = new Map(entries)
+      this.persistEnabled = true
+
+      if (legacyRaw && (res.migrated || res.exists)) {
+        try {
+          localStorage.removeItem(VOCAB_STORE_KEY)
+        } catch {}
+      }
+      if (changed) this.save()
     } catch (e) {
+      // Never write while the database could not be read: appends would mix with an unknown state.
       console.error('[VocabStore] Failed to load:', e)
       this.records = new Map()
-      this.initialized = true
+      this.persistEnabled = false
     }
+    this.initialized = true
+
+    try {
+      window.addEventListener('beforeunload', () => this.flush())
+      window.api.onVocabDbChanged?.(() => {
+        void this.reload()
+      })
+    } catch {}
   }
 
-  private save() {
+  // Re-read all records after the main process changed the database (e.g. folder sync pulled them)
+  async reload() {
+    if (!this.persistEnabled) return
+    this.flush()
     try {
-      // Persist full SM-2 progress fields so review scheduling/state survives app restarts.
-      const data: Record<string, Partial<VocabRecord>> = {}
-      this.records.forEach((v, k) => {
-        data[k] = {
-          // Identity + content
-          id: v.id,
-          word: v.word,
-          meaning: v.meaning,
-          meaningEn: v.meaningEn,
-          meaningVi: v.meaningVi,
-          meaningNoteVi: v.meaningNoteVi,
-          meaningNoteVie: v.meaningNoteVie,
-          meaningNoteEn: v.meaningNoteEn,
-          pronunciation: v.pronunciation,
-          pos: v.pos,
-          example: v.example,
-          source: v.source,
-
-          // Scheduling + state
-          state: v.state,
-          nextReviewDate: v.nextReviewDate,
-          interval: v.interval,
-          difficultyRating: v.difficultyRating,
-
-          // SM-2 progress (critical for stable Smart Review scheduling)
-          easeFactor: v.easeFactor,
-          repetitions: v.repetitions,
-          lastReviewDate: v.lastReviewDate,
-          lastLapseAt: v.lastLapseAt,
-          timesReviewed: v.timesReviewed,
-          timesCorrect: v.timesCorrect,
-          streak: v.streak,
-
-          // Session / round-based flags (keep for resume)
-          wrongInCurrentRound: v.wrongInCurrentRound,
-          needsNextRound: v.needsNextRound,
-
-          // Keep only a tiny history tail (already truncated via appendHistory)
-          history: appendHistory(v.history),
-
-          // Metadata
-          createdAt: v.createdAt,
-          updatedAt: v.updatedAt,
-          tags: v.tags,
-        }
+      const all = await window.api.vocabDbGetAll()
+      // A replace import during the await rewrites the whole database on the next flush anyway
+      if (this.clearPending) return
+      const entries: Array<[string, VocabRecord]> = []
+      for (const [id, rec] of Object.entries(all || {})) {
+        entries.push([id, this.normalizeLoadedRecord(id, rec).record])
+      }
+      const records = new Map(entries)
+      // Changes made while waiting (reviews, upserts, deletes) are not saved yet: keep the in-memory version
+      this.dirty.forEach((id) => {
+        const pending = this.records.get(id)
+        if (pending) records.set(id, pending)
+        else records.delete(id)
       })
-      localStorage.setItem(VOCAB_STORE_KEY, JSON.stringify(data))
+      this.records = records
+      this.notify()
     } catch (e) {
+      console.error('[VocabStore] Failed to reload:', e)
+    }
+  }
+
+  // Persisted shape of a record (derived/transient fields are dropped).
+  private toPersisted(v: VocabRecord): Partial<VocabRecord> {
+    return {
+      // Identity + content
+      id: v.id,
+      word: v.word,
+      meaning: v.meaning,
+      meaningEn: v.meaningEn,
+      meaningVi: v.meaningVi,
+      meaningNoteVi: v.meaningNoteVi,
+      meaningNoteVie: v.meaningNoteVie,
+      meaningNoteEn: v.meaningNoteEn,
+      pronunciation: v.pronunciation,
+      pos: v.pos,
+      example: v.example,
+      source: v.source,
+
+      // Scheduling + state
+      state: v.state,
+      nextReviewDate: v.nextReviewDate,
+      interval: v.interval,
+      difficultyRating: v.difficultyRating,
+
+      // SM-2 progress (critical for stable Smart Review scheduling)
+      easeFactor: v.easeFactor,
+      repetitions: v.repetitions,
+      lastReviewDate: v.lastReviewDate,
+      lastLapseAt: v.lastLapseAt,
+      timesReviewed: v.timesReviewed,
+      timesCorrect: v.timesCorrect,
+      streak: v.streak,
+
+      // Learning steps (so a card mid-step survives an app restart)
+      learningStep: v.learningStep,
+      stepKind: v.stepKind,
+
+      // Leech tracking
+      lapses: v.lapses,
+      mnemonic: v.mnemonic,
+
+      // Suspended / buried
+      suspended: v.suspended,
+      buriedUntil: v.buriedUntil,
+
+      // FSRS memory state
+      stability: v.stability,
+      fsrsDifficulty: v.fsrsDifficulty,
+
+      // Session / round-based flags (keep for resume)
+      wrongInCurrentRound: v.wrongInCurrentRound,
+      needsNextRound: v.needsNextRound,
+
+      // Keep only a tiny history tail (already truncated via appendHistory)
+      history: appendHistory(v.history),
+
+      // Metadata
+      createdAt: v.createdAt,
+      updatedAt: v.updatedAt,
+      tags: v.tags,
+    }
+  }
+
+  private setRecord(id: string, record: VocabRecord) {
+    this.records.set(id, record)
+    this.dirty.add(id)
+  }
+
+  // Incremental save: only records touched since the last flush are written (batched).
+  private save() {
+    if (!this.persistEnabled) return
+    if (this.flushTimer != null) return
+    this.flushTimer = window.setTimeout(() => {
+      this.flushTimer = null
+      this.flush()
+    }, SAVE_DEBOUNCE_MS)
+  }
+
+  // Send pending changes to the main process now instead of after the debounce
+  flush() {
+    if (this.flushTimer != null) {
+      window.clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    if (!this.persistEnabled) return
+    if (!this.clearPending && this.dirty.size === 0) return
+
+    const ops: VocabDbOp[] = []
+    if (this.clearPending) ops.push({ op: 'clear' })
+    this.dirty.forEach((id) => {
+      const record = this.records.get(id)
+      ops.push(record ? { op: 'put', id, record: this.toPersisted(record) } : { op: 'del', id })
+    })
+    this.clearPending = false
+    this.dirty.clear()
+
+    window.api.vocabDbWrite(ops).catch((e) => {
       console.error('[VocabStore] Failed to save:', e)
+    })
+  }
+
+  // Full persisted snapshot (used for JSON export)
+  exportData(): Record<string, Partial<VocabRecord>> {
+    const data: Record<string, Partial<VocabRecord>> = {}
+    this.records.forEach((v, k) => {
+      data[k] = this.toPersisted(v)
+    })
+    return data
+  }
+
+  // Parse an exported snapshot (id -> record map, or an array of records)
+  parseImport(raw: unknown): VocabRecord[] {
+    const entries: Array<[string, any]> = Array.isArray(raw)
+      ? raw.map((r: any) => [String(r?.id ?? ''), r])
+      : raw && typeof raw === 'object'
+        ? Object.entries(raw as Record<string, any>)
+        : []
+    const out: VocabRecord[] = []
+    for (const [key, value] of entries) {
+      if (!value || typeof value !== 'object') continue
+      const { record } = this.normalizeLoadedRecord(key, value)
+      if (!record.word || !record.meaning) continue
+      if (!record.id) record.id = this.makeId(record.source, record.word, record.meaning)
+      out.push(record)
     }
+    return out
+  }
+
+  // Content + schedule fingerprint (ignores updatedAt and the history tail)
+  private fingerprint(v: VocabRecord): string {
+    const { updatedAt: _updatedAt, history: _history, ...rest } = this.toPersisted(v)
+    return JSON.stringify(rest)
+  }
+
+  // Id of the merge-both copy of an imported version; derived from its updatedAt so re-importing
+  // the same file finds the existing copy instead of adding another one.
+  private importCopyId(rec: VocabRecord): string {
+    return `${rec.id}||imported-${Math.max(0, Math.floor(rec.updatedAt || 0)).toString(36)}`
+  }
+
+  previewImport(incoming: VocabRecord[]): ImportPreview {
+    const preview: ImportPreview = { total: incoming.length, added: [], changed: [], conflicting: [], unchanged: 0, missing: [] }
+    const seen = new Set<string>()
+    for (const rec of incoming) {
+      seen.add(rec.id)
+      const local = this.records.get(rec.id)
+      if (!local) {
+        preview.added.push(rec)
+      } else if (this.fingerprint(local) === this.fingerprint(rec)) {
+        preview.unchanged += 1
+      } else if ((rec.updatedAt || 0) > (local.updatedAt || 0)) {
+        preview.changed.push({ local, incoming: rec })
+      } else {
+        preview.conflicting.push({ local, incoming: rec })
+      }
+    }
+    this.records.forEach((local, id) => {
+      if (!seen.has(id)) preview.missing.push(local)
+    })
+    return preview
+  }
+
+  applyImport(incoming: VocabRecord[], mode: ImportMode): ImportResult {
+    const preview = this.previewImport(incoming)
+    const result: ImportResult = { added: 0, updated: 0, copied: 0, removed: 0 }
+
+    if (mode === 'replace') {
+      result.removed = preview.missing.length
+      result.updated = preview.changed.length + preview.conflicting.length
+      result.added = preview.added.length
+      this.records.clear()
+      this.dirty.clear()
+      this.clearPending = true
+      incoming.forEach((rec) => this.setRecord(rec.id, rec))
+    } else {
+      preview.added.forEach((rec) => this.setRecord(rec.id, rec))
+      result.added = preview.added.length
+
+      if (mode === 'merge-newer') {
+        preview.changed.forEach(({ incoming: rec }) => this.setRecord(rec.id, rec))
+        result.updated = preview.changed.length
+      } else {
+        // Copies get their own id so both versions stay in the queue; a version already kept as a
+        // copy by an earlier merge-both import is skipped.
+        ;[...preview.changed, ...preview.conflicting].forEach(({ incoming: rec }) => {
+          const id = this.importCopyId(rec)
+          if (this.records.has(id)) return
+          this.setRecord(id, { ...rec, id })
+          result.copied += 1
+        })
+      }
+    }
+
+    this.save()
+    this.notify()
+    return result
   }
 
   private notify() {
@@ -298,6 +847,31 @@ class VocabularyStoreClass {
     this.listeners.forEach(fn => fn())
   }
 
+  // Append a rating to the full review log (the in-record history keeps only the last event).
+  private logReview(
+    prev: VocabRecord,
+    next: VocabRecord,
+    kind: 'quality' | 'review' | 'difficulty' | 'initial',
+    rating: number,
+    correct: boolean | undefined,
+    now: number
+  ) {
+    this.countRating(prev.id, kind === 'initial' || prev.state === 'new', now)
+    ReviewLog.append({
+      ts: now,
+      recordId: next.id,
+      word: next.word,
+      source: next.source,
+      kind,
+      rating,
+      correct: typeof correct === 'boolean' ? correct : null,
+      elapsedMs: typeof prev.lastReviewDate === 'number' ? now - prev.lastReviewDate : null,
+      prevInterval: prev.interval,
+      newInterval: next.interval,
+      scheduler: this.schedulerId,
+    })
+  }
+
   // Generate unique ID
   makeId(source: string | undefined, word: string, meaning: string): string {
     const s = String(source || '').trim()
@@ -334,6 +908,21 @@ class VocabularyStoreClass {
     return this.records.get(this.makeId(source, word, meaning))
   }
 
+  // Tags edited on the deck row carry over to the word's Smart Review record (the leech marker stays).
+  // Returns the updated record, or undefined when the word is not in Smart Review or nothing changed.
+  setDeckTags(source: string | undefined, word: string, meaning: string, tags: string[]): VocabRecord | undefined {
+    const id = this.makeId(source, word, meaning)
+    const existing = this.records.get(id)
+    if (!existing) return undefined
+    const next = isLeech(existing) ? withTag(tags, LEECH_TAG) : tags
+    if (next.join(' ') === (existing.tags || []).join(' ')) return undefined
+    const updated: VocabRecord = { ...existing, tags: next.length > 0 ? next : undefined, updatedAt: Date.now() }
+    this.setRecord(id, updated)
+    this.save()
+    this.notify()
+    return updated
+  }
+
   // Check if record exists
   has(id: string): boolean {
     return this.records.has(id)
@@ -358,11 +947,15 @@ class VocabularyStoreClass {
           : (typeof data.meaningNoteVi === 'string'
             ? data.meaningNoteVi
             : (typeof data.meaningNoteVie === 'string' ? data.meaningNoteVie : existing.meaningVi)),
+        // Deck tags replace the record's tags, but the leech marker belongs to the record
+        tags: Array.isArray(data.tags)
+          ? (isLeech(existing) ? withTag(data.tags, LEECH_TAG) : data.tags.length > 0 ? data.tags : undefined)
+          : existing.tags,
         id,
         updatedAt: now,
         history: appendHistory(existing.history, { timestamp: now, action: 'reviewed', data })
       }
-      this.records.set(id, updated)
+      this.setRecord(id, updated)
       this.save()
       this.notify()
       return updated
@@ -391,11 +984,15 @@ class VocabularyStoreClass {
         streak: data.streak ?? 0,
         wrongInCurrentRound: data.wrongInCurrentRound ?? false,
         needsNextRound: data.needsNextRound ?? false,
+        mnemonic: data.mnemonic,
+        suspended: data.suspended,
+        buriedUntil: data.buriedUntil,
+        tags: data.tags && data.tags.length > 0 ? data.tags : undefined,
         history: appendHistory([], { timestamp: now, action: 'created' }),
         createdAt: data.createdAt ?? now,
         updatedAt: now
       }
-      this.records.set(id, newRecord)
+      this.setRecord(id, newRecord)
       this.save()
       this.notify()
       return newRecord
@@ -419,7 +1016,7 @@ class VocabularyStoreClass {
       id,
       updatedAt: now,
     }
-    this.records.set(id, updated)
+    this.setRecord(id, updated)
     this.save()
     this.notify()
     return updated
@@ -447,7 +1044,7 @@ class VocabularyStoreClass {
         }
       : record
 
-    const updates = calculateSM2(baseRecord, quality)
+    const updates = this.holdSchedule(record, this.withFuzz(id, this.scheduler.review(baseRecord, quality, now), now))
 
     const lapsedEvent: HistoryEvent | undefined = lapsed
       ? {
@@ -467,7 +1064,7 @@ class VocabularyStoreClass {
       data: { quality },
     }
     
-    const updated: VocabRecord = {
+    let updated: VocabRecord = {
       ...record,
       ...updates,
       wrongInCurrentRound: !wasCorrect || record.wrongInCurrentRound,
@@ -475,10 +1072,12 @@ class VocabularyStoreClass {
       lastLapseAt: lapsed ? now : record.lastLapseAt,
       history: appendHistory(record.history, ...(lapsedEvent ? [lapsedEvent] : []), resultEvent)
     }
+    if (!wasCorrect && this.isReviewCard(record)) updated = this.withLapse(updated, now)
     
-    this.records.set(id, updated)
+    this.setRecord(id, updated)
     this.save()
     this.notify()
+    this.logReview(record, updated, 'quality', quality, wasCorrect, now)
     return updated
   }
 
@@ -489,216 +1088,112 @@ class VocabularyStoreClass {
     if (!record) return undefined
 
     const now = Date.now()
-    const todayStart = (() => {
-      const d0 = new Date(now)
-      d0.setHours(0, 0, 0, 0)
-      return d0.getTime()
-    })()
-
-    const d = Math.max(1, Math.min(4, Math.round(difficulty))) as 1 | 2 | 3 | 4
-
-    // Base intervals matching the UI semantics
-    const baseIntervalDays: Record<1 | 2 | 3 | 4, number> = {
-      1: 7,
-      2: 4,
-      3: 2,
-      4: 1,
-    }
-
-    // Multipliers used after a word has been reviewed at least once.
-    // Easier ratings grow faster.
-    const growth: Record<1 | 2 | 3 | 4, number> = {
-      1: 1.6,
-      2: 1.35,
-      3: 1.15,
-      4: 1.0,
-    }
-
-    // Map to a SM-2-like quality number for ease-factor updates.
-    // For correct: always >=3 so it counts as a correct repetition.
-    // For incorrect: force a low score to reset repetitions.
-    const quality = wasCorrect ? (d === 1 ? 5 : d === 2 ? 4 : 3) : 1
-
-    // First, update easeFactor/repetitions/times... using SM-2 mechanics.
-    const sm2 = calculateSM2(record, quality)
-
-    // Then, override interval scheduling to use the 1..4 difficulty scale explicitly.
-    let interval = 1
-    if (!wasCorrect) {
-      interval = 1
-    } else {
-      const repsBefore = record.repetitions
-      if (repsBefore <= 0) {
-        interval = baseIntervalDays[d]
-      } else {
-        const prev = Math.max(1, record.interval || 1)
-        interval = Math.max(1, Math.round(prev * (sm2.easeFactor || record.easeFactor || 2.5) * growth[d]))
-      }
-    }
-
-    const nextReviewDate = todayStart + interval * 24 * 60 * 60 * 1000
+    const d = clampDifficulty(difficulty)
+    const updates = this.holdSchedule(record, this.withFuzz(id, this.scheduler.reviewWithDifficulty(record, d, wasCorrect, now), now))
 
-    const updated: VocabRecord = {
+    let updated: VocabRecord = {
       ...record,
-      ...sm2,
+      ...updates,
       difficultyRating: d,
-      interval,
-      nextReviewDate,
       wrongInCurrentRound: !wasCorrect || record.wrongInCurrentRound,
       needsNextRound: !wasCorrect || record.needsNextRound,
       history: appendHistory(record.history, {
         timestamp: now,
         action: wasCorrect ? 'correct' : 'incorrect',
-        data: { difficulty: d, quality, interval },
+        data: { difficulty: d, interval: updates.interval, scheduler: this.schedulerId },
       })
     }
+    if (!wasCorrect && this.isReviewCard(record)) updated = this.withLapse(updated, now)
 
-    this.records.set(id, updated)
+    this.setRecord(id, updated)
     this.save()
     this.notify()
+    this.logReview(record, updated, 'review', d, wasCorrect, now)
     return updated
   }
 
   // Smart mode: after a session, the user rates difficulty for each word.
   // This updates difficultyRating and recomputes the nextReviewDate using only:
-  // - the most recent interval (record.interval)
+  // - the card's previous schedule (interval for SM-2, memory state for FSRS)
   // - the final difficulty chosen after the session
   // It does NOT depend on correctness inside the session.
-  applyDifficultyAndRecomputeSchedule(id: string, difficulty: number): VocabRecord | undefined {
+  applyDifficultyAndRecomputeSchedule(id: string, difficulty: number, outcome?: ReviewOutcome): VocabRecord | undefined {
     const record = this.records.get(id)
     if (!record) return undefined
 
     const now = Date.now()
-    const todayStart = (() => {
-      const d0 = new Date(now)
-      d0.setHours(0, 0, 0, 0)
-      return d0.getTime()
-    })()
-
-    const d = Math.max(1, Math.min(4, Math.round(difficulty))) as 1 | 2 | 3 | 4
-
-    const baseIntervalDays: Record<1 | 2 | 3 | 4, number> = {
-      1: 7,
-      2: 4,
-      3: 2,
-      4: 1,
-    }
-    // Multipliers applied when a word has an existing interval.
-    // Easier ratings grow faster; harder ratings can shrink the next interval.
-    const multiplier: Record<1 | 2 | 3 | 4, number> = {
-      1: 2.0,
-      2: 1.6,
-      3: 1.25,
-      4: 0.8,
-    }
-
-    const prevInterval = Math.max(0, record.interval || 0)
-    const basePredict = (dd: 1 | 2 | 3 | 4): number => {
-      if (prevInterval <= 0) return baseIntervalDays[dd]
-      const raw = prevInterval * multiplier[dd]
-      // Rounding policy:
-      // - For 1/2/3 (easier): round up so interval grows as expected.
-      // - For 4 (hardest): round down so interval can shrink.
-      return Math.max(1, dd === 4 ? Math.floor(raw) : Math.ceil(raw))
-    }
-
-    // Compute from hardest -> easiest, then bump easier levels by +1 day
-    // if rounding causes collisions (or would otherwise make them not strictly later).
-    const predicted: Record<1 | 2 | 3 | 4, number> = {
-      1: basePredict(1),
-      2: basePredict(2),
-      3: basePredict(3),
-      4: basePredict(4),
-    }
-    const ordered: Array<1 | 2 | 3 | 4> = [4, 3, 2, 1]
-    let lastDays: number | null = null
-    for (const dd of ordered) {
-      let days = predicted[dd]
-      if (lastDays != null && days <= lastDays) {
-        days = lastDays + 1
-        predicted[dd] = days
-      }
-      lastDays = predicted[dd]
-    }
-
-    const interval = predicted[d]
-
-    const nextReviewDate = todayStart + interval * 24 * 60 * 60 * 1000
+    const d = clampDifficulty(difficulty)
+    const updates = this.holdSchedule(record, this.withFuzz(id, this.scheduler.applyDifficulty(record, d, now), now))
 
     const updated: VocabRecord = {
       ...record,
+      ...updates,
       difficultyRating: d,
-      interval,
-      nextReviewDate,
-      state: record.state === 'new' ? 'reviewing' : record.state,
       updatedAt: now,
       history: appendHistory(record.history, {
         timestamp: now,
         action: 'difficulty_set',
-        data: { difficulty: d, interval, recomputed: true },
+        data: { difficulty: d, interval: updates.interval, recomputed: true, scheduler: this.schedulerId },
       })
     }
 
-    this.records.set(id, updated)
+    this.setRecord(id, updated)
     this.save()
     this.notify()
+    this.logReview(record, updated, 'difficulty', d, outcome?.correct, now)
     return updated
   }
 
-  // Set difficulty rating
-  setDifficulty(id: string, difficulty: number): VocabRecord | undefined {
+  // Predicted next interval (days) for each 1..4 rating, without mutating the record.
+  // Used by the Smart Review rating screen to show "review again in ~N days".
+  previewDifficultyIntervals(id: string): Record<Difficulty, number> | null {
     const record = this.records.get(id)
-    if (!record) return undefined
+    if (!record) return null
+    const now = Date.now()
+    const out = {} as Record<Difficulty, number>
+    for (const d of [1, 2, 3, 4] as Difficulty[]) {
+      out[d] = this.scheduler.applyDifficulty(record, d, now).interval
+    }
+    return out
+  }
 
+  // Initial interval (days) for each 1..4 rating when a word first enters Smart Review.
+  previewInitialIntervals(): Record<Difficulty, number> {
     const now = Date.now()
-    const todayStart = (() => {
-      const d0 = new Date(now)
-      d0.setHours(0, 0, 0, 0)
-      return d0.getTime()
-    })()
+    const blank = this.normalizeLoadedRecord('', {}).record
+    const out = {} as Record<Difficulty, number>
+    for (const d of [1, 2, 3, 4] as Difficulty[]) {
+      out[d] = this.scheduler.setDifficulty(blank, d, now).interval
+    }
+    return out
+  }
 
+  // Set difficulty rating (Custom Study: first placement into the review schedule)
+  setDifficulty(id: string, difficulty: number, outcome?: ReviewOutcome): VocabRecord | undefined {
+    const record = this.records.get(id)
+    if (!record) return undefined
+
+    const now = Date.now()
     // Clamp legacy/invalid values to the supported 1..4 range.
-    const d = Math.max(1, Math.min(4, Math.round(difficulty)))
-    
-    // Map difficulty (1-4) to SM-2 quality and interval
-    // 1 = Easy (long interval), 4 = Hard (short interval)
-    let interval = 1
-    let quality = 3
-
-    if (d === 1) {
-      interval = 7
-      quality = 5
-    } else if (d === 2) {
-      interval = 4
-      quality = 4
-    } else if (d === 3) {
-      interval = 2
-      quality = 3
-    } else {
-      interval = 1
-      quality = 2
-    }
-    
-    // Anchor to calendar day.
-    const nextReviewDate = todayStart + interval * 24 * 60 * 60 * 1000
+    const d = clampDifficulty(difficulty)
+    const updates = this.withFuzz(id, this.scheduler.setDifficulty(record, d, now), now)
 
     const updated: VocabRecord = {
       ...record,
+      ...updates,
       difficultyRating: d,
-      nextReviewDate,
-      interval,
-      state: 'reviewing',
       updatedAt: now,
       history: appendHistory(record.history, {
         timestamp: now,
         action: 'difficulty_set',
-        data: { difficulty: d, interval },
+        data: { difficulty: d, interval: updates.interval, scheduler: this.schedulerId },
       })
     }
     
-    this.records.set(id, updated)
+    this.setRecord(id, updated)
     this.save()
     this.notify()
+    this.logReview(record, updated, 'initial', d, outcome?.correct, now)
     return updated
   }
 
@@ -718,7 +1213,7 @@ class VocabularyStoreClass {
       history: appendHistory(record.history, { timestamp: now, action: 'rescheduled', data: { newDate } })
     }
     
-    this.records.set(id, updated)
+    this.setRecord(id, updated)
     this.save()
     this.notify()
     return updated
@@ -750,7 +1245,7 @@ class VocabularyStoreClass {
       })
     }
 
-    this.records.set(id, updated)
+    this.setRecord(id, updated)
     this.save()
     this.notify()
     return updated
@@ -784,7 +1279,7 @@ class VocabularyStoreClass {
       })
     }
 
-    this.records.set(id, updated)
+    this.setRecord(id, updated)
     this.save()
     this.notify()
     return updated
@@ -798,7 +1293,7 @@ class VocabularyStoreClass {
     toReset.forEach(id => {
       const record = this.records.get(id)
       if (record) {
-        this.records.set(id, {
+        this.setRecord(id, {
           ...record,
           wrongInCurrentRound: false,
           needsNextRound: false,
@@ -821,7 +1316,7 @@ class VocabularyStoreClass {
     const now = Date.now()
     const out: VocabRecord[] = []
     this.forEachRecord((r) => {
-      if (r.state === 'new') return
+      if (r.state === 'new' || !isCardActive(r, now)) return
       if ((r.nextReviewDate || 0) <= now) out.push(r)
     })
     return out
@@ -850,10 +1345,11 @@ class VocabularyStoreClass {
       result.set(d.toISOString().split('T')[0], [])
     }
     
-    // Assign cards
+    // Assign cards (suspended cards have no date; buried ones show up once they are back)
+    const nowMs = now.getTime()
     this.getAll().forEach(record => {
-      if (record.state === 'new') return // Skip new cards
-      const reviewDate = new Date(record.nextReviewDate)
+      if (record.state === 'new' || record.suspended) return // Skip new cards
+      const reviewDate = new Date(effectiveReviewDate(record, nowMs))
       const reviewDay = new Date(reviewDate.getFullYear(), reviewDate.getMonth(), reviewDate.getDate())
       const key = reviewDay.toISOString().split('T')[0]
       
@@ -871,10 +1367,11 @@ class VocabularyStoreClass {
     const today = new Date()
     today.setHours(0, 0, 0, 0)
     const todayStart = today.getTime()
+    const now = Date.now()
 
     const out: VocabRecord[] = []
     this.forEachRecord((r) => {
-      if (r.state === 'new') return
+      if (r.state === 'new' || !isCardActive(r, now)) return
       if ((r.nextReviewDate || 0) < todayStart) out.push(r)
     })
     return out
@@ -884,6 +1381,7 @@ class VocabularyStoreClass {
   delete(id: string): boolean {
     const existed = this.records.delete(id)
     if (existed) {
+      this.dirty.add(id)
       this.save()
       this.notify()
     }
@@ -893,6 +1391,8 @@ class VocabularyStoreClass {
   // Clear all records
   clear() {
     this.records.clear()
+    this.dirty.clear()
+    this.clearPending = true
     this.save()
     this.notify()
   }
@@ -929,13 +1429,62 @@ class VocabularyStoreClass {
         updatedAt: now
       }
       
-      this.records.set(id, record)
+      this.setRecord(id, record)
     })
     
     this.save()
     this.notify()
   }
 
+  // Seed schedules from an imported Anki deck (words already in Smart Review are kept as-is)
+  importFromAnki(source: string, items: AnkiScheduling[], rows: VocabRow[] = []): number {
+    const now = Date.now()
+    const rowByKey = new Map(rows.map((r) => [`${r.word}||${r.meaning}`, r]))
+    let added = 0
+    items.forEach((it) => {
+      if (!it.word || !it.meaning) return
+
+      const id = this.makeId(source, it.word, it.meaning)
+      if (this.records.has(id)) return
+
+      const row = rowByKey.get(`${it.word}||${it.meaning}`)
+      const interval = Math.max(1, Math.round(it.interval || 1))
+      const record: VocabRecord = {
+        id,
+        word: it.word,
+        meaning: it.meaning,
+        meaningEn: row?.meaningEn || '',
+        meaningVi: row?.meaningVi || '',
+        pronunciation: row?.pronunciation || '',
+        pos: row?.pos || '',
+        example: row?.example || '',
+        source,
+        state: it.state,
+        nextReviewDate: it.nextReviewDate || now,
+        interval,
+        easeFactor: Math.max(1.3, it.easeFactor || 2.5),
+        repetitions: it.repetitions || 0,
+        lastReviewDate: it.lastReviewDate,
+        timesReviewed: it.timesReviewed ?? it.repetitions ?? 0,
+        timesCorrect: Math.max(0, (it.timesReviewed ?? it.repetitions ?? 0) - (it.lapses || 0)),
+        lapses: it.lapses || 0,
+        streak: 0,
+        wrongInCurrentRound: false,
+        needsNextRound: false,
+        history: [{ timestamp: now, action: 'created', data: { imported: 'anki' } }],
+        createdAt: now,
+        updatedAt: now
+      }
+
+      this.setRecord(id, record)
+      added += 1
+    })
+
+    this.save()
+    this.notify()
+    return added
+  }
+
   // Get statistics
   getStats() {
     const now = Date.now()
@@ -953,15 +1502,20 @@ class VocabularyStoreClass {
     let mastered = 0
     let dueToday = 0
     let overdue = 0
+    let suspended = 0
+    let buried = 0
 
     this.forEachRecord((r) => {
       total += 1
+      if (r.suspended) suspended += 1
+      else if ((r.buriedUntil || 0) > now) buried += 1
       if (r.state === 'new') {
         countNew += 1
         return
       }
-      if ((r.nextReviewDate || 0) <= now) dueToday += 1
-      if ((r.nextReviewDate || 0) < todayStart) overdue += 1
+      const active = isCardActive(r, now)
+      if (active && (r.nextReviewDate || 0) <= now) dueToday += 1
+      if (active && (r.nextReviewDate || 0) < todayStart) overdue += 1
       if (r.state === 'learning') learning += 1
       else if (r.state === 'reviewing') reviewing += 1
       else if (r.state === 'mastered') mastered += 1
@@ -975,6 +1529,8 @@ class VocabularyStoreClass {
       mastered,
       dueToday,
       overdue,
+      suspended,
+      buried,
     }
   }
 }
@@ -0,0 +1,30 @@
+// cardStatus.ts - Suspended and buried cards
+// Suspended: out of every review/study queue until unsuspended (schedule is kept).
+// Buried: hidden until the start of the next day, then due again as scheduled.
+
+import type { VocabRecord } from './VocabularyStore'
+
+export type CardStatus = 'active' | 'suspended' | 'buried'
+
+export function cardStatus(record: Pick<VocabRecord, 'suspended' | 'buriedUntil'>, now: number = Date.now()): CardStatus {
+  if (record.suspended) return 'suspended'
+  if ((record.buriedUntil || 0) > now) return 'buried'
+  return 'active'
+}
+
+export function isCardActive(record: Pick<VocabRecord, 'suspended' | 'buriedUntil'>, now: number = Date.now()): boolean {
+  return cardStatus(record, now) === 'active'
+}
+
+// Earliest time the card can show up again (a buried card waits for tomorrow)
+export function effectiveReviewDate(record: Pick<VocabRecord, 'nextReviewDate' | 'buriedUntil'>, now: number = Date.now()): number {
+  const buriedUntil = record.buriedUntil || 0
+  return buriedUntil > now ? Math.max(record.nextReviewDate || 0, buriedUntil) : record.nextReviewDate || 0
+}
+
+export function startOfNextDay(now: number): number {
+  const d = new Date(now)
+  d.setHours(0, 0, 0, 0)
+  d.setDate(d.getDate() + 1)
+  return d.getTime()
+}
@@ -0,0 +1,138 @@
+// dailyQueue.ts - Daily limits, the interleaved Smart Review queue and interval fuzz
+// Pure helpers: VocabularyStore owns the settings/counters and passes them in.
+
+import type { VocabRecord } from './VocabularyStore'
+import { isCardActive } from './cardStatus'
+
+export type DailyLimits = {
+  newPerDay: number // cards leaving the 'new' state per day
+  reviewsPerDay: number // due review cards per day (learning cards are never limited)
+  fuzz: boolean // spread computed intervals over nearby days
+}
+
+export const DEFAULT_DAILY_LIMITS: DailyLimits = { newPerDay: 20, reviewsPerDay: 200, fuzz: true }
+
+// Ratings already spent today (reset at local midnight).
+// `introduced`: new cards already counted when they entered learning steps, so their
+// end-of-session rating is not counted again.
+export type DailyProgress = { day: string; newCount: number; reviewCount: number; introduced: string[] }
+
+export type DailyQueue = {
+  queue: VocabRecord[]
+  counts: { new: number; learning: number; review: number }
+  // Due/new cards left out because today's limit is reached
+  deferred: { new: number; review: number }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function startOfDay(ts: number): number {
+  const d = new Date(ts)
+  d.setHours(0, 0, 0, 0)
+  return d.getTime()
+}
+
+export function dayKey(ts: number): string {
+  const d = new Date(ts)
+  const m = String(d.getMonth() + 1).padStart(2, '0')
+  const day = String(d.getDate()).padStart(2, '0')
+  return `${d.getFullYear()}-${m}-${day}`
+}
+
+export function normalizeDailyLimits(raw: any): DailyLimits {
+  const count = (v: unknown, fallback: number) => {
+    const n = Math.floor(Number(v))
+    return Number.isFinite(n) && n >= 0 ? n : fallback
+  }
+  return {
+    newPerDay: count(raw?.newPerDay, DEFAULT_DAILY_LIMITS.newPerDay),
+    reviewsPerDay: count(raw?.reviewsPerDay, DEFAULT_DAILY_LIMITS.reviewsPerDay),
+    fuzz: typeof raw?.fuzz === 'boolean' ? raw.fuzz : DEFAULT_DAILY_LIMITS.fuzz,
+  }
+}
+
+// Spread `minor` items evenly between `major` items (keeps the relative order of both lists).
+function interleave<T>(major: T[], minor: T[]): T[] {
+  if (minor.length === 0) return major
+  if (major.length === 0) return minor
+  const out: T[] = []
+  const step = (major.length + 1) / (minor.length + 1)
+  let m = 0
+  for (let i = 0; i < minor.length; i++) {
+    const until = Math.round(step * (i + 1))
+    while (m < until && m < major.length) out.push(major[m++])
+    out.push(minor[i])
+  }
+  while (m < major.length) out.push(major[m++])
+  return out
+}
+
+/**
+ * Today's Smart Review queue: learning cards (always), due reviews up to the remaining review
+ * limit (most overdue first) and new cards up to the remaining new limit (oldest first).
+ * New and learning cards are spread through the reviews instead of coming in one block.
+ */
+export function buildDailyQueue(
+  records: Iterable<VocabRecord>,
+  limits: DailyLimits,
+  progress: DailyProgress,
+  now: number
+): DailyQueue {
+  const learning: VocabRecord[] = []
+  const review: VocabRecord[] = []
+  const fresh: VocabRecord[] = []
+  for (const r of records) {
+    if (!isCardActive(r, now)) continue
+    if (r.state === 'new') fresh.push(r)
+    else if ((r.nextReviewDate || 0) > now) continue
+    else if (r.state === 'learning') learning.push(r)
+    else review.push(r)
+  }
+
+  review.sort((a, b) => (a.nextReviewDate || 0) - (b.nextReviewDate || 0))
+  learning.sort((a, b) => (a.nextReviewDate || 0) - (b.nextReviewDate || 0))
+  fresh.sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0))
+
+  const reviewLeft = Math.max(0, limits.reviewsPerDay - progress.reviewCount)
+  const newLeft = Math.max(0, limits.newPerDay - progress.newCount)
+  const reviews = review.slice(0, reviewLeft)
+  const news = fresh.slice(0, newLeft)
+
+  return {
+    queue: interleave(interleave(reviews, learning), news),
+    counts: { new: news.length, learning: learning.length, review: reviews.length },
+    deferred: { new: fresh.length - news.length, review: review.length - reviews.length },
+  }
+}
+
+// Fuzz range (days) around an interval; short intervals are kept exact.
+function fuzzRange(interval: number): number {
+  if (interval < 3) return 0
+  if (interval < 7) return Math.max(1, Math.round(interval * 0.15))
+  if (interval < 20) return Math.max(1, Math.round(interval * 0.1))
+  return Math.max(1, Math.round(interval * 0.05))
+}
+
+/**
+ * Pick an interval near `interval` so cards learned together do not all come back on the same day.
+ * Among the candidate days the least loaded one wins (`loadByDay` maps dayKey -> scheduled cards);
+ * ties are broken randomly.
+ */
+export function fuzzInterval(interval: number, now: number, loadByDay: Map<string, number>): number {
+  const range = fuzzRange(interval)
+  if (range === 0) return interval
+
+  const base = startOfDay(now)
+  let best: number[] = []
+  let bestLoad = Number.POSITIVE_INFINITY
+  for (let ivl = Math.max(1, interval - range); ivl <= interval + range; ivl++) {
+    const load = loadByDay.get(dayKey(base + ivl * DAY_MS)) || 0
+    if (load < bestLoad) {
+      bestLoad = load
+      best = [ivl]
+    } else if (load === bestLoad) {
+      best.push(ivl)
+    }
+  }
+  return best[Math.floor(Math.random() * best.length)] ?? interval
+}
@@ -0,0 +1,202 @@
+// deckQuery.ts - Query language for saved (virtual) study decks
+//
+//   pos:verb tag:ielts state:learning ease<2.0 source:pdf
+//
+// Terms are AND-ed. `-term` negates, `a,b` inside a value means a OR b, quotes keep spaces
+// (meaning:"ngân hàng"). A bare word matches the word or its meaning.
+// Text fields: word meaning pos tag source state is
+// Numeric fields (< <= > >= = or :): ease interval reps lapses reviews difficulty due added
+//   due   = days until the next review (negative = overdue)
+//   added = days since the word was added
+
+import type { VocabRecord } from './VocabularyStore'
+import { cardStatus } from './cardStatus'
+import { isLeech } from './leech'
+
+export type QueryOp = ':' | '<' | '<=' | '>' | '>=' | '='
+
+export type QueryTerm =
+  | { kind: 'text'; field: TextField; values: string[]; negate: boolean }
+  | { kind: 'number'; field: NumberField; op: QueryOp; value: number; negate: boolean }
+
+export type ParsedQuery = {
+  terms: QueryTerm[]
+  errors: string[] // human-readable (Vietnamese), one per rejected token
+}
+
+const TEXT_FIELDS = ['word', 'meaning', 'pos', 'tag', 'source', 'state', 'is', 'any'] as const
+type TextField = (typeof TEXT_FIELDS)[number]
+
+const NUMBER_FIELDS = ['ease', 'interval', 'reps', 'lapses', 'reviews', 'difficulty', 'due', 'added'] as const
+type NumberField = (typeof NUMBER_FIELDS)[number]
+
+const STATE_VALUES = ['new', 'learning', 'reviewing', 'mastered']
+const IS_VALUES = ['due', 'overdue', 'new', 'suspended', 'buried', 'leech']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Split on whitespace, keeping quoted parts together (quotes are removed)
+function tokenize(text: string): string[] {
+  const out: string[] = []
+  let current = ''
+  let quoted = false
+  for (const ch of String(text || '')) {
+    if (ch === '"') {
+      quoted = !quoted
+    } else if (!quoted && /\s/.test(ch)) {
+      if (current) out.push(current)
+      current = ''
+    } else {
+      current += ch
+    }
+  }
+  if (current) out.push(current)
+  return out
+}
+
+function parseToken(token: string): QueryTerm | string {
+  const negate = token.startsWith('-') && token.length > 1
+  const body = negate ? token.slice(1) : token
+
+  const m = body.match(/^([a-z]+)(<=|>=|<|>|=|:)(.*)$/i)
+  if (!m) return { kind: 'text', field: 'any', values: [body.toLowerCase()], negate }
+
+  const field = m[1].toLowerCase()
+  const op = m[2] as QueryOp
+  const raw = m[3].trim()
+  if (!raw) return `Thiếu giá trị cho "${field}"`
+
+  if ((NUMBER_FIELDS as readonly string[]).includes(field)) {
+    const value = Number(raw)
+    if (!Number.isFinite(value)) return `"${field}" cần một số (gặp "${raw}")`
+    return { kind: 'number', field: field as NumberField, op, value, negate }
+  }
+
+  if (!(TEXT_FIELDS as readonly string[]).includes(field) || field === 'any') return `Không hiểu trường "${field}"`
+  if (op !== ':') return `"${field}" chỉ dùng được với dấu ":"`
+
+  const values = raw.toLowerCase().split(',').map((v) => v.trim()).filter(Boolean)
+  if (field === 'state') {
+    const bad = values.find((v) => !STATE_VALUES.includes(v))
+    if (bad) return `state không có giá trị "${bad}" (dùng: ${STATE_VALUES.join(', ')})`
+  }
+  if (field === 'is') {
+    const bad = values.find((v) => !IS_VALUES.includes(v))
+    if (bad) return `is không có giá trị "${bad}" (dùng: ${IS_VALUES.join(', ')})`
+  }
+  return { kind: 'text', field: field as TextField, values, negate }
+}
+
+export function parseDeckQuery(text: string): ParsedQuery {
+  const terms: QueryTerm[] = []
+  const errors: string[] = []
+  for (const token of tokenize(text)) {
+    const out = parseToken(token)
+    if (typeof out === 'string') errors.push(out)
+    else terms.push(out)
+  }
+  return { terms, errors }
+}
+
+function startOfDay(ts: number): number {
+  const d = new Date(ts)
+  d.setHours(0, 0, 0, 0)
+  return d.getTime()
+}
+
+function numberField(record: VocabRecord, field: NumberField, now: number): number | undefined {
+  switch (field) {
+    case 'ease':
+      return record.easeFactor
+    case 'interval':
+      return record.interval
+    case 'reps':
+      return record.repetitions
+    case 'lapses':
+      return record.lapses || 0
+    case 'reviews':
+      return record.timesReviewed
+    case 'difficulty':
+      return record.difficultyRating
+    case 'due':
+      if (record.state === 'new') return undefined
+      return Math.round((startOfDay(record.nextReviewDate || 0) - startOfDay(now)) / DAY_MS)
+    case 'added':
+      return Math.floor((startOfDay(now) - startOfDay(record.createdAt || now)) / DAY_MS)
+  }
+}
+
+function compare(actual: number, op: QueryOp, value: number): boolean {
+  switch (op) {
+    case '<':
+      return actual < value
+    case '<=':
+      return actual <= value
+    case '>':
+      return actual > value
+    case '>=':
+      return actual >= value
+    default:
+      return Math.abs(actual - value) < 1e-9
+  }
+}
+
+// PDF decks live in the app's Data/pdf folder
+const isPdfSource = (source: string) => /[\\/]pdf[\\/]/i.test(source)
+
+function matchesText(record: VocabRecord, field: TextField, value: string, now: number): boolean {
+  const has = (s: string | undefined) => String(s || '').toLowerCase().includes(value)
+  switch (field) {
+    case 'any':
+      return has(record.word) || has(record.meaning) || has(record.meaningVi) || has(record.meaningEn)
+    case 'word':
+      return has(record.word)
+    case 'meaning':
+      return has(record.meaning) || has(record.meaningVi) || has(record.meaningEn)
+    case 'pos':
+      // "adj" matches "Adjective"
+      return String(record.pos || '').toLowerCase().startsWith(value)
+    case 'tag':
+      return (record.tags || []).some((t) => t.toLowerCase() === value)
+    case 'source':
+      return value === 'pdf' ? isPdfSource(String(record.source || '')) : has(record.source)
+    case 'state':
+      return record.state === value
+    case 'is': {
+      const status = cardStatus(record, now)
+      if (value === 'suspended' || value === 'buried') return status === value
+      if (value === 'leech') return isLeech(record)
+      if (value === 'new') return record.state === 'new'
+      if (record.state === 'new' || status !== 'active') return false
+      if (value === 'overdue') return (record.nextReviewDate || 0) < startOfDay(now)
+      return (record.nextReviewDate || 0) <= now // due
+    }
+  }
+}
+
+function matchesTerm(record: VocabRecord, term: QueryTerm, now: number): boolean {
+  if (term.kind === 'number') {
+    const actual = numberField(record, term.field, now)
+    return typeof actual === 'number' && Number.isFinite(actual) && compare(actual, term.op, term.value)
+  }
+  return term.values.some((v) => matchesText(record, term.field, v, now))
+}
+
+export function matchesDeckQuery(record: VocabRecord, query: ParsedQuery, now: number = Date.now()): boolean {
+  return query.terms.every((term) => matchesTerm(record, term, now) !== term.negate)
+}
+
+// A saved virtual deck: a named query over every Smart Review record
+export type SavedDeck = {
+  id: string
+  name: string
+  query: string
+  createdAt: number
+}
+
+export function normalizeSavedDecks(raw: any): SavedDeck[] {
+  if (!Array.isArray(raw)) return []
+  return raw
+    .filter((d) => d && typeof d.id === 'string' && typeof d.name === 'string' && typeof d.query === 'string')
+    .map((d) => ({ id: d.id, name: d.name, query: d.query, createdAt: Number(d.createdAt) || 0 }))
+}
@@ -1,2 +1,14 @@
 export { VocabularyStore, useVocabularyStore } from './VocabularyStore'
-export type { VocabRecord, VocabState } from './VocabularyStore'
+export type { VocabRecord, VocabState, ReviewOutcome, ImportMode, ImportPreview, ImportResult } from './VocabularyStore'
+export { SCHEDULERS } from './schedulers'
+export type { Scheduler, SchedulerId } from './schedulers'
+export { DEFAULT_DAILY_LIMITS } from './dailyQueue'
+export type { DailyLimits, DailyProgress, DailyQueue } from './dailyQueue'
+export { DEFAULT_LEARNING_STEPS, LEARN_AHEAD_MS, formatSteps, parseSteps } from './learningSteps'
+export type { LearningSteps } from './learningSteps'
+export { DEFAULT_LEECH_SETTINGS, LEECH_TAG, isLeech, splitMeaningParts } from './leech'
+export type { LeechSettings } from './leech'
+export { cardStatus, effectiveReviewDate, isCardActive } from './cardStatus'
+export type { CardStatus } from './cardStatus'
+export { parseDeckQuery, matchesDeckQuery } from './deckQuery'
+export type { ParsedQuery, QueryTerm, SavedDeck } from './deckQuery'
@@ -0,0 +1,80 @@
+// learningSteps.ts - Minute-level learning/relearning steps (e.g. 1m 10m 1h)
+// A card in steps comes back after a few minutes instead of waiting for the next day.
+
+import type { VocabRecord } from './VocabularyStore'
+
+export type LearningSteps = {
+  learn: number[] // minutes, for new cards
+  relearn: number[] // minutes, for review cards answered wrong (lapses)
+}
+
+export const DEFAULT_LEARNING_STEPS: LearningSteps = { learn: [1, 10], relearn: [10] }
+
+const MINUTE_MS = 60 * 1000
+
+// Cards whose next step is at most this far away are shown again before the session ends.
+export const LEARN_AHEAD_MS = 20 * MINUTE_MS
+
+const UNIT_MINUTES: Record<string, number> = { m: 1, h: 60, d: 24 * 60 }
+
+/**
+ * Parse "1m 10m 1h" (a bare number means minutes). Invalid tokens are skipped.
+ */
+export function parseSteps(text: string): number[] {
+  const out: number[] = []
+  for (const token of String(text || '').toLowerCase().split(/[\s,]+/)) {
+    const m = token.match(/^(\d+(?:\.\d+)?)([mhd]?)$/)
+    if (!m) continue
+    const minutes = Number(m[1]) * UNIT_MINUTES[m[2] || 'm']
+    if (minutes > 0) out.push(Math.round(minutes))
+  }
+  return out
+}
+
+export function formatSteps(steps: number[]): string {
+  return steps
+    .map((min) => (min % (24 * 60) === 0 ? `${min / (24 * 60)}d` : min % 60 === 0 ? `${min / 60}h` : `${min}m`))
+    .join(' ')
+}
+
+export function normalizeLearningSteps(raw: any): LearningSteps {
+  const list = (v: unknown, fallback: number[]) =>
+    Array.isArray(v) ? v.map(Number).filter((n) => Number.isFinite(n) && n > 0).map(Math.round) : fallback
+  return {
+    learn: list(raw?.learn, DEFAULT_LEARNING_STEPS.learn),
+    relearn: list(raw?.relearn, DEFAULT_LEARNING_STEPS.relearn),
+  }
+}
+
+/**
+ * Step fields after answering a card inside a session, or null when steps don't apply
+ * (a review card answered correctly, or no steps configured).
+ * When the last step is passed the card graduates: `learningStep` is cleared and the
+ * regular day-based schedule takes over at the end-of-session rating.
+ */
+export function nextLearningStep(
+  record: VocabRecord,
+  failed: boolean,
+  steps: LearningSteps,
+  now: number
+): Pick<VocabRecord, 'learningStep' | 'stepKind' | 'state' | 'nextReviewDate'> | null {
+  const inSteps = typeof record.learningStep === 'number'
+  const kind = inSteps ? record.stepKind || 'learn' : record.state === 'new' ? 'learn' : 'relearn'
+  const list = kind === 'relearn' ? steps.relearn : steps.learn
+  // A review card answered correctly keeps its normal schedule
+  if (!inSteps && kind === 'relearn' && !failed) return null
+  if (!inSteps && list.length === 0) return null
+
+  // Showing a new card counts as its first step
+  const current = inSteps ? Number(record.learningStep) : 0
+  const step = failed ? 0 : current + 1
+  if (step >= list.length) {
+    return {
+      learningStep: undefined,
+      stepKind: undefined,
+      state: 'reviewing',
+      nextReviewDate: now,
+    }
+  }
+  return { learningStep: step, stepKind: kind, state: 'learning', nextReviewDate: now + list[step] * MINUTE_MS }
+}
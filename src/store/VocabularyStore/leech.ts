@@ -0,0 +1,49 @@
+// leech.ts - Leech detection: words the user keeps failing
+// A review card answered wrong is a lapse; after `threshold` lapses the word is tagged `leech`.
+
+import type { VocabRecord } from './VocabularyStore'
+
+export const LEECH_TAG = 'leech'
+
+export type LeechSettings = {
+  threshold: number // lapses before a word becomes a leech
+  autoSuspend: boolean // take leeches out of the review schedule automatically
+}
+
+export const DEFAULT_LEECH_SETTINGS: LeechSettings = { threshold: 8, autoSuspend: false }
+
+export function normalizeLeechSettings(raw: any): LeechSettings {
+  const n = Math.floor(Number(raw?.threshold))
+  return {
+    threshold: Number.isFinite(n) && n >= 1 ? n : DEFAULT_LEECH_SETTINGS.threshold,
+    autoSuspend: typeof raw?.autoSuspend === 'boolean' ? raw.autoSuspend : DEFAULT_LEECH_SETTINGS.autoSuspend,
+  }
+}
+
+export function isLeech(record: VocabRecord): boolean {
+  return (record.tags || []).includes(LEECH_TAG)
+}
+
+export function withTag(tags: string[] | undefined, tag: string): string[] {
+  const list = tags || []
+  return list.includes(tag) ? list : [...list, tag]
+}
+
+export function withoutTag(tags: string[] | undefined, tag: string): string[] | undefined {
+  const list = (tags || []).filter((t) => t !== tag)
+  return list.length > 0 ? list : undefined
+}
+
+/**
+ * Meanings a leech can be split into ("ngân hàng; bờ sông" -> two cards).
+ * Returns fewer than two parts when the meaning cannot be split.
+ */
+export function splitMeaningParts(meaning: string): string[] {
+  const parts = String(meaning || '')
+    .split(/\s*[;|/\n]\s*/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+  if (parts.length >= 2) return [...new Set(parts)]
+  // Fall back to commas only when there is no stronger separator
+  return [...new Set(String(meaning || '').split(/\s*,\s*/).map((p) => p.trim()).filter(Boolean))]
+}
@@ -0,0 +1,357 @@
+// schedulers.ts - Pluggable spaced-repetition schedulers used by VocabularyStore
+// The store owns persistence/history; a scheduler only computes the next SRS fields for a record.
+
+import type { VocabRecord, VocabState } from './VocabularyStore'
+
+export type SchedulerId = 'sm2' | 'fsrs'
+
+// 1 = easy ... 4 = hard (same scale as DifficultySelector)
+export type Difficulty = 1 | 2 | 3 | 4
+
+export type SchedulerUpdate = Partial<VocabRecord> & { interval: number; nextReviewDate: number }
+
+export interface Scheduler {
+  readonly id: SchedulerId
+  readonly label: string
+  // Review graded with an SM-2 quality (0-5, 0-2 = incorrect)
+  review(record: VocabRecord, quality: number, now: number): SchedulerUpdate
+  // Review graded with the 1..4 difficulty scale plus correctness
+  reviewWithDifficulty(record: VocabRecord, difficulty: Difficulty, wasCorrect: boolean, now: number): SchedulerUpdate
+  // Smart Review end-of-session rating: only the previous schedule + final difficulty matter
+  applyDifficulty(record: VocabRecord, difficulty: Difficulty, now: number): SchedulerUpdate
+  // Custom Study: first placement of a word into the review schedule
+  setDifficulty(record: VocabRecord, difficulty: Difficulty, now: number): SchedulerUpdate
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function startOfDay(now: number): number {
+  const d = new Date(now)
+  d.setHours(0, 0, 0, 0)
+  return d.getTime()
+}
+
+export function clampDifficulty(difficulty: number): Difficulty {
+  return Math.max(1, Math.min(4, Math.round(difficulty))) as Difficulty
+}
+
+function stateFor(repetitions: number, streak: number): VocabState {
+  if (repetitions >= 5 && streak >= 3) return 'mastered'
+  if (repetitions >= 1) return 'reviewing'
+  return 'learning'
+}
+
+// Counters shared by every scheduler (timesReviewed/timesCorrect/streak/repetitions).
+function countReview(record: VocabRecord, correct: boolean) {
+  return {
+    timesReviewed: (record.timesReviewed || 0) + 1,
+    timesCorrect: (record.timesCorrect || 0) + (correct ? 1 : 0),
+    streak: correct ? (record.streak || 0) + 1 : 0,
+    repetitions: correct ? (record.repetitions || 0) + 1 : 0,
+  }
+}
+
+// ==================== SM-2 ====================
+
+const SM2_BASE_INTERVAL_DAYS: Record<Difficulty, number> = { 1: 7, 2: 4, 3: 2, 4: 1 }
+
+// Multipliers used by recordReviewWithDifficulty after a word has been reviewed at least once.
+const SM2_GROWTH: Record<Difficulty, number> = { 1: 1.6, 2: 1.35, 3: 1.15, 4: 1.0 }
+
+// Multipliers used by the Smart Review end-of-session rating.
+// Easier ratings grow faster; harder ratings can shrink the next interval.
+const SM2_RATING_MULTIPLIER: Record<Difficulty, number> = { 1: 2.0, 2: 1.6, 3: 1.25, 4: 0.8 }
+
+function calculateSM2(record: VocabRecord, quality: number, now: number): SchedulerUpdate {
+  // quality: 0-5 (0-2 = incorrect, 3-5 = correct)
+  const q = Math.max(0, Math.min(5, quality))
+
+  let { interval, easeFactor, repetitions, streak, timesReviewed, timesCorrect } = record
+
+  timesReviewed += 1
+
+  if (q < 3) {
+    // Incorrect - reset
+    repetitions = 0
+    interval = 1
+    streak = 0
+  } else {
+    // Correct
+    timesCorrect += 1
+    streak += 1
+
+    if (repetitions === 0) {
+      // First correct based on quality
+      if (q === 3) interval = 1 // Hard
+      else if (q === 4) interval = 3 // Good
+      else if (q === 5) interval = 7 // Easy
+      else interval = 1
+    } else if (repetitions === 1) {
+      interval = 6
+    } else {
+      interval = Math.round(interval * easeFactor)
+    }
+    repetitions += 1
+  }
+
+  // Update ease factor (minimum 1.3)
+  easeFactor = Math.max(1.3, easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)))
+
+  // Anchor scheduling to a calendar day (midnight local time) so it stays stable for date-based testing.
+  const nextReviewDate = startOfDay(now) + interval * DAY_MS
+
+  return {
+    interval,
+    easeFactor,
+    repetitions,
+    nextReviewDate,
+    lastReviewDate: now,
+    timesReviewed,
+    timesCorrect,
+    streak,
+    state: stateFor(repetitions, streak),
+    updatedAt: now,
+  }
+}
+
+export const Sm2Scheduler: Scheduler = {
+  id: 'sm2',
+  label: 'SM-2',
+
+  review(record, quality, now) {
+    return calculateSM2(record, quality, now)
+  },
+
+  reviewWithDifficulty(record, d, wasCorrect, now) {
+    // Map to a SM-2-like quality number for ease-factor updates.
+    // For correct: always >=3 so it counts as a correct repetition.
+    // For incorrect: force a low score to reset repetitions.
+    const quality = wasCorrect ? (d === 1 ? 5 : d === 2 ? 4 : 3) : 1
+
+    // First, update easeFactor/repetitions/times... using SM-2 mechanics.
+    const sm2 = calculateSM2(record, quality, now)
+
+    // Then, override interval scheduling to use the 1..4 difficulty scale explicitly.
+    let interval = 1
+    if (wasCorrect) {
+      if (record.repetitions <= 0) {
+        interval = SM2_BASE_INTERVAL_DAYS[d]
+      } else {
+        const prev = Math.max(1, record.interval || 1)
+        interval = Math.max(1, Math.round(prev * (sm2.easeFactor || record.easeFactor || 2.5) * SM2_GROWTH[d]))
+      }
+    }
+
+    return { ...sm2, interval, nextReviewDate: startOfDay(now) + interval * DAY_MS }
+  },
+
+  applyDifficulty(record, d, now) {
+    const prevInterval = Math.max(0, record.interval || 0)
+    const basePredict = (dd: Difficulty): number => {
+      if (prevInterval <= 0) return SM2_BASE_INTERVAL_DAYS[dd]
+      const raw = prevInterval * SM2_RATING_MULTIPLIER[dd]
+      // Rounding policy:
+      // - For 1/2/3 (easier): round up so interval grows as expected.
+      // - For 4 (hardest): round down so interval can shrink.
+      return Math.max(1, dd === 4 ? Math.floor(raw) : Math.ceil(raw))
+    }
+
+    // Compute from hardest -> easiest, then bump easier levels by +1 day
+    // if rounding causes collisions (or would otherwise make them not strictly later).
+    const predicted: Record<Difficulty, number> = {
+      1: basePredict(1),
+      2: basePredict(2),
+      3: basePredict(3),
+      4: basePredict(4),
+    }
+    const ordered: Difficulty[] = [4, 3, 2, 1]
+    let lastDays: number | null = null
+    for (const dd of ordered) {
+      if (lastDays != null && predicted[dd] <= lastDays) predicted[dd] = lastDays + 1
+      lastDays = predicted[dd]
+    }
+
+    const interval = predicted[d]
+    return {
+      interval,
+      nextReviewDate: startOfDay(now) + interval * DAY_MS,
+      state: record.state === 'new' ? 'reviewing' : record.state,
+    }
+  },
+
+  setDifficulty(_record, d, now) {
+    // 1 = Easy (long interval), 4 = Hard (short interval)
+    const interval = SM2_BASE_INTERVAL_DAYS[d]
+    return {
+      interval,
+      nextReviewDate: startOfDay(now) + interval * DAY_MS,
+      state: 'reviewing',
+    }
+  },
+}
+
+// ==================== FSRS ====================
+// FSRS-4.5 with the published default weights. Each card keeps a memory state:
+// - stability: days until recall probability drops to 90%
+// - fsrsDifficulty: 1 (easy) .. 10 (hard)
+// Retrievability is derived from the time since the last review.
+
+type FsrsGrade = 1 | 2 | 3 | 4 // Again | Hard | Good | Easy
+
+const FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+]
+const FSRS_DECAY = -0.5
+const FSRS_FACTOR = 19 / 81
+const FSRS_REQUEST_RETENTION = 0.9
+const FSRS_MAX_INTERVAL_DAYS = 36500
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v))
+
+// Difficulty rating of a *recalled* card (1 = easy .. 4 = hard) -> Easy/Good/Hard/Hard.
+// "Hard" still means remembered, like SM-2's quality 3; Again (1) is only for wrong answers.
+const GRADE_BY_DIFFICULTY: Record<Difficulty, FsrsGrade> = { 1: 4, 2: 3, 3: 2, 4: 2 }
+
+function gradeFromDifficulty(d: Difficulty): FsrsGrade {
+  return GRADE_BY_DIFFICULTY[d] ?? 3
+}
+
+function gradeFromQuality(quality: number): FsrsGrade {
+  const q = Math.max(0, Math.min(5, quality))
+  if (q < 3) return 1
+  if (q === 3) return 2
+  if (q === 4) return 3
+  return 4
+}
+
+function fsrsInitDifficulty(g: FsrsGrade): number {
+  const w = FSRS_WEIGHTS
+  return clamp(w[4] - (g - 3) * w[5], 1, 10)
+}
+
+function fsrsRetrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FSRS_FACTOR * Math.max(0, elapsedDays)) / Math.max(0.01, stability), FSRS_DECAY)
+}
+
+function fsrsNextInterval(stability: number): number {
+  const days = (stability / FSRS_FACTOR) * (Math.pow(FSRS_REQUEST_RETENTION, 1 / FSRS_DECAY) - 1)
+  return clamp(Math.round(days), 1, FSRS_MAX_INTERVAL_DAYS)
+}
+
+// Cards reviewed under SM-2 have no FSRS memory state yet: seed it from the SM-2 progress.
+function fsrsMemoryOf(record: VocabRecord): { stability: number; difficulty: number } | null {
+  const s = Number(record.stability)
+  const d = Number(record.fsrsDifficulty)
+  if (Number.isFinite(s) && s > 0 && Number.isFinite(d)) return { stability: s, difficulty: clamp(d, 1, 10) }
+  if (record.state === 'new' || !record.lastReviewDate || !(record.interval > 0)) return null
+  return {
+    stability: Math.max(0.1, record.interval),
+    difficulty: clamp(5 + (2.5 - (record.easeFactor || 2.5)) * 5, 1, 10),
+  }
+}
+
+function fsrsNextMemory(record: VocabRecord, g: FsrsGrade, now: number): { stability: number; difficulty: number } {
+  const w = FSRS_WEIGHTS
+  const mem = fsrsMemoryOf(record)
+  if (!mem) return { stability: w[g - 1], difficulty: fsrsInitDifficulty(g) }
+
+  const elapsedDays = record.lastReviewDate ? (now - record.lastReviewDate) / DAY_MS : 0
+  const r = fsrsRetrievability(elapsedDays, mem.stability)
+
+  // Difficulty moves with the grade, then mean-reverts towards the "Good" initial difficulty.
+  const nextD = mem.difficulty - w[6] * (g - 3)
+  const difficulty = clamp(w[7] * fsrsInitDifficulty(3) + (1 - w[7]) * nextD, 1, 10)
+
+  let stability: number
+  if (g === 1) {
+    stability =
+      w[11] *
+      Math.pow(mem.difficulty, -w[12]) *
+      (Math.pow(mem.stability + 1, w[13]) - 1) *
+      Math.exp(w[14] * (1 - r))
+    stability = Math.min(stability, mem.stability)
+  } else {
+    const hardPenalty = g === 2 ? w[15] : 1
+    const easyBonus = g === 4 ? w[16] : 1
+    stability =
+      mem.stability *
+      (1 +
+        Math.exp(w[8]) *
+          (11 - mem.difficulty) *
+          Math.pow(mem.stability, -w[9]) *
+          (Math.exp(w[10] * (1 - r)) - 1) *
+          hardPenalty *
+          easyBonus)
+  }
+
+  return { stability: Math.max(0.1, stability), difficulty }
+}
+
+function fsrsSchedule(record: VocabRecord, g: FsrsGrade, now: number): SchedulerUpdate {
+  const { stability, difficulty } = fsrsNextMemory(record, g, now)
+  const correct = g > 1
+  const counts = countReview(record, correct)
+  const interval = correct ? fsrsNextInterval(stability) : 1
+
+  return {
+    ...counts,
+    stability,
+    fsrsDifficulty: difficulty,
+    interval,
+    nextReviewDate: startOfDay(now) + interval * DAY_MS,
+    lastReviewDate: now,
+    state: stateFor(counts.repetitions, counts.streak),
+    updatedAt: now,
+  }
+}
+
+export const FsrsScheduler: Scheduler = {
+  id: 'fsrs',
+  label: 'FSRS',
+
+  review(record, quality, now) {
+    return fsrsSchedule(record, gradeFromQuality(quality), now)
+  },
+
+  reviewWithDifficulty(record, d, wasCorrect, now) {
+    return fsrsSchedule(record, wasCorrect ? gradeFromDifficulty(d) : 1, now)
+  },
+
+  applyDifficulty(record, d, now) {
+    // The session already counted correct/incorrect answers; here the rating only moves memory state.
+    const { stability, difficulty } = fsrsNextMemory(record, gradeFromDifficulty(d), now)
+    const interval = fsrsNextInterval(stability)
+    return {
+      stability,
+      fsrsDifficulty: difficulty,
+      interval,
+      nextReviewDate: startOfDay(now) + interval * DAY_MS,
+      lastReviewDate: now,
+      state: record.state === 'new' ? 'reviewing' : record.state,
+    }
+  },
+
+  setDifficulty(_record, d, now) {
+    const g = gradeFromDifficulty(d)
+    const stability = FSRS_WEIGHTS[g - 1]
+    const interval = fsrsNextInterval(stability)
+    return {
+      stability,
+      fsrsDifficulty: fsrsInitDifficulty(g),
+      interval,
+      nextReviewDate: startOfDay(now) + interval * DAY_MS,
+      lastReviewDate: now,
+      state: 'reviewing',
+    }
+  },
+}
+
+export const SCHEDULERS: Record<SchedulerId, Scheduler> = {
+  sm2: Sm2Scheduler,
+  fsrs: FsrsScheduler,
+}
+
+export function isSchedulerId(v: unknown): v is SchedulerId {
+  return v === 'sm2' || v === 'fsrs'
+}
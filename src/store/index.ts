@@ -1,3 +1,4 @@
 export * from './AppStateManager'
 export * from './VocabularyStore'
 export * from './ApiKeyPool'
+export * from './ReviewLog'
@@ -0,0 +1,53 @@
+// Accepted answers for production mode.
+// Stored per word in the deck CSV ("accepted" column) as a "|"-separated list.
+
+import { getSynonyms } from './synonyms'
+import { getWordFamily } from './wordFamily'
+
+export type AcceptedSuggestion = {
+  word: string
+  // Where the suggestion came from, shown next to the checkbox
+  origin: 'synonym' | 'family'
+  relation?: string
+  pos?: string
+}
+
+const norm = (s: string) => String(s || '').trim().toLowerCase().replace(/\s+/g, ' ')
+
+export function parseAccepted(raw: string | undefined): string[] {
+  const out: string[] = []
+  const seen = new Set<string>()
+  for (const part of String(raw || '').split('|')) {
+    const w = part.trim()
+    if (!w || seen.has(norm(w))) continue
+    seen.add(norm(w))
+    out.push(w)
+  }
+  return out
+}
+
+export function formatAccepted(list: string[]): string {
+  return parseAccepted(list.join('|')).join('|')
+}
+
+/**
+ * Candidates for the accepted list: synonyms plus word-family members.
+ * Nothing is accepted until the user confirms it.
+ */
+export async function suggestAcceptedAnswers(word: string): Promise<AcceptedSuggestion[]> {
+  const [syn, fam] = await Promise.all([
+    getSynonyms(word).catch(() => null),
+    getWordFamily(word).catch(() => null),
+  ])
+  const out: AcceptedSuggestion[] = []
+  const seen = new Set<string>([norm(word)])
+  const push = (s: AcceptedSuggestion) => {
+    const key = norm(s.word)
+    if (!key || seen.has(key)) return
+    seen.add(key)
+    out.push(s)
+  }
+  for (const m of syn?.synonyms || []) push({ word: m.word, origin: 'synonym', relation: m.relation, pos: m.pos })
+  for (const m of fam?.family || []) push({ word: m.word, origin: 'family', relation: m.relation, pos: m.pos })
+  return out
+}
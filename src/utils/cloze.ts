@@ -0,0 +1,148 @@
+// Cloze (fill-in-the-blank) helpers for example sentences.
+// Blanks out the target word together with its common inflections
+// (likes, liked, liking, studies, stopped, happier, ...),
+// using only the rules that fit the card's part of speech.
+
+export type ClozeSentence = {
+  // Text around the blanks: parts.length === blanks.length + 1
+  parts: string[]
+  // The exact forms that were blanked, in sentence order
+  blanks: string[]
+}
+
+const escapeRegex = (s: string) => String(s || '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const VOWELS = 'aeiou'
+
+type InflectionClass = 'verb' | 'noun' | 'adjective' | 'adverb'
+
+// Which inflection rules a part of speech takes; unknown/phrase cards get the noun + verb forms only,
+// so comparative forms like "use" -> "user" or "late" -> "lately" are never blanked for them.
+function inflectionClasses(posRaw?: string): InflectionClass[] {
+  const pos = String(posRaw || '').trim().toLowerCase()
+  if (pos.startsWith('adj')) return ['adjective']
+  if (pos.startsWith('adv')) return ['adverb']
+  if (pos.startsWith('noun')) return ['noun']
+  if (pos.startsWith('verb')) return ['verb']
+  if (!pos || pos === 'phrase' || pos === 'other') return ['noun', 'verb']
+  // Pronouns, prepositions, conjunctions, ... do not inflect.
+  return []
+}
+
+/**
+ * Regular inflected forms of a single English word (lowercase, including the word itself),
+ * limited to the rules that apply to its part of speech.
+ */
+export function inflectionsOf(wordRaw: string, pos?: string): string[] {
+  const w = String(wordRaw || '').trim().toLowerCase()
+  if (!w) return []
+  const out = new Set<string>([w])
+  // Short words ("be", "go", "up") produce more false matches than real inflections.
+  if (!/^[a-z]+$/.test(w) || w.length < 3) return [...out]
+
+  const classes = inflectionClasses(pos)
+  const noun = classes.includes('noun')
+  const verb = classes.includes('verb')
+  const adjective = classes.includes('adjective')
+  const comparative = adjective || classes.includes('adverb')
+
+  const last = w[w.length - 1]
+  const prev = w[w.length - 2]
+  const consonantY = last === 'y' && !VOWELS.includes(prev)
+  const add = (base: string, suffixes: string[]) => {
+    for (const suf of suffixes) out.add(base + suf)
+  }
+
+  // likes, boxes, watches, heroes/photos; studies
+  if ((noun || verb) && !consonantY) add(w, /(s|x|z|ch|sh)$/.test(w) ? ['es'] : last === 'o' ? ['s', 'es'] : ['s'])
+  if ((noun || verb) && consonantY) out.add(w.slice(0, -1) + 'ies')
+
+  // liked, liking, died, dying; studied, studying; stopped, stopping
+  if (verb) {
+    if (last === 'e') {
+      out.add(w + 'd')
+      out.add(w.endsWith('ie') ? w.slice(0, -2) + 'ying' : w.slice(0, -1) + 'ing')
+    } else {
+      out.add((consonantY ? w.slice(0, -1) + 'i' : w) + 'ed')
+      out.add(w + 'ing')
+    }
+  }
+
+  // happier, happiest, happily, happiness; larger, largest; faster, fastest, quickly
+  if (comparative) {
+    if (last === 'e') add(w, ['r', 'st'])
+    else if (consonantY) add(w.slice(0, -1) + 'i', ['er', 'est'])
+    else add(w, ['er', 'est'])
+  }
+  if (adjective) {
+    if (consonantY) add(w.slice(0, -1) + 'i', ['ly', 'ness'])
+    else out.add(w + 'ly')
+  }
+
+  // stop -> stopped, stopping; big -> bigger, biggest (consonant-vowel-consonant)
+  const cvc =
+    !VOWELS.includes(last) &&
+    !'wxy'.includes(last) &&
+    VOWELS.includes(prev) &&
+    !VOWELS.includes(w[w.length - 3])
+  if (cvc && verb) add(w + last, ['ed', 'ing'])
+  if (cvc && comparative) add(w + last, ['er', 'est'])
+
+  return [...out]
+}
+
+function buildPattern(wordRaw: string, pos?: string): RegExp | null {
+  const tokens = String(wordRaw || '').trim().split(/\s+/).filter(Boolean)
+  if (tokens.length === 0) return null
+
+  // Phrases (e.g. "give up") inflect their first word: "gives up", "giving up".
+  const head = inflectionsOf(tokens[0], pos)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegex)
+    .join('|')
+  const tail = tokens.slice(1).map(escapeRegex)
+  const body = [`(?:${head})`, ...tail].join('\\s+')
+  return new RegExp(`(?<![A-Za-z])${body}(?![A-Za-z])`, 'gi')
+}
+
+/**
+ * Split a sentence around every occurrence of the word (or one of its inflections).
+ * Returns null when the sentence does not contain the word.
+ */
+export function buildCloze(sentenceRaw: string, wordRaw: string, pos?: string): ClozeSentence | null {
+  const sentence = String(sentenceRaw || '')
+  if (!sentence.trim()) return null
+  const re = buildPattern(wordRaw, pos)
+  if (!re) return null
+
+  const parts: string[] = []
+  const blanks: string[] = []
+  let cursor = 0
+  for (const m of sentence.matchAll(re)) {
+    const start = m.index ?? 0
+    parts.push(sentence.slice(cursor, start))
+    blanks.push(m[0])
+    cursor = start + m[0].length
+  }
+  if (blanks.length === 0) return null
+  parts.push(sentence.slice(cursor))
+  return { parts, blanks }
+}
+
+/**
+ * Answers accepted for a cloze: the dictionary form or any blanked form that is a
+ * valid inflection of the word for its part of speech.
+ */
+export function clozeAnswers(cloze: ClozeSentence | null, wordRaw: string, pos?: string): string[] {
+  const word = String(wordRaw || '').trim().toLowerCase().replace(/\s+/g, ' ')
+  const [headWord = '', ...rest] = word.split(' ')
+  const tail = rest.join(' ')
+  const forms = new Set(inflectionsOf(headWord, pos))
+  const out = new Set<string>([word])
+  for (const b of cloze?.blanks || []) {
+    const blank = b.trim().toLowerCase().replace(/\s+/g, ' ')
+    const [head = '', ...blankRest] = blank.split(' ')
+    if (forms.has(head) && blankRest.join(' ') === tail) out.add(blank)
+  }
+  return [...out].filter(Boolean)
+}
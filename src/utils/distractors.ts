@@ -0,0 +1,90 @@
+// Distractor selection for multiple-choice quizzes.
+// Wrong options are drawn from the same deck and ranked so they are plausibly
+// confusable with the target: synonyms first, then words with the same part of speech.
+
+export type ChoiceDirection = 'word-to-meaning' | 'meaning-to-word'
+
+export type ChoiceCard = {
+  word: string
+  meaning: string
+  pos?: string
+}
+
+const norm = (s: string) => String(s || '').trim().toLowerCase().replace(/\s+/g, ' ')
+
+function posTags(pos?: string): string[] {
+  return String(pos || '')
+    .toLowerCase()
+    .split(/[\s,/;]+/)
+    .map((p) => p.replace(/[^a-z]/g, ''))
+    .filter(Boolean)
+}
+
+function sharesPos(a?: string, b?: string): boolean {
+  const ta = posTags(a)
+  if (ta.length === 0) return false
+  const tb = new Set(posTags(b))
+  return ta.some((t) => tb.has(t))
+}
+
+/**
+ * The value shown on the correct option for a card.
+ */
+export function choiceAnswer(card: ChoiceCard, direction: ChoiceDirection): string {
+  return direction === 'word-to-meaning' ? card.meaning : card.word
+}
+
+/**
+ * Build shuffled options (the correct answer plus up to `count - 1` distractors).
+ *
+ * `synonyms` come from getSynonyms. Deck cards whose word is a synonym rank highest.
+ * In meaning-to-word direction, synonyms that are not in the deck are used only to fill
+ * up a small deck, since a true synonym may also fit the meaning being asked.
+ */
+export function buildChoiceOptions(
+  target: ChoiceCard,
+  pool: ChoiceCard[],
+  direction: ChoiceDirection,
+  synonyms: string[] = [],
+  count = 4
+): string[] {
+  const answer = choiceAnswer(target, direction)
+  const synonymSet = new Set(synonyms.map(norm).filter(Boolean))
+  const targetLen = answer.length
+
+  const seen = new Set<string>([norm(answer)])
+  const ranked: Array<{ value: string; score: number }> = []
+  for (const c of pool) {
+    if (norm(c.word) === norm(target.word)) continue
+    const value = choiceAnswer(c, direction)
+    const key = norm(value)
+    if (!key || seen.has(key)) continue
+    seen.add(key)
+
+    let score = Math.random() * 0.5
+    if (synonymSet.has(norm(c.word))) score += 3
+    if (sharesPos(target.pos, c.pos)) score += 2
+    // Options of similar length are harder to rule out at a glance
+    score += 1 - Math.min(1, Math.abs(value.length - targetLen) / Math.max(8, targetLen))
+    ranked.push({ value, score })
+  }
+  ranked.sort((a, b) => b.score - a.score)
+
+  const picked = ranked.slice(0, count - 1).map((r) => r.value)
+  if (direction === 'meaning-to-word' && picked.length < count - 1) {
+    for (const s of synonyms) {
+      if (picked.length >= count - 1) break
+      const key = norm(s)
+      if (!key || seen.has(key)) continue
+      seen.add(key)
+      picked.push(s)
+    }
+  }
+
+  const options = [answer, ...picked]
+  for (let i = options.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[options[i], options[j]] = [options[j], options[i]]
+  }
+  return options
+}
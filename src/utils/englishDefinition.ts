@@ -96,6 +96,15 @@ function buildLookupCandidates(word: string): string[] {
 }
 
 async function fetchDictionaryApiDefinition(word: string): Promise<string> {
+  // Found definitions are kept in the main process' persistent response cache
+  const cacheKey = { provider: 'dictionaryapi' as const, kind: 'definition', input: word.toLowerCase() }
+  try {
+    const persisted = await window.api?.responseCacheGet?.(cacheKey)
+    if (persisted) return persisted
+  } catch {
+    // fall through to the network
+  }
+
   const resp = await fetch(`https://api.dictionaryapi.dev/api/v2/entries/en/${encodeURIComponent(word)}`)
   if (!resp.ok) return ''
   const data = await resp.json()
@@ -103,7 +112,10 @@ async function fetchDictionaryApiDefinition(word: string): Promise<string> {
 
   for (const entry of data) {
     const definition = pickDefinitionFromEntry(entry)
-    if (definition) return definition
+    if (definition) {
+      void window.api?.responseCacheSet?.({ ...cacheKey, value: definition }).catch(() => {})
+      return definition
+    }
   }
 
   return ''
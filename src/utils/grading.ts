@@ -0,0 +1,111 @@
+// Shared answer grading for typing modes (Study, Smart Review, Typing game).
+// Tolerates small typos: a single-character slip is reported separately from a wrong word,
+// and a character diff shows exactly what went wrong.
+
+export type GradeVerdict = 'correct' | 'slip' | 'wrong'
+
+export type GradeResult = {
+  verdict: GradeVerdict
+  // Edit distance to the closest expected answer
+  distance: number
+  typed: string
+  // The expected answer the typed text was compared against (closest one)
+  expected: string
+}
+
+export type DiffPart =
+  | { type: 'same'; text: string }
+  | { type: 'missing'; text: string } // in expected, not typed
+  | { type: 'extra'; text: string } // typed, not in expected
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and swaps of two adjacent characters each cost 1.
+ */
+export function editDistance(a: string, b: string): number {
+  const s = Array.from(a)
+  const t = Array.from(b)
+  const rows = s.length + 1
+  const cols = t.length + 1
+  const d: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array<number>(cols).fill(0)
+    row[0] = i
+    return row
+  })
+  for (let j = 0; j < cols; j++) d[0][j] = j
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && s[i - 1] === t[j - 2] && s[i - 2] === t[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return d[rows - 1][cols - 1]
+}
+
+// Words shorter than this must be exact: one letter changes a short word into another word.
+const MIN_LENGTH_FOR_SLIP = 4
+
+/**
+ * Grade a typed answer against one or more expected answers.
+ * Inputs should already be normalized the way the caller wants (case, spaces, punctuation).
+ */
+export function gradeAnswer(typed: string, expected: string | string[]): GradeResult {
+  const list = (Array.isArray(expected) ? expected : [expected]).filter((e) => e !== '')
+  if (list.length === 0) return { verdict: 'wrong', distance: typed.length, typed, expected: '' }
+
+  let best = { expected: list[0], distance: Number.POSITIVE_INFINITY }
+  for (const e of list) {
+    const distance = e === typed ? 0 : editDistance(typed, e)
+    if (distance < best.distance) best = { expected: e, distance }
+    if (distance === 0) break
+  }
+
+  let verdict: GradeVerdict = 'wrong'
+  if (best.distance === 0) verdict = 'correct'
+  else if (best.distance === 1 && typed !== '' && Array.from(best.expected).length >= MIN_LENGTH_FOR_SLIP) verdict = 'slip'
+
+  return { verdict, distance: best.distance, typed, expected: best.expected }
+}
+
+/**
+ * Character-level diff of expected vs typed (longest common subsequence).
+ * Adjacent parts of the same type are merged.
+ */
+export function diffChars(expected: string, typed: string): DiffPart[] {
+  const a = Array.from(expected)
+  const b = Array.from(typed)
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  const push = (type: DiffPart['type'], ch: string) => {
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) last.text += ch
+    else parts.push({ type, text: ch })
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i])
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('missing', a[i++])
+    } else {
+      push('extra', b[j++])
+    }
+  }
+  while (i < a.length) push('missing', a[i++])
+  while (j < b.length) push('extra', b[j++])
+  return parts
+}
@@ -18,6 +18,14 @@ let currentAbortController: AbortController | null = null
 
 let webSpeechToken = 0
 
+export type SpeakOptions = {
+  // Slower playback (used by dictation replays)
+  slow?: boolean
+}
+
+const NORMAL_RATE = 0.85
+const SLOW_RATE = 0.55
+
 function normalizeWord(word: string): string {
   return String(word || '').trim().toLowerCase()
 }
@@ -121,14 +129,14 @@ async function fetchAudioUrl(word: string, signal?: AbortSignal): Promise<string
 /**
  * Fallback to Web Speech API
  */
-function speakWithWebSpeech(text: string): void {
+function speakWithWebSpeech(text: string, rate = NORMAL_RATE): void {
   try {
     const token = ++webSpeechToken
     window.speechSynthesis.cancel()
     // Prevent stale onvoiceschanged from previous calls
     window.speechSynthesis.onvoiceschanged = null
     const ut = new SpeechSynthesisUtterance(text)
-    ut.rate = 0.85
+    ut.rate = rate
     ut.pitch = 1.0
     ut.volume = 1.0
     ut.lang = 'en-US'
@@ -211,10 +219,22 @@ async function playAudioUrl(url: string, token: number, word: string): Promise<v
 /**
  * Speak a word using Web Speech API (consistent voice)
  */
-export async function speakWord(word: string): Promise<void> {
+export async function speakWord(word: string, options?: SpeakOptions): Promise<void> {
   const clean = normalizeWord(word)
   if (!clean) return
+  speakText(clean, options)
+}
+
+/**
+ * Speak a whole sentence (e.g. an example) with the same voice as speakWord
+ */
+export function speakSentence(sentence: string, options?: SpeakOptions): void {
+  const clean = String(sentence || '').trim()
+  if (!clean) return
+  speakText(clean, options)
+}
 
+function speakText(text: string, options?: SpeakOptions): void {
   // Stop current playback immediately
   if (currentAudio) {
     currentAudio.pause()
@@ -224,7 +244,7 @@ export async function speakWord(word: string): Promise<void> {
   window.speechSynthesis.onvoiceschanged = null
 
   // Use Web Speech API directly for consistent voice
-  speakWithWebSpeech(clean)
+  speakWithWebSpeech(text, options?.slow ? SLOW_RATE : NORMAL_RATE)
 }
 
 /**
@@ -0,0 +1,33 @@
+// Word tags (e.g. "toeic business").
+// Stored in the deck CSV ("tags" column) as a space-separated list and on SRS records as string[].
+
+const normTag = (s: string) => String(s || '').trim().toLowerCase().replace(/^#/, '')
+
+// Accepts spaces or commas as separators; tags are lower-cased and de-duplicated.
+export function parseTags(raw: string | string[] | undefined): string[] {
+  const parts = Array.isArray(raw) ? raw : String(raw || '').split(/[\s,]+/)
+  const out: string[] = []
+  for (const part of parts) {
+    const tag = normTag(part)
+    if (tag && !out.includes(tag)) out.push(tag)
+  }
+  return out
+}
+
+export function formatTags(tags: string[] | undefined): string {
+  return parseTags(tags).join(' ')
+}
+
+// All tags used by `items`, sorted
+export function collectTags(items: Iterable<{ tags?: string | string[] }>): string[] {
+  const all = new Set<string>()
+  for (const item of items) parseTags(item.tags).forEach((t) => all.add(t))
+  return [...all].sort((a, b) => a.localeCompare(b))
+}
+
+// True when the item has at least one of the wanted tags (no wanted tags = no filter)
+export function matchesAnyTag(tags: string | string[] | undefined, wanted: string[]): boolean {
+  if (wanted.length === 0) return true
+  const own = parseTags(tags)
+  return wanted.some((t) => own.includes(normTag(t)))
+}
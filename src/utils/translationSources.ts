@@ -0,0 +1,23 @@
+// Labels for the translation/dictionary provider that produced an auto-meaning candidate.
+// Provider ids come from the main-process provider chain (see TranslationProviderId).
+
+export const TRANSLATION_SOURCE_LABELS: Record<string, string> = {
+  llm: 'AI',
+  azure: 'Azure',
+  offline: 'Từ điển offline',
+  libretranslate: 'LibreTranslate',
+}
+
+type SourcedCandidate = { source?: string; dictionary?: string; back?: string[] }
+
+export function candidateSourceLabel(c: SourcedCandidate): string {
+  if (!c.source) return ''
+  const label = TRANSLATION_SOURCE_LABELS[c.source] || c.source
+  return c.dictionary ? `${label}: ${c.dictionary}` : label
+}
+
+// Tooltip for a candidate chip: back-translations plus where it came from
+export function candidateTitle(c: SourcedCandidate): string {
+  const source = candidateSourceLabel(c)
+  return [c.back && c.back.length > 0 ? c.back.join(', ') : '', source ? `Nguồn: ${source}` : ''].filter(Boolean).join('\n')
+}